@@ -0,0 +1,298 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { randomUUID } from "crypto";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { z } from "zod";
+import {
+  COLLAB_PATH,
+  type ClientMessage,
+  type OpEnvelope,
+  type Peer,
+  type ServerMessage,
+} from "@shared/collab-protocol";
+import { applyOp, transformOps, type TextOp } from "@shared/ot";
+import { canAccessScreenplay, storage } from "./storage";
+import { log } from "./vite";
+
+// غرف التحرير المشترك: لكل سيناريو مفتوح نص واحد في الذاكرة هو المرجع، وسجل عمليات
+// يُحوَّل عليه ما يصل من العملاء ويُستعمل لإكمال ما فات من يعيد الاتصال
+
+const PEER_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#65a30d"];
+const HISTORY_LIMIT = 1000;
+const PERSIST_DELAY = 1000;
+const HEARTBEAT_INTERVAL = 30000;
+
+const opSchema = z.array(z.union([z.string(), z.number().int().refine((n) => n !== 0)]));
+const cursorSchema = z.object({ block: z.number().int().min(0), offset: z.number().int().min(0) }).nullable();
+const clientMessageSchema: z.ZodType<ClientMessage> = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join"),
+    revision: z.number().int().min(0).nullable(),
+    epoch: z.string().nullable(),
+    pending: z.string().nullable(),
+  }),
+  z.object({ type: z.literal("op"), revision: z.number().int().min(0), id: z.string().min(1), op: opSchema }),
+  z.object({ type: z.literal("cursor"), cursor: cursorSchema }),
+]);
+
+interface Connection {
+  socket: WebSocket;
+  peer: Peer;
+  joined: boolean;
+  alive: boolean;
+}
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+class Room {
+  /** يميّز هذه الغرفة عن غرفة سابقة للسيناريو نفسه بدأت أرقام مراجعاتها من الصفر أيضًا */
+  readonly epoch = randomUUID();
+  revision = 0;
+  readonly connections = new Set<Connection>();
+  /** history[i] نقلت النص من المراجعة historyStart + i إلى التي تليها */
+  private history: OpEnvelope[] = [];
+  private historyStart = 0;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * appliedIds: معرّفات آخر العمليات المطبّقة على السيناريو، تنتقل من الغرفة السابقة إلى التالية
+   * كي يعرف عميل ضاع تأكيده أن عمليته صارت في النص وإن تغيّرت الحقبة
+   */
+  constructor(readonly screenplayId: string, public doc: string, private readonly appliedIds: string[]) {}
+
+  hasApplied(id: string): boolean {
+    return this.appliedIds.includes(id);
+  }
+
+  opsSince(revision: number): OpEnvelope[] | null {
+    if (revision < this.historyStart || revision > this.revision) return null;
+    return this.history.slice(revision - this.historyStart);
+  }
+
+  /** يطبّق عملية عميل كُتبت على المراجعة revision ويعيد رقم المراجعة الجديدة */
+  receive(revision: number, envelope: OpEnvelope): { revision: number; op: TextOp; duplicate: boolean } {
+    const applied = this.history.findIndex((entry) => entry.id === envelope.id);
+    if (applied !== -1) {
+      return { revision: this.historyStart + applied + 1, op: this.history[applied].op, duplicate: true };
+    }
+
+    const concurrent = this.opsSince(revision);
+    if (!concurrent) throw new Error("مراجعة غير معروفة");
+
+    let op = envelope.op;
+    for (const past of concurrent) {
+      [op] = transformOps(op, past.op);
+    }
+    this.doc = applyOp(this.doc, op);
+    this.history.push({ id: envelope.id, op });
+    this.appliedIds.push(envelope.id);
+    this.revision++;
+    if (this.history.length > HISTORY_LIMIT) {
+      this.history.shift();
+      this.historyStart++;
+    }
+    if (this.appliedIds.length > HISTORY_LIMIT) this.appliedIds.shift();
+    this.schedulePersist();
+    return { revision: this.revision, op, duplicate: false };
+  }
+
+  peers(): Peer[] {
+    return Array.from(this.connections)
+      .filter((connection) => connection.joined)
+      .map((connection) => connection.peer);
+  }
+
+  nextColor(): string {
+    const used = new Set(Array.from(this.connections).map((connection) => connection.peer.color));
+    return PEER_COLORS.find((color) => !used.has(color)) ?? PEER_COLORS[this.connections.size % PEER_COLORS.length];
+  }
+
+  broadcast(message: ServerMessage, except?: Connection) {
+    for (const connection of Array.from(this.connections)) {
+      if (connection !== except && connection.joined) send(connection.socket, message);
+    }
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = setTimeout(() => {
+      this.persist().catch((error) => log(`persist failed: ${error}`, "collab"));
+    }, PERSIST_DELAY);
+  }
+
+  async persist() {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    await storage.updateScreenplay(this.screenplayId, { content: this.doc });
+  }
+}
+
+export interface CollaborationHub {
+  /** هل في السيناريو غرفة مفتوحة؟ نصها حينئذٍ هو المرجع لا ما يرسله الحفظ العادي */
+  isLive(screenplayId: string): boolean;
+  closeRoom(screenplayId: string): void;
+  disconnectUser(screenplayId: string, userId: string): void;
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+export function setupCollaboration(server: Server, sessionMiddleware: RequestHandler): CollaborationHub {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 16 * 1024 * 1024 });
+  const rooms = new Map<string, Room>();
+  /** معرّفات العمليات المطبّقة لكل سيناريو، تبقى بعد إغلاق غرفته */
+  const appliedIds = new Map<string, string[]>();
+
+  const leave = (room: Room, connection: Connection) => {
+    if (!room.connections.delete(connection)) return;
+    room.broadcast({ type: "presence", peers: room.peers() });
+    if (room.connections.size === 0) {
+      if (rooms.get(room.screenplayId) === room) rooms.delete(room.screenplayId);
+      room.persist().catch((error) => log(`persist failed: ${error}`, "collab"));
+    }
+  };
+
+  const handleMessage = (room: Room, connection: Connection, message: ClientMessage) => {
+    switch (message.type) {
+      case "join": {
+        connection.joined = true;
+        // مراجعة من غرفة سابقة لا تدل على شيء هنا: يُرسل النص كاملًا
+        const ops = message.revision === null || message.epoch !== room.epoch ? null : room.opsSince(message.revision);
+        send(connection.socket, {
+          type: "joined",
+          clientId: connection.peer.clientId,
+          epoch: room.epoch,
+          revision: room.revision,
+          ...(ops
+            ? { ops }
+            : { doc: room.doc, pendingApplied: message.pending !== null && room.hasApplied(message.pending) }),
+          peers: room.peers(),
+        });
+        room.broadcast({ type: "presence", peers: room.peers() }, connection);
+        break;
+      }
+
+      case "op": {
+        if (!connection.joined) throw new Error("لم ينضم العميل إلى الغرفة بعد");
+        const { revision, op, duplicate } = room.receive(message.revision, { id: message.id, op: message.op });
+        send(connection.socket, { type: "ack", revision, id: message.id });
+        if (!duplicate) room.broadcast({ type: "op", revision, id: message.id, op }, connection);
+        break;
+      }
+
+      case "cursor":
+        connection.peer.cursor = message.cursor;
+        room.broadcast({ type: "cursor", clientId: connection.peer.clientId, cursor: message.cursor }, connection);
+        break;
+    }
+  };
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    // مسارات أخرى (مثل HMR في Vite) يتولاها غيرنا
+    if (url.pathname !== COLLAB_PATH) return;
+
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as Request).session?.passport?.user;
+        const user = userId ? await storage.getUser(userId) : undefined;
+        if (!user) return reject(socket, "401 Unauthorized");
+
+        const screenplayId = url.searchParams.get("screenplay") ?? "";
+        const screenplay = await storage.getScreenplay(screenplayId);
+        if (!screenplay || !(await canAccessScreenplay(screenplay, user.id))) {
+          return reject(socket, "404 Not Found");
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          let room = rooms.get(screenplay.id);
+          if (!room) {
+            let applied = appliedIds.get(screenplay.id);
+            if (!applied) {
+              applied = [];
+              appliedIds.set(screenplay.id, applied);
+            }
+            room = new Room(screenplay.id, screenplay.content, applied);
+            rooms.set(screenplay.id, room);
+          }
+          const activeRoom = room;
+
+          const connection: Connection = {
+            socket: ws,
+            joined: false,
+            alive: true,
+            peer: {
+              clientId: randomUUID(),
+              userId: user.id,
+              username: user.username,
+              color: activeRoom.nextColor(),
+              cursor: null,
+            },
+          };
+          activeRoom.connections.add(connection);
+
+          ws.on("pong", () => {
+            connection.alive = true;
+          });
+          ws.on("message", (data: RawData) => {
+            try {
+              const message = clientMessageSchema.parse(JSON.parse(data.toString()));
+              handleMessage(activeRoom, connection, message);
+            } catch (error) {
+              send(ws, { type: "error", message: error instanceof Error ? error.message : "رسالة غير صالحة" });
+            }
+          });
+          ws.on("close", () => leave(activeRoom, connection));
+        });
+      } catch (error) {
+        log(`upgrade failed: ${error}`, "collab");
+        reject(socket, "500 Internal Server Error");
+      }
+    });
+  });
+
+  // الاتصالات المقطوعة دون إغلاق (نوم الجهاز، انقطاع الشبكة) تُكتشف بالنبض
+  const heartbeat = setInterval(() => {
+    for (const room of Array.from(rooms.values())) {
+      for (const connection of Array.from(room.connections)) {
+        if (!connection.alive) {
+          connection.socket.terminate();
+          leave(room, connection);
+          continue;
+        }
+        connection.alive = false;
+        connection.socket.ping();
+      }
+    }
+  }, HEARTBEAT_INTERVAL);
+  server.on("close", () => clearInterval(heartbeat));
+
+  return {
+    isLive: (screenplayId) => rooms.has(screenplayId),
+
+    closeRoom(screenplayId) {
+      const room = rooms.get(screenplayId);
+      appliedIds.delete(screenplayId);
+      if (!room) return;
+      rooms.delete(screenplayId);
+      for (const connection of Array.from(room.connections)) {
+        connection.socket.close(4404, "screenplay deleted");
+      }
+    },
+
+    disconnectUser(screenplayId, userId) {
+      const room = rooms.get(screenplayId);
+      if (!room) return;
+      for (const connection of Array.from(room.connections)) {
+        if (connection.peer.userId === userId) connection.socket.close(4403, "access revoked");
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import { registerRoutes } from "./routes";
+import { log, serveStatic, setupVite } from "./vite";
+
+const app = express();
+// نصوص السيناريو الطويلة تتجاوز الحد الافتراضي (100kb)
+app.use(express.json({ limit: "10mb" }));
+app.use(express.urlencoded({ extended: false }));
+
+app.use((req, res, next) => {
+  const start = Date.now();
+  const path = req.path;
+  let capturedJsonResponse: unknown;
+
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    capturedJsonResponse = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  res.on("finish", () => {
+    const duration = Date.now() - start;
+    if (path.startsWith("/api")) {
+      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+      if (capturedJsonResponse) {
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      }
+
+      if (logLine.length > 80) {
+        logLine = logLine.slice(0, 79) + "…";
+      }
+
+      log(logLine);
+    }
+  });
+
+  next();
+});
+
+/** حالة HTTP التي يحملها الخطأ (HttpError أو أخطاء body-parser)، وإلا 500 */
+function errorStatus(err: unknown): number {
+  if (!(err instanceof Error)) return 500;
+  if ("status" in err && typeof err.status === "number") return err.status;
+  if ("statusCode" in err && typeof err.statusCode === "number") return err.statusCode;
+  return 500;
+}
+
+(async () => {
+  const server = await registerRoutes(app);
+
+  app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    const status = errorStatus(err);
+    const message = (err instanceof Error && err.message) || "Internal Server Error";
+
+    if (status >= 500) console.error(err);
+    res.status(status).json({ message });
+  });
+
+  // Vite يُركَّب بعد المسارات كي لا يلتقط مساره العام طلبات /api
+  if (app.get("env") === "development") {
+    await setupVite(app, server);
+  } else {
+    serveStatic(app);
+  }
+
+  const port = parseInt(process.env.PORT || "5000", 10);
+  server.listen({ port, host: "0.0.0.0" }, () => {
+    log(`serving on port ${port}`);
+  });
+})();
@@ -0,0 +1,219 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import { createServer, type Server } from "http";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  addCollaboratorSchema,
+  insertRevisionSchema,
+  insertScreenplaySchema,
+  putDataSchema,
+  screenplayDataKeySchema,
+  updateScreenplaySchema,
+  userDataKeySchema,
+} from "@shared/schema";
+import { requireAuth, setupAuth } from "./auth";
+import { setupCollaboration } from "./collab";
+import { canAccessScreenplay, storage } from "./storage";
+
+const replaceScreenplaySchema = insertScreenplaySchema.omit({ id: true });
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new HttpError(400, fromZodError(result.error).toString());
+  }
+  return result.data;
+}
+
+// Express 4 لا يلتقط أخطاء المعالجات غير المتزامنة
+function route(handler: (req: Request, res: Response) => Promise<void>): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
+
+// سيناريوهات لا يملكها المستخدم ولا يشارك فيها تُعامل كأنها غير موجودة
+async function requireScreenplay(req: Request) {
+  const screenplay = await storage.getScreenplay(req.params.id);
+  if (!screenplay || !(await canAccessScreenplay(screenplay, req.user!.id))) {
+    throw new HttpError(404, "السيناريو غير موجود");
+  }
+  return screenplay;
+}
+
+async function requireOwnedScreenplay(req: Request) {
+  const screenplay = await requireScreenplay(req);
+  if (screenplay.ownerId !== req.user!.id) {
+    throw new HttpError(403, "هذا الإجراء لمالك السيناريو فقط");
+  }
+  return screenplay;
+}
+
+function parseDataKey<T extends z.ZodTypeAny>(schema: T, key: string): z.infer<T> {
+  const result = schema.safeParse(key);
+  if (!result.success) throw new HttpError(404, "لا بيانات بهذا الاسم");
+  return result.data;
+}
+
+async function requireProject(req: Request, projectId: string | null | undefined) {
+  if (!projectId) return;
+  const project = await storage.getProject(projectId);
+  if (!project || (project.ownerId && project.ownerId !== req.user!.id)) {
+    throw new HttpError(400, "المشروع غير موجود");
+  }
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  const sessionMiddleware = setupAuth(app);
+  const httpServer = createServer(app);
+  const collab = setupCollaboration(httpServer, sessionMiddleware);
+
+  app.use("/api/screenplays", requireAuth);
+  app.use("/api/user/data", requireAuth);
+
+  app.get("/api/screenplays", route(async (req, res) => {
+    res.json(await storage.listScreenplays(req.user!.id));
+  }));
+
+  app.post("/api/screenplays", route(async (req, res) => {
+    const data = parseBody(insertScreenplaySchema, req.body);
+    if (data.id && (await storage.getScreenplay(data.id))) {
+      throw new HttpError(409, "يوجد سيناريو بهذا المعرّف");
+    }
+    await requireProject(req, data.projectId);
+    res.status(201).json(await storage.createScreenplay(req.user!.id, data));
+  }));
+
+  app.get("/api/screenplays/:id", route(async (req, res) => {
+    res.json(await requireScreenplay(req));
+  }));
+
+  // PUT يستبدل السيناريو أو ينشئه بالمعرّف المعطى (للسيناريوهات المنشأة في المتصفح)
+  app.put("/api/screenplays/:id", route(async (req, res) => {
+    const data = parseBody(replaceScreenplaySchema, req.body);
+    await requireProject(req, data.projectId);
+    if (await storage.getScreenplay(req.params.id)) {
+      await requireScreenplay(req);
+      // أثناء التحرير المشترك نص الغرفة هو المرجع، فلا يطغى عليه حفظ أحد العملاء
+      const changes = collab.isLive(req.params.id) ? { ...data, content: undefined } : data;
+      res.json(await storage.updateScreenplay(req.params.id, changes));
+      return;
+    }
+    const id = parseBody(z.string().uuid(), req.params.id);
+    res.status(201).json(await storage.createScreenplay(req.user!.id, { ...data, id }));
+  }));
+
+  app.patch("/api/screenplays/:id", route(async (req, res) => {
+    const data = parseBody(updateScreenplaySchema, req.body);
+    await requireScreenplay(req);
+    await requireProject(req, data.projectId);
+    const changes = collab.isLive(req.params.id) ? { ...data, content: undefined } : data;
+    res.json(await storage.updateScreenplay(req.params.id, changes));
+  }));
+
+  app.delete("/api/screenplays/:id", route(async (req, res) => {
+    await requireOwnedScreenplay(req);
+    collab.closeRoom(req.params.id);
+    await storage.deleteScreenplay(req.params.id);
+    res.status(204).end();
+  }));
+
+  app.get("/api/screenplays/:id/collaborators", route(async (req, res) => {
+    await requireScreenplay(req);
+    res.json(await storage.listCollaborators(req.params.id));
+  }));
+
+  app.post("/api/screenplays/:id/collaborators", route(async (req, res) => {
+    const screenplay = await requireOwnedScreenplay(req);
+    const { username } = parseBody(addCollaboratorSchema, req.body);
+    const user = await storage.getUserByUsername(username);
+    if (!user) throw new HttpError(404, "لا يوجد مستخدم بهذا الاسم");
+    if (user.id === screenplay.ownerId) throw new HttpError(400, "المالك مشارك أصلًا");
+    await storage.addCollaborator(screenplay.id, user.id);
+    res.status(201).json(await storage.listCollaborators(screenplay.id));
+  }));
+
+  // المالك يزيل أي مشارك، والمشارك يستطيع مغادرة السيناريو بنفسه
+  app.delete("/api/screenplays/:id/collaborators/:userId", route(async (req, res) => {
+    const screenplay = await requireScreenplay(req);
+    if (screenplay.ownerId !== req.user!.id && req.params.userId !== req.user!.id) {
+      throw new HttpError(403, "هذا الإجراء لمالك السيناريو فقط");
+    }
+    if (!(await storage.removeCollaborator(screenplay.id, req.params.userId))) {
+      throw new HttpError(404, "المستخدم ليس مشاركًا");
+    }
+    collab.disconnectUser(screenplay.id, req.params.userId);
+    res.status(204).end();
+  }));
+
+  app.get("/api/screenplays/:id/revisions", route(async (req, res) => {
+    await requireScreenplay(req);
+    res.json(await storage.listRevisions(req.params.id));
+  }));
+
+  app.post("/api/screenplays/:id/revisions", route(async (req, res) => {
+    await requireScreenplay(req);
+    const data = parseBody(insertRevisionSchema, req.body);
+    // المعرّف قد يكون لنسخة من سيناريو آخر، فلا يُستبدل ما يوجد به
+    if (data.id && (await storage.getRevision(data.id))) {
+      throw new HttpError(409, "توجد نسخة بهذا المعرّف");
+    }
+    res.status(201).json(await storage.createRevision(req.params.id, data));
+  }));
+
+  app.delete("/api/screenplays/:id/revisions/:revisionId", route(async (req, res) => {
+    await requireScreenplay(req);
+    if (!(await storage.deleteRevision(req.params.id, req.params.revisionId))) {
+      throw new HttpError(404, "النسخة غير موجودة");
+    }
+    res.status(204).end();
+  }));
+
+  // بيانات مرافقة (الترقيم المقفل وغيره): يراها المشاركون وتُحذف مع السيناريو
+  app.get("/api/screenplays/:id/data/:key", route(async (req, res) => {
+    await requireScreenplay(req);
+    const key = parseDataKey(screenplayDataKeySchema, req.params.key);
+    res.json((await storage.getScreenplayData(req.params.id, key)) ?? null);
+  }));
+
+  app.put("/api/screenplays/:id/data/:key", route(async (req, res) => {
+    await requireScreenplay(req);
+    const key = parseDataKey(screenplayDataKeySchema, req.params.key);
+    const { value } = parseBody(putDataSchema, req.body);
+    await storage.setScreenplayData(req.params.id, key, value);
+    res.status(204).end();
+  }));
+
+  app.delete("/api/screenplays/:id/data/:key", route(async (req, res) => {
+    await requireScreenplay(req);
+    const key = parseDataKey(screenplayDataKeySchema, req.params.key);
+    await storage.setScreenplayData(req.params.id, key, null);
+    res.status(204).end();
+  }));
+
+  app.get("/api/user/data/:key", route(async (req, res) => {
+    const key = parseDataKey(userDataKeySchema, req.params.key);
+    res.json((await storage.getUserData(req.user!.id, key)) ?? null);
+  }));
+
+  app.put("/api/user/data/:key", route(async (req, res) => {
+    const key = parseDataKey(userDataKeySchema, req.params.key);
+    const { value } = parseBody(putDataSchema, req.body);
+    await storage.setUserData(req.user!.id, key, value);
+    res.status(204).end();
+  }));
+
+  app.delete("/api/user/data/:key", route(async (req, res) => {
+    const key = parseDataKey(userDataKeySchema, req.params.key);
+    await storage.setUserData(req.user!.id, key, null);
+    res.status(204).end();
+  }));
+
+  return httpServer;
+}
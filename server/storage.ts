@@ -0,0 +1,244 @@
+import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import type {
+  Collaborator,
+  InsertProject,
+  InsertRevision,
+  InsertScreenplay,
+  InsertUser,
+  Project,
+  PublicUser,
+  Revision,
+  Screenplay,
+  ScreenplayDataKey,
+  ScreenplaySummary,
+  UpdateScreenplay,
+  User,
+  UserDataKey,
+} from "@shared/schema";
+
+const MemoryStore = createMemoryStore(session);
+
+// واجهة التخزين التي تعتمد عليها المسارات؛ MemStorage للتشغيل المحلي دون Postgres
+// (التخزين على Postgres يستعمل connect-pg-simple مخزنًا للجلسات بدل memorystore)
+
+export interface IStorage {
+  sessionStore: session.Store;
+
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+
+  getProject(id: string): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+
+  /** ما يملكه المستخدم وما شورك فيه */
+  listScreenplays(userId: string): Promise<ScreenplaySummary[]>;
+  getScreenplay(id: string): Promise<Screenplay | undefined>;
+  createScreenplay(ownerId: string, screenplay: InsertScreenplay): Promise<Screenplay>;
+  updateScreenplay(id: string, changes: UpdateScreenplay): Promise<Screenplay | undefined>;
+  deleteScreenplay(id: string): Promise<boolean>;
+
+  listCollaborators(screenplayId: string): Promise<PublicUser[]>;
+  isCollaborator(screenplayId: string, userId: string): Promise<boolean>;
+  addCollaborator(screenplayId: string, userId: string): Promise<void>;
+  removeCollaborator(screenplayId: string, userId: string): Promise<boolean>;
+
+  listRevisions(screenplayId: string): Promise<Revision[]>;
+  getRevision(id: string): Promise<Revision | undefined>;
+  createRevision(screenplayId: string, revision: InsertRevision): Promise<Revision>;
+  deleteRevision(screenplayId: string, id: string): Promise<boolean>;
+
+  /** قيمة JSON المحفوظة، أو undefined */
+  getScreenplayData(screenplayId: string, key: ScreenplayDataKey): Promise<unknown>;
+  /** null يحذف القيمة */
+  setScreenplayData(screenplayId: string, key: ScreenplayDataKey, value: unknown): Promise<void>;
+  getUserData(userId: string, key: UserDataKey): Promise<unknown>;
+  setUserData(userId: string, key: UserDataKey, value: unknown): Promise<void>;
+}
+
+export class MemStorage implements IStorage {
+  sessionStore: session.Store = new MemoryStore({ checkPeriod: 86400000 });
+  private users = new Map<string, User>();
+  private projects = new Map<string, Project>();
+  private screenplays = new Map<string, Screenplay>();
+  private collaborators: Collaborator[] = [];
+  private revisions = new Map<string, Revision>();
+  private screenplayData = new Map<string, Map<ScreenplayDataKey, unknown>>();
+  private userData = new Map<string, Map<UserDataKey, unknown>>();
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = { ...insertUser, id: randomUUID() };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const project: Project = {
+      id: randomUUID(),
+      ownerId: insertProject.ownerId ?? null,
+      name: insertProject.name,
+      createdAt: new Date(),
+    };
+    this.projects.set(project.id, project);
+    return project;
+  }
+
+  async listScreenplays(userId: string): Promise<ScreenplaySummary[]> {
+    const shared = new Set(
+      this.collaborators.filter((entry) => entry.userId === userId).map((entry) => entry.screenplayId),
+    );
+    return Array.from(this.screenplays.values())
+      .filter((screenplay) => screenplay.ownerId === userId || shared.has(screenplay.id))
+      .map(({ content: _content, ...summary }) => summary)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getScreenplay(id: string): Promise<Screenplay | undefined> {
+    return this.screenplays.get(id);
+  }
+
+  async createScreenplay(ownerId: string, insertScreenplay: InsertScreenplay): Promise<Screenplay> {
+    const now = new Date();
+    const screenplay: Screenplay = {
+      id: insertScreenplay.id ?? randomUUID(),
+      ownerId,
+      projectId: insertScreenplay.projectId ?? null,
+      title: insertScreenplay.title,
+      content: insertScreenplay.content ?? "",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.screenplays.set(screenplay.id, screenplay);
+    return screenplay;
+  }
+
+  async updateScreenplay(id: string, changes: UpdateScreenplay): Promise<Screenplay | undefined> {
+    const existing = this.screenplays.get(id);
+    if (!existing) return undefined;
+    const updated: Screenplay = {
+      ...existing,
+      projectId: changes.projectId === undefined ? existing.projectId : changes.projectId,
+      title: changes.title ?? existing.title,
+      content: changes.content ?? existing.content,
+      updatedAt: new Date(),
+    };
+    this.screenplays.set(id, updated);
+    return updated;
+  }
+
+  async deleteScreenplay(id: string): Promise<boolean> {
+    if (!this.screenplays.delete(id)) return false;
+    this.collaborators = this.collaborators.filter((entry) => entry.screenplayId !== id);
+    Array.from(this.revisions.values())
+      .filter((revision) => revision.screenplayId === id)
+      .forEach((revision) => this.revisions.delete(revision.id));
+    this.screenplayData.delete(id);
+    return true;
+  }
+
+  async listCollaborators(screenplayId: string): Promise<PublicUser[]> {
+    return this.collaborators
+      .filter((entry) => entry.screenplayId === screenplayId)
+      .map((entry) => this.users.get(entry.userId))
+      .filter((user): user is User => user !== undefined)
+      .map(({ password: _password, ...user }) => user);
+  }
+
+  async isCollaborator(screenplayId: string, userId: string): Promise<boolean> {
+    return this.collaborators.some(
+      (entry) => entry.screenplayId === screenplayId && entry.userId === userId,
+    );
+  }
+
+  async addCollaborator(screenplayId: string, userId: string): Promise<void> {
+    if (await this.isCollaborator(screenplayId, userId)) return;
+    this.collaborators.push({ screenplayId, userId, addedAt: new Date() });
+  }
+
+  async removeCollaborator(screenplayId: string, userId: string): Promise<boolean> {
+    const before = this.collaborators.length;
+    this.collaborators = this.collaborators.filter(
+      (entry) => !(entry.screenplayId === screenplayId && entry.userId === userId),
+    );
+    return this.collaborators.length < before;
+  }
+
+  async listRevisions(screenplayId: string): Promise<Revision[]> {
+    return Array.from(this.revisions.values())
+      .filter((revision) => revision.screenplayId === screenplayId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getRevision(id: string): Promise<Revision | undefined> {
+    return this.revisions.get(id);
+  }
+
+  async createRevision(screenplayId: string, insertRevision: InsertRevision): Promise<Revision> {
+    const revision: Revision = {
+      id: insertRevision.id ?? randomUUID(),
+      screenplayId,
+      name: insertRevision.name,
+      content: insertRevision.content,
+      createdAt: new Date(),
+    };
+    this.revisions.set(revision.id, revision);
+    return revision;
+  }
+
+  async deleteRevision(screenplayId: string, id: string): Promise<boolean> {
+    const revision = this.revisions.get(id);
+    if (!revision || revision.screenplayId !== screenplayId) return false;
+    return this.revisions.delete(id);
+  }
+
+  async getScreenplayData(screenplayId: string, key: ScreenplayDataKey): Promise<unknown> {
+    return this.screenplayData.get(screenplayId)?.get(key);
+  }
+
+  async setScreenplayData(screenplayId: string, key: ScreenplayDataKey, value: unknown): Promise<void> {
+    setEntry(this.screenplayData, screenplayId, key, value);
+  }
+
+  async getUserData(userId: string, key: UserDataKey): Promise<unknown> {
+    return this.userData.get(userId)?.get(key);
+  }
+
+  async setUserData(userId: string, key: UserDataKey, value: unknown): Promise<void> {
+    setEntry(this.userData, userId, key, value);
+  }
+}
+
+function setEntry<K>(entries: Map<string, Map<K, unknown>>, ownerId: string, key: K, value: unknown) {
+  const owned = entries.get(ownerId) ?? new Map<K, unknown>();
+  if (value === null) {
+    owned.delete(key);
+  } else {
+    owned.set(key, value);
+  }
+  if (owned.size > 0) {
+    entries.set(ownerId, owned);
+  } else {
+    entries.delete(ownerId);
+  }
+}
+
+export const storage: IStorage = new MemStorage();
+
+/** المالك والكتّاب المشاركون فقط */
+export async function canAccessScreenplay(screenplay: Screenplay, userId: string): Promise<boolean> {
+  return screenplay.ownerId === userId || storage.isCollaborator(screenplay.id, userId);
+}
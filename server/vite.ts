@@ -0,0 +1,61 @@
+import express, { type Express } from "express";
+import fs from "fs";
+import path from "path";
+import type { Server } from "http";
+import { createServer as createViteServer } from "vite";
+import viteConfig from "../vite.config";
+
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
+
+// في التطوير يعمل Vite وسيطًا داخل الخادم نفسه، فتشترك الواجهة والـ API في منفذ واحد
+export async function setupVite(app: Express, server: Server) {
+  const vite = await createViteServer({
+    ...viteConfig,
+    configFile: false,
+    server: {
+      middlewareMode: true,
+      hmr: { server },
+      allowedHosts: true,
+    },
+    appType: "custom",
+  });
+
+  app.use(vite.middlewares);
+  app.use("*", async (req, res, next) => {
+    try {
+      const template = await fs.promises.readFile(
+        path.resolve(import.meta.dirname, "..", "index.html"),
+        "utf-8",
+      );
+      const page = await vite.transformIndexHtml(req.originalUrl, template);
+      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+    } catch (e) {
+      vite.ssrFixStacktrace(e as Error);
+      next(e);
+    }
+  });
+}
+
+export function serveStatic(app: Express) {
+  const distPath = path.resolve(import.meta.dirname, "public");
+
+  if (!fs.existsSync(distPath)) {
+    throw new Error(
+      `Could not find the build directory: ${distPath}, make sure to build the client first`,
+    );
+  }
+
+  app.use(express.static(distPath));
+  app.use("*", (_req, res) => {
+    res.sendFile(path.resolve(distPath, "index.html"));
+  });
+}
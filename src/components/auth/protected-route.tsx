@@ -0,0 +1,37 @@
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: () => JSX.Element;
+}
+
+/**
+ * مسار لا يُعرض إلا للمستخدم المسجّل؛ غيره يُحوَّل إلى صفحة الدخول.
+ * إن تعذّر الوصول إلى الخادم (Vite وحده) يُعرض دون حساب ويبقى التخزين محليًا
+ */
+export function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading, error } = useAuth();
+
+  if (isLoading) {
+    return (
+      <Route path={path}>
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Route>
+    );
+  }
+
+  // الخادم يرد على غير المسجّل بـ 401 فيكون user فارغًا دون خطأ
+  if (!user && !error) {
+    return (
+      <Route path={path}>
+        <Redirect to="/auth" />
+      </Route>
+    );
+  }
+
+  return <Route path={path} component={Component} />;
+}
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, type RefObject } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser, FileJson, FileSpreadsheet, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Breakdown } from "@/hooks/use-breakdown";
+import {
+  BREAKDOWN_CATEGORIES,
+  breakdownCsv,
+  breakdownJson,
+  buildBreakdownSheet,
+  locateSelection,
+  mapDomSegments,
+  tagRanges,
+  type BreakdownCategory,
+} from "@/lib/breakdown";
+import { exportToCsv, exportToJson } from "@/lib/file-handlers";
+
+interface BreakdownBarProps {
+  breakdown: Breakdown;
+  content: string;
+  /** المحرر المعروض، لقراءة التحديد وتلوين الوسوم */
+  editorRoot: RefObject<HTMLElement>;
+  onClose: () => void;
+}
+
+const highlightName = (category: BreakdownCategory) => `breakdown-${category}`;
+
+function clearHighlights() {
+  if (typeof CSS === "undefined" || !("highlights" in CSS)) return;
+  BREAKDOWN_CATEGORIES.forEach(({ id }) => CSS.highlights.delete(highlightName(id)));
+}
+
+/** وضع التفريغ: وسم التحديد في الحركة والحوار بفئته، وتصدير ورقة التفريغ لكل مشهد */
+export default function BreakdownBar({ breakdown, content, editorRoot, onClose }: BreakdownBarProps) {
+  const { tags, addTag, removeTags } = breakdown;
+  const { toast } = useToast();
+
+  const counts = useMemo(() => {
+    const byCategory = new Map<BreakdownCategory, number>();
+    tags.forEach((tag) => byCategory.set(tag.category, (byCategory.get(tag.category) ?? 0) + 1));
+    return byCategory;
+  }, [tags]);
+
+  // الوسوم ملوّنة عبر CSS Custom Highlight كالبحث، بعد أن يعيد المحرر بناء صفحاته
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      clearHighlights();
+      if (!editorRoot.current || typeof CSS === "undefined" || !("highlights" in CSS)) return;
+      const segments = mapDomSegments(editorRoot.current, content);
+      BREAKDOWN_CATEGORIES.forEach(({ id }) => {
+        const ranges = tags.filter((tag) => tag.category === id).flatMap((tag) => tagRanges(segments, tag));
+        if (ranges.length > 0) CSS.highlights.set(highlightName(id), new Highlight(...ranges));
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [content, tags, editorRoot]);
+
+  useEffect(() => clearHighlights, []);
+
+  const selectionLocation = () => {
+    const selection = window.getSelection();
+    if (!editorRoot.current || !selection || selection.rangeCount === 0) return null;
+    return locateSelection(mapDomSegments(editorRoot.current, content), selection.getRangeAt(0));
+  };
+
+  const handleTag = (category: BreakdownCategory) => {
+    const location = selectionLocation();
+    if (!location || location.start === location.end) {
+      toast({ title: "حدّد نصًا للوسم", description: "الوسم داخل سطر حركة أو حوار واحد", variant: "destructive" });
+      return;
+    }
+    addTag(category, location);
+  };
+
+  const handleUntag = () => {
+    const location = selectionLocation();
+    if (!location || removeTags(location) === 0) {
+      toast({ title: "لا وسوم في التحديد" });
+    }
+  };
+
+  const exportSheet = (format: "csv" | "json") => {
+    const sheet = buildBreakdownSheet(content, tags);
+    if (format === "csv") exportToCsv(breakdownCsv(sheet), "breakdown.csv");
+    else exportToJson(breakdownJson(sheet), "breakdown.json");
+  };
+
+  return (
+    <div
+      className="fixed top-14 right-4 z-50 rounded-lg border border-border bg-card p-3 shadow-lg space-y-2"
+      data-testid="breakdown-bar"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">التفريغ الإنتاجي</span>
+        <Button variant="ghost" size="sm" onClick={onClose} title="إنهاء وضع التفريغ" data-testid="button-close-breakdown">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      {/* منع الضغط من إزالة التحديد في المحرر قبل قراءته */}
+      <div className="flex flex-wrap items-center gap-1" onMouseDown={(e) => e.preventDefault()}>
+        {BREAKDOWN_CATEGORIES.map(({ id, label }) => (
+          <Button
+            key={id}
+            variant="outline"
+            size="sm"
+            onClick={() => handleTag(id)}
+            data-testid={`button-tag-${id}`}
+          >
+            <span className="w-2.5 h-2.5 rounded-full ml-1" style={{ backgroundColor: `var(--breakdown-${id})` }} />
+            {label}
+            <span className="text-xs text-muted-foreground mr-1">{counts.get(id) ?? 0}</span>
+          </Button>
+        ))}
+        <Button variant="ghost" size="sm" onClick={handleUntag} title="إزالة الوسم من التحديد" data-testid="button-untag">
+          <Eraser className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button variant="secondary" size="sm" onClick={() => exportSheet("csv")} data-testid="button-export-breakdown-csv">
+          <FileSpreadsheet className="w-3 h-3 ml-1" />
+          ورقة التفريغ CSV
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => exportSheet("json")} data-testid="button-export-breakdown-json">
+          <FileJson className="w-3 h-3 ml-1" />
+          JSON
+        </Button>
+      </div>
+    </div>
+  );
+}
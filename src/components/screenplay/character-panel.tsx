@@ -0,0 +1,150 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PenLine } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { collectCast, type CastMember } from "@/lib/character-autocomplete";
+import { applyRename, groupEditsByScene, planCharacterRename } from "@/lib/character-rename";
+
+interface CharacterPanelProps {
+  content: string;
+  onContentChange: (content: string) => void;
+}
+
+/** طاقم السيناريو، وإعادة تسمية شخصية في النص كله بعد معاينة الأسطر المتأثرة */
+export default function CharacterPanel({ content, onContentChange }: CharacterPanelProps) {
+  const cast = useMemo(() => collectCast(content), [content]);
+  const [target, setTarget] = useState<CastMember | null>(null);
+  const [newName, setNewName] = useState("");
+  const [mentions, setMentions] = useState(false);
+  // الأسطر التي أزال الكاتب تحديدها من المعاينة
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const { toast } = useToast();
+
+  const edits = useMemo(
+    () => (target ? planCharacterRename(content, target.name, newName, { mentions }) : []),
+    [target, content, newName, mentions]
+  );
+  const groups = useMemo(() => groupEditsByScene(content, edits), [content, edits]);
+  const selected = edits.filter((edit) => !excluded.has(edit.line));
+
+  const openRename = (member: CastMember) => {
+    setTarget(member);
+    setNewName(member.name);
+    setExcluded(new Set());
+  };
+
+  const toggleLine = (line: number) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(line)) next.add(line);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!target || selected.length === 0) return;
+    onContentChange(applyRename(content, selected));
+    toast({ title: "تمت إعادة التسمية", description: `${target.name} ← ${newName.trim()} في ${selected.length} سطرًا` });
+    setTarget(null);
+  };
+
+  return (
+    <div>
+      <h3 className="text-md font-medium mb-3">الشخصيات</h3>
+      {cast.length === 0 ? (
+        <p className="text-xs text-muted-foreground">لا شخصيات بعد</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto space-y-1 text-sm" data-testid="list-characters">
+          {cast.map((member) => (
+            <li key={member.key} className="flex items-center justify-between gap-2 rounded px-2 hover:bg-muted">
+              <span className="truncate">{member.name}</span>
+              <span className="flex items-center gap-1">
+                <span className="text-xs text-muted-foreground">{member.count}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openRename(member)}
+                  title="إعادة تسمية"
+                  data-testid={`button-rename-${member.key}`}
+                >
+                  <PenLine className="w-3 h-3" />
+                </Button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={target !== null} onOpenChange={(open) => !open && setTarget(null)}>
+        <DialogContent className="max-w-lg" dir="rtl">
+          <DialogHeader>
+            <DialogTitle>إعادة تسمية {target?.name}</DialogTitle>
+            <DialogDescription>تتغيّر كل مداخل الشخصية بصيغها، ومنها "صوت {target?.name}"</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <Input
+              value={newName}
+              onChange={(e) => {
+                setNewName(e.target.value);
+                setExcluded(new Set());
+              }}
+              placeholder="الاسم الجديد"
+              data-testid="input-new-character-name"
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="rename-mentions"
+                checked={mentions}
+                onCheckedChange={(checked) => setMentions(checked === true)}
+                data-testid="checkbox-rename-mentions"
+              />
+              <Label htmlFor="rename-mentions" className="text-sm">ذكر الاسم في الحوار والحركة أيضًا</Label>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto space-y-3 text-sm" data-testid="list-rename-preview">
+              {groups.length === 0 && <p className="text-xs text-muted-foreground">لا أسطر تتغيّر</p>}
+              {groups.map(({ header, edits: sceneEdits }) => (
+                <div key={sceneEdits[0].line}>
+                  <div className="text-xs font-medium text-muted-foreground mb-1">
+                    {header ? `${header.sceneNum || "مشهد"} ${header.place ? `– ${header.place}` : ""}` : "قبل المشهد الأول"}
+                  </div>
+                  {sceneEdits.map((edit) => (
+                    <label key={edit.line} className="flex items-start gap-2 rounded px-1 py-0.5 hover:bg-muted cursor-pointer">
+                      <Checkbox
+                        checked={!excluded.has(edit.line)}
+                        onCheckedChange={() => toggleLine(edit.line)}
+                        className="mt-0.5"
+                      />
+                      <span className="min-w-0">
+                        <span className="block text-muted-foreground line-through truncate">{edit.before.trim()}</span>
+                        <span className={`block truncate ${edit.kind === "cue" ? "font-medium" : ""}`}>{edit.after.trim()}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={handleApply} disabled={selected.length === 0} data-testid="button-apply-rename">
+              تغيير {selected.length} سطرًا
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { UserMinus, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { Collaboration } from "@/hooks/use-collaboration";
+import { apiRequest, describeApiError, queryClient } from "@/lib/queryClient";
+import type { PublicUser } from "@shared/schema";
+
+interface CollaborationPanelProps {
+  screenplayId: string;
+  collaboration: Collaboration;
+}
+
+/** الحاضرون الآن في السيناريو، ومشاركته مع مستخدمين آخرين بأسمائهم */
+export default function CollaborationPanel({ screenplayId, collaboration }: CollaborationPanelProps) {
+  const [username, setUsername] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const collaboratorsKey = ["/api/screenplays", screenplayId, "collaborators"];
+
+  const { data: collaborators = [] } = useQuery<PublicUser[]>({ queryKey: collaboratorsKey });
+
+  const onError = (error: Error) => {
+    toast({ title: "فشلت العملية", description: describeApiError(error), variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", `/api/screenplays/${screenplayId}/collaborators`, { username: name });
+      return (await res.json()) as PublicUser[];
+    },
+    onSuccess: (list) => {
+      queryClient.setQueryData(collaboratorsKey, list);
+      setUsername("");
+      toast({ title: "تمت المشاركة" });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/screenplays/${screenplayId}/collaborators/${userId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: collaboratorsKey }),
+    onError,
+  });
+
+  const handleAdd = () => {
+    if (username.trim()) addMutation.mutate(username.trim());
+  };
+
+  return (
+    <div>
+      <h3 className="text-md font-medium mb-3">الكتابة المشتركة</h3>
+      <div className="space-y-3 text-sm">
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">الحاضرون الآن</div>
+          {collaboration.peers.length === 0 ? (
+            <p className="text-xs text-muted-foreground">لا أحد غيرك</p>
+          ) : (
+            <ul className="space-y-1" data-testid="list-present-peers">
+              {collaboration.peers.map((peer) => (
+                <li key={peer.clientId} className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: peer.color }}></span>
+                  <span>{peer.username}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">المشاركون</div>
+          {collaborators.length > 0 && (
+            <ul className="space-y-1 mb-2" data-testid="list-collaborators">
+              {collaborators.map((collaborator) => (
+                <li key={collaborator.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{collaborator.username}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={collaborator.id === user?.id ? "مغادرة السيناريو" : "إزالة"}
+                    onClick={() => removeMutation.mutate(collaborator.id)}
+                    disabled={removeMutation.isPending}
+                    data-testid={`button-remove-collaborator-${collaborator.username}`}
+                  >
+                    <UserMinus className="w-3 h-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd();
+              }}
+              placeholder="اسم المستخدم"
+              dir="auto"
+              data-testid="input-collaborator"
+            />
+            <Button
+              size="sm"
+              onClick={handleAdd}
+              disabled={addMutation.isPending}
+              data-testid="button-add-collaborator"
+            >
+              <UserPlus className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState, type ReactNode, type RefObject } from "react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuLabel,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import type { LineElement } from "@/lib/screenplay-document";
+import { ELEMENT_LABELS, ELEMENT_SHORTCUTS, getElementKind, getLineElement } from "@/lib/editor-elements";
+
+interface ElementContextMenuProps {
+  editorRef: RefObject<HTMLElement>;
+  /** فرض النوع على السطر؛ يُحفظ ببادئته فيبقى بعد إعادة التنسيق */
+  onReclassify: (element: LineElement, line: HTMLElement) => void;
+  children: ReactNode;
+}
+
+/** القائمة السياقية للمحرر: إعادة تصنيف السطر تحت المؤشر، ومنها تأكيد التخمين المسطّر */
+export default function ElementContextMenu({ editorRef, onReclassify, children }: ElementContextMenuProps) {
+  const [line, setLine] = useState<HTMLElement | null>(null);
+  const kind = line ? getElementKind(line) : null;
+  const uncertain = line?.dataset.uncertain === "true";
+
+  return (
+    <ContextMenu dir="rtl">
+      <ContextMenuTrigger
+        asChild
+        onContextMenu={(e) => setLine(editorRef.current ? getLineElement(editorRef.current, e.target as Node) : null)}
+      >
+        {children}
+      </ContextMenuTrigger>
+      <ContextMenuContent className="w-52" data-testid="menu-reclassify">
+        <ContextMenuLabel>{uncertain ? "نوع السطر (تخمين، للمراجعة)" : "نوع السطر"}</ContextMenuLabel>
+        <ContextMenuSeparator />
+        <ContextMenuRadioGroup value={kind ?? ""}>
+          {ELEMENT_SHORTCUTS.map((element, index) => (
+            <ContextMenuRadioItem
+              key={element}
+              value={element}
+              disabled={!line}
+              onSelect={() => line && onReclassify(element, line)}
+              data-testid={`menu-element-${element}`}
+            >
+              {ELEMENT_LABELS[element]}
+              <ContextMenuShortcut dir="ltr">Ctrl+{index + 1}</ContextMenuShortcut>
+            </ContextMenuRadioItem>
+          ))}
+        </ContextMenuRadioGroup>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
@@ -0,0 +1,33 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { LineElement } from "@/lib/screenplay-document";
+import { ELEMENT_LABELS, ELEMENT_SHORTCUTS } from "@/lib/editor-elements";
+
+interface ElementSelectProps {
+  value: LineElement;
+  onChange: (element: LineElement) => void;
+}
+
+/** نوع السطر الحالي في شريط المحرر؛ الاختيار منه يفرض النوع كـ Ctrl+رقم */
+export default function ElementSelect({ value, onChange }: ElementSelectProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as LineElement)}>
+      <SelectTrigger className="h-8 w-36" title="نوع السطر (Tab للتبديل)" data-testid="select-element">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ELEMENT_SHORTCUTS.map((element, index) => (
+          <SelectItem key={element} value={element} data-testid={`option-element-${element}`}>
+            <span>{ELEMENT_LABELS[element]}</span>
+            <span className="mr-2 text-xs text-muted-foreground" dir="ltr">Ctrl+{index + 1}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
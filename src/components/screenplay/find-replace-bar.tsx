@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState, type RefObject } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Toggle } from "@/components/ui/toggle";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronUp, Replace, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { collectCast } from "@/lib/character-autocomplete";
+import { ELEMENT_LABELS } from "@/lib/editor-elements";
+import { compileSearch, findDomRanges, findMatches, replaceMatches, type SearchOptions } from "@/lib/find-replace";
+import type { LineElement } from "@/lib/screenplay-document";
+
+const SCOPE_ELEMENTS: LineElement[] = ['scene-header', 'action', 'character', 'dialogue', 'parenthetical', 'transition'];
+const ANY = "*";
+
+interface FindReplaceBarProps {
+  content: string;
+  onContentChange: (content: string) => void;
+  /** المحرر المعروض، لتظليل المطابقات في صفحاته */
+  editorRoot: RefObject<HTMLElement>;
+}
+
+// التظليل عبر CSS Custom Highlight فلا يمس DOM المحرر القابل للتحرير
+function setHighlights(all: Range[], current: Range | null) {
+  if (typeof CSS === "undefined" || !("highlights" in CSS)) return;
+  CSS.highlights.delete("search-results");
+  CSS.highlights.delete("search-current");
+  if (all.length > 0) CSS.highlights.set("search-results", new Highlight(...all));
+  if (current) CSS.highlights.set("search-current", new Highlight(current));
+}
+
+/** البحث والاستبدال (Ctrl+F و Ctrl+H) مع التطبيع العربي وتقييد نوع العنصر */
+export default function FindReplaceBar({ content, onContentChange, editorRoot }: FindReplaceBarProps) {
+  const [open, setOpen] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [wholeWord, setWholeWord] = useState(false);
+  const [normalize, setNormalize] = useState(true);
+  const [regex, setRegex] = useState(false);
+  const [element, setElement] = useState<string>(ANY);
+  const [character, setCharacter] = useState<string>(ANY);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const queryRef = useRef<HTMLInputElement>(null);
+  // التمرير إلى المطابقة الحالية عند التنقل فقط، لا مع كل تعديل في النص
+  const revealRef = useRef(false);
+  const { toast } = useToast();
+
+  const options: SearchOptions = useMemo(() => ({
+    query,
+    wholeWord,
+    normalize,
+    regex,
+    scope: {
+      ...(element !== ANY ? { element: element as LineElement } : {}),
+      ...(element === 'dialogue' && character !== ANY ? { character } : {}),
+    },
+  }), [query, wholeWord, normalize, regex, element, character]);
+
+  const invalid = regex && query !== "" && compileSearch(options) === null;
+  const matches = useMemo(() => (open ? findMatches(content, options) : []), [open, content, options]);
+  const cast = useMemo(() => (element === 'dialogue' ? collectCast(content) : []), [element, content]);
+  const current = matches.length > 0 ? Math.min(activeIndex, matches.length - 1) : -1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const replace = e.code === "KeyH" || e.key.toLowerCase() === "h";
+      if (!replace && e.code !== "KeyF" && e.key.toLowerCase() !== "f") return;
+      e.preventDefault();
+      setOpen(true);
+      setShowReplace(replace);
+      // التحديد الحالي في المحرر يصبح نص البحث
+      const selected = window.getSelection()?.toString().trim();
+      if (selected && !selected.includes("\n")) setQuery(selected);
+      requestAnimationFrame(() => queryRef.current?.select());
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    setActiveIndex(0);
+    revealRef.current = true;
+  }, [options]);
+
+  // بعد أن يعيد المحرر بناء صفحاته من النص الجديد
+  useEffect(() => {
+    if (!open || !editorRoot.current) {
+      setHighlights([], null);
+      return;
+    }
+    const frame = requestAnimationFrame(() => {
+      const ranges = editorRoot.current ? findDomRanges(editorRoot.current, options) : [];
+      const active = current >= 0 ? ranges[current] ?? null : null;
+      setHighlights(ranges, active);
+      if (revealRef.current && active) {
+        active.startContainer.parentElement?.scrollIntoView({ behavior: "smooth", block: "center" });
+        revealRef.current = false;
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [open, content, options, current, editorRoot]);
+
+  useEffect(() => () => setHighlights([], null), []);
+
+  const step = (delta: number) => {
+    if (matches.length === 0) return;
+    revealRef.current = true;
+    setActiveIndex((current + delta + matches.length) % matches.length);
+  };
+
+  const handleReplace = () => {
+    if (current < 0) return;
+    onContentChange(replaceMatches(content, [matches[current]], replacement, regex));
+  };
+
+  const handleReplaceAll = () => {
+    if (matches.length === 0) return;
+    onContentChange(replaceMatches(content, matches, replacement, regex));
+    toast({ title: "تم الاستبدال", description: `استُبدلت ${matches.length} مطابقة` });
+  };
+
+  const close = () => {
+    setOpen(false);
+    setHighlights([], null);
+  };
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed top-14 left-4 z-50 w-[30rem] rounded-lg border border-border bg-card p-3 shadow-lg space-y-2"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") close();
+      }}
+      data-testid="find-replace-bar"
+    >
+      <div className="flex items-center gap-1">
+        <Input
+          ref={queryRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              step(e.shiftKey ? -1 : 1);
+            }
+          }}
+          placeholder="بحث"
+          className={`h-8 ${invalid ? "border-destructive" : ""}`}
+          data-testid="input-find"
+        />
+        <span className="text-xs text-muted-foreground whitespace-nowrap px-1" data-testid="text-match-count">
+          {invalid ? "تعبير غير صالح" : matches.length > 0 ? `${current + 1} / ${matches.length}` : "لا نتائج"}
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => step(-1)} disabled={matches.length === 0} title="السابق (Shift+Enter)">
+          <ChevronUp className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => step(1)} disabled={matches.length === 0} title="التالي (Enter)">
+          <ChevronDown className="w-4 h-4" />
+        </Button>
+        <Button
+          variant={showReplace ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => setShowReplace(!showReplace)}
+          title="استبدال (Ctrl+H)"
+          data-testid="button-toggle-replace"
+        >
+          <Replace className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={close} title="إغلاق (Esc)" data-testid="button-close-find">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {showReplace && (
+        <div className="flex items-center gap-1">
+          <Input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder={regex ? "استبدال ($1 للمجموعة الأولى)" : "استبدال"}
+            className="h-8"
+            data-testid="input-replace"
+          />
+          <Button variant="outline" size="sm" onClick={handleReplace} disabled={current < 0} data-testid="button-replace">
+            استبدال
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleReplaceAll} disabled={matches.length === 0} data-testid="button-replace-all">
+            الكل
+          </Button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1">
+        <Toggle size="sm" pressed={wholeWord} onPressedChange={setWholeWord} title="كلمة كاملة" data-testid="toggle-whole-word">
+          كلمة كاملة
+        </Toggle>
+        <Toggle size="sm" pressed={normalize} onPressedChange={setNormalize} title="تجاهل التشكيل وصور الهمزة والأرقام المشرقية" data-testid="toggle-normalize">
+          أ = ا
+        </Toggle>
+        <Toggle size="sm" pressed={regex} onPressedChange={setRegex} title="تعبير نمطي" data-testid="toggle-regex">
+          <span dir="ltr">.*</span>
+        </Toggle>
+        <Select value={element} onValueChange={setElement}>
+          <SelectTrigger className="h-8 w-32" data-testid="select-find-scope">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>كل النص</SelectItem>
+            {SCOPE_ELEMENTS.map((scope) => (
+              <SelectItem key={scope} value={scope}>{ELEMENT_LABELS[scope]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {element === 'dialogue' && (
+          <Select value={character} onValueChange={setCharacter}>
+            <SelectTrigger className="h-8 w-32" data-testid="select-find-character">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>كل الشخصيات</SelectItem>
+              {cast.map((member) => (
+                <SelectItem key={member.key} value={member.name}>{member.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import type { LineAutocomplete } from "@/hooks/use-line-autocomplete";
+
+interface LineSuggestionsProps {
+  autocomplete: LineAutocomplete;
+}
+
+/** قائمة اقتراحات الإكمال تحت السطر الحالي؛ تُوضع داخل عنصر position: relative كطبقة المؤشرات */
+export default function LineSuggestions({ autocomplete }: LineSuggestionsProps) {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const { suggestions, activeIndex, anchor, accept } = autocomplete;
+
+  useLayoutEffect(() => {
+    const layer = layerRef.current;
+    if (!layer || !anchor || suggestions.length === 0) {
+      setPosition(null);
+      return;
+    }
+    const origin = layer.getBoundingClientRect();
+    const rect = anchor.getBoundingClientRect();
+    setPosition({ top: rect.bottom - origin.top, right: origin.right - rect.right });
+  }, [anchor, suggestions]);
+
+  return (
+    <div ref={layerRef} className="pointer-events-none absolute inset-0">
+      {position && suggestions.length > 0 && (
+        <ul
+          className="pointer-events-auto absolute z-20 min-w-40 rounded-md border border-border bg-popover py-1 text-sm shadow-md"
+          style={position}
+          role="listbox"
+          data-testid="list-line-suggestions"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`cursor-pointer px-3 py-1 ${index === activeIndex ? "bg-accent text-accent-foreground" : ""}`}
+              // mousedown قبل أن يفقد المحرر التركيز والتحديد
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(index);
+              }}
+              data-testid={`option-suggestion-${index}`}
+            >
+              {suggestion}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,43 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { AlignLeft, Undo, Redo, FileText } from "lucide-react";
-import { createPagedHTML } from "@/lib/screenplay-parser";
+import { appendScreenplay, createPagedHTML } from "@/lib/screenplay-parser";
 import { useToast } from "@/hooks/use-toast";
 import Ruler from "../ui/ruler";
 import { AdvancedPaginationEngine } from "@/lib/advanced-pagination-engine";
+import { getCaretPosition, setCaretPosition } from "@/lib/caret-position";
+import { extractPaginatedText, isExternalContent, type StyleLine } from "@/lib/editor-elements";
+import { useElementWorkflow } from "@/hooks/use-element-workflow";
+import { useLineAutocomplete } from "@/hooks/use-line-autocomplete";
+import { layoutRevisedScreenplay, type RevisionSet } from "@/lib/revisions";
+import type { CursorPosition, Peer } from "@shared/collab-protocol";
+import RemoteCursors from "./remote-cursors";
+import ElementSelect from "./element-select";
+import ElementContextMenu from "./element-context-menu";
+import LineSuggestions from "./line-suggestions";
+
+// أصناف محرك الترقيم؛ رأس المشهد المكتوب سطرًا واحدًا يأخذ تنسيق المكان
+const styleLine: StyleLine = (element, kind) => {
+  element.className = kind === 'scene-header' ? 'scene-header-3' : kind;
+};
 
 interface PaginatedUnifiedEditorProps {
   content: string;
   onContentChange: (content: string) => void;
+  /** الكتّاب الآخرون في السيناريو نفسه ومواضع مؤشراتهم */
+  remoteCursors?: Peer[];
+  onCursorChange?: (cursor: CursorPosition | null) => void;
+  /** وضع المراجعات: الترقيم على الصفحات المقفلة بألوانها وعلاماتها */
+  revisions?: RevisionSet | null;
 }
 
-export default function PaginatedUnifiedEditor({ content, onContentChange }: PaginatedUnifiedEditorProps) {
+export default function PaginatedUnifiedEditor({
+  content,
+  onContentChange,
+  remoteCursors = [],
+  onCursorChange,
+  revisions = null,
+}: PaginatedUnifiedEditorProps) {
   const editorRef = useRef<HTMLDivElement>(null);
   const [undoStack, setUndoStack] = useState<string[]>([]);
   const [redoStack, setRedoStack] = useState<string[]>([]);
@@ -19,66 +45,33 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
   const [totalPages, setTotalPages] = useState(1);
   const [isEditing, setIsEditing] = useState(true); // Enable editing by default
   const [paginationEngine, setPaginationEngine] = useState<AdvancedPaginationEngine | null>(null);
+  // آخر نص أبلغ عنه المحرر؛ أي قيمة مختلفة في content أتت من الخارج (فتح، استيراد، استعادة نسخة)
+  const lastEmittedRef = useRef<string | null>(null);
   const { toast } = useToast();
 
+  const emitContent = useCallback((text: string) => {
+    lastEmittedRef.current = text;
+    onContentChange(text);
+  }, [onContentChange]);
+
+  // إعادة بناء الصفحات من النص، على الصفحات المقفلة في وضع المراجعات؛ يعيد عدد الصفحات
+  const renderPages = useCallback((text: string): number => {
+    if (!paginationEngine) return 0;
+    const host = editorRef.current?.querySelector<HTMLElement>('.pages-host');
+    if (revisions && host) {
+      layoutRevisedScreenplay(host, text, revisions);
+      return host.querySelectorAll('.page').length;
+    }
+    paginationEngine.clear();
+    appendScreenplay(paginationEngine, text);
+    return paginationEngine.getPageCount();
+  }, [paginationEngine, revisions]);
+
   // Extract text content from paginated HTML
   const extractTextFromPaginatedHTML = useCallback((html: string): string => {
     const tempDiv = document.createElement('div');
     tempDiv.innerHTML = html;
-
-    let text = '';
-    const pages = tempDiv.querySelectorAll('.page');
-
-    pages.forEach((page) => {
-      const pageContent = page.querySelector('.page-content');
-      if (pageContent) {
-        // Extract text while preserving structure
-        const elements = pageContent.children;
-        for (let i = 0; i < elements.length; i++) {
-          const element = elements[i];
-          const className = element.className;
-
-          if (className.includes('basmala')) {
-            text += element.textContent + '\n\n';
-          } else if (className.includes('scene-header')) {
-            // Handle complex scene headers
-            if (element.querySelector('.scene-header-top-line')) {
-              const sceneNum = element.querySelector('.scene-header-1')?.textContent || '';
-              const timeLocation = element.querySelector('.scene-header-2')?.textContent || '';
-              const place = element.querySelector('.scene-header-3')?.textContent || '';
-              text += `${sceneNum} ${timeLocation}\n${place}\n\n`;
-            } else {
-              text += element.textContent + '\n\n';
-            }
-          } else if (className.includes('dialogue-block')) {
-            // Handle dialogue blocks
-            const characterName =
-              element.querySelector('.character-name')?.textContent ||
-              element.querySelector('.character')?.textContent ||
-              '';
-            text += characterName + ':\n';
-
-            const parentheticals = element.querySelectorAll('.parenthetical');
-            const dialogues = element.querySelectorAll('.dialogue-text, .dialogue');
-
-            parentheticals.forEach(p => text += p.textContent + '\n');
-            dialogues.forEach(d => text += d.textContent + '\n');
-            text += '\n';
-          } else if (className.includes('action')) {
-            const actionText = element.textContent?.trim();
-            if (actionText) {
-              text += actionText + '\n\n';
-            } else {
-              text += '\n';
-            }
-          } else if (className.includes('transition')) {
-            text += element.textContent + '\n\n';
-          }
-        }
-      }
-    });
-
-    return text.replace(/\n{3,}/g, '\n\n').trim();
+    return extractPaginatedText(tempDiv);
   }, []);
 
   // Calculate pagination and update display
@@ -99,21 +92,13 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
     }
   }, []);
 
-  // Handle content editing with advanced engine
-  const handleInput = useCallback((e: React.FormEvent) => {
-    if (!isEditing || !paginationEngine) return;
-
-    const target = e.target as HTMLElement;
-    let newContent = '';
-
-    // Extract text from the specific element being edited
-    if (target.closest('.page-content')) {
-      const allPagesText = extractTextFromPaginatedHTML(editorRef.current?.innerHTML || '');
-      newContent = allPagesText;
-    }
+  // نص الصفحات الحالي إلى الأعلى وإلى سجل التراجع
+  const syncFromDom = useCallback(() => {
+    if (!paginationEngine) return;
+    const newContent = extractTextFromPaginatedHTML(editorRef.current?.innerHTML || '');
 
     // Update content
-    onContentChange(newContent);
+    emitContent(newContent);
 
     // Add to undo stack
     setUndoStack(prev => [...prev.slice(-19), newContent]);
@@ -121,8 +106,25 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
 
     // Update page count
     setTotalPages(paginationEngine.getPageCount());
+  }, [paginationEngine, extractTextFromPaginatedHTML, emitContent]);
 
-  }, [isEditing, paginationEngine, extractTextFromPaginatedHTML, onContentChange]);
+  const elementWorkflow = useElementWorkflow(editorRef, { styleLine, onChange: syncFromDom });
+  const lineAutocomplete = useLineAutocomplete(editorRef, { content, onChange: syncFromDom });
+
+  // Handle content editing with advanced engine
+  const handleInput = useCallback((e: React.FormEvent) => {
+    if (!isEditing || !paginationEngine) return;
+
+    // Extract text from the specific element being edited
+    if ((e.target as HTMLElement).closest('.page-content')) {
+      syncFromDom();
+    }
+  }, [isEditing, paginationEngine, syncFromDom]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (!isEditing || lineAutocomplete.handleKeyDown(e)) return;
+    elementWorkflow.handleKeyDown(e);
+  }, [isEditing, lineAutocomplete.handleKeyDown, elementWorkflow.handleKeyDown]);
 
   // Handle paste operations with advanced engine
   const handlePaste = useCallback((e: React.ClipboardEvent) => {
@@ -140,55 +142,19 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
     const pastedText = e.clipboardData.getData('text/plain');
     const lines = pastedText.split('\n');
     
-    // مسح المحتوى الحالي وإعادة البناء
-    paginationEngine.clear();
-    
-    // معالجة كل سطر
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      
-      if (trimmed.includes('بسم الله الرحمن الرحيم')) {
-        paginationEngine.appendBlock(() => {
-          const basmala = document.createElement('div');
-          basmala.className = 'basmala';
-          basmala.textContent = trimmed;
-          return basmala;
-        });
-      } else if (trimmed.match(/^(مشهد|م\.)\s*\d+/i)) {
-        const parts = trimmed.split(/[-–—]/)
-        const sceneNum = parts[0]?.trim() || trimmed;
-        const timeLocation = parts[1]?.trim() || '';
-        const place = parts[2]?.trim() || '';
-        paginationEngine.appendSceneHeader(sceneNum, timeLocation, place);
-      } else if (trimmed.match(/^[\u0600-\u06FF][\u0600-\u06FF\s]*:/)) {
-        const [character, ...dialogueParts] = trimmed.split(':');
-        const dialogue = dialogueParts.join(':').trim();
-        paginationEngine.appendDialogue(character.trim(), dialogue || 'حوار...');
-      } else if (trimmed.match(/^\(.*\)$/)) {
-        paginationEngine.appendBlock(() => {
-          const par = document.createElement('div');
-          par.className = 'parenthetical';
-          par.textContent = trimmed;
-          return par;
-        });
-      } else if (trimmed.match(/^(قطع|انتقال|فيد|ذوبان)/i)) {
-        paginationEngine.appendTransition(trimmed);
-      } else {
-        paginationEngine.appendAction(trimmed);
-      }
-    }
-    
-    onContentChange(pastedText);
-    setTotalPages(paginationEngine.getPageCount());
+    // مسح المحتوى الحالي وإعادة البناء من نموذج الوثيقة الموحّد
+    const pageCount = renderPages(pastedText);
+
+    emitContent(pastedText);
+    setTotalPages(pageCount);
     setUndoStack(prev => [...prev.slice(-19), pastedText]);
     setRedoStack([]);
 
     toast({
       title: "تم اللصق بنجاح ✅",
-      description: `تم إدراج النص مع الترقيم التلقائي (${lines.length} سطر، ${paginationEngine.getPageCount()} صفحة)`,
+      description: `تم إدراج النص مع الترقيم التلقائي (${lines.length} سطر، ${pageCount} صفحة)`,
     });
-  }, [isEditing, paginationEngine, onContentChange, toast]);
+  }, [isEditing, paginationEngine, renderPages, emitContent, toast]);
 
   // Undo functionality with advanced engine
   const handleUndo = () => {
@@ -200,15 +166,10 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
       setUndoStack(prev => prev.slice(0, -1));
 
       // إعادة بناء المحتوى
-      paginationEngine.clear();
-      const lines = previous.split('\n');
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed) paginationEngine.appendAction(trimmed);
-      }
-      
-      onContentChange(previous);
-      setTotalPages(paginationEngine.getPageCount());
+      const pageCount = renderPages(previous);
+
+      emitContent(previous);
+      setTotalPages(pageCount);
     }
   };
 
@@ -221,15 +182,10 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
       setRedoStack(prev => prev.slice(0, -1));
 
       // إعادة بناء المحتوى
-      paginationEngine.clear();
-      const lines = next.split('\n');
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed) paginationEngine.appendAction(trimmed);
-      }
-      
-      onContentChange(next);
-      setTotalPages(paginationEngine.getPageCount());
+      const pageCount = renderPages(next);
+
+      emitContent(next);
+      setTotalPages(pageCount);
     }
   };
 
@@ -240,30 +196,13 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
     const currentText = extractTextFromPaginatedHTML(editorRef.current?.innerHTML || '');
     
     // إعادة بناء المحتوى بالتنسيق الصحيح
-    paginationEngine.clear();
-    const lines = currentText.split('\n');
-    
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      
-      if (trimmed.includes('بسم الله الرحمن الرحيم')) {
-        paginationEngine.appendBlock(() => {
-          const basmala = document.createElement('div');
-          basmala.className = 'basmala';
-          basmala.textContent = trimmed;
-          return basmala;
-        });
-      } else {
-        paginationEngine.appendAction(trimmed);
-      }
-    }
-    
-    setTotalPages(paginationEngine.getPageCount());
+    const pageCount = renderPages(currentText);
+
+    setTotalPages(pageCount);
 
     toast({
       title: "تم التنسيق",
-      description: `تم إعادة تنسيق النص (${paginationEngine.getPageCount()} صفحة)`,
+      description: `تم إعادة تنسيق النص (${pageCount} صفحة)`,
     });
   };
 
@@ -313,6 +252,37 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
     }
   }, [editorRef.current, paginationEngine, content]);
 
+  // إعادة بناء الصفحات عندما يتغيّر النص من خارج المحرر
+  useEffect(() => {
+    if (!paginationEngine || !isExternalContent(content, lastEmittedRef.current)) return;
+
+    lastEmittedRef.current = content;
+    // تعديلات الكتّاب الآخرين تصل أثناء الكتابة، فلا يقفز المؤشر إلى البداية
+    const caret = editorRef.current ? getCaretPosition(editorRef.current) : null;
+    const pageCount = renderPages(content);
+    if (caret && editorRef.current) setCaretPosition(editorRef.current, caret);
+    setTotalPages(pageCount);
+    setUndoStack([content]);
+    setRedoStack([]);
+  }, [content, paginationEngine, renderPages]);
+
+  // قفل الصفحات أو بدء مراجعة أو إلغاء القفل يغيّر الترقيم دون أن يتغيّر النص
+  useEffect(() => {
+    if (!paginationEngine || lastEmittedRef.current === null) return;
+    const caret = editorRef.current ? getCaretPosition(editorRef.current) : null;
+    setTotalPages(renderPages(lastEmittedRef.current));
+    if (caret && editorRef.current) setCaretPosition(editorRef.current, caret);
+  }, [revisions]);
+
+  useEffect(() => {
+    if (!onCursorChange) return;
+    const handleSelectionChange = () => {
+      if (editorRef.current) onCursorChange(getCaretPosition(editorRef.current));
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [onCursorChange]);
+
   // Set contentEditable when editor is ready
   useEffect(() => {
     if (editorRef.current) {
@@ -345,6 +315,7 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
               {isEditing ? '🟢 تحرير مُفعَّل' : '🔴 تحرير معطل'}
             </span>
           </Button>
+          <ElementSelect value={elementWorkflow.currentElement} onChange={elementWorkflow.forceElement} />
           <Button
             variant="ghost"
             size="sm"
@@ -409,30 +380,35 @@ export default function PaginatedUnifiedEditor({ content, onContentChange }: Pag
         display: 'flex',
         justifyContent: 'center'
       }}>
-        <div
-          ref={editorRef}
-          style={{
-            position: 'relative',
-            outline: 'none',
-            height: '29.7cm',
-            width: '21cm',
-            background: '#ffffff',
-            boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
-            paddingTop: '2.54cm',      // 1 inch
-            paddingBottom: '2.54cm',   // 1 inch
-            paddingRight: '3.81cm',     // 1.5 inches
-            paddingLeft: '2.54cm'       // 1 inch
-          }}
-          className="screenplay-pages-container"
-          contentEditable={isEditing}
-          onInput={handleInput}
-          onPaste={handlePaste}
-          data-testid="editor-paginated"
-          suppressContentEditableWarning={true}
-        >
-          <Ruler orientation="horizontal" targetElement={editorRef.current} />
-          <Ruler orientation="vertical" targetElement={editorRef.current} />
-        </div>
+        <ElementContextMenu editorRef={editorRef} onReclassify={elementWorkflow.forceElement}>
+          <div
+            ref={editorRef}
+            style={{
+              position: 'relative',
+              outline: 'none',
+              height: '29.7cm',
+              width: '21cm',
+              background: '#ffffff',
+              boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+              paddingTop: '2.54cm',      // 1 inch
+              paddingBottom: '2.54cm',   // 1 inch
+              paddingRight: '3.81cm',     // 1.5 inches
+              paddingLeft: '2.54cm'       // 1 inch
+            }}
+            className="screenplay-pages-container"
+            contentEditable={isEditing}
+            onInput={handleInput}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            data-testid="editor-paginated"
+            suppressContentEditableWarning={true}
+          >
+            <Ruler orientation="horizontal" targetElement={editorRef.current} />
+            <Ruler orientation="vertical" targetElement={editorRef.current} />
+          </div>
+        </ElementContextMenu>
+        <RemoteCursors editor={editorRef} peers={remoteCursors} content={content} />
+        <LineSuggestions autocomplete={lineAutocomplete} />
       </div>
     </>
   );
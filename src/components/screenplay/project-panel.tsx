@@ -0,0 +1,264 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { FilePlus, GitCompare, History, RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { ScreenplayStorage } from "@/hooks/use-screenplay-storage";
+import type { SnapshotRecord } from "@/lib/screenplay-storage";
+import { diffLines, summarizeDiff } from "@/lib/text-diff";
+
+interface ProjectPanelProps {
+  storage: ScreenplayStorage;
+  content: string;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("ar-SA", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const DIFF_LINE_CLASSES = {
+  same: "text-muted-foreground",
+  added: "bg-green-100 text-green-900",
+  removed: "bg-red-100 text-red-900 line-through",
+};
+
+const DIFF_LINE_MARKS = { same: " ", added: "+", removed: "−" };
+
+export default function ProjectPanel({ storage, content }: ProjectPanelProps) {
+  const [title, setTitle] = useState("");
+  const [snapshotName, setSnapshotName] = useState("");
+  const [comparing, setComparing] = useState<SnapshotRecord | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setTitle(storage.current?.title ?? "");
+  }, [storage.current?.id, storage.current?.title]);
+
+  const diff = useMemo(
+    () => (comparing ? diffLines(comparing.content, content) : []),
+    [comparing, content]
+  );
+  const diffSummary = summarizeDiff(diff);
+
+  const run = async (action: () => Promise<void>, success?: string) => {
+    try {
+      await action();
+      if (success) toast({ title: success });
+    } catch (error) {
+      toast({
+        title: "فشلت العملية",
+        description: error instanceof Error ? error.message : "تعذر الوصول إلى التخزين",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreateSnapshot = () =>
+    run(async () => {
+      await storage.createSnapshot(snapshotName, content);
+      setSnapshotName("");
+    }, "تم حفظ النسخة");
+
+  return (
+    <>
+      <div>
+        <h3 className="text-md font-medium mb-3">المشروع</h3>
+        <div className="space-y-2">
+          <Select
+            value={storage.current?.id}
+            onValueChange={(id) => run(() => storage.openScreenplay(id))}
+            disabled={!storage.ready}
+          >
+            <SelectTrigger data-testid="select-screenplay">
+              <SelectValue placeholder="اختر سيناريو" />
+            </SelectTrigger>
+            <SelectContent>
+              {storage.screenplays.map((item) => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={() => run(() => storage.renameScreenplay(title))}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            placeholder="عنوان السيناريو"
+            disabled={!storage.ready}
+            data-testid="input-screenplay-title"
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => run(() => storage.createScreenplay(""), "تم إنشاء سيناريو جديد")}
+              disabled={!storage.ready}
+              data-testid="button-new-screenplay"
+            >
+              <FilePlus className="w-3 h-3 ml-1" />
+              جديد
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!storage.current}
+                  data-testid="button-delete-screenplay"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent dir="rtl">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>حذف السيناريو؟</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    سيُحذف «{storage.current?.title}» وجميع نسخه المحفوظة نهائيًا.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>إلغاء</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => {
+                      const id = storage.current?.id;
+                      if (id) run(() => storage.deleteScreenplay(id), "تم حذف السيناريو");
+                    }}
+                  >
+                    حذف
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-md font-medium mb-3">النسخ المحفوظة</h3>
+        <div className="flex gap-2 mb-3">
+          <Input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreateSnapshot();
+            }}
+            placeholder="اسم النسخة"
+            disabled={!storage.ready}
+            data-testid="input-snapshot-name"
+          />
+          <Button
+            size="sm"
+            onClick={handleCreateSnapshot}
+            disabled={!storage.ready}
+            data-testid="button-create-snapshot"
+          >
+            <History className="w-3 h-3" />
+          </Button>
+        </div>
+        {storage.snapshots.length === 0 ? (
+          <p className="text-xs text-muted-foreground">لا توجد نسخ محفوظة بعد</p>
+        ) : (
+          <ScrollArea className="max-h-56">
+            <ul className="space-y-2 text-sm" data-testid="list-snapshots">
+              {storage.snapshots.map((snapshot) => (
+                <li key={snapshot.id} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="truncate">{snapshot.name}</div>
+                    <div className="text-xs text-muted-foreground">{formatDate(snapshot.createdAt)}</div>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="مقارنة بالنص الحالي"
+                      onClick={() => setComparing(snapshot)}
+                      data-testid={`button-diff-snapshot-${snapshot.id}`}
+                    >
+                      <GitCompare className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="استعادة"
+                      onClick={() => run(() => storage.restoreSnapshot(snapshot, content), "تمت استعادة النسخة")}
+                      data-testid={`button-restore-snapshot-${snapshot.id}`}
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="حذف"
+                      onClick={() => run(() => storage.deleteSnapshot(snapshot.id))}
+                      data-testid={`button-delete-snapshot-${snapshot.id}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </div>
+
+      <Dialog open={comparing !== null} onOpenChange={(open) => !open && setComparing(null)}>
+        <DialogContent className="max-w-3xl" dir="rtl">
+          <DialogHeader>
+            <DialogTitle>مقارنة «{comparing?.name}» بالنص الحالي</DialogTitle>
+            <DialogDescription>
+              {diffSummary.added === 0 && diffSummary.removed === 0
+                ? "لا فروق بين النسخة والنص الحالي"
+                : `${diffSummary.added} سطر مضاف، ${diffSummary.removed} سطر محذوف`}
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="h-[60vh] rounded border border-border">
+            <pre className="text-sm font-[inherit] whitespace-pre-wrap p-2" data-testid="text-snapshot-diff">
+              {diff.map((line, index) => (
+                <div key={index} className={DIFF_LINE_CLASSES[line.type]}>
+                  <span className="inline-block w-4 select-none">{DIFF_LINE_MARKS[line.type]}</span>
+                  {line.text || " "}
+                </div>
+              ))}
+            </pre>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
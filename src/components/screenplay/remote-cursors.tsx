@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from "react";
+import type { Peer } from "@shared/collab-protocol";
+import { getCaretRect } from "@/lib/caret-position";
+
+interface RemoteCursorsProps {
+  editor: RefObject<HTMLElement>;
+  peers: Peer[];
+  /** النص الحالي؛ تغيّره يعني إعادة حساب المواضع */
+  content: string;
+}
+
+interface CursorMark {
+  peer: Peer;
+  top: number;
+  left: number;
+  height: number;
+}
+
+/** طبقة فوق المحرر ترسم مؤشرات الكتّاب الآخرين بألوانهم وأسمائهم؛ تُوضع داخل عنصر position: relative */
+export default function RemoteCursors({ editor, peers, content }: RemoteCursorsProps) {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [marks, setMarks] = useState<CursorMark[]>([]);
+
+  const measure = useCallback(() => {
+    const root = editor.current;
+    const layer = layerRef.current;
+    if (!root || !layer) return;
+    const origin = layer.getBoundingClientRect();
+    setMarks(peers.flatMap((peer) => {
+      const rect = peer.cursor ? getCaretRect(root, peer.cursor) : null;
+      if (!rect) return [];
+      return [{ peer, top: rect.top - origin.top, left: rect.left - origin.left, height: rect.height || 16 }];
+    }));
+  }, [editor, peers]);
+
+  // المحرر يعيد بناء صفحاته في effect خاص به، فالقياس في الإطار التالي
+  useEffect(() => {
+    const frame = requestAnimationFrame(measure);
+    return () => cancelAnimationFrame(frame);
+  }, [measure, content]);
+
+  useEffect(() => {
+    window.addEventListener("resize", measure);
+    window.addEventListener("scroll", measure, true);
+    return () => {
+      window.removeEventListener("resize", measure);
+      window.removeEventListener("scroll", measure, true);
+    };
+  }, [measure]);
+
+  return (
+    <div ref={layerRef} className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden="true">
+      {marks.map(({ peer, top, left, height }) => (
+        <div
+          key={peer.clientId}
+          className="absolute"
+          style={{ top, left, height, borderLeft: `2px solid ${peer.color}` }}
+          data-testid={`remote-cursor-${peer.username}`}
+        >
+          <span
+            className="absolute bottom-full left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+            style={{ backgroundColor: peer.color }}
+          >
+            {peer.username}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
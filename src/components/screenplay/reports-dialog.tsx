@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Download } from "lucide-react";
+import { exportToCsv } from "@/lib/file-handlers";
+import { formatEighths } from "@/lib/scene-outline";
+import { WORDS_PER_PAGE } from "@/lib/screenplay-document";
+import { buildReport, reportTableRows, toCsv, type ReportTable } from "@/lib/screenplay-reports";
+
+interface ReportsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  content: string;
+}
+
+const CHART_CHARACTERS = 12;
+
+const castChart = {
+  words: { label: "كلمات الحوار", color: "var(--chart-1)" },
+  lines: { label: "أسطر الحوار", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const scenesChart = {
+  eighths: { label: "الطول (أثمان)", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const ratioChart = {
+  interior: { label: "داخلي", color: "var(--chart-1)" },
+  exterior: { label: "خارجي", color: "var(--chart-2)" },
+  day: { label: "نهار", color: "var(--chart-3)" },
+  night: { label: "ليل", color: "var(--chart-4)" },
+  unknown: { label: "غير محدد", color: "var(--chart-5)" },
+} satisfies ChartConfig;
+
+function ratioData(counts: Record<string, number>) {
+  return Object.entries(counts)
+    .filter(([, value]) => value > 0)
+    .map(([key, value]) => ({ key, value, fill: `var(--color-${key})` }));
+}
+
+/** تقارير السيناريو: الطاقم والمشاهد وأطول الخطب، بالرسوم والجداول وتصدير CSV */
+export default function ReportsDialog({ open, onOpenChange, content }: ReportsDialogProps) {
+  const report = useMemo(() => (open ? buildReport(content) : null), [open, content]);
+  const [table, setTable] = useState<ReportTable>("characters");
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    exportToCsv(toCsv(reportTableRows(report, table)), `report-${table}.csv`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>تقارير السيناريو</DialogTitle>
+          <DialogDescription>الصفحات تقديرية بحساب {WORDS_PER_PAGE} كلمة للصفحة</DialogDescription>
+        </DialogHeader>
+
+        {report && (
+          <Tabs value={table} onValueChange={(value) => setTable(value as ReportTable)} dir="rtl">
+            <div className="flex items-center justify-between gap-2">
+              <TabsList>
+                <TabsTrigger value="characters" data-testid="tab-report-characters">الشخصيات</TabsTrigger>
+                <TabsTrigger value="scenes" data-testid="tab-report-scenes">المشاهد</TabsTrigger>
+                <TabsTrigger value="speeches" data-testid="tab-report-speeches">أطول الخطب</TabsTrigger>
+              </TabsList>
+              <Button variant="outline" size="sm" onClick={handleExportCsv} data-testid="button-export-report-csv">
+                <Download className="w-3 h-3 ml-1" />
+                CSV
+              </Button>
+            </div>
+
+            <TabsContent value="characters" className="space-y-4">
+              {report.characters.length === 0 ? (
+                <p className="text-sm text-muted-foreground">لا شخصيات بعد</p>
+              ) : (
+                <>
+                  <ChartContainer config={castChart} className="h-64 w-full aspect-auto">
+                    <BarChart data={report.characters.slice(0, CHART_CHARACTERS)}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} />
+                      <YAxis orientation="right" tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="words" fill="var(--color-words)" radius={4} />
+                      <Bar dataKey="lines" fill="var(--color-lines)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                  <Table data-testid="table-report-characters">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-right">الشخصية</TableHead>
+                        <TableHead className="text-right">مرات الكلام</TableHead>
+                        <TableHead className="text-right">الأسطر</TableHead>
+                        <TableHead className="text-right">الكلمات</TableHead>
+                        <TableHead className="text-right">المشاهد</TableHead>
+                        <TableHead className="text-right">أول صفحة</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.characters.map((character) => (
+                        <TableRow key={character.name}>
+                          <TableCell className="font-medium">{character.name}</TableCell>
+                          <TableCell>{character.speeches}</TableCell>
+                          <TableCell>{character.lines}</TableCell>
+                          <TableCell>{character.words}</TableCell>
+                          <TableCell title={character.scenes.join("، ")}>{character.scenes.length}</TableCell>
+                          <TableCell>{character.firstPage}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="scenes" className="space-y-4">
+              {report.scenes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">لا مشاهد بعد</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    {[report.interiorExterior, report.dayNight].map((counts, index) => (
+                      <ChartContainer key={index} config={ratioChart} className="h-48 w-full aspect-auto">
+                        <PieChart>
+                          <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+                          <Pie data={ratioData(counts)} dataKey="value" nameKey="key" innerRadius={30}>
+                            {ratioData(counts).map((entry) => (
+                              <Cell key={entry.key} fill={entry.fill} />
+                            ))}
+                          </Pie>
+                          <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+                        </PieChart>
+                      </ChartContainer>
+                    ))}
+                  </div>
+                  <ChartContainer config={scenesChart} className="h-48 w-full aspect-auto">
+                    <BarChart data={report.scenes}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="number" tickLine={false} axisLine={false} />
+                      <YAxis orientation="right" tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="eighths" fill="var(--color-eighths)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                  <Table data-testid="table-report-scenes">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-right">المشهد</TableHead>
+                        <TableHead className="text-right">الزمان والمكان</TableHead>
+                        <TableHead className="text-right">المكان</TableHead>
+                        <TableHead className="text-right">الصفحة</TableHead>
+                        <TableHead className="text-right">الطول</TableHead>
+                        <TableHead className="text-right">الشخصيات</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.scenes.map((scene, index) => (
+                        <TableRow key={`${index}-${scene.number}`}>
+                          <TableCell className="font-medium">{scene.number}</TableCell>
+                          <TableCell>{scene.timeLocation}</TableCell>
+                          <TableCell>{scene.place}</TableCell>
+                          <TableCell>{scene.page}</TableCell>
+                          <TableCell>{formatEighths(scene.eighths)}</TableCell>
+                          <TableCell>{scene.characters}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="speeches">
+              {report.longestSpeeches.length === 0 ? (
+                <p className="text-sm text-muted-foreground">لا حوار بعد</p>
+              ) : (
+                <Table data-testid="table-report-speeches">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">الشخصية</TableHead>
+                      <TableHead className="text-right">المشهد</TableHead>
+                      <TableHead className="text-right">الكلمات</TableHead>
+                      <TableHead className="text-right">النص</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.longestSpeeches.map((speech, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium whitespace-nowrap">{speech.character}</TableCell>
+                        <TableCell>{speech.scene}</TableCell>
+                        <TableCell>{speech.words}</TableCell>
+                        <TableCell className="max-w-sm truncate" title={speech.text}>{speech.text}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { FilePlus2, Lock, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Revisions } from "@/hooks/use-revisions";
+import { revisedPageLabels, revisionColor } from "@/lib/revisions";
+
+interface RevisionPanelProps {
+  revisions: Revisions;
+  content: string;
+  /** لا قفل قبل فتح سيناريو */
+  disabled: boolean;
+}
+
+/** وضع المراجعات: قفل الصفحات عند بدء التصوير، والمراجعة الجارية بلونها وصفحاتها المعدّلة */
+export default function RevisionPanel({ revisions, content, disabled }: RevisionPanelProps) {
+  const { revisions: set, lock, nextRevision, unlock } = revisions;
+  const { toast } = useToast();
+
+  const current = set ? set.revisions.length - 1 : null;
+  const revisedPages = useMemo(() => (set ? revisedPageLabels(set, content) : []), [set, content]);
+
+  const handleLock = () => {
+    lock(content);
+    toast({ title: "قُفلت الصفحات", description: `بدأت المراجعة ${revisionColor(0).label}` });
+  };
+
+  const handleNextRevision = () => {
+    nextRevision(content);
+    toast({ title: `بدأت المراجعة ${revisionColor((current ?? -1) + 1).label}` });
+  };
+
+  const handleUnlock = () => {
+    unlock();
+    toast({ title: "أُلغي قفل الصفحات", description: "عاد الترقيم متسلسلًا دون علامات المراجعة" });
+  };
+
+  if (!set || current === null) {
+    return (
+      <div>
+        <h3 className="text-md font-medium mb-3">المراجعات</h3>
+        <p className="text-xs text-muted-foreground mb-2">اقفل الصفحات عند بدء التصوير لتتبّع التعديلات بالألوان</p>
+        <Button variant="outline" size="sm" onClick={handleLock} disabled={disabled} data-testid="button-lock-pages">
+          <Lock className="w-3 h-3 ml-1" />
+          قفل الصفحات
+        </Button>
+      </div>
+    );
+  }
+
+  const color = revisionColor(current);
+  return (
+    <div>
+      <h3 className="text-md font-medium mb-3">المراجعات</h3>
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center gap-2" data-testid="text-current-revision">
+          <span className="w-3 h-3 rounded-full border border-border" style={{ backgroundColor: color.hex }} />
+          <span>المراجعة {color.label}</span>
+          <span className="text-xs text-muted-foreground">{set.revisions[current].date}</span>
+        </div>
+        <div className="text-xs text-muted-foreground" data-testid="text-revised-pages">
+          {revisedPages.length > 0 ? `الصفحات المعدّلة: ${revisedPages.join("، ")}` : "لا تعديلات في هذه المراجعة بعد"}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleNextRevision} data-testid="button-next-revision">
+            <FilePlus2 className="w-3 h-3 ml-1" />
+            مراجعة {revisionColor(current + 1).label}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleUnlock} title="إلغاء قفل الصفحات" data-testid="button-unlock-pages">
+            <Unlock className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eraser, FileJson } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { LineLearning } from "@/hooks/use-line-model";
+import type { RuleSetState } from "@/hooks/use-rule-set";
+import { BUILTIN_RULE_SETS } from "@/lib/classification-rules";
+
+interface RuleSetPanelProps {
+  rules: RuleSetState;
+  learning: LineLearning;
+  /** لا اختيار قبل فتح سيناريو */
+  disabled: boolean;
+}
+
+/** ملف قواعد التصنيف للمشروع: لهجة مدمجة أو ملف JSON يكتبه الكاتب، وما تعلّمه المصنّف من التصحيحات */
+export default function RuleSetPanel({ rules, learning, disabled }: RuleSetPanelProps) {
+  const { ruleSet, select, importRuleSet } = rules;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const isBuiltin = BUILTIN_RULE_SETS.some((builtin) => builtin.id === ruleSet.id);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = importRuleSet(await file.text());
+      toast({ title: "تم تفعيل ملف القواعد", description: imported.name });
+    } catch (error) {
+      toast({
+        title: "تعذر استيراد ملف القواعد",
+        description: error instanceof Error ? error.message : "ملف غير صالح",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-md font-medium mb-3">قواعد التصنيف</h3>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Select value={ruleSet.id} onValueChange={select} disabled={disabled}>
+            <SelectTrigger data-testid="select-rule-set">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUILTIN_RULE_SETS.map((builtin) => (
+                <SelectItem key={builtin.id} value={builtin.id}>
+                  {builtin.name}
+                </SelectItem>
+              ))}
+              {!isBuiltin && <SelectItem value={ruleSet.id}>{ruleSet.name}</SelectItem>}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            title="استيراد ملف قواعد JSON"
+            data-testid="button-import-rule-set"
+          >
+            <FileJson className="w-4 h-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept=".json,application/json"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        {ruleSet.description && <p className="text-xs text-muted-foreground">{ruleSet.description}</p>}
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground" data-testid="text-line-corrections">
+          <span>
+            {learning.examples > 0
+              ? `يتعلّم من ${learning.examples} تصحيحًا`
+              : "غيّر نوع سطر أخطأ المصنّف فيه ليتعلّم منه"}
+          </span>
+          {learning.examples > 0 && (
+            <Button variant="ghost" size="sm" onClick={learning.reset} title="نسيان التصحيحات" data-testid="button-reset-corrections">
+              <Eraser className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
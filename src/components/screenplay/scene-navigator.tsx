@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { GripVertical, ListOrdered, Lock, Undo, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { parseScreenplayText } from "@/lib/screenplay-document";
+import { buildSceneOutline, formatEighths, moveScene } from "@/lib/scene-outline";
+import { isOmittedScene, renumberLocked, renumberScenes, sceneNumbers } from "@/lib/scene-numbering";
+import { readSceneLock, writeSceneLock } from "@/lib/screenplay-storage";
+
+interface SceneNavigatorProps {
+  /** مفتاح حفظ الأرقام المقفلة؛ null قبل فتح سيناريو */
+  screenplayId: string | null;
+  content: string;
+  onContentChange: (content: string) => void;
+  /** الانتقال إلى ترويسة المشهد في المحرر */
+  onSceneSelect: (index: number) => void;
+}
+
+interface EditRecord {
+  before: string;
+  after: string;
+  /** الأرقام المقفلة قبل التعديل إن غيّرها (قفل الترقيم)، فيعيدها التراجع */
+  lockedBefore?: string[] | null;
+}
+
+/**
+ * مخطط المشاهد: النقر ينتقل إلى المشهد، والسحب يعيد ترتيبه في النص،
+ * وإعادة الترقيم حرة أو مقفلة لنسخ الإنتاج؛ النقل والترقيم يقبلان التراجع،
+ * والتراجع عن ترقيم القفل يفتح القفل معه
+ */
+export default function SceneNavigator({ screenplayId, content, onContentChange, onSceneSelect }: SceneNavigatorProps) {
+  const outline = useMemo(() => buildSceneOutline(parseScreenplayText(content)), [content]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [history, setHistory] = useState<EditRecord[]>([]);
+  const [lockedNumbers, setLockedNumbers] = useState<string[] | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setLockedNumbers(null);
+    if (!screenplayId) return;
+    let cancelled = false;
+    readSceneLock(screenplayId)
+      .then((numbers) => {
+        if (!cancelled) setLockedNumbers(numbers);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [screenplayId]);
+
+  // التراجع متاح ما دام النص لم يتغيّر بعد آخر تعديل من هنا
+  const lastEdit = history[history.length - 1];
+  const canUndo = !!lastEdit && lastEdit.after === content;
+
+  const apply = (next: string, lockedBefore?: string[] | null) => {
+    if (next === content) return false;
+    setHistory((prev) => [...prev.slice(-19), { before: content, after: next, lockedBefore }]);
+    onContentChange(next);
+    return true;
+  };
+
+  const saveLock = (numbers: string[] | null) => {
+    if (screenplayId) writeSceneLock(screenplayId, numbers).catch(() => {});
+    setLockedNumbers(numbers);
+  };
+
+  const handleDrop = (to: number) => {
+    const from = dragIndex;
+    setDragIndex(null);
+    setDropIndex(null);
+    if (from === null || from === to) return;
+
+    apply(moveScene(parseScreenplayText(content), from, to));
+    toast({
+      title: "تم نقل المشهد",
+      description: `المشهد ${outline[from].header.number || from + 1} أصبح في الموضع ${to + 1}`,
+    });
+  };
+
+  const handleUndo = () => {
+    if (!canUndo) return;
+    setHistory((prev) => prev.slice(0, -1));
+    onContentChange(lastEdit.before);
+    if (lastEdit.lockedBefore !== undefined) saveLock(lastEdit.lockedBefore);
+  };
+
+  const handleRenumber = () => {
+    const doc = parseScreenplayText(content);
+    const changed = apply(lockedNumbers ? renumberLocked(doc, lockedNumbers) : renumberScenes(doc));
+    toast({
+      title: changed ? "تمت إعادة الترقيم" : "الترقيم سليم",
+      description: lockedNumbers ? "الأرقام المقفلة ثابتة؛ المُدرج بلاحقة والمحذوف OMITTED" : undefined,
+    });
+  };
+
+  const toggleLock = () => {
+    if (!screenplayId) return;
+    if (lockedNumbers) {
+      saveLock(null);
+      toast({ title: "فُتح ترقيم المشاهد" });
+      return;
+    }
+    // المشاهد غير المرقّمة تأخذ أرقامها قبل القفل
+    const doc = parseScreenplayText(content);
+    const numbered = renumberLocked(doc, sceneNumbers(doc));
+    apply(numbered, lockedNumbers);
+    const numbers = sceneNumbers(parseScreenplayText(numbered));
+    saveLock(numbers);
+    toast({ title: "قُفل ترقيم المشاهد", description: `${numbers.length} رقمًا ثابتًا لنسخة الإنتاج` });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-md font-medium">المشاهد</h3>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleRenumber}
+            disabled={outline.length === 0}
+            title="إعادة ترقيم المشاهد"
+            data-testid="button-renumber-scenes"
+          >
+            <ListOrdered className="w-3 h-3" />
+          </Button>
+          <Button
+            variant={lockedNumbers ? "secondary" : "ghost"}
+            size="sm"
+            onClick={toggleLock}
+            disabled={!screenplayId}
+            title={lockedNumbers ? "فتح الترقيم" : "قفل الترقيم (نسخة إنتاج)"}
+            data-testid="button-lock-scenes"
+          >
+            {lockedNumbers ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleUndo}
+            disabled={!canUndo}
+            title="التراجع عن آخر نقل أو ترقيم"
+            data-testid="button-undo-scene-edit"
+          >
+            <Undo className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+      {outline.length === 0 ? (
+        <p className="text-xs text-muted-foreground">لا مشاهد بعد</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto">
+          <ol className="space-y-1 text-sm" data-testid="list-scenes">
+            {outline.map(({ index, header, page, eighths }) => (
+              <li
+                key={`${index}-${header.range.start}`}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                }}
+                onClick={() => onSceneSelect(index)}
+                className={`flex items-start gap-2 rounded px-2 py-1 cursor-pointer hover:bg-muted ${
+                  dropIndex === index && dragIndex !== index ? "ring-1 ring-primary" : ""
+                } ${dragIndex === index ? "opacity-50" : ""} ${isOmittedScene(header) ? "text-muted-foreground line-through" : ""}`}
+                data-testid={`scene-item-${index}`}
+              >
+                <GripVertical className="w-3 h-3 mt-1 shrink-0 text-muted-foreground cursor-grab" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium">{header.sceneNum || `مشهد ${index + 1}`}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      ص {page} · {formatEighths(eighths)}
+                    </span>
+                  </div>
+                  {header.timeLocation && <div className="text-xs text-muted-foreground">{header.timeLocation}</div>}
+                  {header.place && <div className="text-xs truncate">{header.place}</div>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,17 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Upload } from "lucide-react";
 import { handleFileUpload } from "@/lib/file-handlers";
 import { useToast } from "@/hooks/use-toast";
+import type { ScreenplayStorage } from "@/hooks/use-screenplay-storage";
+import type { Collaboration } from "@/hooks/use-collaboration";
+import type { Revisions } from "@/hooks/use-revisions";
+import type { LineLearning } from "@/hooks/use-line-model";
+import type { RuleSetState } from "@/hooks/use-rule-set";
+import ProjectPanel from "./project-panel";
+import CollaborationPanel from "./collaboration-panel";
+import SceneNavigator from "./scene-navigator";
+import CharacterPanel from "./character-panel";
+import RevisionPanel from "./revision-panel";
+import RuleSetPanel from "./rule-set-panel";
 
 interface SidebarStats {
   scenes: number;
@@ -14,9 +25,26 @@ interface SidebarStats {
 interface SidebarProps {
   stats: SidebarStats;
   onContentUpdate: (content: string) => void;
+  storage: ScreenplayStorage;
+  content: string;
+  collaboration: Collaboration;
+  revisions: Revisions;
+  rules: RuleSetState;
+  learning: LineLearning;
+  onSceneSelect: (index: number) => void;
 }
 
-export default function Sidebar({ stats, onContentUpdate }: SidebarProps) {
+export default function Sidebar({
+  stats,
+  onContentUpdate,
+  storage,
+  content,
+  collaboration,
+  revisions,
+  rules,
+  learning,
+  onSceneSelect,
+}: SidebarProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -82,12 +110,12 @@ export default function Sidebar({ stats, onContentUpdate }: SidebarProps) {
           >
             <Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
             <p className="text-sm text-muted-foreground mb-2">اسحب الملفات هنا أو انقر للاختيار</p>
-            <p className="text-xs text-muted-foreground">.txt, .docx, .pdf</p>
+            <p className="text-xs text-muted-foreground">.txt, .fountain, .fdx, .docx, .pdf</p>
             <input 
               ref={fileInputRef}
               type="file" 
               className="hidden" 
-              accept=".txt,.docx,.pdf" 
+              accept=".txt,.fountain,.fdx,.docx,.pdf" 
               multiple
               onChange={handleFileInputChange}
               data-testid="input-file"
@@ -95,6 +123,25 @@ export default function Sidebar({ stats, onContentUpdate }: SidebarProps) {
           </div>
         </div>
 
+        <ProjectPanel storage={storage} content={content} />
+
+        <SceneNavigator
+          screenplayId={storage.current?.id ?? null}
+          content={content}
+          onContentChange={onContentUpdate}
+          onSceneSelect={onSceneSelect}
+        />
+
+        <CharacterPanel content={content} onContentChange={onContentUpdate} />
+
+        <RevisionPanel revisions={revisions} content={content} disabled={!storage.current} />
+
+        <RuleSetPanel rules={rules} learning={learning} disabled={!storage.current} />
+
+        {storage.current && collaboration.status !== "local" && (
+          <CollaborationPanel screenplayId={storage.current.id} collaboration={collaboration} />
+        )}
+
         <div>
           <h3 className="text-md font-medium mb-3">عناصر السيناريو</h3>
           <div className="space-y-2 text-sm">
@@ -1,3 +1,6 @@
+import type { Peer } from "@shared/collab-protocol";
+import type { CollabStatus } from "@/lib/collab-client";
+
 interface StatusBarStats {
   scenes: number;
   words: number;
@@ -7,17 +10,42 @@ interface StatusBarStats {
 
 interface StatusBarProps {
   stats: StatusBarStats;
+  connection: CollabStatus;
+  peers: Peer[];
 }
 
-export default function StatusBar({ stats }: StatusBarProps) {
+const CONNECTION_LABELS: Record<CollabStatus, { label: string; dot: string }> = {
+  online: { label: "متصل", dot: "bg-green-500" },
+  connecting: { label: "جارٍ الاتصال...", dot: "bg-yellow-500 animate-pulse" },
+  offline: { label: "غير متصل - تُدمج التعديلات عند عودة الاتصال", dot: "bg-red-500" },
+  local: { label: "تخزين محلي", dot: "bg-muted-foreground" },
+};
+
+export default function StatusBar({ stats, connection, peers }: StatusBarProps) {
+  const { label, dot } = CONNECTION_LABELS[connection];
+
   return (
     <footer className="bg-card border-t border-border mt-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
         <div className="flex justify-between items-center text-sm text-muted-foreground">
           <div className="flex items-center space-x-4 space-x-reverse">
             <span data-testid="text-last-saved">آخر حفظ: {stats.lastSaved}</span>
-            <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-            <span>متصل</span>
+            <span className={`w-2 h-2 rounded-full ${dot}`}></span>
+            <span data-testid="text-connection-status">{label}</span>
+            {peers.length > 0 && (
+              <span className="flex items-center gap-1" data-testid="list-peers">
+                {peers.map((peer) => (
+                  <span
+                    key={peer.clientId}
+                    className="rounded px-1.5 text-xs text-white"
+                    style={{ backgroundColor: peer.color }}
+                    title={peer.username}
+                  >
+                    {peer.username}
+                  </span>
+                ))}
+              </span>
+            )}
           </div>
           <div className="flex items-center space-x-4 space-x-reverse">
             <span data-testid="text-cursor-position">السطر 15، العمود 23</span>
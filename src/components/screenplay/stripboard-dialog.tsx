@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarPlus, Download, Trash2 } from "lucide-react";
+import type { BreakdownTag } from "@/lib/breakdown";
+import { exportToCsv } from "@/lib/file-handlers";
+import { formatEighths } from "@/lib/scene-outline";
+import { createId, readSchedule, writeSchedule } from "@/lib/screenplay-storage";
+import {
+  addShootingDay,
+  buildStrips,
+  dayOutOfDaysCsv,
+  moveStrip,
+  planSchedule,
+  rebaseSchedule,
+  removeShootingDay,
+  stripColor,
+  type ShootingSchedule,
+  type Strip,
+} from "@/lib/stripboard";
+
+interface StripboardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  screenplayId: string | null;
+  content: string;
+  /** وسوم التفريغ: الممثلون الموسومون يدخلون في ممثلي اليوم */
+  tags: BreakdownTag[];
+}
+
+interface DropTarget {
+  dayId: string | null;
+  index: number;
+}
+
+function StripCard({ strip, onDragStart, onDrop }: {
+  strip: Strip;
+  onDragStart: () => void;
+  onDrop: () => void;
+}) {
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onDrop();
+      }}
+      className="rounded border border-border px-2 py-1 text-xs text-gray-900 cursor-grab"
+      style={{ backgroundColor: stripColor(strip) }}
+      data-testid={`strip-${strip.line}`}
+    >
+      <div className="flex justify-between gap-2 font-medium">
+        <span>{strip.number}. {strip.place}</span>
+        <span className="whitespace-nowrap">{formatEighths(strip.eighths)}</span>
+      </div>
+      <div className="flex justify-between gap-2 opacity-75">
+        <span>{strip.timeLocation}</span>
+        <span className="truncate">{strip.cast.join("، ")}</span>
+      </div>
+    </div>
+  );
+}
+
+/** لوحة الشرائط: مشهد لكل شريط يُسحب إلى أيام التصوير، ومجاميع كل يوم وتقرير Day Out of Days */
+export default function StripboardDialog({ open, onOpenChange, screenplayId, content, tags }: StripboardDialogProps) {
+  // المحفوظ كما هو؛ null حتى يُقرأ
+  const [stored, setStored] = useState<ShootingSchedule | null>(null);
+  const [dragged, setDragged] = useState<number | null>(null);
+
+  useEffect(() => {
+    setStored(null);
+    if (!screenplayId) return;
+    let cancelled = false;
+    readSchedule(screenplayId)
+      .then((loaded) => {
+        if (!cancelled) setStored(loaded ?? { text: "", days: [] });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [screenplayId]);
+
+  // مشاهد الجدول على أسطر النص الحالي، تُحسب واللوحة مفتوحة
+  const schedule = useMemo(
+    () => (open && stored ? rebaseSchedule(stored, content) : { text: content, days: [] }),
+    [open, stored, content],
+  );
+  const strips = useMemo(() => (open ? buildStrips(content, tags) : []), [open, content, tags]);
+  const plan = useMemo(() => planSchedule(strips, schedule), [strips, schedule]);
+
+  const save = (next: ShootingSchedule) => {
+    if (screenplayId) writeSchedule(screenplayId, next).catch(() => {});
+    setStored(next);
+  };
+
+  // تثبيت الأسطر على النص الحالي عند الفتح، فلا تتراكم الفروق بين النسخة المحفوظة والنص
+  useEffect(() => {
+    if (open && stored && stored.days.length > 0 && schedule !== stored) save(schedule);
+  }, [open, stored, schedule]);
+
+  const drop = ({ dayId, index }: DropTarget) => {
+    if (dragged === null) return;
+    save(moveStrip(schedule, dragged, dayId, index));
+    setDragged(null);
+  };
+
+  const setDate = (dayId: string, date: string) => {
+    save({ ...schedule, days: schedule.days.map((day) => (day.id === dayId ? { ...day, date: date || undefined } : day)) });
+  };
+
+  const column = (dayId: string | null, dayStrips: Strip[]) => (
+    <div
+      className="flex-1 min-h-24 space-y-1"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        drop({ dayId, index: Infinity });
+      }}
+    >
+      {dayStrips.map((strip, index) => (
+        <StripCard
+          key={strip.line}
+          strip={strip}
+          onDragStart={() => setDragged(strip.line)}
+          onDrop={() => drop({ dayId, index })}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] flex flex-col" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>جدول التصوير</DialogTitle>
+          <DialogDescription>اسحب شرائط المشاهد إلى أيام التصوير؛ اللون للداخلي/الخارجي والنهار/الليل</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => save(addShootingDay(schedule, createId()))} disabled={!stored} data-testid="button-add-shooting-day">
+            <CalendarPlus className="w-3 h-3 ml-1" />
+            يوم تصوير
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => exportToCsv(dayOutOfDaysCsv(plan), "day-out-of-days.csv")}
+            disabled={plan.days.length === 0}
+            data-testid="button-export-dood"
+          >
+            <Download className="w-3 h-3 ml-1" />
+            Day Out of Days
+          </Button>
+        </div>
+
+        <div className="flex gap-3 overflow-x-auto pb-2 flex-1 min-h-0" data-testid="stripboard">
+          <div className="w-56 shrink-0 flex flex-col overflow-y-auto">
+            <div className="text-sm font-medium mb-2">غير مجدولة ({plan.unscheduled.length})</div>
+            {column(null, plan.unscheduled)}
+          </div>
+          {plan.days.map(({ day, strips: dayStrips, eighths, cast }, index) => (
+            <div key={day.id} className="w-56 shrink-0 flex flex-col overflow-y-auto rounded border border-border p-2" data-testid={`shooting-day-${index}`}>
+              <div className="flex items-center justify-between gap-1 mb-1">
+                <span className="text-sm font-medium">اليوم {index + 1}</span>
+                <Button variant="ghost" size="sm" onClick={() => save(removeShootingDay(schedule, day.id))} title="حذف اليوم">
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+              <Input
+                type="date"
+                value={day.date ?? ""}
+                onChange={(e) => setDate(day.id, e.target.value)}
+                className="h-7 text-xs mb-1"
+              />
+              <div className="text-xs text-muted-foreground mb-2">
+                {formatEighths(eighths)} صفحة · {cast.length} ممثلين
+                {cast.length > 0 && <div className="truncate" title={cast.join("، ")}>{cast.join("، ")}</div>}
+              </div>
+              {column(day.id, dayStrips)}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,22 +2,55 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { AlignLeft, Undo, Redo, FileText, Layers } from "lucide-react";
 import { parseAndFormat } from "@/lib/screenplay-parser";
+import { parseScreenplayText } from "@/lib/screenplay-document";
 import { useToast } from "@/hooks/use-toast";
+import { formatStyles } from "@/lib/dialogue-detector";
+import { getCaretPosition, setCaretPosition } from "@/lib/caret-position";
+import { isExternalContent, serializeForcedLine, type StyleLine } from "@/lib/editor-elements";
+import { useElementWorkflow } from "@/hooks/use-element-workflow";
+import { useLineAutocomplete } from "@/hooks/use-line-autocomplete";
+import type { CursorPosition, Peer } from "@shared/collab-protocol";
+import RemoteCursors from "./remote-cursors";
+import ElementSelect from "./element-select";
+import ElementContextMenu from "./element-context-menu";
+import LineSuggestions from "./line-suggestions";
+
+// الوضع البسيط منسَّق بأنماط مضمّنة كما في parseAndFormat
+const styleLine: StyleLine = (element, kind) => {
+  element.removeAttribute('class');
+  element.removeAttribute('style');
+  Object.assign(element.style, formatStyles[kind === 'scene-header' ? 'scene-header-3' : kind]);
+};
 
 interface UnifiedEditorProps {
   content: string;
   onContentChange: (content: string) => void;
+  /** الكتّاب الآخرون في السيناريو نفسه ومواضع مؤشراتهم */
+  remoteCursors?: Peer[];
+  onCursorChange?: (cursor: CursorPosition | null) => void;
 }
 
-export default function UnifiedEditor({ content, onContentChange }: UnifiedEditorProps) {
+export default function UnifiedEditor({
+  content,
+  onContentChange,
+  remoteCursors = [],
+  onCursorChange,
+}: UnifiedEditorProps) {
   const editorRef = useRef<HTMLDivElement>(null);
   const [undoStack, setUndoStack] = useState<string[]>([]);
   const [redoStack, setRedoStack] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'simple' | 'paginated'>('simple');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  // آخر نص أبلغ عنه المحرر، فلا يُعاد بناء ما كتبه الكاتب للتو
+  const lastEmittedRef = useRef<string | null>(null);
   const { toast } = useToast();
 
+  const emitContent = useCallback((text: string) => {
+    lastEmittedRef.current = text;
+    onContentChange(text);
+  }, [onContentChange]);
+
   // Extract text content from contentEditable div
   const extractTextFromDiv = useCallback((div: HTMLDivElement): string => {
     const extractTextRecursively = (node: Node): string => {
@@ -37,6 +70,12 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
         if (tagName === 'br') {
           return '\n';
         }
+
+        // السطر المفروض يُحفظ ببادئة نوعه
+        const forced = serializeForcedLine(element);
+        if (forced !== null) {
+          return forced + '\n';
+        }
         
         // For block elements, add newline before content if needed
         if (isBlockElement && text && !text.endsWith('\n')) {
@@ -68,21 +107,19 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
 
   // Calculate pagination info with A4 specifications
   const calculatePagination = useCallback((text: string) => {
-    const lines = text.split('\n');
+    const { classification } = parseScreenplayText(text);
     let currentPageLines = 0;
     let pages = 1;
     const maxLinesPerPage = 45; // Approximate lines per A4 page with 1in margins
     
-    for (const line of lines) {
+    classification.forEach(({ element }, index) => {
       let lineHeight = 1;
       
-      // Estimate line height based on content type
-      if (line.match(/^(مشهد|م\.)\s*(\d+)/i)) {
+      // Estimate line height based on the classified element
+      if (element === 'scene-header' && classification[index - 1]?.element !== 'scene-header') {
         lineHeight = 3; // Scene headers take more space
-      } else if (line.match(/^[أ-ي\s]+:$/)) {
+      } else if (element === 'character') {
         lineHeight = 2; // Character names with dialogue
-      } else if (!line.trim()) {
-        lineHeight = 1; // Empty lines
       }
       
       if (currentPageLines + lineHeight > maxLinesPerPage) {
@@ -91,7 +128,7 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
       } else {
         currentPageLines += lineHeight;
       }
-    }
+    });
     
     setTotalPages(Math.max(1, pages));
   }, []);
@@ -100,7 +137,7 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
   const handleInput = useCallback(() => {
     if (editorRef.current) {
       const newContent = extractTextFromDiv(editorRef.current);
-      onContentChange(newContent);
+      emitContent(newContent);
       
       // Add to undo stack
       setUndoStack(prev => [...prev.slice(-19), newContent]);
@@ -110,37 +147,34 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
       calculatePagination(newContent);
       
       // Apply formatting immediately
-      const textToFormat = extractTextFromDiv(editorRef.current);
-      const formatted = parseAndFormat(textToFormat);
+      const formatted = parseAndFormat(newContent);
       
       if (editorRef.current.innerHTML !== formatted) {
         // Save cursor position
-        const selection = window.getSelection();
-        let cursorPosition = 0;
-        
-        if (selection && selection.rangeCount > 0) {
-          const range = selection.getRangeAt(0);
-          cursorPosition = range.startOffset;
-        }
-        
+        const caret = getCaretPosition(editorRef.current);
         editorRef.current.innerHTML = formatted;
-        
-        // Try to restore cursor position
-        try {
-          if (selection && editorRef.current.lastChild) {
-            const newRange = document.createRange();
-            const lastNode = editorRef.current.lastChild;
-            newRange.setStartAfter(lastNode);
-            newRange.setEndAfter(lastNode);
-            selection.removeAllRanges();
-            selection.addRange(newRange);
-          }
-        } catch (e) {
-          // Ignore cursor positioning errors
-        }
+        if (caret) setCaretPosition(editorRef.current, caret);
       }
     }
-  }, [onContentChange, extractTextFromDiv, calculatePagination, viewMode]);
+  }, [emitContent, extractTextFromDiv, calculatePagination]);
+
+  // بعد أوامر لوحة المفاتيح يبقى السطر الجديد كما هو حتى يُكتب فيه
+  const syncFromDom = useCallback(() => {
+    if (!editorRef.current) return;
+    const newContent = extractTextFromDiv(editorRef.current);
+    emitContent(newContent);
+    setUndoStack(prev => [...prev.slice(-19), newContent]);
+    setRedoStack([]);
+    calculatePagination(newContent);
+  }, [emitContent, extractTextFromDiv, calculatePagination]);
+
+  const elementWorkflow = useElementWorkflow(editorRef, { styleLine, separateBlocks: true, onChange: syncFromDom });
+  const lineAutocomplete = useLineAutocomplete(editorRef, { content, onChange: syncFromDom });
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (lineAutocomplete.handleKeyDown(e)) return;
+    elementWorkflow.handleKeyDown(e);
+  }, [lineAutocomplete.handleKeyDown, elementWorkflow.handleKeyDown]);
 
   const handlePaste = useCallback((e: React.ClipboardEvent) => {
     e.preventDefault();
@@ -149,7 +183,7 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
     
     if (editorRef.current) {
       editorRef.current.innerHTML = formatted;
-      onContentChange(text);
+      emitContent(text);
       calculatePagination(text);
       
       toast({
@@ -157,7 +191,7 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
         description: "تم تنسيق النص تلقائياً",
       });
     }
-  }, [onContentChange, calculatePagination, toast]);
+  }, [emitContent, calculatePagination, toast]);
 
   const handleUndo = () => {
     if (undoStack.length > 1) {
@@ -170,7 +204,7 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
       if (editorRef.current) {
         const formatted = parseAndFormat(previous);
         editorRef.current.innerHTML = formatted;
-        onContentChange(previous);
+        emitContent(previous);
         calculatePagination(previous);
       }
     }
@@ -186,7 +220,7 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
       if (editorRef.current) {
         const formatted = parseAndFormat(next);
         editorRef.current.innerHTML = formatted;
-        onContentChange(next);
+        emitContent(next);
         calculatePagination(next);
       }
     }
@@ -194,7 +228,8 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
 
   const handleFormat = () => {
     if (editorRef.current) {
-      const text = editorRef.current.textContent || "";
+      // الأسطر المفروضة تُستخرج ببادئاتها فيبقى تصنيف الكاتب بعد إعادة التنسيق
+      const text = extractTextFromDiv(editorRef.current);
       const formatted = parseAndFormat(text);
       editorRef.current.innerHTML = formatted;
       calculatePagination(text);
@@ -216,17 +251,29 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
     });
   };
 
-  // Initialize with sample content
+  // إعادة بناء المحرر عندما يتغيّر النص من خارجه، ولو صار فارغًا (سيناريو جديد)
   useEffect(() => {
-    if (editorRef.current && content) {
+    if (editorRef.current && isExternalContent(content, lastEmittedRef.current)) {
+      lastEmittedRef.current = content;
       const formatted = parseAndFormat(content);
       if (editorRef.current.innerHTML !== formatted) {
+        const caret = getCaretPosition(editorRef.current);
         editorRef.current.innerHTML = formatted;
+        if (caret) setCaretPosition(editorRef.current, caret);
       }
       calculatePagination(content);
     }
   }, [content, calculatePagination]);
 
+  useEffect(() => {
+    if (!onCursorChange) return;
+    const handleSelectionChange = () => {
+      if (editorRef.current) onCursorChange(getCaretPosition(editorRef.current));
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [onCursorChange]);
+
   return (
     <>
       {/* Toolbar */}
@@ -243,6 +290,7 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
               {viewMode === 'paginated' ? 'وضع الصفحات' : 'الوضع البسيط'}
             </span>
           </Button>
+          <ElementSelect value={elementWorkflow.currentElement} onChange={elementWorkflow.forceElement} />
           <Button 
             variant="ghost" 
             size="sm" 
@@ -277,16 +325,19 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
       </div>
 
       {/* Main Editor */}
-      <div 
-        ref={editorRef}
-        className="editor-container screenplay-container"
-        contentEditable="true"
-        onInput={handleInput}
-        onPaste={handlePaste}
-        data-testid="editor-main"
-        suppressContentEditableWarning={true}
-        dangerouslySetInnerHTML={{
-          __html: parseAndFormat(`بسم الله الرحمن الرحيم
+      <div className="relative">
+        <ElementContextMenu editorRef={editorRef} onReclassify={elementWorkflow.forceElement}>
+          <div 
+            ref={editorRef}
+            className="editor-container screenplay-container"
+            contentEditable="true"
+            onInput={handleInput}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            data-testid="editor-main"
+            suppressContentEditableWarning={true}
+            dangerouslySetInnerHTML={{
+              __html: parseAndFormat(`بسم الله الرحمن الرحيم
 
 مشهد 1 - خارجي - نهار
 شارع في وسط المدينة
@@ -311,8 +362,12 @@ export default function UnifiedEditor({ content, onContentChange }: UnifiedEdito
 فاطمة:
 (تلوح له من الطاولة البعيدة)
 أحمد! هنا!`)
-        }}
-      />
+            }}
+          />
+        </ElementContextMenu>
+        <RemoteCursors editor={editorRef} peers={remoteCursors} content={content} />
+        <LineSuggestions autocomplete={lineAutocomplete} />
+      </div>
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { rebaseTags, type BreakdownCategory, type BreakdownSet, type BreakdownTag } from "@/lib/breakdown";
+import { createId, readBreakdown, writeBreakdown } from "@/lib/screenplay-storage";
+
+// تثبيت المواضع على النص الجديد بعد توقف الكتابة، لا مع كل حرف
+const REANCHOR_DELAY = 1000;
+
+/** وسوم التفريغ الإنتاجي للسيناريو المفتوح، بمواضعها في النص الحالي */
+export function useBreakdown(screenplayId: string | null, content: string) {
+  const [set, setSet] = useState<BreakdownSet | null>(null);
+
+  useEffect(() => {
+    setSet(null);
+    if (!screenplayId) return;
+    let cancelled = false;
+    readBreakdown(screenplayId)
+      .then((stored) => {
+        if (!cancelled) setSet(stored);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [screenplayId]);
+
+  const tags = useMemo(() => (set ? rebaseTags(set.tags, set.text, content) : []), [set, content]);
+
+  const save = useCallback((next: BreakdownSet) => {
+    if (!screenplayId) return;
+    writeBreakdown(screenplayId, next).catch(() => {});
+    setSet(next);
+  }, [screenplayId]);
+
+  useEffect(() => {
+    if (!set || set.text === content) return;
+    const timer = setTimeout(() => save({ text: content, tags }), REANCHOR_DELAY);
+    return () => clearTimeout(timer);
+  }, [set, content, tags, save]);
+
+  /** وسم مقطع من سطر؛ الوسم المطابق في الفئة نفسها لا يتكرر */
+  const addTag = useCallback((category: BreakdownCategory, location: { line: number; start: number; end: number }) => {
+    const text = content.split("\n")[location.line]?.slice(location.start, location.end).trim();
+    if (!text) return;
+    const start = content.split("\n")[location.line].indexOf(text, location.start);
+    const tag: BreakdownTag = { id: createId(), category, line: location.line, start, end: start + text.length, text };
+    const duplicate = tags.some((t) => t.category === category && t.line === tag.line && t.start === tag.start && t.end === tag.end);
+    if (!duplicate) save({ text: content, tags: [...tags, tag] });
+  }, [content, tags, save]);
+
+  /** إزالة الوسوم التي تتقاطع مع المقطع */
+  const removeTags = useCallback((location: { line: number; start: number; end: number }) => {
+    const kept = tags.filter((t) => t.line !== location.line || t.end <= location.start || t.start >= location.end);
+    if (kept.length !== tags.length) save({ text: content, tags: kept });
+    return tags.length - kept.length;
+  }, [content, tags, save]);
+
+  return { tags, addTag, removeTags };
+}
+
+export type Breakdown = ReturnType<typeof useBreakdown>;
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CursorPosition, Peer } from "@shared/collab-protocol";
+import { CollabClient, collabUrl, type CollabStatus } from "@/lib/collab-client";
+import { connectServerStorage } from "@/lib/server-storage";
+
+interface UseCollaborationOptions {
+  /** يُستدعى عندما يتغيّر النص بتعديل من كاتب آخر */
+  onRemoteContent: (content: string) => void;
+}
+
+export function useCollaboration({ onRemoteContent }: UseCollaborationOptions) {
+  const [status, setStatus] = useState<CollabStatus>("local");
+  const [peers, setPeers] = useState<Peer[]>([]);
+
+  const clientRef = useRef<CollabClient | null>(null);
+  const screenplayIdRef = useRef<string | null>(null);
+  const onRemoteContentRef = useRef(onRemoteContent);
+  onRemoteContentRef.current = onRemoteContent;
+
+  /**
+   * ربط المحرر بغرفة السيناريو. savedContent آخر نص محفوظ على الخادم،
+   * فما يزيد عليه content (مسودة مستعادة مثلًا) يُرسل تعديلًا محليًا
+   */
+  const attach = useCallback(async (screenplayId: string, content: string, savedContent: string) => {
+    if (screenplayIdRef.current === screenplayId && clientRef.current) {
+      clientRef.current.update(content);
+      return;
+    }
+
+    clientRef.current?.close();
+    clientRef.current = null;
+    screenplayIdRef.current = screenplayId;
+    setPeers([]);
+
+    // دون الخادم (Vite وحده) يبقى التحرير محليًا
+    if (!(await connectServerStorage())) {
+      setStatus("local");
+      return;
+    }
+    if (screenplayIdRef.current !== screenplayId) return;
+
+    clientRef.current = new CollabClient({
+      url: collabUrl(screenplayId),
+      content,
+      base: savedContent,
+      onRemoteContent: (next) => onRemoteContentRef.current(next),
+      onPeers: setPeers,
+      onStatus: setStatus,
+    });
+  }, []);
+
+  const update = useCallback((content: string) => {
+    clientRef.current?.update(content);
+  }, []);
+
+  const updateCursor = useCallback((cursor: CursorPosition | null) => {
+    clientRef.current?.updateCursor(cursor);
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => clientRef.current?.reconnect();
+    window.addEventListener("online", handleOnline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      clientRef.current?.close();
+      clientRef.current = null;
+    };
+  }, []);
+
+  return { status, peers, attach, update, updateCursor };
+}
+
+export type Collaboration = ReturnType<typeof useCollaboration>;
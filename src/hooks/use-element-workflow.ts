@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState, type KeyboardEvent, type RefObject } from "react";
+import type { LineElement } from "@/lib/screenplay-document";
+import {
+  elementCommand,
+  getCaretLine,
+  getElementKind,
+  insertLineAfter,
+  retypeLine,
+  type ElementCommand,
+  type StyleLine,
+} from "@/lib/editor-elements";
+
+interface UseElementWorkflowOptions {
+  styleLine: StyleLine;
+  /** الوضع البسيط: السطر الفارغ بين العناصر div مستقل */
+  separateBlocks?: boolean;
+  /** يُستدعى بعد كل تعديل على الأسطر كي يستخرج المحرر النص ويبلّغ عنه */
+  onChange: () => void;
+}
+
+/** العنصر الحالي تحت المؤشر واختصارات Enter وTab وCtrl+1..7 */
+export function useElementWorkflow(editorRef: RefObject<HTMLElement>, { styleLine, separateBlocks = false, onChange }: UseElementWorkflowOptions) {
+  const [currentElement, setCurrentElement] = useState<LineElement>("action");
+  // آخر سطر كان فيه المؤشر؛ قائمة الشريط تأخذ التركيز من المحرر قبل أن يُختار منها
+  const lastLineRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const root = editorRef.current;
+      const line = root ? getCaretLine(root) : null;
+      if (!line) return;
+      lastLineRef.current = line;
+      setCurrentElement(getElementKind(line) ?? "action");
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => document.removeEventListener("selectionchange", handleSelectionChange);
+  }, [editorRef]);
+
+  const run = useCallback((command: ElementCommand, line: HTMLElement | null): boolean => {
+    if (!line) return false;
+
+    lastLineRef.current = command.type === "retype"
+      ? retypeLine(line, command.element, styleLine)
+      : insertLineAfter(line, command.element, styleLine, separateBlocks);
+    setCurrentElement(command.element);
+    onChange();
+    return true;
+  }, [styleLine, separateBlocks, onChange]);
+
+  const handleKeyDown = useCallback((event: KeyboardEvent) => {
+    const command = elementCommand(event, currentElement);
+    if (!command) return;
+    const root = editorRef.current;
+    if (run(command, root ? getCaretLine(root) : null)) event.preventDefault();
+  }, [editorRef, currentElement, run]);
+
+  /** فرض نوع على السطر الحالي (من قائمة الشريط)، أو على سطر بعينه (من القائمة السياقية) */
+  const forceElement = useCallback((element: LineElement, target?: HTMLElement) => {
+    const line = target ?? lastLineRef.current;
+    run({ type: "retype", element }, line?.isConnected ? line : null);
+  }, [run]);
+
+  return { currentElement, handleKeyDown, forceElement };
+}
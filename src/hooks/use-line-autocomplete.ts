@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo, useState, type KeyboardEvent, type RefObject } from "react";
+import { collectCast, suggestCharacters } from "@/lib/character-autocomplete";
+import { collectPlaces, isSceneHeaderDraft, nextSceneNumber, suggestSceneHeader } from "@/lib/scene-header-autocomplete";
+import { getCaretLine, getElementKind, getLineText } from "@/lib/editor-elements";
+
+interface UseLineAutocompleteOptions {
+  content: string;
+  /** يُستدعى بعد استبدال السطر بالاقتراح */
+  onChange: () => void;
+}
+
+interface ActiveLine {
+  line: HTMLElement;
+  typed: string;
+  kind: "character" | "scene-header";
+  /** رقم المشهد التالي بحسب الترويسات التي قبل السطر */
+  nextNumber: number;
+}
+
+/** نصوص ترويسات المشاهد الواقعة قبل السطر في المحرر */
+function precedingSceneHeaders(root: HTMLElement, line: HTMLElement): string[] {
+  return Array.from(root.querySelectorAll<HTMLElement>('[data-element="scene-header"], .scene-header-container'))
+    .filter((header) => header !== line && !!(line.compareDocumentPosition(header) & Node.DOCUMENT_POSITION_PRECEDING))
+    .map(getLineText);
+}
+
+/**
+ * إكمال السطر الحالي: أسماء الشخصيات على سطر الشخصية، وأجزاء الترويسة على سطر المشهد.
+ * الاختيار بالأسهم وEnter/Tab، وEscape يخفي القائمة حتى يتغيّر المكتوب
+ */
+export function useLineAutocomplete(editorRef: RefObject<HTMLElement>, { content, onChange }: UseLineAutocompleteOptions) {
+  const cast = useMemo(() => collectCast(content), [content]);
+  const places = useMemo(() => collectPlaces(content), [content]);
+  const [active, setActive] = useState<ActiveLine | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const root = editorRef.current;
+      const line = root ? getCaretLine(root) : null;
+      const kind = line ? getElementKind(line) : null;
+      if (!root || !line || !kind) {
+        setActive(null);
+        return;
+      }
+
+      const typed = getLineText(line);
+      let next: ActiveLine | null = null;
+      if (kind === "character") {
+        next = { line, typed, kind, nextNumber: 0 };
+      } else if (kind === "scene-header" || (kind === "action" && isSceneHeaderDraft(typed))) {
+        next = { line, typed, kind: "scene-header", nextNumber: nextSceneNumber(precedingSceneHeaders(root, line)) };
+      }
+      setActive((previous) =>
+        previous && next && previous.line === next.line && previous.typed === next.typed ? previous : next
+      );
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => document.removeEventListener("selectionchange", handleSelectionChange);
+  }, [editorRef]);
+
+  const suggestions = useMemo<string[]>(() => {
+    if (!active || active.typed === dismissed) return [];
+    return active.kind === "character"
+      ? suggestCharacters(cast, active.typed).map((suggestion) => suggestion.text)
+      : suggestSceneHeader(active.typed, active.nextNumber, places);
+  }, [cast, places, active, dismissed]);
+
+  useEffect(() => setActiveIndex(0), [suggestions]);
+
+  const accept = useCallback((index: number) => {
+    const suggestion = suggestions[index];
+    if (!active || !suggestion || !active.line.isConnected) return;
+
+    active.line.textContent = suggestion;
+    const range = document.createRange();
+    range.selectNodeContents(active.line);
+    range.collapse(false);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+
+    // اقتراح الترويسة يُكمل جزءًا فتظهر اقتراحات الجزء التالي؛ اسم الشخصية نهائي
+    if (active.kind === "character") setDismissed(suggestion);
+    onChange();
+  }, [active, suggestions, onChange]);
+
+  /** يعيد true إن استهلك الضغطة */
+  const handleKeyDown = useCallback((event: KeyboardEvent): boolean => {
+    if (suggestions.length === 0 || event.altKey || event.ctrlKey || event.metaKey) return false;
+
+    switch (event.key) {
+      case "ArrowDown":
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        setActiveIndex((index) => (index + suggestions.length - 1) % suggestions.length);
+        break;
+      case "Enter":
+      case "Tab":
+        accept(activeIndex);
+        break;
+      case "Escape":
+        setDismissed(active?.typed ?? null);
+        break;
+      default:
+        return false;
+    }
+    event.preventDefault();
+    return true;
+  }, [suggestions, activeIndex, accept, active]);
+
+  return { suggestions, activeIndex, anchor: active?.line ?? null, accept, handleKeyDown };
+}
+
+export type LineAutocomplete = ReturnType<typeof useLineAutocomplete>;
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import { mergeExamples, setLineModel, trainLineModel, type LineExample } from "@/lib/line-model";
+import { parseScreenplayText } from "@/lib/screenplay-document";
+import { correctionExamples } from "@/lib/screenplay-line-classifier";
+import { readLineCorrections, writeLineCorrections } from "@/lib/screenplay-storage";
+
+// التعلّم من التصحيحات بعد توقف الكتابة، لا مع كل حرف
+const LEARN_DELAY = 1000;
+
+/**
+ * النموذج المتعلّم من تصحيحات الكاتب (الأسطر التي فرض نوعها)، محفوظ لحسابه.
+ * ready: اكتمال اختيار واجهة التخزين، فلا تُقرأ التصحيحات من غير مكانها.
+ * يُطبَّق في التحليل التالي دون إعادة بناء المحرر.
+ */
+export function useLineModel(ready: boolean, content: string) {
+  // null حتى تُقرأ المحفوظة، فلا يطغى عليها ما يُتعلّم قبل ذلك
+  const [examples, setExamples] = useState<LineExample[] | null>(null);
+
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+    readLineCorrections()
+      .then((stored) => {
+        if (!cancelled) setExamples(stored);
+      })
+      .catch(() => {
+        if (!cancelled) setExamples([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ready]);
+
+  useEffect(() => {
+    setLineModel(examples ? trainLineModel(examples) : null);
+  }, [examples]);
+
+  useEffect(() => () => setLineModel(null), []);
+
+  useEffect(() => {
+    if (!examples) return;
+    const timer = setTimeout(() => {
+      const added = correctionExamples(parseScreenplayText(content));
+      if (added.length === 0) return;
+      const next = mergeExamples(examples, added);
+      if (JSON.stringify(next) === JSON.stringify(examples)) return;
+      writeLineCorrections(next).catch(() => {});
+      setExamples(next);
+    }, LEARN_DELAY);
+    return () => clearTimeout(timer);
+  }, [content, examples]);
+
+  /** نسيان التصحيحات والعودة إلى القواعد وحدها */
+  const reset = useCallback(() => {
+    writeLineCorrections([]).catch(() => {});
+    setExamples([]);
+  }, []);
+
+  return { examples: examples?.length ?? 0, reset };
+}
+
+export type LineLearning = ReturnType<typeof useLineModel>;
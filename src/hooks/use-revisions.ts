@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+import { lockRevisions, startNextRevision, type RevisionSet } from "@/lib/revisions";
+import { readRevisions, writeRevisions } from "@/lib/screenplay-storage";
+
+/** تاريخ اليوم المحلي بصيغة YYYY-MM-DD */
+function today(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/** الصفحات المقفلة ومراجعاتها للسيناريو المفتوح، محفوظة معه */
+export function useRevisions(screenplayId: string | null) {
+  const [revisions, setRevisions] = useState<RevisionSet | null>(null);
+
+  useEffect(() => {
+    setRevisions(null);
+    if (!screenplayId) return;
+    let cancelled = false;
+    readRevisions(screenplayId)
+      .then((stored) => {
+        if (!cancelled) setRevisions(stored);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [screenplayId]);
+
+  const save = useCallback((next: RevisionSet | null) => {
+    if (!screenplayId) return;
+    writeRevisions(screenplayId, next).catch(() => {});
+    setRevisions(next);
+  }, [screenplayId]);
+
+  /** قفل الصفحات كما تُرقَّم الآن وبدء المراجعة الأولى */
+  const lock = useCallback((content: string) => save(lockRevisions(content, today())), [save]);
+
+  const nextRevision = useCallback((content: string) => {
+    if (revisions) save(startNextRevision(revisions, content, today()));
+  }, [revisions, save]);
+
+  const unlock = useCallback(() => save(null), [save]);
+
+  return { revisions, lock, nextRevision, unlock };
+}
+
+export type Revisions = ReturnType<typeof useRevisions>;
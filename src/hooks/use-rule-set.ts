@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  BUILTIN_RULE_SETS,
+  DEFAULT_RULE_SET_ID,
+  parseRuleSet,
+  setActiveRuleSet,
+  type RuleSet,
+} from "@/lib/classification-rules";
+import { readRuleSetChoice, writeRuleSetChoice, type RuleSetChoice } from "@/lib/screenplay-storage";
+
+const defaultRuleSet = () => BUILTIN_RULE_SETS.find((ruleSet) => ruleSet.id === DEFAULT_RULE_SET_ID)!;
+
+function toRuleSet(choice: RuleSetChoice | null): RuleSet {
+  if (!choice) return defaultRuleSet();
+  if (typeof choice === "string") return BUILTIN_RULE_SETS.find((ruleSet) => ruleSet.id === choice) ?? defaultRuleSet();
+  return choice;
+}
+
+/** تفعيل ملف قواعد؛ الملف المحفوظ التالف يعود إلى الافتراضي */
+function activate(ruleSet: RuleSet): RuleSet {
+  try {
+    setActiveRuleSet(ruleSet);
+    return ruleSet;
+  } catch {
+    setActiveRuleSet(defaultRuleSet());
+    return defaultRuleSet();
+  }
+}
+
+/**
+ * ملف قواعد التصنيف للسيناريو المفتوح، محفوظ معه.
+ * version يتغيّر مع كل تفعيل ليعيد المحرر تصنيف النص.
+ */
+export function useRuleSet(screenplayId: string | null) {
+  const [ruleSet, setRuleSet] = useState<RuleSet>(defaultRuleSet);
+  const [version, setVersion] = useState(0);
+
+  const apply = useCallback((next: RuleSet) => {
+    setRuleSet(activate(next));
+    setVersion((v) => v + 1);
+  }, []);
+
+  useEffect(() => {
+    apply(defaultRuleSet());
+    if (!screenplayId) return;
+    let cancelled = false;
+    readRuleSetChoice(screenplayId)
+      .then((choice) => {
+        if (!cancelled && choice) apply(toRuleSet(choice));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [screenplayId, apply]);
+
+  /** اختيار ملف مدمج */
+  const select = useCallback((id: string) => {
+    if (screenplayId) writeRuleSetChoice(screenplayId, id === DEFAULT_RULE_SET_ID ? null : id).catch(() => {});
+    apply(toRuleSet(id));
+  }, [screenplayId, apply]);
+
+  /** استيراد ملف JSON؛ يرمي رسالة الخطأ إن لم يصح */
+  const importRuleSet = useCallback((json: string) => {
+    const custom = parseRuleSet(json);
+    if (screenplayId) writeRuleSetChoice(screenplayId, custom).catch(() => {});
+    apply(custom);
+    return custom;
+  }, [screenplayId, apply]);
+
+  return { ruleSet, version, select, importRuleSet };
+}
+
+export type RuleSetState = ReturnType<typeof useRuleSet>;
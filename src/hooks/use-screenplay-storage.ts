@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  clearRecoveryDraft,
+  createAutosaver,
+  createId,
+  createScreenplayRecord,
+  findNewerDraft,
+  getLastOpenedId,
+  getStorageBackend,
+  setLastOpenedId,
+  setStorageUser,
+  toSummary,
+  writeRecoveryDraft,
+  type ScreenplayRecord,
+  type ScreenplaySummary,
+  type SnapshotRecord,
+} from "@/lib/screenplay-storage";
+import { connectServerStorage } from "@/lib/server-storage";
+
+export const DEFAULT_SCREENPLAY_TITLE = "سيناريو بدون عنوان";
+
+export type SaveState = "idle" | "pending" | "saving" | "saved" | "error";
+
+export interface LoadInfo {
+  recovered: boolean;
+  screenplayId: string;
+  /** النص كما هو في التخزين؛ يختلف عن content حين تُسترجع مسودة لم تُحفظ */
+  savedContent: string;
+}
+
+interface UseScreenplayStorageOptions {
+  /** المستخدم المسجّل، أو null دون خادم */
+  userId: string | null;
+  /** يُستدعى عند تحميل نص سيناريو (فتح، إنشاء، استعادة نسخة، أو استرجاع بعد عطل) */
+  onLoad: (content: string, info: LoadInfo) => void;
+}
+
+export function useScreenplayStorage({ userId, onLoad }: UseScreenplayStorageOptions) {
+  const [ready, setReady] = useState(false);
+  const [current, setCurrent] = useState<ScreenplaySummary | null>(null);
+  const [screenplays, setScreenplays] = useState<ScreenplaySummary[]>([]);
+  const [snapshots, setSnapshots] = useState<SnapshotRecord[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+
+  const currentRef = useRef<ScreenplayRecord | null>(null);
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  const persist = useCallback(async (content: string) => {
+    const record = currentRef.current;
+    if (!record) return;
+    const next: ScreenplayRecord = { ...record, content, updatedAt: Date.now() };
+    setSaveState("saving");
+    try {
+      await getStorageBackend().putScreenplay(next);
+    } catch (error) {
+      setSaveState("error");
+      throw error;
+    }
+    // قد يكون المستخدم انتقل إلى سيناريو آخر أثناء الحفظ
+    if (currentRef.current?.id !== next.id) return;
+    currentRef.current = next;
+    setCurrent(toSummary(next));
+    setScreenplays((prev) => [toSummary(next), ...prev.filter((item) => item.id !== next.id)]);
+    setLastSavedAt(next.updatedAt);
+    setSaveState("saved");
+    clearRecoveryDraft(next.id);
+  }, []);
+
+  const [autosaver] = useState(() => createAutosaver(persist));
+  useEffect(() => () => {
+    autosaver.flush().catch(() => {});
+  }, [autosaver]);
+
+  const activate = useCallback(async (record: ScreenplayRecord, recovered = false) => {
+    currentRef.current = record;
+    setCurrent(toSummary(record));
+    setLastSavedAt(record.updatedAt);
+    setSaveState(recovered ? "pending" : "saved");
+    setLastOpenedId(record.id);
+    setSnapshots(await getStorageBackend().listSnapshots(record.id));
+  }, []);
+
+  // التحميل الأول: آخر سيناريو مفتوح (أو الأحدث)، مع استرجاع مسودة أحدث إن انهارت الصفحة قبل الحفظ
+  useEffect(() => {
+    let cancelled = false;
+    setStorageUser(userId);
+
+    (async () => {
+      await connectServerStorage();
+      const backend = getStorageBackend();
+      let list = await backend.listScreenplays();
+      const preferredId = getLastOpenedId() ?? list[0]?.id;
+      let record = preferredId ? await backend.getScreenplay(preferredId) : null;
+      if (!record && list[0]) record = await backend.getScreenplay(list[0].id);
+      if (!record) {
+        record = createScreenplayRecord(DEFAULT_SCREENPLAY_TITLE, "");
+        await backend.putScreenplay(record);
+        list = [toSummary(record)];
+      }
+      if (cancelled) return;
+
+      const draft = findNewerDraft(record);
+      setScreenplays(list);
+      await activate(record, Boolean(draft));
+      if (cancelled) return;
+
+      onLoadRef.current(draft ? draft.content : record.content, {
+        recovered: Boolean(draft),
+        screenplayId: record.id,
+        savedContent: record.content,
+      });
+      if (draft) autosaver.schedule(draft.content);
+      setReady(true);
+    })().catch(() => {
+      if (!cancelled) setSaveState("error");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, activate, autosaver]);
+
+  // حفظ المعلّق عند مغادرة الصفحة أو إخفائها؛ المسودة المتزامنة تغطي ما لا يكتمل
+  useEffect(() => {
+    const flush = () => {
+      autosaver.flush().catch(() => {});
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    window.addEventListener("beforeunload", flush);
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      window.removeEventListener("beforeunload", flush);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [autosaver]);
+
+  /** تسجيل تعديل: مسودة فورية للاستعادة وحفظ تلقائي مؤجّل */
+  const recordChange = useCallback((content: string) => {
+    const record = currentRef.current;
+    if (!record) return;
+    writeRecoveryDraft({ screenplayId: record.id, content, savedAt: Date.now() });
+    setSaveState("pending");
+    autosaver.schedule(content);
+  }, [autosaver]);
+
+  const saveNow = useCallback(async (content: string) => {
+    autosaver.cancel();
+    await persist(content);
+  }, [autosaver, persist]);
+
+  const openScreenplay = useCallback(async (id: string) => {
+    if (id === currentRef.current?.id) return;
+    await autosaver.flush();
+    const record = await getStorageBackend().getScreenplay(id);
+    if (!record) return;
+    await activate(record);
+    onLoadRef.current(record.content, { recovered: false, screenplayId: record.id, savedContent: record.content });
+  }, [activate, autosaver]);
+
+  const createScreenplay = useCallback(async (title: string, content = "") => {
+    await autosaver.flush();
+    const record = createScreenplayRecord(title.trim() || DEFAULT_SCREENPLAY_TITLE, content);
+    await getStorageBackend().putScreenplay(record);
+    setScreenplays((prev) => [toSummary(record), ...prev]);
+    await activate(record);
+    onLoadRef.current(record.content, { recovered: false, screenplayId: record.id, savedContent: record.content });
+  }, [activate, autosaver]);
+
+  const renameScreenplay = useCallback(async (title: string) => {
+    const record = currentRef.current;
+    const trimmed = title.trim();
+    if (!record || !trimmed || trimmed === record.title) return;
+    // العنوان وحده يتغيّر؛ النص يبقى كما حُفظ آخر مرة
+    const next = { ...record, title: trimmed };
+    await getStorageBackend().putScreenplay(next);
+    currentRef.current = next;
+    setCurrent(toSummary(next));
+    setScreenplays((prev) => prev.map((item) => (item.id === next.id ? toSummary(next) : item)));
+  }, []);
+
+  const deleteScreenplay = useCallback(async (id: string) => {
+    const backend = getStorageBackend();
+    if (id === currentRef.current?.id) autosaver.cancel();
+    await backend.deleteScreenplay(id);
+    clearRecoveryDraft(id);
+    const remaining = await backend.listScreenplays();
+    setScreenplays(remaining);
+    if (id !== currentRef.current?.id) return;
+
+    const fallback = remaining[0] ? await backend.getScreenplay(remaining[0].id) : null;
+    const record = fallback ?? createScreenplayRecord(DEFAULT_SCREENPLAY_TITLE, "");
+    if (!fallback) {
+      await backend.putScreenplay(record);
+      setScreenplays([toSummary(record)]);
+    }
+    await activate(record);
+    onLoadRef.current(record.content, { recovered: false, screenplayId: record.id, savedContent: record.content });
+  }, [activate, autosaver]);
+
+  const createSnapshot = useCallback(async (name: string, content: string) => {
+    const record = currentRef.current;
+    if (!record) return;
+    const snapshot: SnapshotRecord = {
+      id: createId(),
+      screenplayId: record.id,
+      name: name.trim() || new Date().toLocaleString("ar-SA"),
+      content,
+      createdAt: Date.now(),
+    };
+    await getStorageBackend().putSnapshot(snapshot);
+    setSnapshots((prev) => [snapshot, ...prev]);
+  }, []);
+
+  /** استعادة نسخة بعد حفظ النص الحالي نسخةً تلقائية، كي لا تكون الاستعادة نهائية */
+  const restoreSnapshot = useCallback(async (snapshot: SnapshotRecord, currentContent: string) => {
+    if (currentContent !== snapshot.content) {
+      await createSnapshot(`قبل استعادة «${snapshot.name}»`, currentContent);
+    }
+    autosaver.cancel();
+    await persist(snapshot.content);
+    onLoadRef.current(snapshot.content, {
+      recovered: false,
+      screenplayId: snapshot.screenplayId,
+      savedContent: snapshot.content,
+    });
+  }, [autosaver, createSnapshot, persist]);
+
+  const deleteSnapshot = useCallback(async (id: string) => {
+    const record = currentRef.current;
+    if (!record) return;
+    await getStorageBackend().deleteSnapshot(record.id, id);
+    setSnapshots((prev) => prev.filter((snapshot) => snapshot.id !== id));
+  }, []);
+
+  return {
+    ready,
+    current,
+    screenplays,
+    snapshots,
+    lastSavedAt,
+    saveState,
+    recordChange,
+    saveNow,
+    openScreenplay,
+    createScreenplay,
+    renameScreenplay,
+    deleteScreenplay,
+    createSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
+  };
+}
+
+export type ScreenplayStorage = ReturnType<typeof useScreenplayStorage>;
@@ -21,17 +21,18 @@ function outerHeight(el: HTMLElement): number {
   return rect.height + marginTop + marginBottom;
 }
 
-function createPage(pageNo: number): PageRefs {
+function createPage(pageNo: number, label: string): PageRefs {
   const page = document.createElement('div');
   page.className = 'page';
   page.setAttribute('data-page', String(pageNo));
+  page.setAttribute('data-page-label', label);
 
   const content = document.createElement('div');
   content.className = 'page-content';
 
   const footer = document.createElement('div');
   footer.className = 'page-footer';
-  footer.textContent = String(pageNo);
+  footer.textContent = label;
 
   page.appendChild(content);
   page.appendChild(footer);
@@ -53,11 +54,19 @@ function getFontReadyPromise(): Promise<unknown> | null {
   return anyDocument.fonts?.ready ?? null;
 }
 
+/** لاحقة صفحة الفيض في النسخة المقفلة: 23A ثم 23B */
+function overflowLabel(label: string, overflow: number): string {
+  return overflow === 0 ? label : `${label}${String.fromCharCode(64 + overflow)}`;
+}
+
 export class PaginationEngine {
   private readonly host: HTMLElement;
   private readonly pages: PageRefs[] = [];
   private current: PageRefs;
   private pageNo = 0;
+  // رقم الصفحة المقفلة الجارية وعدد صفحات الفيض بعدها؛ null للترقيم المتسلسل
+  private lockedLabel: string | null = null;
+  private overflow = 0;
   private readonly afterPageCreated?: (page: PageRefs) => void;
 
   constructor(host: HTMLElement, onPageCreated?: (page: PageRefs) => void) {
@@ -67,7 +76,9 @@ export class PaginationEngine {
   }
 
   private addPage(isFirst = false): PageRefs {
-    const page = createPage(++this.pageNo);
+    ++this.pageNo;
+    const label = this.lockedLabel === null ? String(this.pageNo) : overflowLabel(this.lockedLabel, this.overflow++);
+    const page = createPage(this.pageNo, label);
     if (!isFirst) {
       this.host.appendChild(createSeparator());
     }
@@ -90,6 +101,22 @@ export class PaginationEngine {
     return remaining > 0 ? remaining : 0;
   }
 
+  /**
+   * بداية صفحة برقم ثابت من نسخة مقفلة؛ ما يفيض عنها يأخذ الرقم نفسه بلاحقة.
+   * الصفحة الأولى الفارغة تأخذ الرقم بدل إضافة صفحة
+   */
+  startLockedPage(label: string) {
+    this.lockedLabel = label;
+    this.overflow = 0;
+    if (this.pages.length === 1 && this.current.content.children.length === 0) {
+      this.current.page.setAttribute('data-page-label', label);
+      this.current.footer.textContent = label;
+      this.overflow = 1;
+      return;
+    }
+    this.addPage();
+  }
+
   appendBlock(build: BuildFn) {
     const node = build();
     this.current.content.appendChild(node);
@@ -111,12 +138,13 @@ export class PaginationEngine {
     }
   }
 
-  appendTextParagraph(rawText: string, className: string) {
+  appendTextParagraph(rawText: string, className: string, dataset: Record<string, string> = {}) {
     const words = rawText.split(/\s+/).filter(Boolean);
     if (words.length === 0) {
       this.appendBlock(() => {
         const empty = document.createElement('div');
         empty.className = className;
+        Object.assign(empty.dataset, dataset);
         empty.innerHTML = '&nbsp;';
         return empty;
       });
@@ -130,6 +158,7 @@ export class PaginationEngine {
     const build = (count: number) => {
       const element = document.createElement('div');
       element.className = className;
+      Object.assign(element.dataset, dataset);
       element.textContent = words.slice(0, count).join(' ');
       return element;
     };
@@ -161,7 +190,7 @@ export class PaginationEngine {
     const remainingWords = words.slice(best);
     if (remainingWords.length > 0) {
       this.addPage();
-      this.appendTextParagraph(remainingWords.join(' '), className);
+      this.appendTextParagraph(remainingWords.join(' '), className, dataset);
     }
   }
 
@@ -169,6 +198,8 @@ export class PaginationEngine {
     this.host.innerHTML = '';
     this.pages.length = 0;
     this.pageNo = 0;
+    this.lockedLabel = null;
+    this.overflow = 0;
     this.current = this.addPage(true);
   }
 
@@ -103,13 +103,14 @@ export class AdvancedPaginationEngine {
    * إدراج فقرة قابلة للتجزئة (حوار طويل/وصف طويل).
    * تقسم النص على حدود الكلمات ثنائيًّا للوصول لأكبر جزء يلائم الصفحة.
    */
-  appendTextParagraph(rawText: string, className: string) {
+  appendTextParagraph(rawText: string, className: string, dataset: Record<string, string> = {}) {
     const words = rawText.split(/\s+/);
     let lo = 0, hi = words.length, best = 0;
 
     const build = (cnt: number) => {
       const el = document.createElement('div');
       el.className = className;
+      Object.assign(el.dataset, dataset);
       el.textContent = words.slice(0, cnt).join(' ');
       return el;
     };
@@ -144,7 +145,7 @@ export class AdvancedPaginationEngine {
     const rest = words.slice(best).join(' ').trim();
     if (rest) {
       this.addPage();
-      this.appendTextParagraph(rest, className);
+      this.appendTextParagraph(rest, className, dataset);
     }
   }
 
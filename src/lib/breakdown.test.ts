@@ -0,0 +1,100 @@
+import {
+  breakdownCsv,
+  buildBreakdownSheet,
+  locateSelection,
+  mapDomSegments,
+  rebaseTags,
+  tagRanges,
+  type BreakdownTag
+} from './breakdown';
+import { createPagedHTML } from './screenplay-parser';
+
+const SCRIPT = `مشهد 1 - ليل-داخلي – بيت أحمد
+
+يدخل أحمد حاملًا مسدسًا ويرتدي معطفًا أسود.
+
+أحمد:
+أين المفاتيح؟
+
+مشهد 2 - نهار-خارجي – الشارع
+
+يمر حشد من المارة.`;
+
+const tag = (category: BreakdownTag['category'], line: number, text: string, id = text): BreakdownTag => {
+  const start = SCRIPT.split('\n')[line].indexOf(text);
+  return { id, category, line, start, end: start + text.length, text };
+};
+
+const TAGS = [
+  tag('props', 2, 'مسدسًا'),
+  tag('wardrobe', 2, 'معطفًا أسود'),
+  tag('props', 5, 'المفاتيح'),
+  tag('extras', 9, 'حشد من المارة')
+];
+
+describe('breakdown', () => {
+  test('tags follow inserted lines and edits to their own line', () => {
+    const edited = SCRIPT.replace('يدخل أحمد حاملًا', 'ببطء يدخل أحمد حاملًا').replace('بيت أحمد\n', 'بيت أحمد\n\nالليل هادئ.\n');
+    const moved = rebaseTags(TAGS, SCRIPT, edited);
+    const lines = edited.split('\n');
+
+    expect(moved.map((t) => t.line)).toEqual([4, 4, 7, 11]);
+    moved.forEach((t) => expect(lines[t.line].slice(t.start, t.end)).toBe(t.text));
+  });
+
+  test('a tag whose text was deleted is dropped', () => {
+    const edited = SCRIPT.replace(' ويرتدي معطفًا أسود', '');
+    expect(rebaseTags(TAGS, SCRIPT, edited).map((t) => t.text)).toEqual(['مسدسًا', 'المفاتيح', 'حشد من المارة']);
+  });
+
+  test('tags follow a scene that was moved', () => {
+    const lines = SCRIPT.split('\n');
+    const swapped = [...lines.slice(7), '', ...lines.slice(0, 6)].join('\n');
+    const moved = rebaseTags(TAGS, SCRIPT, swapped);
+    const swappedLines = swapped.split('\n');
+
+    expect(moved.map((t) => t.text).sort()).toEqual(TAGS.map((t) => t.text).sort());
+    moved.forEach((t) => expect(swappedLines[t.line].slice(t.start, t.end)).toBe(t.text));
+  });
+
+  test('per-scene breakdown sheet with speaking cast and tagged items', () => {
+    const sheet = buildBreakdownSheet(SCRIPT, [...TAGS, tag('cast', 2, 'أحمد')]);
+    expect(sheet).toEqual([
+      {
+        number: '1',
+        timeLocation: 'ليل-داخلي',
+        place: 'بيت أحمد',
+        eighths: 1,
+        cast: ['أحمد'],
+        items: { extras: [], props: ['مسدسًا', 'المفاتيح'], wardrobe: ['معطفًا أسود'], locations: [] }
+      },
+      {
+        number: '2',
+        timeLocation: 'نهار-خارجي',
+        place: 'الشارع',
+        eighths: 1,
+        cast: [],
+        items: { extras: ['حشد من المارة'], props: [], wardrobe: [], locations: [] }
+      }
+    ]);
+    expect(breakdownCsv(sheet).split('\r\n')[1]).toBe('1,ليل-داخلي,بيت أحمد,1,أحمد,,مسدسًا، المفاتيح,معطفًا أسود,');
+  });
+
+  test('maps editor selections to source positions and tags back to ranges', () => {
+    const root = document.createElement('div');
+    root.innerHTML = createPagedHTML(SCRIPT);
+    document.body.appendChild(root);
+    const segments = mapDomSegments(root, SCRIPT);
+    expect(segments.map((s) => s.line)).toEqual([2, 5, 9]);
+
+    const action = segments[0].element.firstChild!;
+    const selection = document.createRange();
+    const at = action.textContent!.indexOf('مسدسًا');
+    selection.setStart(action, at);
+    selection.setEnd(action, at + 'مسدسًا'.length);
+    expect(locateSelection(segments, selection)).toEqual({ line: 2, start: TAGS[0].start, end: TAGS[0].end });
+
+    expect(tagRanges(segments, TAGS[3]).map((range) => range.toString())).toEqual(['حشد من المارة']);
+    root.remove();
+  });
+});
@@ -0,0 +1,299 @@
+// Production Breakdown - تفريغ السيناريو للإنتاج
+// وسوم على مقاطع من نص الحركة والحوار (ممثلون، كومبارس، إكسسوارات، أزياء، مواقع) مثبّتة على أسطر المصدر،
+// تنتقل مع النص عبر التعديلات بمقارنة الأسطر؛ ومنها ورقة تفريغ لكل مشهد تُصدَّر CSV أو JSON
+
+import { characterKey } from './character-autocomplete';
+import { textNodes, toRange } from './find-replace';
+import { getElementKind, getLineElement } from './editor-elements';
+import { buildSceneOutline } from './scene-outline';
+import { parseScreenplayText } from './screenplay-document';
+import { toCsv } from './screenplay-reports';
+import { diffLines } from './text-diff';
+
+export type BreakdownCategory = 'cast' | 'extras' | 'props' | 'wardrobe' | 'locations';
+
+export const BREAKDOWN_CATEGORIES: Array<{ id: BreakdownCategory; label: string }> = [
+  { id: 'cast', label: 'ممثلون' },
+  { id: 'extras', label: 'كومبارس' },
+  { id: 'props', label: 'إكسسوارات' },
+  { id: 'wardrobe', label: 'أزياء' },
+  { id: 'locations', label: 'مواقع' }
+];
+
+export interface BreakdownTag {
+  id: string;
+  category: BreakdownCategory;
+  /** سطر المصدر (فهرس صفري) */
+  line: number;
+  /** موضع المقطع في السطر */
+  start: number;
+  end: number;
+  /** نص المقطع؛ به يُعاد العثور عليه إذا تغيّر سطره */
+  text: string;
+}
+
+export interface BreakdownSet {
+  /** النص الذي ثُبّتت عليه مواضع الوسوم */
+  text: string;
+  tags: BreakdownTag[];
+}
+
+// ===== تتبّع الوسوم عبر التعديلات =====
+
+/** موضع الوسم في أسطر تعديل واحد؛ الأقرب إلى سطره وموضعه الأصليين */
+function relocate(tag: BreakdownTag, rank: number, candidates: number[], lines: string[]): BreakdownTag | null {
+  let best: { line: number; start: number; score: [number, number] } | null = null;
+  candidates.forEach((line, index) => {
+    for (let start = lines[line].indexOf(tag.text); start >= 0; start = lines[line].indexOf(tag.text, start + 1)) {
+      const score: [number, number] = [Math.abs(index - rank), Math.abs(start - tag.start)];
+      if (!best || score[0] < best.score[0] || (score[0] === best.score[0] && score[1] < best.score[1])) {
+        best = { line, start, score };
+      }
+    }
+  });
+  if (!best) return null;
+  const { line, start } = best;
+  return { ...tag, line, start, end: start + tag.text.length };
+}
+
+/**
+ * مواضع الوسوم في النص الجديد: السطر الباقي كما هو ينقل وسومه برقمه الجديد، والسطر المعدّل
+ * يبحث عن نص الوسم في الأسطر التي حلّت محله، ثم في كل الأسطر المضافة (مشهد نُقل يظهر حذفًا
+ * في موضع وإضافة في آخر)؛ ما اختفى نصه يسقط
+ */
+export function rebaseTags(tags: BreakdownTag[], before: string, after: string): BreakdownTag[] {
+  if (before === after || tags.length === 0) return tags;
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+  const byLine = new Map<number, BreakdownTag[]>();
+  tags.forEach((tag) => byLine.set(tag.line, [...(byLine.get(tag.line) ?? []), tag]));
+
+  const result: BreakdownTag[] = [];
+  const unplaced: BreakdownTag[] = [];
+  const allAdded: number[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    removed.forEach((line, rank) =>
+      (byLine.get(line) ?? []).forEach((tag) => {
+        const moved = relocate(tag, rank, added, newLines);
+        if (moved) result.push(moved);
+        else unplaced.push(tag);
+      })
+    );
+    removed = [];
+    added = [];
+  };
+
+  diffLines(before, after).forEach((entry) => {
+    if (entry.type === 'removed') {
+      removed.push(oldIndex++);
+    } else if (entry.type === 'added') {
+      allAdded.push(newIndex);
+      added.push(newIndex++);
+    } else {
+      flush();
+      const line = newIndex;
+      (byLine.get(oldIndex) ?? []).forEach((tag) => result.push({ ...tag, line }));
+      oldIndex++;
+      newIndex++;
+    }
+  });
+  flush();
+
+  // السطر المنقول كما هو أولى من سطر آخر يصادف أنه يحوي نص الوسم
+  unplaced.forEach((tag) => {
+    const same = allAdded.filter((line) => newLines[line] === oldLines[tag.line]);
+    const moved = relocate(tag, 0, same, newLines) ?? relocate(tag, 0, allAdded, newLines);
+    if (moved) result.push(moved);
+  });
+  return result.sort((a, b) => a.line - b.line || a.start - b.start);
+}
+
+// ===== ورقة التفريغ =====
+
+export interface SceneBreakdown {
+  number: string;
+  /** الداخلي/الخارجي والوقت كما في الترويسة (scene-header-2) */
+  timeLocation: string;
+  place: string;
+  /** الطول بأثمان الصفحة */
+  eighths: number;
+  /** الشخصيات المتكلمة ثم الممثلون الموسومون */
+  cast: string[];
+  items: Record<Exclude<BreakdownCategory, 'cast'>, string[]>;
+}
+
+const addUnique = (list: string[], value: string) => {
+  const key = characterKey(value);
+  if (key && !list.some((item) => characterKey(item) === key)) list.push(value.trim());
+};
+
+export function buildBreakdownSheet(content: string, tags: BreakdownTag[]): SceneBreakdown[] {
+  const doc = parseScreenplayText(content);
+  const starts = doc.scenes.filter((scene) => scene.header).map((scene) => scene.range.start);
+
+  return buildSceneOutline(doc).map(({ header, eighths }, index) => {
+    const start = starts[index];
+    const end = index + 1 < starts.length ? starts[index + 1] : doc.lines.length;
+    const sheet: SceneBreakdown = {
+      number: header.number || String(index + 1),
+      timeLocation: header.timeLocation,
+      place: header.place,
+      eighths,
+      cast: [],
+      items: { extras: [], props: [], wardrobe: [], locations: [] }
+    };
+
+    doc.elements.forEach((node) => {
+      if (node.type !== 'dialogue-block' || node.range.start < start || node.range.start >= end) return;
+      addUnique(sheet.cast, node.character.replace(/^\s*صوت\s+/, '').replace(/\s*\([^()]*\)\s*$/, ''));
+    });
+    tags
+      .filter((tag) => tag.line >= start && tag.line < end)
+      .forEach((tag) => addUnique(tag.category === 'cast' ? sheet.cast : sheet.items[tag.category], tag.text));
+    return sheet;
+  });
+}
+
+export function breakdownCsv(sheet: SceneBreakdown[]): string {
+  const label = (id: BreakdownCategory) => BREAKDOWN_CATEGORIES.find((category) => category.id === id)!.label;
+  return toCsv([
+    ['المشهد', 'الزمان والمكان', 'المكان', 'الطول (أثمان)', label('cast'), label('extras'), label('props'), label('wardrobe'), label('locations')],
+    ...sheet.map((scene) => [
+      scene.number,
+      scene.timeLocation,
+      scene.place,
+      scene.eighths,
+      scene.cast.join('، '),
+      scene.items.extras.join('، '),
+      scene.items.props.join('، '),
+      scene.items.wardrobe.join('، '),
+      scene.items.locations.join('، ')
+    ])
+  ]);
+}
+
+export function breakdownJson(sheet: SceneBreakdown[]): string {
+  return JSON.stringify(sheet, null, 2);
+}
+
+// ===== الوسوم في المحرر المعروض =====
+
+interface SourceSegment {
+  line: number;
+  /** النص بمسافات موحّدة كما يعرضه المحرر، وموضع كل حرف منه في سطر المصدر */
+  text: string;
+  offsets: number[];
+}
+
+/** أسطر الحركة والحوار القابلة للوسم بترتيبها */
+function taggableSegments(content: string): SourceSegment[] {
+  const doc = parseScreenplayText(content);
+  const segments: SourceSegment[] = [];
+  const push = (line: number, text: string) => {
+    const raw = doc.lines[line];
+    const at = raw.indexOf(text);
+    if (at < 0) return;
+    let collapsed = '';
+    const offsets: number[] = [];
+    for (let i = at; i < at + text.length; i++) {
+      const space = /\s/.test(raw[i]);
+      if (space && collapsed.endsWith(' ')) continue;
+      collapsed += space ? ' ' : raw[i];
+      offsets.push(i);
+    }
+    segments.push({ line, text: collapsed, offsets });
+  };
+
+  doc.elements.forEach((node) => {
+    if (node.type === 'action') push(node.range.start, node.text);
+    if (node.type === 'dialogue-block') {
+      node.lines.forEach((line) => line.type === 'dialogue' && push(line.range.start, line.text));
+    }
+  });
+  return segments;
+}
+
+export interface DomSegment {
+  element: HTMLElement;
+  line: number;
+  /** موضع كل حرف من نص العنصر في سطر المصدر */
+  offsets: number[];
+}
+
+/**
+ * مطابقة عناصر الحركة والحوار المعروضة بأسطر المصدر بالترتيب. فقرة الحركة التي انقسمت
+ * على صفحتين تظهر عنصرين متتاليين يكمل ثانيهما نص الأول
+ */
+export function mapDomSegments(root: HTMLElement, content: string): DomSegment[] {
+  const segments = taggableSegments(content);
+  const mapped: DomSegment[] = [];
+  let index = 0;
+  let consumed = 0;
+
+  root.querySelectorAll<HTMLElement>('*').forEach((element) => {
+    const kind = getElementKind(element);
+    if ((kind !== 'action' && kind !== 'dialogue') || getLineElement(root, element) !== element) return;
+    const text = (element.textContent ?? '').trim();
+    if (!text) return;
+
+    const fits = (segment: SourceSegment, from: number) => segment.text.startsWith(text, from);
+    if (!(index < segments.length && fits(segments[index], consumed))) {
+      // عنصر لا يكمل السطر الجاري: أول سطر تالٍ يبدأ بنصه
+      const next = segments.findIndex((segment, i) => i >= index && fits(segment, 0));
+      if (next < 0) return;
+      index = next;
+      consumed = 0;
+    }
+
+    const segment = segments[index];
+    mapped.push({ element, line: segment.line, offsets: segment.offsets.slice(consumed, consumed + text.length) });
+    consumed += text.length;
+    if (segment.text[consumed] === ' ') consumed++;
+    if (consumed >= segment.text.length) {
+      index++;
+      consumed = 0;
+    }
+  });
+  return mapped;
+}
+
+/** موضع التحديد (أو المؤشر) في المصدر إن وقع داخل سطر حركة أو حوار واحد */
+export function locateSelection(
+  segments: DomSegment[],
+  range: Range
+): { line: number; start: number; end: number } | null {
+  const segment = segments.find(({ element }) => element.contains(range.startContainer) && element.contains(range.endContainer));
+  if (!segment) return null;
+
+  const offsetOf = (container: Node, offset: number) => {
+    const probe = document.createRange();
+    probe.selectNodeContents(segment.element);
+    probe.setEnd(container, offset);
+    // النص المعروض قد يبدأ بمسافات لم تُحسب في المطابقة
+    const leading = (segment.element.textContent ?? '').length - (segment.element.textContent ?? '').trimStart().length;
+    return probe.toString().length - leading;
+  };
+  const start = Math.max(0, offsetOf(range.startContainer, range.startOffset));
+  const end = Math.min(segment.offsets.length, offsetOf(range.endContainer, range.endOffset));
+  if (end < start || start >= segment.offsets.length) return null;
+  const from = segment.offsets[start];
+  return { line: segment.line, start: from, end: end > start ? segment.offsets[end - 1] + 1 : from };
+}
+
+/** نطاقات الوسم في المحرر المعروض (أكثر من نطاق إن انقسمت فقرته على صفحتين) */
+export function tagRanges(segments: DomSegment[], tag: BreakdownTag): Range[] {
+  return segments.flatMap(({ element, line, offsets }) => {
+    if (line !== tag.line) return [];
+    const from = offsets.findIndex((offset) => offset >= tag.start);
+    const to = offsets.findIndex((offset) => offset >= tag.end);
+    const end = to < 0 ? offsets.length : to;
+    if (from < 0 || end <= from) return [];
+    const text = element.textContent ?? '';
+    const leading = text.length - text.trimStart().length;
+    return [toRange(textNodes(element), leading + from, leading + end)];
+  });
+}
@@ -0,0 +1,74 @@
+// Caret Position - موضع المؤشر داخل المحرر بصيغة (كتلة، إزاحة)
+// الكتلة عنصر سيناريو واحد: أبناء .page-content في وضع الصفحات، أو أبناء المحرر مباشرة في الوضع البسيط
+
+import type { CursorPosition } from '@shared/collab-protocol';
+
+export function getEditorBlocks(root: HTMLElement): HTMLElement[] {
+  const pageContents = root.querySelectorAll('.page-content');
+  if (pageContents.length > 0) {
+    return Array.from(pageContents).flatMap((page) => Array.from(page.children) as HTMLElement[]);
+  }
+  return Array.from(root.children) as HTMLElement[];
+}
+
+export function getCaretPosition(root: HTMLElement): CursorPosition | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer)) return null;
+
+  const blocks = getEditorBlocks(root);
+  const block = blocks.findIndex((element) => element.contains(range.startContainer));
+  if (block === -1) return null;
+
+  const before = document.createRange();
+  before.selectNodeContents(blocks[block]);
+  before.setEnd(range.startContainer, range.startOffset);
+  return { block, offset: before.toString().length };
+}
+
+/** العقدة النصية والإزاحة فيها المقابلتان للموضع؛ null إن لم تكن في الكتلة عقد نصية */
+function locate(root: HTMLElement, position: CursorPosition): { block: HTMLElement; node: Text | null; offset: number } | null {
+  const blocks = getEditorBlocks(root);
+  if (blocks.length === 0) return null;
+  const block = blocks[Math.min(position.block, blocks.length - 1)];
+
+  const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+  let remaining = position.offset;
+  let last: Text | null = null;
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    if (remaining <= node.length) return { block, node, offset: remaining };
+    remaining -= node.length;
+    last = node;
+  }
+  return { block, node: last, offset: last ? last.length : 0 };
+}
+
+export function setCaretPosition(root: HTMLElement, position: CursorPosition) {
+  const target = locate(root, position);
+  const selection = window.getSelection();
+  if (!target || !selection) return;
+
+  const range = document.createRange();
+  if (target.node) {
+    range.setStart(target.node, target.offset);
+  } else {
+    range.selectNodeContents(target.block);
+  }
+  range.collapse(true);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+/** مستطيل الموضع على الشاشة، لرسم مؤشرات الكتّاب الآخرين */
+export function getCaretRect(root: HTMLElement, position: CursorPosition): DOMRect | null {
+  const target = locate(root, position);
+  if (!target) return null;
+  if (!target.node) return target.block.getBoundingClientRect();
+
+  const range = document.createRange();
+  range.setStart(target.node, target.offset);
+  range.collapse(true);
+  const rect = range.getClientRects()[0];
+  return rect ?? target.block.getBoundingClientRect();
+}
@@ -0,0 +1,59 @@
+import { characterKey, collectCast, suggestCharacters } from './character-autocomplete';
+
+const SCRIPT = `مشهد 1 - ليل-داخلي
+البيت
+
+أحمد:
+أين كنت؟
+
+فاطمة:
+في السوق.
+
+أَحْمَد:
+ومتى عدت؟
+
+عبد الله علي:
+الآن.
+
+فاطمة:
+نعم.`;
+
+describe('character-autocomplete', () => {
+  test('characterKey ignores tashkeel, voice prefix and extensions', () => {
+    expect(characterKey('أَحْمَد')).toBe('أحمد');
+    expect(characterKey('صوت أحمد')).toBe('أحمد');
+    expect(characterKey('أحمد (خارج الكادر):')).toBe('أحمد');
+  });
+
+  test('collectCast merges spellings and ranks by frequency then recency', () => {
+    const cast = collectCast(SCRIPT);
+    expect(cast.map((member) => [member.key, member.count])).toEqual([
+      ['فاطمة', 2],
+      ['أحمد', 2],
+      ['عبد الله علي', 1]
+    ]);
+    // آخر صيغة مكتوبة هي المعروضة
+    expect(cast[1].name).toBe('أَحْمَد');
+  });
+
+  test('suggests names by prefix and by word start, tashkeel-insensitive', () => {
+    const cast = collectCast(SCRIPT);
+    expect(suggestCharacters(cast, 'فَا').map((s) => s.text)).toEqual(['فاطمة']);
+    expect(suggestCharacters(cast, 'علي').map((s) => s.text)).toEqual(['عبد الله علي']);
+    expect(suggestCharacters(cast, 'صوت فا').map((s) => s.text)).toEqual(['صوت فاطمة']);
+    expect(suggestCharacters(cast, '')).toHaveLength(3);
+  });
+
+  test('a name being typed for the first time is not suggested back', () => {
+    const cast = collectCast(`${SCRIPT}\n\nسمير:\nمرحبًا`);
+    expect(suggestCharacters(cast, 'سمير')).toEqual([]);
+  });
+
+  test('a complete known name offers its voice and off-screen extensions', () => {
+    const cast = collectCast(SCRIPT);
+    expect(suggestCharacters(cast, 'فاطمة')).toEqual([
+      { text: 'صوت فاطمة', name: 'فاطمة', extension: 'voice' },
+      { text: 'فاطمة (خارج الكادر)', name: 'فاطمة', extension: 'off-screen' }
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+// Character Autocomplete - اقتراح أسماء الشخصيات من طاقم السيناريو نفسه
+// كتابة الاسم نفسه مرات كثيرة تولّد صيغًا مختلفة له فتتفرّق الإحصاءات؛ الاقتراح يوحّدها
+
+import { classifyDocument, stripTashkeel } from './screenplay-line-classifier';
+
+export interface CastMember {
+  /** الاسم بآخر صيغة كُتب بها */
+  name: string;
+  /** مفتاح المقارنة: دون تشكيل ولا "صوت" */
+  key: string;
+  count: number;
+  /** ترتيب آخر ظهور بين مداخل الشخصيات */
+  lastIndex: number;
+}
+
+export interface CharacterSuggestion {
+  /** النص الذي يحل محل سطر الشخصية */
+  text: string;
+  name: string;
+  /** امتداد مقترح لاسم مكتمل */
+  extension?: 'voice' | 'off-screen';
+}
+
+const VOICE_PREFIX_RE = /^\s*صوت\s+/;
+export const OFF_SCREEN_EXTENSION = '(خارج الكادر)';
+
+/** وزن الحداثة مقابل التكرار: من تكلّم أخيرًا يُرجَّح أن يتكلم قريبًا */
+const RECENCY_WEIGHT = 2;
+
+export function characterKey(name: string): string {
+  return stripTashkeel(name)
+    .replace(VOICE_PREFIX_RE, '')
+    .replace(/[:：]\s*$/, '')
+    .replace(/\s*\([^()]*\)\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** طاقم السيناريو مرتبًا بالتكرار والحداثة */
+export function collectCast(content: string): CastMember[] {
+  const cues = classifyDocument(content.split('\n')).character;
+  const members = new Map<string, CastMember>();
+
+  cues.forEach((cue, index) => {
+    const key = characterKey(cue);
+    if (!key) return;
+    const name = cue.replace(VOICE_PREFIX_RE, '').trim();
+    const member = members.get(key);
+    if (member) {
+      member.count++;
+      member.lastIndex = index;
+      member.name = name;
+    } else {
+      members.set(key, { name, key, count: 1, lastIndex: index });
+    }
+  });
+
+  const score = (member: CastMember) => member.count + (RECENCY_WEIGHT * (member.lastIndex + 1)) / cues.length;
+  return Array.from(members.values()).sort((a, b) => score(b) - score(a));
+}
+
+/**
+ * اقتراحات لسطر شخصية يُكتب الآن. الاسم المكتوب نفسه يُحسب في الطاقم مرة،
+ * فلا يُقترح إلا إن ورد قبل ذلك. الاسم المكتمل يُقترح بامتداديه
+ */
+export function suggestCharacters(cast: CastMember[], typed: string, limit = 6): CharacterSuggestion[] {
+  const voice = VOICE_PREFIX_RE.test(stripTashkeel(typed));
+  const fragment = characterKey(typed);
+  const withVoice = (name: string) => (voice ? `صوت ${name}` : name);
+
+  const exact = cast.find((member) => member.key === fragment);
+  if (exact && exact.count > 1) {
+    const extensions: CharacterSuggestion[] = [
+      { text: `${exact.name} ${OFF_SCREEN_EXTENSION}`, name: exact.name, extension: 'off-screen' }
+    ];
+    if (!voice) extensions.unshift({ text: `صوت ${exact.name}`, name: exact.name, extension: 'voice' });
+    return extensions;
+  }
+
+  const candidates = cast.filter((member) => member.key !== fragment && member.key.startsWith(fragment));
+  // بعدها الأسماء التي تبدأ إحدى كلماتها بالمكتوب ("علي" ← "عبد الله علي")
+  const inner = fragment
+    ? cast.filter((member) =>
+        !candidates.includes(member) &&
+        member.key !== fragment &&
+        member.key.split(' ').some((word) => word.startsWith(fragment))
+      )
+    : [];
+
+  return [...candidates, ...inner]
+    .slice(0, limit)
+    .map((member) => ({ text: withVoice(member.name), name: member.name }));
+}
@@ -0,0 +1,69 @@
+import { applyRename, groupEditsByScene, planCharacterRename } from './character-rename';
+
+const SCRIPT = `مشهد 1 - ليل-داخلي – بيت أحمد
+
+يدخل أَحمد الغرفة ويجلس.
+
+أحمد:
+أين إيمان؟
+
+إيمان:
+(لأحمد)
+هنا يا احمد.
+
+مشهد 2 - نهار-خارجي – الشارع
+
+صوت أحمد (خارج الكادر):
+انتظروني!
+
+@أحمد: سأعود
+وأحمد الصغير لا يعرف.
+
+أحمدي:
+لست أنا.`;
+
+const lines = SCRIPT.split('\n');
+
+describe('character-rename', () => {
+  test('renames every cue variant and leaves other characters alone', () => {
+    const edits = planCharacterRename(SCRIPT, 'أحمد', 'سامي', { mentions: false });
+    expect(edits.map((edit) => edit.line)).toEqual([4, 13, 16]);
+    expect(edits.every((edit) => edit.kind === 'cue')).toBe(true);
+
+    const renamed = applyRename(SCRIPT, edits).split('\n');
+    expect(renamed[4]).toBe('سامي:');
+    expect(renamed[13]).toBe('صوت سامي (خارج الكادر):');
+    // الحوار على سطر المدخل لا يمس دون الإشارات
+    expect(renamed[16]).toBe('@سامي: سأعود');
+    expect(renamed[0]).toBe(lines[0]);
+    expect(renamed[19]).toBe('أحمدي:');
+  });
+
+  test('mentions in dialogue, parentheticals and action, with attached prefixes', () => {
+    const edits = planCharacterRename(SCRIPT, 'أحمد', 'سامي', { mentions: true });
+    const renamed = applyRename(SCRIPT, edits).split('\n');
+    expect(renamed[2]).toBe('يدخل سامي الغرفة ويجلس.');
+    expect(renamed[8]).toBe('(لسامي)');
+    expect(renamed[9]).toBe('هنا يا سامي.');
+    expect(renamed[17]).toBe('وسامي الصغير لا يعرف.');
+    // ترويسة المشهد ليست ذكرًا للشخصية
+    expect(renamed[0]).toBe(lines[0]);
+    expect(edits.find((edit) => edit.line === 2)?.kind).toBe('mention');
+  });
+
+  test('preview groups affected lines by scene', () => {
+    const edits = planCharacterRename(SCRIPT, 'صوت أحمد', 'سامي', { mentions: true });
+    const groups = groupEditsByScene(SCRIPT, edits);
+    expect(groups.map((group) => group.header?.number)).toEqual(['1', '2']);
+    expect(groups.map((group) => group.edits.map((edit) => edit.line))).toEqual([[2, 4, 8, 9], [13, 16, 17]]);
+  });
+
+  test('no edits for an empty or unchanged name, and stale edits are skipped', () => {
+    expect(planCharacterRename(SCRIPT, 'أحمد', '  ', { mentions: true })).toEqual([]);
+    expect(planCharacterRename(SCRIPT, 'أحمد', 'أَحمد', { mentions: true })).toEqual([]);
+
+    const edits = planCharacterRename(SCRIPT, 'أحمد', 'سامي', { mentions: false });
+    const edited = SCRIPT.replace('أحمد:\n', 'أحمد (بهدوء):\n');
+    expect(applyRename(edited, edits).split('\n')[4]).toBe('أحمد (بهدوء):');
+  });
+});
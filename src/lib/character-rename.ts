@@ -0,0 +1,108 @@
+// Character Rename - إعادة تسمية شخصية في السيناريو كله
+// مداخل الشخصية كما يكشفها المصنّف (بصيغها: "صوت X"، والامتداد بين قوسين، والفرض بـ@)،
+// واختياريًا ذكرها في الحوار والحركة؛ مع معاينة للأسطر المتأثرة مجمّعة حسب المشاهد قبل التطبيق
+
+import { characterKey } from './character-autocomplete';
+import { matchText, normalizeForSearch } from './find-replace';
+import { parseScreenplayText, type SceneHeaderNode } from './screenplay-document';
+
+export interface RenameOptions {
+  /** تغيير ذكر الاسم في الحوار والحركة والإرشادات أيضًا */
+  mentions: boolean;
+}
+
+export interface RenameEdit {
+  /** سطر المصدر (فهرس صفري) */
+  line: number;
+  /** مدخل الشخصية نفسه أم ذكر لاسمها */
+  kind: 'cue' | 'mention';
+  before: string;
+  after: string;
+}
+
+export interface SceneRenameGroup {
+  /** ترويسة المشهد؛ null لما قبل أول مشهد */
+  header: SceneHeaderNode | null;
+  edits: RenameEdit[];
+}
+
+const WORD_CHAR = String.raw`[\p{L}\p{M}\p{N}_]`;
+// حروف العطف والجر المتصلة بالاسم: "وأحمد"، "لأحمد"
+const PROCLITIC = '[وفبلك]';
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** نمط الاسم في نص مطبَّع: كلمة كاملة، تسبقها أداة متصلة أو لا */
+function namePattern(name: string): RegExp {
+  const words = normalizeForSearch(characterKey(name)).text.split(' ').map(escapeRegExp);
+  return new RegExp(`(?<=(?:^|[^\\p{L}\\p{M}\\p{N}_])${PROCLITIC}?)${words.join('\\s+')}(?!${WORD_CHAR})`, 'giu');
+}
+
+function replaceIn(text: string, pattern: RegExp, to: string, limit = Infinity): string {
+  return matchText(text, pattern, true)
+    .slice(0, limit)
+    .reverse()
+    .reduce((out, match) => out.slice(0, match.start) + to + out.slice(match.end), text);
+}
+
+/** سطر المدخل: الاسم قبل النقطتين وحده؛ ما بعدهما حوار على نفس السطر */
+function renameCue(raw: string, pattern: RegExp, to: string, mentions: boolean): string {
+  const colon = raw.search(/[:：]/);
+  if (colon < 0) return replaceIn(raw, pattern, to, 1);
+  const rest = raw.slice(colon);
+  return replaceIn(raw.slice(0, colon), pattern, to, 1) + (mentions ? replaceIn(rest, pattern, to) : rest);
+}
+
+/** الأسطر التي تتغيّر بإعادة تسمية الشخصية from إلى to، بترتيبها */
+export function planCharacterRename(content: string, from: string, to: string, options: RenameOptions): RenameEdit[] {
+  const name = to.trim();
+  const key = characterKey(from);
+  if (!key || !name || characterKey(name) === key) return [];
+
+  const doc = parseScreenplayText(content);
+  const pattern = namePattern(from);
+  const edits: RenameEdit[] = [];
+  const push = (line: number, kind: RenameEdit['kind'], after: string) => {
+    const before = doc.lines[line];
+    if (after !== before) edits.push({ line, kind, before, after });
+  };
+
+  doc.elements.forEach((node) => {
+    if (node.type === 'dialogue-block') {
+      const cueLine = node.range.start;
+      const isCue = !!node.character && characterKey(node.character) === key;
+      if (isCue) push(cueLine, 'cue', renameCue(doc.lines[cueLine], pattern, name, options.mentions));
+      if (!options.mentions) return;
+      // الحوار المكتوب على سطر المدخل عولج معه
+      const mentioned = new Set(node.lines.map((line) => line.range.start).filter((line) => !isCue || line !== cueLine));
+      mentioned.forEach((line) => push(line, 'mention', replaceIn(doc.lines[line], pattern, name)));
+      return;
+    }
+    if (options.mentions && (node.type === 'action' || node.type === 'parenthetical')) {
+      for (let line = node.range.start; line <= node.range.end; line++) {
+        push(line, 'mention', replaceIn(doc.lines[line], pattern, name));
+      }
+    }
+  });
+
+  return edits.sort((a, b) => a.line - b.line);
+}
+
+/** التعديلات مجمّعة حسب المشاهد للمعاينة؛ المشاهد الخالية منها تُسقط */
+export function groupEditsByScene(content: string, edits: RenameEdit[]): SceneRenameGroup[] {
+  return parseScreenplayText(content)
+    .scenes.map((scene) => ({
+      header: scene.header,
+      edits: edits.filter((edit) => edit.line >= scene.range.start && edit.line <= scene.range.end)
+    }))
+    .filter((group) => group.edits.length > 0);
+}
+
+/** تطبيق التعديلات المختارة من المعاينة على النص نفسه الذي خُطّطت عليه */
+export function applyRename(content: string, edits: RenameEdit[]): string {
+  const lines = content.split('\n');
+  edits.forEach((edit) => {
+    if (lines[edit.line] === edit.before) lines[edit.line] = edit.after;
+  });
+  return lines.join('\n');
+}
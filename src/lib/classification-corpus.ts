@@ -0,0 +1,110 @@
+// Classification Corpus - نصوص موسومة لقياس ملفات القواعد
+// كل سطر يبدأ بنوعه الصحيح بين معقوفين ([action] ...)، والأسطر الفارغة تبقى فارغة؛
+// لكل لهجة مقطع بأفعالها وكلماتها وانتقالاتها، والفصحى مرجع لا يجوز أن تتراجع عليه اللهجات
+
+export const CLASSIFICATION_CORPUS: Record<string, string> = {
+  msa: `[scene-header] مشهد 1 - ليل-داخلي – بيت أحمد
+
+[action] يجلس أحمد إلى مكتبه وأمامه أوراق متناثرة.
+[action] تدخل إيمان حاملة كوبين من الشاي.
+
+[character] إيمان:
+[dialogue] ما زلت مستيقظًا؟
+[parenthetical] (بقلق)
+[dialogue] الساعة تجاوزت الثانية.
+
+[character] أحمد:
+[dialogue] لن أنام قبل أن أنهي المشهد الأخير.
+[action] ينظر إليها ثم يعود إلى أوراقه.
+
+[transition] قطع إلى:
+
+[scene-header] مشهد 2 - نهار-خارجي – الشارع
+
+[action] يسير أحمد بين المارة مسرعًا.
+
+[character] سامي (خارج الكادر):
+[dialogue] أحمد! انتظر!
+
+[transition] النهاية`,
+
+  egyptian: `[scene-header] مشهد 1 - ليل-داخلي – شقة حسن
+
+[action] حسن قاعد على الكنبة قدام التلفزيون.
+[action] بتدخل منى شايلة صينية الشاي.
+
+[character] منى:
+[dialogue] الشاي يا سي حسن.
+[action] بيبص لها من غير ما يرد.
+
+[character] حسن:
+[dialogue] مش وقته خالص.
+[dialogue] سيبيني دلوقتي.
+[action] بتقعد جنبه
+
+[character] منى
+[dialogue] مش وقته ليه؟
+
+[action] بيقوم حسن
+[action] ويروح للشباك من غير كلام.
+
+[action] يعني إيه
+[action] بتسأل منى نفسها وهي بتلم الكبايات.
+
+[transition] كت على:
+
+[scene-header] مشهد 2 - نهار-خارجي – الشارع
+
+[action] بيمشي حسن
+[action] في الزحمة وهو بيكلم نفسه.`,
+
+  levantine: `[scene-header] مشهد 1 - نهار-داخلي – بيت أبو سمير
+
+[action] بيفوت سمير
+[action] وبيسكر الباب وراه بهدوء.
+
+[character] أم سمير:
+[dialogue] وين كنت لهلق؟
+[action] بتقعد ع الكرسي
+
+[character] سمير
+[dialogue] كنت عند رفقاتي.
+
+[action] شو هالحكي
+[action] بتقول أمه وهي عم تهز راسها.
+
+[action] بيوقف سمير
+[action] وبيمشي لعند الشباك.
+
+[transition] قطع ل:
+
+[scene-header] مشهد 2 - ليل-خارجي – الحارة
+
+[action] بيطلع سمير
+[action] من البيت وبيتلفت حواليه.`,
+
+  gulf: `[scene-header] مشهد 1 - ليل-خارجي – الفريج
+
+[action] يدش خالد
+[action] ويسكر الباب بشويش.
+
+[character] سالم:
+[dialogue] وش تسوي هني؟
+[action] يقعد على الدكة
+
+[character] خالد
+[dialogue] أنتظرك من الحين.
+
+[action] شلون يعني
+[action] يرد سالم وهو يضحك.
+
+[action] يطالع خالد
+[action] في جواله وما يرد.
+
+[transition] قطع على:
+
+[scene-header] مشهد 2 - نهار-داخلي – المجلس
+
+[action] يركض سالم
+[action] ويجلس جنب أبوه.`
+};
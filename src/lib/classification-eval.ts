@@ -0,0 +1,111 @@
+// Classification Evaluation - قياس ملف قواعد على نصوص موسومة
+// يصنّف كل نص بالملف المختار ويقارن نوع كل سطر بوسمه، فيعطي الدقة (precision) والاستدعاء (recall) لكل عنصر
+
+import { withRuleSet, type RuleSet } from './classification-rules';
+import { parseScreenplayText, type LineElement, type ScreenplayDocument } from './screenplay-document';
+
+export const EVALUATED_ELEMENTS: LineElement[] = [
+  'basmala',
+  'scene-header',
+  'action',
+  'character',
+  'parenthetical',
+  'dialogue',
+  'transition'
+];
+
+export interface AnnotatedScript {
+  name: string;
+  /** النص دون الوسوم */
+  text: string;
+  /** النوع الصحيح لكل سطر؛ null للسطر الفارغ */
+  expected: (LineElement | null)[];
+}
+
+const ANNOTATION_RE = /^\[([a-z-]+)\]\s?(.*)$/;
+
+/** قراءة نص موسوم: "[النوع] السطر" لكل سطر غير فارغ */
+export function parseAnnotatedScript(name: string, annotated: string): AnnotatedScript {
+  const lines: string[] = [];
+  const expected: (LineElement | null)[] = [];
+
+  annotated.replace(/\r\n?/g, '\n').split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      lines.push('');
+      expected.push(null);
+      return;
+    }
+    const m = line.match(ANNOTATION_RE);
+    const element = m?.[1] as LineElement | undefined;
+    if (!m || !element || !EVALUATED_ELEMENTS.includes(element)) {
+      throw new Error(`${name}: السطر ${index + 1} بلا وسم نوع صالح`);
+    }
+    lines.push(m[2]);
+    expected.push(element);
+  });
+
+  return { name, text: lines.join('\n'), expected };
+}
+
+/** نوع كل سطر مصدر كما صنّفته الوثيقة (الحوار على سطر الشخصية يُحسب شخصية) */
+export function lineElements(doc: ScreenplayDocument): (LineElement | null)[] {
+  return doc.classification.map((entry) => entry.element);
+}
+
+export interface ElementScore {
+  tp: number;
+  fp: number;
+  fn: number;
+  /** 1 حين لا يُتوقّع العنصر ولا يُتنبّأ به */
+  precision: number;
+  recall: number;
+}
+
+export interface EvaluationReport {
+  ruleSet: string;
+  /** عدد الأسطر غير الفارغة المقيسة */
+  lines: number;
+  /** نسبة الأسطر المصنّفة صحيحًا */
+  accuracy: number;
+  elements: Record<LineElement, ElementScore>;
+  /** الأسطر الخاطئة للمراجعة */
+  errors: { script: string; line: number; text: string; expected: LineElement; actual: LineElement | null }[];
+}
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 1 : part / whole);
+
+/** تشغيل ملف القواعد على النصوص الموسومة دون تغيير القواعد النشطة */
+export function evaluateRuleSet(ruleSet: RuleSet, corpus: AnnotatedScript[]): EvaluationReport {
+  const counts = new Map(EVALUATED_ELEMENTS.map((element) => [element, { tp: 0, fp: 0, fn: 0 }]));
+  const errors: EvaluationReport['errors'] = [];
+  let lines = 0;
+  let correct = 0;
+
+  withRuleSet(ruleSet, () => {
+    for (const script of corpus) {
+      const actual = lineElements(parseScreenplayText(script.text));
+      script.expected.forEach((expected, index) => {
+        if (expected === null) return;
+        const predicted = actual[index];
+        lines++;
+        if (predicted === expected) {
+          correct++;
+          counts.get(expected)!.tp++;
+          return;
+        }
+        counts.get(expected)!.fn++;
+        if (predicted) counts.get(predicted)!.fp++;
+        errors.push({ script: script.name, line: index + 1, text: script.text.split('\n')[index], expected, actual: predicted });
+      });
+    }
+  });
+
+  const elements = Object.fromEntries(
+    EVALUATED_ELEMENTS.map((element) => {
+      const { tp, fp, fn } = counts.get(element)!;
+      return [element, { tp, fp, fn, precision: ratio(tp, tp + fp), recall: ratio(tp, tp + fn) }];
+    })
+  ) as Record<LineElement, ElementScore>;
+
+  return { ruleSet: ruleSet.id, lines, accuracy: ratio(correct, lines), elements, errors };
+}
@@ -0,0 +1,62 @@
+import {
+  BUILTIN_RULE_SETS,
+  compileRuleSet,
+  getActiveRules,
+  parseRuleSet,
+  withRuleSet
+} from './classification-rules';
+import { evaluateRuleSet, parseAnnotatedScript } from './classification-eval';
+import { CLASSIFICATION_CORPUS } from './classification-corpus';
+import { parseScreenplayText } from './screenplay-document';
+
+const profile = (id: string) => BUILTIN_RULE_SETS.find((ruleSet) => ruleSet.id === id)!;
+const corpus = (id: string) => [parseAnnotatedScript(id, CLASSIFICATION_CORPUS[id])];
+
+describe('classification rules', () => {
+  test('dialect profiles extend the standard lists', () => {
+    const egyptian = compileRuleSet(profile('egyptian'));
+    expect(egyptian.actionVerb.test('بيبص لها')).toBe(true);
+    expect(egyptian.actionVerb.test('يدخل أحمد')).toBe(true);
+    expect(egyptian.stopWords.has('ده')).toBe(true);
+    expect(egyptian.stopWords.has('في')).toBe(true);
+    expect(egyptian.transition.test('كت على:')).toBe(true);
+    expect(egyptian.transition.test('قطع إلى:')).toBe(true);
+    expect(compileRuleSet(profile('msa')).actionVerb.test('بيبص لها')).toBe(false);
+  });
+
+  test('each dialect profile beats the standard rules on its own corpus', () => {
+    for (const id of ['egyptian', 'levantine', 'gulf']) {
+      const standard = evaluateRuleSet(profile('msa'), corpus(id));
+      const dialect = evaluateRuleSet(profile(id), corpus(id));
+      expect(dialect.accuracy).toBeGreaterThan(standard.accuracy);
+      expect(dialect.elements.action.recall).toBeGreaterThan(standard.elements.action.recall);
+      expect(dialect.elements.character.precision).toBeGreaterThan(standard.elements.character.precision);
+      expect(dialect.errors).toEqual([]);
+      // ولا تتراجع اللهجة على النص الفصيح
+      expect(evaluateRuleSet(profile(id), corpus('msa')).accuracy).toBe(1);
+    }
+  });
+
+  test('evaluation reports per-element counts and leaves the active rules untouched', () => {
+    const report = evaluateRuleSet(profile('msa'), corpus('gulf'));
+    expect(report.elements.transition).toEqual({ tp: 0, fp: 0, fn: 1, precision: 1, recall: 0 });
+    expect(report.errors[0]).toEqual({ script: 'gulf', line: 3, text: 'يدش خالد', expected: 'action', actual: 'character' });
+    expect(getActiveRules().ruleSet.id).toBe('msa');
+
+    const text = 'يدش خالد\nويسكر الباب.';
+    expect(withRuleSet(profile('gulf'), () => parseScreenplayText(text).elements[0].type)).toBe('action');
+    expect(parseScreenplayText(text).elements[0].type).toBe('dialogue-block');
+    expect(() => parseAnnotatedScript('bad', '[action] سطر\nبلا وسم')).toThrow('السطر 2');
+  });
+
+  test('user rule sets are validated before use', () => {
+    const custom = parseRuleSet('{"id": "sudanese", "name": "السودانية", "extends": "msa", "actionVerbs": ["بيعاين"]}');
+    expect(compileRuleSet(custom).actionVerb.test('بيعاين')).toBe(true);
+    expect(() => parseRuleSet('{')).toThrow('ليس JSON');
+    expect(() => parseRuleSet('{"id": "x"}')).toThrow('name');
+    expect(() => parseRuleSet('{"id": "x", "name": "س", "extends": "nope"}')).toThrow('غير موجود');
+    expect(() => parseRuleSet('{"id": "x", "name": "س", "extends": "msa", "stopWords": "ده"}')).toThrow('مصفوفات');
+    expect(() => parseRuleSet('{"id": "x", "name": "س", "extends": "msa", "patterns": {"character": "("}}')).toThrow('غير صالح');
+    expect(() => parseRuleSet('{"id": "gulf", "name": "س", "extends": "msa"}')).toThrow('محجوز');
+  });
+});
@@ -0,0 +1,137 @@
+// Classification Rules - قواعد تصنيف الأسطر القابلة للاستبدال
+// أنماط العناصر وقوائم الانتقالات وأفعال الحركة والكلمات التي لا ترد في الأسماء معرّفة في ملفات JSON
+// (dialect-profiles/)، لكل لهجة ملف يمدّ الفصحى؛ والمصنّف يقرأ القواعد النشطة للمشروع المفتوح
+
+import msa from './dialect-profiles/msa.json';
+import egyptian from './dialect-profiles/egyptian.json';
+import levantine from './dialect-profiles/levantine.json';
+import gulf from './dialect-profiles/gulf.json';
+
+export type RulePattern = 'transition' | 'character' | 'characterCue';
+
+/** صيغة ملف القواعد كما يُكتب بـ JSON */
+export interface RuleSet {
+  id: string;
+  name: string;
+  description?: string;
+  /** ملف أساس تُضاف إليه القوائم وتُستبدل أنماطه */
+  extends?: string;
+  /** أنماط تعبيرات نمطية كاملة؛ نمط الانتقال يُبنى من القائمة إن غاب */
+  patterns?: Partial<Record<RulePattern, string>>;
+  transitions?: string[];
+  actionVerbs?: string[];
+  /** كلمات وظيفية لا ترد في أسماء الشخصيات */
+  stopWords?: string[];
+}
+
+export interface CompiledRules {
+  /** الملف بعد دمجه بأساسه */
+  ruleSet: RuleSet;
+  transition: RegExp;
+  character: RegExp;
+  characterCue: RegExp;
+  /** فعل حركة في أول السطر */
+  actionVerb: RegExp;
+  stopWords: Set<string>;
+}
+
+export const BUILTIN_RULE_SETS: RuleSet[] = [msa, egyptian, levantine, gulf];
+export const DEFAULT_RULE_SET_ID = 'msa';
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const phrase = (words: string) => words.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+const unique = (items: string[]) => Array.from(new Set(items));
+
+/** دمج الملف بسلسلة أسسه (القوائم تُجمع والأنماط تُستبدل) */
+export function resolveRuleSet(ruleSet: RuleSet, available: RuleSet[] = BUILTIN_RULE_SETS, seen: string[] = []): RuleSet {
+  if (!ruleSet.extends) return ruleSet;
+  if (seen.includes(ruleSet.id)) throw new Error(`حلقة في امتداد ملفات القواعد: ${[...seen, ruleSet.id].join(' ← ')}`);
+  const base = available.find((candidate) => candidate.id === ruleSet.extends);
+  if (!base) throw new Error(`ملف القواعد الأساس غير موجود: ${ruleSet.extends}`);
+
+  const resolved = resolveRuleSet(base, available, [...seen, ruleSet.id]);
+  return {
+    id: ruleSet.id,
+    name: ruleSet.name,
+    description: ruleSet.description,
+    patterns: { ...resolved.patterns, ...ruleSet.patterns },
+    transitions: unique([...(resolved.transitions ?? []), ...(ruleSet.transitions ?? [])]),
+    actionVerbs: unique([...(resolved.actionVerbs ?? []), ...(ruleSet.actionVerbs ?? [])]),
+    stopWords: unique([...(resolved.stopWords ?? []), ...(ruleSet.stopWords ?? [])])
+  };
+}
+
+function compilePattern(ruleSet: RuleSet, name: RulePattern, flags = ''): RegExp {
+  const source = ruleSet.patterns?.[name];
+  if (!source) throw new Error(`ملف القواعد ${ruleSet.id} بلا نمط ${name}`);
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    throw new Error(`نمط ${name} غير صالح في ملف القواعد ${ruleSet.id}`);
+  }
+}
+
+export function compileRuleSet(ruleSet: RuleSet, available: RuleSet[] = BUILTIN_RULE_SETS): CompiledRules {
+  const resolved = resolveRuleSet(ruleSet, available);
+  const transitions = (resolved.transitions ?? []).map(phrase).join('|');
+  const verbs = (resolved.actionVerbs ?? []).map(escapeRegExp).join('|');
+
+  return {
+    ruleSet: resolved,
+    // الانتقال يقبل نقطتين أو نقطة في النهاية
+    transition: resolved.patterns?.transition
+      ? compilePattern(resolved, 'transition', 'i')
+      : new RegExp(`^\\s*(?:${transitions || '(?!)'})\\s*[:.]?\\s*$`, 'i'),
+    character: compilePattern(resolved, 'character'),
+    characterCue: compilePattern(resolved, 'characterCue'),
+    actionVerb: new RegExp(`^(?:${verbs || '(?!)'})(?=\\s|$)`),
+    stopWords: new Set(resolved.stopWords ?? [])
+  };
+}
+
+/** قراءة ملف قواعد JSON كتبه المستخدم والتحقق منه بتجميعه */
+export function parseRuleSet(json: string, available: RuleSet[] = BUILTIN_RULE_SETS): RuleSet {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('ملف القواعد ليس JSON صالحًا');
+  }
+  const ruleSet = data as RuleSet;
+  if (!ruleSet || typeof ruleSet.id !== 'string' || typeof ruleSet.name !== 'string') {
+    throw new Error('ملف القواعد يحتاج المعرّف id والاسم name');
+  }
+  if (available.some((candidate) => candidate.id === ruleSet.id)) {
+    throw new Error(`المعرّف ${ruleSet.id} محجوز لملف قواعد مدمج`);
+  }
+  const lists = [ruleSet.transitions, ruleSet.actionVerbs, ruleSet.stopWords];
+  if (lists.some((list) => list !== undefined && !(Array.isArray(list) && list.every((item) => typeof item === 'string')))) {
+    throw new Error('القوائم في ملف القواعد مصفوفات نصوص');
+  }
+  compileRuleSet(ruleSet, available);
+  return ruleSet;
+}
+
+// ===== القواعد النشطة =====
+
+let active: CompiledRules = compileRuleSet(msa);
+
+export function getActiveRules(): CompiledRules {
+  return active;
+}
+
+/** تفعيل ملف قواعد للمشروع المفتوح؛ يُعاد تصنيف النص بعدها */
+export function setActiveRuleSet(ruleSet: RuleSet): void {
+  active = compileRuleSet(ruleSet);
+}
+
+/** تنفيذ fn بملف قواعد مؤقت ثم استعادة السابق (للمقارنة بين الملفات) */
+export function withRuleSet<T>(ruleSet: RuleSet, fn: () => T): T {
+  const previous = active;
+  active = compileRuleSet(ruleSet);
+  try {
+    return fn();
+  } finally {
+    active = previous;
+  }
+}
@@ -0,0 +1,258 @@
+// Unit Tests for Collaboration Client - اختبارات جلسة التحرير المشترك
+// خادم وهمي في الذاكرة يحاكي الغرفة: يحوّل العمليات على سجله ويوزّعها، والرسائل تُسلَّم يدويًا
+// كي تتقاطع التعديلات كما تتقاطع على الشبكة
+
+import type { ClientMessage, OpEnvelope, ServerMessage } from '@shared/collab-protocol';
+import { applyOp, transformOps } from '@shared/ot';
+import { CollabClient, type CollabSocket, type CollabStatus } from './collab-client';
+
+class FakeServer {
+  doc: string;
+  epoch = 'epoch-1';
+  history: OpEnvelope[] = [];
+  /** معرّفات العمليات المطبّقة، تبقى بعد إعادة فتح الغرفة */
+  applied = new Set<string>();
+  sockets: FakeSocket[] = [];
+  /** الرسائل بانتظار التسليم بالترتيب، في الاتجاهين */
+  queue: Array<() => void> = [];
+
+  constructor(doc: string) {
+    this.doc = doc;
+  }
+
+  connect = (): CollabSocket => {
+    const socket = new FakeSocket(this);
+    this.sockets.push(socket);
+    this.queue.push(() => socket.open());
+    return socket;
+  };
+
+  /** خرج آخر عميل فأُغلقت الغرفة، ثم فُتحت من جديد على النص المحفوظ */
+  reopen() {
+    this.epoch = `epoch-${Number(this.epoch.slice(6)) + 1}`;
+    this.history = [];
+  }
+
+  deliver() {
+    while (this.queue.length) this.queue.shift()!();
+  }
+
+  receive(socket: FakeSocket, message: ClientMessage) {
+    if (message.type === 'join') {
+      socket.joined = true;
+      const revision = message.epoch === this.epoch ? message.revision : null;
+      const joined = { type: 'joined' as const, clientId: socket.id, epoch: this.epoch, revision: this.history.length, peers: [] };
+      socket.push(
+        revision === null || revision > this.history.length
+          ? { ...joined, doc: this.doc, pendingApplied: message.pending !== null && this.applied.has(message.pending) }
+          : { ...joined, ops: this.history.slice(revision) }
+      );
+    } else if (message.type === 'op') {
+      let op = message.op;
+      for (const past of this.history.slice(message.revision)) [op] = transformOps(op, past.op);
+      this.doc = applyOp(this.doc, op);
+      this.history.push({ id: message.id, op });
+      this.applied.add(message.id);
+      const revision = this.history.length;
+      socket.push({ type: 'ack', revision, id: message.id });
+      for (const other of this.sockets) {
+        if (other !== socket && other.joined) other.push({ type: 'op', revision, id: message.id, op });
+      }
+    }
+  }
+}
+
+let nextSocketId = 0;
+
+class FakeSocket implements CollabSocket {
+  readyState = 0;
+  joined = false;
+  readonly id = `socket-${++nextSocketId}`;
+  onopen: CollabSocket['onopen'] = null;
+  onmessage: CollabSocket['onmessage'] = null;
+  onclose: CollabSocket['onclose'] = null;
+  onerror: CollabSocket['onerror'] = null;
+
+  constructor(private readonly server: FakeServer) {}
+
+  open() {
+    if (this.readyState !== 0) return;
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  send(data: string) {
+    const message = JSON.parse(data) as ClientMessage;
+    this.server.queue.push(() => {
+      if (this.readyState === 1) this.server.receive(this, message);
+    });
+  }
+
+  push(message: ServerMessage) {
+    this.server.queue.push(() => {
+      if (this.readyState === 1) this.onmessage?.({ data: JSON.stringify(message) });
+    });
+  }
+
+  /** انقطاع الشبكة: ما في الطريق يضيع */
+  drop() {
+    this.readyState = 3;
+    this.joined = false;
+    this.server.sockets = this.server.sockets.filter((socket) => socket !== this);
+    this.onclose?.({ code: 1006 });
+  }
+
+  close() {
+    this.drop();
+  }
+}
+
+describe('CollabClient', () => {
+  const clients: CollabClient[] = [];
+
+  const createClient = (server: FakeServer, content: string, base?: string) => {
+    const state = { content, statuses: [] as CollabStatus[] };
+    const client = new CollabClient({
+      url: 'ws://test/ws/collab',
+      content,
+      base,
+      createSocket: server.connect,
+      reconnectDelay: 60000,
+      onRemoteContent: (next) => {
+        state.content = next;
+      },
+      onStatus: (status) => state.statuses.push(status)
+    });
+    clients.push(client);
+    return { client, state };
+  };
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.close());
+  });
+
+  it('converges when two writers edit concurrently', () => {
+    const server = new FakeServer('مشهد 1\nأحمد يدخل الغرفة.');
+    const a = createClient(server, server.doc);
+    const b = createClient(server, server.doc);
+    server.deliver();
+    expect(a.state.statuses).toEqual(['connecting', 'online']);
+
+    // كلاهما يكتب قبل أن يصله تعديل الآخر
+    a.client.update('مشهد 1\nأحمد يدخل الغرفة ببطء.');
+    b.client.update('مشهد 1 - ليل\nأحمد يدخل الغرفة.');
+    server.deliver();
+
+    expect(server.doc).toBe('مشهد 1 - ليل\nأحمد يدخل الغرفة ببطء.');
+    expect(a.client.content).toBe(server.doc);
+    expect(b.client.content).toBe(server.doc);
+    expect(b.state.content).toBe(server.doc);
+    expect(a.client.hasPendingChanges).toBe(false);
+  });
+
+  it('merges offline edits after reconnecting', () => {
+    const server = new FakeServer('السطر الأول\nالسطر الثاني');
+    const a = createClient(server, server.doc);
+    const b = createClient(server, server.doc);
+    server.deliver();
+
+    const socketA = server.sockets[0];
+    socketA.drop();
+    expect(a.state.statuses[a.state.statuses.length - 1]).toBe('offline');
+
+    a.client.update('مقدمة\nالسطر الأول\nالسطر الثاني');
+    b.client.update('السطر الأول\nالسطر الثاني\nخاتمة');
+    server.deliver();
+    expect(server.doc).toBe('السطر الأول\nالسطر الثاني\nخاتمة');
+
+    a.client.reconnect();
+    server.deliver();
+
+    const merged = 'مقدمة\nالسطر الأول\nالسطر الثاني\nخاتمة';
+    expect(server.doc).toBe(merged);
+    expect(a.client.content).toBe(merged);
+    expect(b.client.content).toBe(merged);
+  });
+
+  it('does not apply an operation twice when only its acknowledgement was lost', () => {
+    const server = new FakeServer('نص');
+    const a = createClient(server, server.doc);
+    server.deliver();
+
+    a.client.update('نص جديد');
+    // العملية تصل إلى الخادم ثم ينقطع الاتصال قبل التأكيد
+    server.queue.shift()!();
+    server.sockets[0].drop();
+    server.queue.length = 0;
+
+    a.client.reconnect();
+    server.deliver();
+
+    expect(server.doc).toBe('نص جديد');
+    expect(a.client.content).toBe('نص جديد');
+    expect(a.client.hasPendingChanges).toBe(false);
+  });
+
+  it('does not apply an operation twice when its acknowledgement was lost and the room was reopened', () => {
+    const server = new FakeServer('نص');
+    const a = createClient(server, server.doc);
+    server.deliver();
+
+    a.client.update('نص جديد');
+    server.queue.shift()!();
+    server.sockets[0].drop();
+    server.queue.length = 0;
+
+    // الغرفة أُغلقت وفُتحت على النص الذي فيه العملية، وكتب فيها غيرنا وكتبنا نحن دون اتصال
+    server.reopen();
+    const b = createClient(server, server.doc);
+    server.deliver();
+    b.client.update('عنوان\nنص جديد');
+    server.deliver();
+    a.client.update('نص جديد جدًا');
+
+    a.client.reconnect();
+    server.deliver();
+
+    expect(server.doc).toBe('عنوان\nنص جديد جدًا');
+    expect(a.client.content).toBe(server.doc);
+    expect(b.client.content).toBe(server.doc);
+    expect(a.client.hasPendingChanges).toBe(false);
+  });
+
+  it('asks for the whole text when the room was reopened since it last joined', () => {
+    const server = new FakeServer('أ');
+    const a = createClient(server, server.doc);
+    server.deliver();
+    a.client.update('أ ب');
+    server.deliver();
+    server.sockets[0].drop();
+
+    // الغرفة الجديدة تبدأ من المراجعة صفر، فتبلغ مراجعة العميل القديمة بتعديل لا يعرفه
+    server.reopen();
+    const b = createClient(server, server.doc);
+    server.deliver();
+    b.client.update('أ ب ج');
+    server.deliver();
+    expect(server.history.length).toBe(1);
+
+    a.client.update('قبل أ ب');
+    a.client.reconnect();
+    server.deliver();
+
+    expect(server.doc).toBe('قبل أ ب ج');
+    expect(a.client.content).toBe(server.doc);
+    expect(b.client.content).toBe(server.doc);
+  });
+
+  it('sends edits made against an older saved copy on first join', () => {
+    const server = new FakeServer('البداية\nما أضافه كاتب آخر');
+    // المسودة المحلية بُنيت على نسخة أقدم من نص الخادم
+    const a = createClient(server, 'البداية\nتعديل محلي', 'البداية');
+    server.deliver();
+
+    expect(server.doc).toContain('ما أضافه كاتب آخر');
+    expect(server.doc).toContain('تعديل محلي');
+    expect(a.client.content).toBe(server.doc);
+  });
+});
@@ -0,0 +1,302 @@
+// Collaboration Client - جلسة التحرير المشترك من جهة المتصفح
+// العميل يحتفظ بنص الخادم المؤكَّد، وعملية مرسلة تنتظر التأكيد، وعملية مخزّنة لما كُتب بعدها.
+// ما يُكتب دون اتصال يتراكم في المخزّنة ويُرسل بعد إعادة الاتصال محوّلًا على ما فاته
+
+import {
+  COLLAB_PATH,
+  type CursorPosition,
+  type OpEnvelope,
+  type Peer,
+  type ServerMessage
+} from '@shared/collab-protocol';
+import { applyOp, composeOps, diffToOp, isNoop, transformOps, type TextOp } from '@shared/ot';
+import { createId } from './screenplay-storage';
+
+/** local: لا خادم أصلًا (Vite وحده)، offline: الخادم موجود والاتصال مقطوع */
+export type CollabStatus = 'local' | 'connecting' | 'online' | 'offline';
+
+/** الجزء المستعمل من WebSocket، كي تُمرَّر بدائل في الاختبارات */
+export interface CollabSocket {
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: { code: number }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface CollabClientOptions {
+  url: string;
+  /** النص الحالي في المحرر */
+  content: string;
+  /** آخر نص معروف على الخادم؛ الفرق بينه وبين content يُعامل كتعديلات محلية لم تُرسل */
+  base?: string;
+  createSocket?: (url: string) => CollabSocket;
+  /** التأخير الأول لإعادة الاتصال، ويتضاعف حتى 30 ثانية */
+  reconnectDelay?: number;
+  onRemoteContent?: (content: string) => void;
+  onPeers?: (peers: Peer[]) => void;
+  onStatus?: (status: CollabStatus) => void;
+}
+
+const OPEN = 1;
+const MAX_RECONNECT_DELAY = 30000;
+/** رموز الإغلاق التي يرسلها الخادم حين لا فائدة من المحاولة ثانية */
+const FINAL_CLOSE_CODES = new Set([4403, 4404]);
+
+export function collabUrl(screenplayId: string): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${COLLAB_PATH}?screenplay=${encodeURIComponent(screenplayId)}`;
+}
+
+export class CollabClient {
+  private socket: CollabSocket | null = null;
+  private status: CollabStatus = 'offline';
+  private closed = false;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** null: لم ننضم بعد أو فقدنا الأثر، فيرسل الخادم النص كاملًا */
+  private revision: number | null = null;
+  /** حقبة الغرفة التي يعود إليها revision */
+  private epoch: string | null = null;
+  private serverDoc: string;
+  private doc: string;
+  private inflight: OpEnvelope | null = null;
+  private buffer: TextOp | null = null;
+
+  private clientId: string | null = null;
+  private peers: Peer[] = [];
+  private cursor: CursorPosition | null = null;
+
+  constructor(private readonly options: CollabClientOptions) {
+    this.serverDoc = options.base ?? options.content;
+    this.doc = options.content;
+    const pending = diffToOp(this.serverDoc, this.doc);
+    if (!isNoop(pending)) this.buffer = pending;
+    this.connect();
+  }
+
+  get content(): string {
+    return this.doc;
+  }
+
+  /** هل بقي ما لم يؤكده الخادم؟ */
+  get hasPendingChanges(): boolean {
+    return this.inflight !== null || this.buffer !== null;
+  }
+
+  /** تسجيل نص المحرر بعد تعديل محلي */
+  update(content: string) {
+    if (content === this.doc) return;
+    const op = diffToOp(this.doc, content);
+    this.doc = content;
+    this.buffer = this.buffer ? composeOps(this.buffer, op) : op;
+    this.flush();
+  }
+
+  updateCursor(cursor: CursorPosition | null) {
+    if (cursor?.block === this.cursor?.block && cursor?.offset === this.cursor?.offset) return;
+    this.cursor = cursor;
+    if (this.status === 'online') this.send({ type: 'cursor', cursor });
+  }
+
+  /** محاولة فورية بدل انتظار المؤقت (مثلًا عند عودة الشبكة) */
+  reconnect() {
+    if (this.closed || this.status === 'online' || this.status === 'connecting') return;
+    this.clearReconnectTimer();
+    this.connect();
+  }
+
+  close() {
+    this.closed = true;
+    this.clearReconnectTimer();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private connect() {
+    this.setStatus('connecting');
+    const createSocket = this.options.createSocket ?? ((url: string) => new WebSocket(url) as CollabSocket);
+    const socket = createSocket(this.options.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({
+        type: 'join',
+        revision: this.revision,
+        epoch: this.epoch,
+        pending: this.inflight?.id ?? null
+      }));
+    };
+    socket.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(String(event.data)) as ServerMessage);
+      } catch {
+        // رسالة لا تنطبق على نصنا: نبدأ من جديد بطلب النص كاملًا
+        this.resync();
+      }
+    };
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clientId = null;
+      this.setPeers([]);
+      this.setStatus('offline');
+      if (!this.closed && !FINAL_CLOSE_CODES.has(event.code)) this.scheduleReconnect();
+    };
+    socket.onerror = () => {
+      // onclose يتبعه دائمًا ويتولى إعادة المحاولة
+    };
+  }
+
+  private scheduleReconnect() {
+    const base = this.options.reconnectDelay ?? 1000;
+    const delay = Math.min(base * 2 ** this.attempts, MAX_RECONNECT_DELAY);
+    this.attempts++;
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.closed) this.connect();
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+  }
+
+  private resync() {
+    this.revision = null;
+    const socket = this.socket;
+    if (socket) socket.close();
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'joined':
+        this.handleJoined(message);
+        break;
+
+      case 'ack':
+        if (!this.inflight || this.inflight.id !== message.id) return;
+        this.serverDoc = applyOp(this.serverDoc, this.inflight.op);
+        this.inflight = null;
+        this.revision = message.revision;
+        this.flush();
+        break;
+
+      case 'op':
+        this.applyRemote(message.op);
+        this.revision = message.revision;
+        break;
+
+      case 'presence':
+        this.setPeers(message.peers);
+        break;
+
+      case 'cursor':
+        this.setPeers(this.peers.map((peer) =>
+          peer.clientId === message.clientId ? { ...peer, cursor: message.cursor } : peer
+        ));
+        break;
+
+      case 'error':
+        this.resync();
+        break;
+    }
+  }
+
+  private handleJoined(message: Extract<ServerMessage, { type: 'joined' }>) {
+    this.clientId = message.clientId;
+    this.attempts = 0;
+
+    if (message.ops) {
+      for (const envelope of message.ops) {
+        if (this.inflight?.id === envelope.id) {
+          // وصلت قبل انقطاع الاتصال لكن التأكيد ضاع
+          this.serverDoc = applyOp(this.serverDoc, this.inflight.op);
+          this.inflight = null;
+        } else {
+          this.applyRemote(envelope.op);
+        }
+      }
+    } else if (message.doc !== undefined) {
+      if (this.inflight && message.pendingApplied) {
+        // طُبّقت عمليتنا وضاع تأكيدها، فنصها في message.doc ولا يُعاد دمجه
+        this.serverDoc = applyOp(this.serverDoc, this.inflight.op);
+        this.inflight = null;
+      }
+      // لا نعرف ما حدث على الخادم: الفرق بين آخر نص معروف والنص الحالي يُدمج مع تعديلاتنا
+      const local = [this.inflight?.op, this.buffer].reduce<TextOp>(
+        (result, op) => (op ? composeOps(result, op) : result), []
+      );
+      const remote = diffToOp(this.serverDoc, message.doc);
+      const [localPrime, remotePrime] = transformOps(local, remote);
+      this.serverDoc = message.doc;
+      this.inflight = null;
+      this.buffer = isNoop(localPrime) ? null : localPrime;
+      this.setDoc(applyOp(this.doc, remotePrime));
+    }
+
+    this.epoch = message.epoch;
+    this.revision = message.revision;
+    this.setPeers(message.peers);
+    this.setStatus('online');
+
+    if (this.inflight) {
+      this.send({ type: 'op', revision: this.revision, id: this.inflight.id, op: this.inflight.op });
+    } else {
+      this.flush();
+    }
+    if (this.cursor) this.send({ type: 'cursor', cursor: this.cursor });
+  }
+
+  /** عملية من كاتب آخر: تُحوَّل عليها عملياتنا المعلّقة ثم تُطبَّق على نص المحرر */
+  private applyRemote(op: TextOp) {
+    this.serverDoc = applyOp(this.serverDoc, op);
+    let remote = op;
+    if (this.inflight) {
+      const [inflight, next] = transformOps(this.inflight.op, remote);
+      this.inflight = { ...this.inflight, op: inflight };
+      remote = next;
+    }
+    if (this.buffer) {
+      [this.buffer, remote] = transformOps(this.buffer, remote);
+    }
+    this.setDoc(applyOp(this.doc, remote));
+  }
+
+  private setDoc(doc: string) {
+    if (doc === this.doc) return;
+    this.doc = doc;
+    this.options.onRemoteContent?.(doc);
+  }
+
+  private flush() {
+    if (this.status !== 'online' || this.inflight || !this.buffer || this.revision === null) return;
+    this.inflight = { id: createId(), op: this.buffer };
+    this.buffer = null;
+    this.send({ type: 'op', revision: this.revision, id: this.inflight.id, op: this.inflight.op });
+  }
+
+  private send(message: object) {
+    if (this.socket?.readyState === OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private setPeers(peers: Peer[]) {
+    this.peers = peers;
+    this.options.onPeers?.(peers.filter((peer) => peer.clientId !== this.clientId));
+  }
+
+  private setStatus(status: CollabStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.options.onStatus?.(status);
+  }
+}
@@ -1,4 +1,5 @@
 import type { CSSProperties } from 'react';
+import { isCharacterLine, parseScreenplay } from './screenplay-line-classifier';
 
 // Advanced Dialogue Detection - كاشف الحوار المتقدم
 // Specialized module for detecting Arabic dialogue patterns
@@ -81,178 +82,29 @@ export const formatStyles: { [key: string]: CSSProperties } = {
 
 export class DialogueDetector {
   
-  // Enhanced character name detection
-  // تم تحسينه للتعرف على أسماء الشخصيات العربية المتبوعة بنقطتين، حتى مع وجود حوار على نفس السطر
+  // Character name detection - delegates to the shared line classifier
+  // يعتمد على المصنّف الموحّد: اسم متبوع بنقطتين (مع حوار اختياري على نفس السطر) أو اسم قصير منفرد
   static isCharacterName(line: string): boolean {
-    const trimmed = line.trim();
-    
-    // Primary pattern: Arabic name followed by a colon. Allows dialogue on the same line.
-    // النمط الأساسي: اسم عربي متبوع بنقطتين رأسيتين. يسمح بوجود حوار على نفس السطر
-    const match = trimmed.match(/^([\u0600-\u06FF\s()]+)(:|：)/);
-    if (match && !this.containsCommonWords(match[1])) {
-      return true;
-    }
-    
-    // Secondary pattern: short Arabic name without common words, stricter conditions
-    const wordCount = trimmed.split(/\s+/).filter(w => w.length > 0).length;
-    if (wordCount <= 3 && // Max 3 words for a character name
-        trimmed.length <= 30 && 
-        trimmed.match(/^[\u0600-\u06FF\s]+$/) !== null &&
-        !this.containsCommonWords(trimmed) &&
-        !this.isLikelyAction(trimmed)) {
-      return true;
-    }
-    
-    return false;
-  }
-  
-  // Check if line contains common words that indicate it's not a character name
-  private static containsCommonWords(line: string): boolean {
-    const commonWords = [
-      'في', 'على', 'من', 'إلى', 'عند', 'مع', 'بعد', 'قبل', 'أمام', 'خلف',
-      'يقول', 'تقول', 'يفعل', 'تفعل', 'يذهب', 'تذهب', 'يأتي', 'تأتي',
-      'الذي', 'التي', 'هذا', 'هذه', 'ذلك', 'تلك', 'كان', 'كانت',
-      'يسير', 'تسير', 'يجلس', 'تجلس', 'يقف', 'تقف', 'ينظر', 'تنظر',
-      'أهلاً', 'مرحباً', 'نعم', 'لا', 'حسناً'
-    ];
-    
-    return commonWords.some(word => line.includes(word));
-  }
-  
-  // Check if line is likely an action description
-  private static isLikelyAction(line: string): boolean {
-    const actionIndicators = [
-      'يسير', 'تسير', 'يمشي', 'تمشي', 'يجري', 'تجري',
-      'يجلس', 'تجلس', 'يقف', 'تقف', 'ينظر', 'تنظر',
-      'يفتح', 'تفتح', 'يغلق', 'تغلق', 'يدخل', 'تدخل',
-      'يخرج', 'تخرج', 'يضع', 'تضع', 'يأخذ', 'تأخذ',
-      'تخرج', 'يدخل', 'تلتفت', 'ينظر', 'ترقد'
-    ];
-    
-    return actionIndicators.some(indicator => line.trim().startsWith(indicator));
+    return isCharacterLine(line.trim());
   }
   
-  // Extract complete dialogue block
+  // Extract complete dialogue block from the shared document model
   static extractDialogueBlock(lines: string[], startIndex: number): DialogueBlock | null {
     if (startIndex >= lines.length) return null;
-    
-    const firstLine = lines[startIndex].trim();
-    if (!this.isCharacterName(firstLine)) return null;
-    
-    let characterName = '';
-    let dialogueOnFirstLine = '';
-    const colonMatch = firstLine.match(/:|：/);
+    if (!this.isCharacterName(lines[startIndex])) return null;
 
-    if (colonMatch && colonMatch.index) {
-        characterName = firstLine.substring(0, colonMatch.index).trim();
-        dialogueOnFirstLine = firstLine.substring(colonMatch.index + 1).trim();
-    } else {
-        // This handles the case for character name on a line by itself without a colon
-        characterName = firstLine;
-    }
+    const [first] = parseScreenplay(lines.slice(startIndex)).elements;
+    if (!first || first.type !== 'dialogue-block') return null;
 
-    const parentheticals: string[] = [];
-    const dialogueLines: string[] = [];
-    let currentIndex = startIndex + 1;
-    
-    if (dialogueOnFirstLine) {
-        if (this.isParenthetical(dialogueOnFirstLine)) {
-            parentheticals.push(dialogueOnFirstLine);
-        } else {
-            dialogueLines.push(dialogueOnFirstLine);
-        }
-    }
-    
-    // Process subsequent lines
-    while (currentIndex < lines.length) {
-      const line = lines[currentIndex].trim();
-      
-      // Empty line - check if dialogue continues
-      if (!line) {
-        // Look ahead to see if dialogue continues
-        let nextNonEmptyIndex = currentIndex + 1;
-        while (nextNonEmptyIndex < lines.length && !lines[nextNonEmptyIndex].trim()) {
-          nextNonEmptyIndex++;
-        }
-        
-        if (nextNonEmptyIndex >= lines.length) {
-          break; // End of text
-        }
-        
-        const nextNonEmptyLine = lines[nextNonEmptyIndex].trim();
-        
-        // If next non-empty line is a new structural element, end dialogue
-        if (this.isStructuralElement(nextNonEmptyLine)) {
-          break;
-        }
-        
-        // If it looks like continuation of dialogue, skip empty lines and continue
-        if (this.isLikelyContinuation(nextNonEmptyLine)) {
-          currentIndex = nextNonEmptyIndex;
-          continue;
-        } else {
-          break;
-        }
-      }
-      
-      // Check for structural elements that end dialogue
-      if (this.isStructuralElement(line)) {
-        break;
-      }
-      
-      // Process dialogue content
-      if (this.isParenthetical(line)) {
-        parentheticals.push(line);
-      } else {
-        dialogueLines.push(line);
-      }
-      
-      currentIndex++;
-    }
-    
     return {
-      characterName,
-      parentheticals,
-      dialogueLines,
+      characterName: first.character,
+      parentheticals: first.lines.filter(l => l.type === 'parenthetical').map(l => l.text),
+      dialogueLines: first.lines.filter(l => l.type === 'dialogue').map(l => l.text),
       startIndex,
-      endIndex: currentIndex - 1
+      endIndex: startIndex + first.range.end
     };
   }
   
-  // Check if line is parenthetical (stage direction)
-  private static isParenthetical(line: string): boolean {
-    return line.match(/^\(.*\)$/) !== null;
-  }
-  
-  // Check if line is a structural element (scene header, transition, etc.)
-  private static isStructuralElement(line: string): boolean {
-    return (
-      line.match(/^(مشهد|م\.)\s*(\d+)/i) !== null ||
-      this.isTransition(line) ||
-      this.isCharacterName(line) ||
-      line.includes('بسم الله الرحمن الرحيم')
-    );
-  }
-  
-  // Check if line is a transition
-  private static isTransition(line: string): boolean {
-    const transitionPatterns = [
-      /قطع\s+إلى/i, /انتقال\s+إلى/i, /قطع\./i, /انتقال/i,
-      /فيد\s+إلى/i, /فيد\s+من/i, /تلاشي\s+إلى/i, /ذوبان\s+إلى/i,
-      /انتهاء/i, /النهاية/i
-    ];
-    
-    return transitionPatterns.some(pattern => pattern.test(line));
-  }
-  
-  // Check if line is likely continuation of dialogue
-  private static isLikelyContinuation(line: string): boolean {
-    // If it's not a structural element and not too long, likely continuation
-    return !this.isStructuralElement(line) && 
-           !this.isLikelyAction(line) &&
-           line.length < 200; // Reasonable dialogue line length
-  }
-  
   // Generate HTML for dialogue block
   static generateDialogueHTML(block: DialogueBlock): string {
     let html = '<div class="dialogue-block">';
@@ -0,0 +1,107 @@
+// Unit Tests for DOCX Converter - اختبارات محوّل Word
+// التحقق من بنية الحزمة والأنماط المسمّاة المشتقة من formatStyles، والقراءة من ملفات Word
+
+import { docxToScreenplayText, screenplayToDocx } from './docx-converter';
+import { parseScreenplayText } from './screenplay-document';
+import { classifyDocument } from './screenplay-line-classifier';
+
+const SCRIPT = `بسم الله الرحمن الرحيم
+
+مشهد 1 - ليل-داخلي – غرفة المعيشة
+
+يجلس أحمد وحيدًا.
+
+أحمد:
+(بهدوء)
+سأعود قريبًا & لن أتأخر.
+
+قطع إلى:`;
+
+// ملف محفوظ بضغط deflate بأنماط معرّفاتها معرّبة (a1..a5) وأسماؤها إنجليزية
+const WORD_FIXTURE =
+  'UEsDBBQAAAAIALdgU13t4XXKhwEAAIUDAAARAAAAd29yZC9kb2N1bWVudC54bWyVU0tOwzAQ3XMK4z11KR+hqAk71kiUA7iJgUqJ' +
+  'Hdmmpduq/HoLhFALAkpVJOhNxrdhEgqUEqhQpHicefPm+Y1T3T5JYtIU2jSU9OlqqUyJkKGKGvLQp/u1nZUtSozlMuKxksKnbWHo' +
+  'drBUbXmRCo8TIS1BBmm8lk+PrE09xkx4JBJuSioVEnMHSifc4lYfspbSUapVKIzBBknMKuXyJkt4Q9IAKesqaufcabZLd3W+7Nl2' +
+  'LEjLa/LYp3yVsqDKPrP5ywbuFJ7dOQxJJcvZHDGT53U2xZ0hqg+jFXjMFrh3vW8FGfEiBZVCBdB3XRi7C9chWeg6MHQ9d/oH+3th' +
+  'Zp9nUh6iuakWRuimoEFWiifqEbiGBwyHZO5ckYg/OTCuiROUMMDnBa4y0Me3r87TioY0s6oHMEYbJnA7L/Q7rvRvl9aKXRrntv/o' +
+  'tpBu/TfTz+AOXmG0XDT3uv4Yexf6BIFPOP3Bb2dhizRsFF+9Dno+IXCDQ7/0irmNCO2ufq/OL3k+kOkPFLwBUEsDBBQAAAAIALdg' +
+  'U12xEWPo4gAAADACAAAPAAAAd29yZC9zdHlsZXMueG1sndLNSsQwEAfwu08R5u6mu34gpekeFNGb4PoAQzq2hWQSMnFr394srAgW' +
+  'QXrLMP/8ZiBp9p/eqSMlGQMb2G4qUMQ2dCP3Bt4Oj5d3oCQjd+gCk4GZBPbtRTPVkmdHosp9lnoyMOQca63FDuRRNiESl957SB5z' +
+  'KVOvp5C6mIIlkcJ7p3dVdas9jgw/oprqPMcyKWLCPmEcQJ1bz50B3EJbooz+lDyiM/BqiUk9EZ6WBt02+pz/P7r7A31xaGkdebUg' +
+  '74eStJnSOvB6AT6M5VH6j5UL3iy8Q0KWMZef8Ev8Pkr7BVBLAQIUAxQAAAAIALdgU13t4XXKhwEAAIUDAAARAAAAAAAAAAAAAACA' +
+  'AQAAAAB3b3JkL2RvY3VtZW50LnhtbFBLAQIUAxQAAAAIALdgU12xEWPo4gAAADACAAAPAAAAAAAAAAAAAACAAbYBAAB3b3JkL3N0' +
+  'eWxlcy54bWxQSwUGAAAAAAIAAgB8AAAAxQIAAAAA';
+
+/** المدخلات مخزّنة دون ضغط، فيكفي فك ترميز الحزمة كنص للبحث في محتواها */
+function packageText(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+describe('DocxConverter', () => {
+
+  describe('screenplayToDocx', () => {
+
+    test('should write a zip package with the OOXML parts', () => {
+      const bytes = screenplayToDocx(parseScreenplayText(SCRIPT));
+      const text = packageText(bytes);
+
+      expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+      expect(text).toContain('[Content_Types].xml');
+      expect(text).toContain('word/document.xml');
+      expect(text).toContain('word/styles.xml');
+      expect(text).toContain('Target="styles.xml"');
+    });
+
+    test('should emit one named paragraph style per element', () => {
+      const text = packageText(screenplayToDocx(parseScreenplayText(SCRIPT)));
+
+      expect(text).toContain('<w:pStyle w:val="Basmala"/></w:pPr><w:r><w:rPr><w:rtl/></w:rPr><w:t xml:space="preserve">بسم الله الرحمن الرحيم</w:t>');
+      expect(text).toContain('<w:t xml:space="preserve">مشهد 1</w:t></w:r><w:r><w:tab/></w:r>');
+      expect(text).toContain('<w:pStyle w:val="ScenePlace"/>');
+      expect(text).toContain('<w:pStyle w:val="Character"/>');
+      expect(text).toContain('<w:pStyle w:val="Parenthetical"/>');
+      expect(text).toContain('سأعود قريبًا &amp; لن أتأخر.');
+      expect(text).toContain('<w:pStyle w:val="Transition"/>');
+    });
+
+    test('should mirror the A4 page and dialogue column from formatStyles', () => {
+      const text = packageText(screenplayToDocx(parseScreenplayText(SCRIPT)));
+
+      expect(text).toContain('<w:pgSz w:w="11906" w:h="16838"/>');
+      expect(text).toContain('w:right="2160"');
+      // عمود 2.5in في وسط مساحة نص عرضها 8306 twip
+      expect(text).toMatch(/w:styleId="Dialogue">.*?<w:ind w:left="2353" w:right="2353"\/><w:jc w:val="center"\/>/);
+      expect(text).toMatch(/w:styleId="Action">.*?<w:bidi\/><w:spacing w:before="240" w:after="240" w:line="360" w:lineRule="auto"\/><w:jc w:val="left"\/>/);
+    });
+  });
+
+  describe('docxToScreenplayText', () => {
+
+    test('should map Word styles, breaks and tabs to classifier lines', () => {
+      const bytes = Uint8Array.from(atob(WORD_FIXTURE), (c) => c.charCodeAt(0));
+
+      expect(docxToScreenplayText(bytes)).toBe(
+        'مشهد 2 - نهار-خارجي – السوق القديم\n\nيمشي أحمد بسرعة.\n\nسارة:\nانتظر!\nلا تذهب.\n\nقطع إلى:'
+      );
+    });
+
+    test('should reject packages without a document part', () => {
+      expect(() => docxToScreenplayText(new Uint8Array([1, 2, 3]))).toThrow('ليس ملف Zip صالحًا');
+    });
+
+    test('should preserve classification through DOCX', () => {
+      const original = classifyDocument(SCRIPT.split('\n'));
+      const restored = classifyDocument(docxToScreenplayText(screenplayToDocx(parseScreenplayText(SCRIPT))).split('\n'));
+
+      expect(restored).toEqual(original);
+    });
+
+    test('should keep a name-like scene place on its header', () => {
+      const doc = parseScreenplayText('مشهد 1 - داخلي-نهار – بيت أحمد\n\nيدخل أحمد.');
+      const restored = parseScreenplayText(docxToScreenplayText(screenplayToDocx(doc)));
+
+      expect(restored.scenes[0].header?.place).toBe('بيت أحمد');
+      expect(restored.elements.filter((node) => node.type === 'action')).toHaveLength(1);
+    });
+  });
+});
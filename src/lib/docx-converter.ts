@@ -0,0 +1,412 @@
+// DOCX Converter - محوّل صيغة Word (.docx)
+// إنشاء حزمة OOXML حقيقية بأنماط فقرات مسمّاة لكل عنصر، مشتقة من formatStyles لتطابق العرض في المحرر،
+// وقراءة ملفات Word إلى أسطر نظيفة يفهمها المصنّف
+
+import type { CSSProperties } from 'react';
+import { formatStyles } from './dialogue-detector';
+import type { ScreenplayDocument } from './screenplay-document';
+import { escapeXml } from './xml';
+import { createZip, readZipEntry } from './zip';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// A4 بوحدة twip (1/1440 بوصة)، والهوامش: 1" أعلى/أسفل/يسار و1.5" يمين
+const TWIPS_PER_INCH = 1440;
+const PAGE = { width: 11906, height: 16838 };
+const MARGIN = { top: 1440, right: 2160, bottom: 1440, left: 1440 };
+const TEXT_WIDTH = PAGE.width - MARGIN.left - MARGIN.right;
+// 1rem في المحرر = 12pt = 240 twip
+const TWIPS_PER_REM = 240;
+const FONT = 'Times New Roman';
+
+const RTL_CHARS_RE = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+type DocxStyleId =
+  | 'Basmala'
+  | 'SceneHeading'
+  | 'ScenePlace'
+  | 'Action'
+  | 'Character'
+  | 'Parenthetical'
+  | 'Dialogue'
+  | 'Transition';
+
+// نمط Word لكل عنصر ومفتاحه في formatStyles
+const STYLE_SOURCES: Array<{ id: DocxStyleId; css: string; keepNext?: boolean }> = [
+  { id: 'Basmala', css: 'basmala' },
+  { id: 'SceneHeading', css: 'scene-header-top-line', keepNext: true },
+  { id: 'ScenePlace', css: 'scene-header-3', keepNext: true },
+  { id: 'Action', css: 'action' },
+  { id: 'Character', css: 'character', keepNext: true },
+  { id: 'Parenthetical', css: 'parenthetical', keepNext: true },
+  { id: 'Dialogue', css: 'dialogue' },
+  { id: 'Transition', css: 'transition' }
+];
+
+/** تحويل طول CSS (rem/in/pt) إلى twip */
+function cssLengthToTwips(value: string | undefined): number {
+  if (!value || value === 'auto') return 0;
+  const amount = parseFloat(value);
+  if (!Number.isFinite(amount)) return 0;
+  if (value.endsWith('in')) return Math.round(amount * TWIPS_PER_INCH);
+  if (value.endsWith('pt')) return Math.round(amount * 20);
+  return Math.round(amount * TWIPS_PER_REM);
+}
+
+/**
+ * محاذاة Word لفقرة ثنائية الاتجاه: في الصيغة الانتقالية يعني left بداية السطر (اليمين)
+ * و right نهايته، فتُعكس قيم textAlign عند التحويل.
+ */
+function bidiJustification(css: CSSProperties): string {
+  if (css.display === 'flex' || css.textAlign === 'right') return 'left';
+  if (css.textAlign === 'left') return 'right';
+  return css.textAlign === 'center' ? 'center' : 'left';
+}
+
+function buildParagraphStyle(id: DocxStyleId, css: CSSProperties, keepNext = false): string {
+  const margins = String(css.margin ?? '0').split(/\s+/);
+  const before = cssLengthToTwips(margins[0]);
+  const after = cssLengthToTwips(margins[2] ?? margins[0]);
+  const lineHeight = parseFloat(String(css.lineHeight ?? ''));
+  const line = Number.isFinite(lineHeight) ? ` w:line="${Math.round(lineHeight * 240)}" w:lineRule="auto"` : '';
+
+  // عمود الحوار: عرض ثابت في وسط مساحة النص
+  const width = cssLengthToTwips(css.width as string | undefined);
+  const indent = width > 0 ? Math.max(0, Math.round((TEXT_WIDTH - width) / 2)) : 0;
+
+  const pPr = [
+    keepNext ? '<w:keepNext/>' : '',
+    css.display === 'flex' ? `<w:tabs><w:tab w:val="left" w:pos="${TEXT_WIDTH}"/></w:tabs>` : '',
+    '<w:bidi/>',
+    `<w:spacing w:before="${before}" w:after="${after}"${line}/>`,
+    indent > 0 ? `<w:ind w:left="${indent}" w:right="${indent}"/>` : '',
+    `<w:jc w:val="${bidiJustification(css)}"/>`
+  ].join('');
+
+  const size = Math.round(parseFloat(String(css.fontSize ?? '12pt')) * 2);
+  const bold = css.fontWeight === 'bold' ? '<w:b/><w:bCs/>' : '';
+  const italic = css.fontStyle === 'italic' ? '<w:i/><w:iCs/>' : '';
+  const caps = css.textTransform === 'uppercase' ? '<w:caps/>' : '';
+  const rPr = `${bold}${italic}${caps}<w:sz w:val="${size}"/><w:szCs w:val="${size}"/>`;
+
+  return (
+    `<w:style w:type="paragraph" w:customStyle="1" w:styleId="${id}">` +
+    `<w:name w:val="${id}"/><w:basedOn w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`
+  );
+}
+
+function buildStylesXml(): string {
+  const fonts = `<w:rFonts w:ascii="${FONT}" w:hAnsi="${FONT}" w:cs="${FONT}"/>`;
+  const styles = STYLE_SOURCES.map(({ id, css, keepNext }) =>
+    buildParagraphStyle(id, formatStyles[css] ?? {}, keepNext)
+  ).join('');
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<w:styles xmlns:w="${W_NS}">` +
+    `<w:docDefaults><w:rPrDefault><w:rPr>${fonts}<w:sz w:val="24"/><w:szCs w:val="24"/>` +
+    '<w:lang w:val="en-US" w:bidi="ar-SA"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:bidi/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    styles +
+    '</w:styles>'
+  );
+}
+
+function run(text: string): string {
+  const rtl = RTL_CHARS_RE.test(text) ? '<w:rPr><w:rtl/></w:rPr>' : '';
+  return `<w:r>${rtl}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(style: DocxStyleId, runs: string): string {
+  return `<w:p><w:pPr><w:pStyle w:val="${style}"/></w:pPr>${runs}</w:p>`;
+}
+
+/** فقرات جسم المستند بالترتيب */
+function buildBody(doc: ScreenplayDocument): string[] {
+  const body: string[] = [];
+
+  for (const node of doc.elements) {
+    switch (node.type) {
+      case 'blank':
+        // التباعد بين العناصر تحمله الأنماط نفسها
+        break;
+      case 'basmala':
+        body.push(paragraph('Basmala', run(node.text)));
+        break;
+      case 'scene-header':
+        body.push(
+          paragraph(
+            'SceneHeading',
+            node.timeLocation ? `${run(node.sceneNum)}<w:r><w:tab/></w:r>${run(node.timeLocation)}` : run(node.sceneNum)
+          )
+        );
+        if (node.place) body.push(paragraph('ScenePlace', run(node.place)));
+        break;
+      case 'dialogue-block':
+        body.push(paragraph('Character', run(node.character)));
+        node.lines.forEach((line) => {
+          if (line.type === 'parenthetical') {
+            body.push(paragraph('Parenthetical', run(line.text)));
+          } else {
+            body.push(paragraph('Dialogue', run(line.isTranslation ? `(${line.text})` : line.text)));
+          }
+        });
+        break;
+      case 'transition':
+        body.push(paragraph('Transition', run(node.text)));
+        break;
+      case 'parenthetical':
+        body.push(paragraph('Parenthetical', run(node.text)));
+        break;
+      case 'action':
+      default:
+        body.push(paragraph('Action', run(node.text)));
+        break;
+    }
+  }
+
+  return body;
+}
+
+function buildDocumentXml(doc: ScreenplayDocument): string {
+  const sectPr =
+    `<w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>` +
+    `<w:pgMar w:top="${MARGIN.top}" w:right="${MARGIN.right}" w:bottom="${MARGIN.bottom}" w:left="${MARGIN.left}" ` +
+    'w:header="720" w:footer="720" w:gutter="0"/><w:bidi/></w:sectPr>';
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>` +
+    buildBody(doc).join('') +
+    sectPr +
+    '</w:body></w:document>'
+  );
+}
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '</Types>';
+
+const PACKAGE_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '</Relationships>';
+
+const DOCUMENT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+/** إنشاء ملف docx كامل من الوثيقة */
+export function screenplayToDocx(doc: ScreenplayDocument): Uint8Array {
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+    { name: 'word/document.xml', data: buildDocumentXml(doc) },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+    { name: 'word/styles.xml', data: buildStylesXml() }
+  ]);
+}
+
+// ===== الاستيراد =====
+
+type ImportedElement =
+  | 'basmala'
+  | 'scene-header'
+  | 'scene-place'
+  | 'action'
+  | 'character'
+  | 'parenthetical'
+  | 'dialogue'
+  | 'transition';
+
+// أسماء أنماط Word الشائعة (بعد التطبيع) ومقابلها من عناصرنا
+const STYLE_ELEMENTS: Record<string, ImportedElement> = {
+  basmala: 'basmala',
+  sceneheading: 'scene-header',
+  sceneheader: 'scene-header',
+  sceneplace: 'scene-place',
+  action: 'action',
+  character: 'character',
+  parenthetical: 'parenthetical',
+  dialogue: 'dialogue',
+  dialog: 'dialogue',
+  transition: 'transition',
+  'بسملة': 'basmala',
+  'ترويسة': 'scene-header',
+  'مشهد': 'scene-header',
+  'حدث': 'action',
+  'وصف': 'action',
+  'شخصية': 'character',
+  'إرشاد': 'parenthetical',
+  'حوار': 'dialogue',
+  'انتقال': 'transition'
+};
+
+const SCENE_TAB_RE = /^((?:مشهد|م\.)\s*[0-9٠-٩]+)\t+/;
+
+interface ImportedParagraph {
+  element: ImportedElement | null;
+  text: string;
+}
+
+function normalizeStyleName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/** خريطة معرّف النمط ← اسمه المعروض (قد يختلف المعرّف في النسخ المعرّبة من Word) */
+function readStyleNames(stylesXml: string | null): Map<string, string> {
+  const names = new Map<string, string>();
+  if (!stylesXml) return names;
+
+  const parsed = new DOMParser().parseFromString(stylesXml, 'application/xml');
+  for (const style of Array.from(parsed.getElementsByTagNameNS(W_NS, 'style'))) {
+    const id = style.getAttributeNS(W_NS, 'styleId');
+    const name = style.getElementsByTagNameNS(W_NS, 'name')[0]?.getAttributeNS(W_NS, 'val');
+    if (id && name) names.set(id, name);
+  }
+  return names;
+}
+
+function isInside(node: Node, localName: string): boolean {
+  for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+    if ((parent as Element).localName === localName) return true;
+  }
+  return false;
+}
+
+/** نص الفقرة مع فواصل الأسطر والجداول، دون الدخول إلى مربعات النص أو الفقرات المتداخلة */
+function paragraphText(node: Node): string {
+  let text = '';
+  node.childNodes.forEach((child) => {
+    if (child.nodeType !== 1) return;
+    const element = child as Element;
+    if (element.namespaceURI !== W_NS) {
+      // AlternateContent: نأخذ البديل الأول فقط
+      if (element.localName === 'Fallback') return;
+      text += paragraphText(element);
+      return;
+    }
+    switch (element.localName) {
+      case 't':
+        text += element.textContent ?? '';
+        break;
+      case 'tab':
+        text += '\t';
+        break;
+      case 'br':
+      case 'cr':
+        text += '\n';
+        break;
+      case 'noBreakHyphen':
+        text += '-';
+        break;
+      case 'pPr':
+      case 'rPr':
+      case 'p':
+      case 'txbxContent':
+      case 'delText':
+      case 'instrText':
+        break;
+      default:
+        text += paragraphText(element);
+        break;
+    }
+  });
+  return text;
+}
+
+function readParagraphs(documentXml: string, styleNames: Map<string, string>): ImportedParagraph[] {
+  const parsed = new DOMParser().parseFromString(documentXml, 'application/xml');
+  if (parsed.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('مستند Word غير صالح');
+  }
+
+  return Array.from(parsed.getElementsByTagNameNS(W_NS, 'p'))
+    .filter((p) => !isInside(p, 'Fallback'))
+    .map((p) => {
+      const styleId = p.getElementsByTagNameNS(W_NS, 'pStyle')[0]?.getAttributeNS(W_NS, 'val') ?? '';
+      const styleName = styleNames.get(styleId) ?? styleId;
+      return {
+        element: STYLE_ELEMENTS[normalizeStyleName(styleName)] ?? STYLE_ELEMENTS[normalizeStyleName(styleId)] ?? null,
+        text: paragraphText(p)
+      };
+    });
+}
+
+/** تحويل ملف docx إلى نص سيناريو: الأنماط المعروفة تُحوَّل صراحةً، وما عداها يُترك للمصنّف */
+export function docxToScreenplayText(bytes: Uint8Array): string {
+  const documentXml = readZipEntry(bytes, 'word/document.xml');
+  if (!documentXml) throw new Error('ملف Word لا يحتوي على مستند');
+
+  const decoder = new TextDecoder();
+  const stylesXml = readZipEntry(bytes, 'word/styles.xml');
+  const paragraphs = readParagraphs(decoder.decode(documentXml), readStyleNames(stylesXml && decoder.decode(stylesXml)));
+
+  const out: string[] = [];
+  const ensureBlank = () => {
+    if (out.length > 0 && out[out.length - 1] !== '') out.push('');
+  };
+
+  // نوع آخر فقرة غير فارغة، ليُعرف أن المكان يلي الترويسة
+  let previous: ImportedElement | null = null;
+
+  for (const { element, text } of paragraphs) {
+    const lines = text
+      .replace(SCENE_TAB_RE, '$1 - ')
+      .split('\n')
+      .map((line) => line.replace(/\t+/g, ' ').replace(/[ \u00a0]+/g, ' ').trim());
+    const content = lines.filter(Boolean);
+
+    switch (element) {
+      case null:
+        // فقرة دون نمط معروف: الأسطر كما هي، والفقرة الفارغة سطر فارغ
+        out.push(...lines);
+        break;
+      case 'scene-header':
+        if (!content.length) break;
+        ensureBlank();
+        out.push(...content);
+        break;
+      case 'scene-place':
+        if (!content.length) break;
+        // يُضم إلى سطر الترويسة السابق: سطر مستقل قد يشبه اسم شخصية ("بيت أحمد") فلا يُلحق بها
+        if (previous === 'scene-header' && out.length > 0) {
+          out[out.length - 1] += ` – ${content.join(' – ')}`;
+        } else {
+          ensureBlank();
+          out.push(...content);
+        }
+        out.push('');
+        break;
+      case 'character':
+        if (!content.length) break;
+        ensureBlank();
+        out.push(`${content.join(' ').replace(/\s*[:：]\s*$/, '')}:`);
+        break;
+      case 'parenthetical':
+      case 'dialogue':
+        out.push(...content);
+        break;
+      default:
+        if (!content.length) break;
+        ensureBlank();
+        out.push(...content);
+        out.push('');
+        break;
+    }
+    if (content.length) previous = element;
+  }
+
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
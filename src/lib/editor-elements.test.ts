@@ -0,0 +1,152 @@
+import {
+  cycleElement,
+  elementCommand,
+  extractPaginatedText,
+  getCaretLine,
+  insertLineAfter,
+  isExternalContent,
+  retypeLine,
+  serializeForcedLine,
+  type StyleLine
+} from './editor-elements';
+import { parseAndFormat } from './screenplay-parser';
+
+const key = (key: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  key,
+  code: modifiers.code,
+  shiftKey: !!modifiers.shiftKey,
+  ctrlKey: !!modifiers.ctrlKey,
+  metaKey: !!modifiers.metaKey,
+  altKey: !!modifiers.altKey
+});
+
+const styleLine: StyleLine = (element, kind) => {
+  element.className = kind;
+};
+
+function placeCaretIn(node: Node, offset: number) {
+  const range = document.createRange();
+  range.setStart(node, offset);
+  range.collapse(true);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+describe('editor-elements', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('Enter after a character cue continues with dialogue', () => {
+    expect(elementCommand(key('Enter'), 'character')).toEqual({ type: 'new-line', element: 'dialogue' });
+    expect(elementCommand(key('Enter'), 'dialogue')).toEqual({ type: 'new-line', element: 'action' });
+    expect(elementCommand(key('Enter', { shiftKey: true }), 'character')).toBeNull();
+  });
+
+  test('Tab cycles action → character → parenthetical → transition', () => {
+    expect(cycleElement('action')).toBe('character');
+    expect(cycleElement('parenthetical')).toBe('transition');
+    expect(cycleElement('transition')).toBe('action');
+    expect(cycleElement('action', true)).toBe('transition');
+    expect(cycleElement('dialogue')).toBe('action');
+    expect(elementCommand(key('Tab', { shiftKey: true }), 'character')).toEqual({ type: 'retype', element: 'action' });
+  });
+
+  test('Ctrl+1..7 forces an element, also from Arabic keyboard layouts', () => {
+    expect(elementCommand(key('1', { ctrlKey: true }), 'action')).toEqual({ type: 'retype', element: 'scene-header' });
+    expect(elementCommand(key('٣', { ctrlKey: true, code: 'Digit3' }), 'action')).toEqual({ type: 'retype', element: 'character' });
+    expect(elementCommand(key('7', { metaKey: true }), 'action')).toEqual({ type: 'retype', element: 'basmala' });
+    expect(elementCommand(key('8', { ctrlKey: true }), 'action')).toBeNull();
+    expect(elementCommand(key('1', { ctrlKey: true, altKey: true }), 'action')).toBeNull();
+  });
+
+  test('retyping stores the choice on the block and in the saved text', () => {
+    document.body.innerHTML = '<div class="page-content"><div class="action" data-element="action">أحمد</div></div>';
+    const line = document.querySelector<HTMLElement>('.action')!;
+
+    retypeLine(line, 'transition', styleLine);
+    expect(line.className).toBe('transition');
+    expect(line.dataset).toMatchObject({ element: 'transition', forced: 'true' });
+    expect(serializeForcedLine(line)).toBe('>أحمد');
+  });
+
+  test('retyping a scene header flattens its parts into one line', () => {
+    document.body.innerHTML = parseAndFormat('مشهد 1 - ليل-داخلي\nالبيت');
+    const header = document.querySelector<HTMLElement>('.scene-header-container')!;
+
+    const line = retypeLine(header, 'action', styleLine);
+    expect(document.querySelector('.scene-header-container')).toBeNull();
+    expect(serializeForcedLine(line)).toBe('!مشهد 1 - ليل-داخلي - البيت');
+  });
+
+  test('low-confidence guesses are underlined until the writer confirms them', () => {
+    document.body.innerHTML = parseAndFormat('سامي\nتأخرت\n\nقطع إلى:');
+    const cue = document.querySelector<HTMLElement>('[data-element="character"]')!;
+    expect(cue.dataset.uncertain).toBe('true');
+    expect(document.querySelectorAll('[data-uncertain]')).toHaveLength(1);
+
+    retypeLine(cue, 'character', styleLine);
+    expect(cue.dataset.uncertain).toBeUndefined();
+    expect(serializeForcedLine(cue)).toBe('@سامي');
+    expect(parseAndFormat('@سامي\nتأخرت')).not.toContain('data-uncertain');
+  });
+
+  test('insertLineAfter moves the text after the caret into the new line', () => {
+    document.body.innerHTML = '<div id="root"><div data-element="character">أحمد: مرحبًا</div></div>';
+    const root = document.getElementById('root')!;
+    const line = root.firstElementChild as HTMLElement;
+    placeCaretIn(line.firstChild!, 5);
+
+    const created = insertLineAfter(line, 'dialogue', styleLine);
+    expect(line.textContent).toBe('أحمد:');
+    expect(created.textContent).toBe(' مرحبًا');
+    expect(created.dataset).toMatchObject({ element: 'dialogue', forced: 'true' });
+    expect(getCaretLine(root)).toBe(created);
+  });
+
+  test('insertLineAfter separates blocks with an empty line in the simple editor', () => {
+    document.body.innerHTML = '<div id="root"><div data-element="dialogue">مرحبًا</div></div>';
+    const root = document.getElementById('root')!;
+    const line = root.firstElementChild as HTMLElement;
+    placeCaretIn(line.firstChild!, line.textContent!.length);
+
+    const created = insertLineAfter(line, 'action', styleLine, true);
+    expect(root.children).toHaveLength(3);
+    expect(root.children[1].textContent).toBe('');
+    expect(created.dataset.forced).toBeUndefined();
+  });
+
+  test('extractPaginatedText keeps dialogue lines together and forced lines marked', () => {
+    document.body.innerHTML = `
+      <div class="page"><div class="page-content">
+        <div class="scene-header-container" data-element="scene-header">
+          <div class="scene-header-top-line"><span class="scene-header-1">مشهد 1</span><span class="scene-header-2">ليل-داخلي</span></div>
+          <div class="scene-header-3">البيت</div>
+        </div>
+        <div class="dialogue-block">
+          <div class="character" data-element="character">أحمد</div>
+          <div class="parenthetical" data-element="parenthetical">(بهمس)</div>
+          <div class="dialogue" data-element="dialogue">مرحبًا</div>
+        </div>
+        <div class="transition" data-element="transition" data-forced="true">أحمد</div>
+      </div></div>`;
+
+    expect(extractPaginatedText(document.body)).toBe(
+      'مشهد 1 ليل-داخلي\nالبيت\n\nأحمد:\n(بهمس)\nمرحبًا\n\n>أحمد'
+    );
+  });
+
+  test('isExternalContent rebuilds when switching from a screenplay to an empty one', () => {
+    // الفتح الأول بنص فارغ يُبقي المحتوى الأولي
+    expect(isExternalContent('', null)).toBe(false);
+
+    // فتح سيناريو فيه نص، ثم ما يكتبه الكاتب نفسه لا يُعاد بناؤه
+    expect(isExternalContent('مشهد 1', null)).toBe(true);
+    expect(isExternalContent('مشهد 1', 'مشهد 1')).toBe(false);
+
+    // الانتقال إلى سيناريو فارغ يمحو النص السابق بدل أن يبقى ويُحفظ فيه
+    expect(isExternalContent('', 'مشهد 1')).toBe(true);
+    expect(isExternalContent('', '')).toBe(false);
+  });
+});
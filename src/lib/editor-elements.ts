@@ -0,0 +1,293 @@
+// Editor Elements - نوع العنصر الحالي في المحرر وتنقّل لوحة المفاتيح بين العناصر
+// كل سطر معروض يحمل data-element بنوعه، وdata-forced إن اختاره الكاتب صراحة؛
+// الاختيار الصريح يُكتب في النص ببادئة FORCED_MARKERS فيبقى بعد إعادة التحليل
+
+import type { LineElement } from './screenplay-document';
+import { FORCED_MARKERS } from './screenplay-line-classifier';
+
+/** ترتيب العناصر في اختصارات Ctrl+1..7 */
+export const ELEMENT_SHORTCUTS: LineElement[] = [
+  'scene-header',
+  'action',
+  'character',
+  'parenthetical',
+  'dialogue',
+  'transition',
+  'basmala'
+];
+
+export const ELEMENT_LABELS: Record<LineElement, string> = {
+  'scene-header': 'رأس المشهد',
+  action: 'سرد حركي',
+  character: 'شخصية',
+  parenthetical: 'إرشاد',
+  dialogue: 'حوار',
+  transition: 'انتقال',
+  basmala: 'بسملة'
+};
+
+const TAB_CYCLE: LineElement[] = ['action', 'character', 'parenthetical', 'transition'];
+
+const ENTER_NEXT: Record<LineElement, LineElement> = {
+  'scene-header': 'action',
+  action: 'action',
+  character: 'dialogue',
+  parenthetical: 'dialogue',
+  dialogue: 'action',
+  transition: 'scene-header',
+  basmala: 'scene-header'
+};
+
+/** عناصر كتلة الحوار: تتوالى على أسطر متتالية دون سطر فارغ بينها */
+const DIALOGUE_GROUP = new Set<LineElement>(['character', 'parenthetical', 'dialogue']);
+
+export function nextElementOnEnter(current: LineElement): LineElement {
+  return ENTER_NEXT[current];
+}
+
+/** Tab يدور action → character → parenthetical → transition؛ ما خارج الدورة يبدأ منها */
+export function cycleElement(current: LineElement, reverse = false): LineElement {
+  const index = TAB_CYCLE.indexOf(current);
+  if (index === -1) return reverse ? TAB_CYCLE[TAB_CYCLE.length - 1] : TAB_CYCLE[0];
+  const step = reverse ? TAB_CYCLE.length - 1 : 1;
+  return TAB_CYCLE[(index + step) % TAB_CYCLE.length];
+}
+
+export type ElementCommand =
+  /** سطر جديد بعد الحالي بالنوع المعطى */
+  | { type: 'new-line'; element: LineElement }
+  /** تغيير نوع السطر الحالي وفرضه */
+  | { type: 'retype'; element: LineElement };
+
+interface KeyInput {
+  key: string;
+  code?: string;
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+}
+
+/** الأمر المقابل لضغطة المفاتيح، أو null لتركها للمتصفح */
+export function elementCommand(event: KeyInput, current: LineElement): ElementCommand | null {
+  if (event.altKey) return null;
+  const mod = event.ctrlKey || event.metaKey;
+
+  if (mod) {
+    // code يبقى Digit1.. مع لوحات المفاتيح العربية التي تكتب ١..٧
+    const digit = event.code?.match(/^(?:Digit|Numpad)([1-7])$/)?.[1] ?? event.key.match(/^[1-7]$/)?.[0];
+    return digit ? { type: 'retype', element: ELEMENT_SHORTCUTS[Number(digit) - 1] } : null;
+  }
+  if (event.key === 'Tab') {
+    return { type: 'retype', element: cycleElement(current, event.shiftKey) };
+  }
+  if (event.key === 'Enter' && !event.shiftKey) {
+    return { type: 'new-line', element: nextElementOnEnter(current) };
+  }
+  return null;
+}
+
+const CLASS_ELEMENTS: Array<[string, LineElement]> = [
+  ['basmala', 'basmala'],
+  ['scene-header', 'scene-header'],
+  ['character', 'character'],
+  ['parenthetical', 'parenthetical'],
+  ['dialogue-text', 'dialogue'],
+  ['transition', 'transition'],
+  ['action', 'action']
+];
+
+/** نوع عنصر DOM: من data-element، وإلا من أصناف محرك الترقيم */
+export function getElementKind(element: Element): LineElement | null {
+  const declared = element.getAttribute('data-element');
+  if (declared && declared in FORCED_MARKERS) return declared as LineElement;
+  const className = element.getAttribute('class') ?? '';
+  if (/(?:^|\s)dialogue(?:\s|$)/.test(className)) return 'dialogue';
+  return CLASS_ELEMENTS.find(([name]) => className.includes(name))?.[1] ?? null;
+}
+
+/** السطر الذي يحتوي العقدة داخل المحرر (أقرب سلف له نوع، وليس كتلة حوار) */
+export function getLineElement(root: HTMLElement, node: Node | null): HTMLElement | null {
+  let current: Node | null = node;
+  while (current && current !== root) {
+    if (current instanceof HTMLElement && getElementKind(current)) {
+      // رأس المشهد وحدة واحدة وإن تعدّدت أجزاؤه
+      return (current.closest('.scene-header-container') as HTMLElement | null) ?? current;
+    }
+    current = current.parentNode;
+  }
+  return null;
+}
+
+export function getCaretLine(root: HTMLElement): HTMLElement | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  return getLineElement(root, selection.getRangeAt(0).startContainer);
+}
+
+/** نص رأس المشهد في سطر واحد من أجزائه المعروضة (المكان بلا صنف في الوضع البسيط) */
+function sceneHeaderText(element: HTMLElement): string {
+  const parts = Array.from(element.children).flatMap((child) => {
+    const spans = child.querySelectorAll('.scene-header-1, .scene-header-2');
+    return spans.length > 0 ? Array.from(spans) : [child];
+  })
+    .map((part) => part.textContent?.trim() ?? '')
+    .filter(Boolean);
+  return parts.length > 0 ? parts.join(' - ') : (element.textContent ?? '').trim();
+}
+
+/** نص السطر كما يراه الكاتب، ورأس المشهد المقسّم في سطر واحد */
+export function getLineText(line: HTMLElement): string {
+  return line.classList.contains('scene-header-container') ? sceneHeaderText(line) : (line.textContent ?? '').trim();
+}
+
+/** نص السطر المفروض ببادئته كما يُحفظ؛ null لغير المفروض فيستخرجه المحرر كعادته */
+export function serializeForcedLine(element: HTMLElement): string | null {
+  if (element.dataset.forced !== 'true') return null;
+  const kind = getElementKind(element);
+  if (!kind) return null;
+  const text = kind === 'scene-header' ? sceneHeaderText(element) : (element.textContent ?? '').trim();
+  return `${FORCED_MARKERS[kind]}${kind === 'character' ? text.replace(/[:：]\s*$/, '') : text}`;
+}
+
+/** تنسيق السطر بحسب نوعه: صنف CSS في وضع الصفحات، أو نمط مضمَّن في الوضع البسيط */
+export type StyleLine = (element: HTMLElement, kind: LineElement) => void;
+
+function createLine(kind: LineElement, styleLine: StyleLine, text: string): HTMLElement {
+  const line = document.createElement('div');
+  line.dataset.element = kind;
+  styleLine(line, kind);
+  if (text) {
+    line.textContent = text;
+  } else {
+    line.appendChild(document.createElement('br'));
+  }
+  return line;
+}
+
+function placeCaret(element: HTMLElement, atEnd: boolean) {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const range = document.createRange();
+  range.selectNodeContents(element);
+  range.collapse(!atEnd);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+/** تغيير نوع السطر وفرضه؛ يعيد العنصر الجديد إن استُبدل (رأس مشهد متعدد الأجزاء) */
+export function retypeLine(line: HTMLElement, kind: LineElement, styleLine: StyleLine): HTMLElement {
+  const isHeaderContainer = line.classList.contains('scene-header-container');
+  let target = line;
+  if (isHeaderContainer || (line.childElementCount > 0 && kind === 'scene-header')) {
+    // الأجزاء المنفصلة تُدمج في سطر واحد يحمل النوع الجديد
+    const text = isHeaderContainer ? sceneHeaderText(line) : (line.textContent ?? '').trim();
+    target = createLine(kind, styleLine, text);
+    line.replaceWith(target);
+    placeCaret(target, true);
+  }
+  target.dataset.element = kind;
+  target.dataset.forced = 'true';
+  delete target.dataset.uncertain;
+  styleLine(target, kind);
+  return target;
+}
+
+/**
+ * سطر جديد بعد الحالي: ما بعد المؤشر ينتقل إليه، والمؤشر في بدايته.
+ * النوع المقترح يُفرض إلا السرد الحركي، وهو ما يؤول إليه أي نص لا تعرفه الاستدلالات.
+ * separateBlocks: في الوضع البسيط السطر الفارغ بين العناصر عنصر DOM بذاته
+ */
+export function insertLineAfter(
+  line: HTMLElement,
+  kind: LineElement,
+  styleLine: StyleLine,
+  separateBlocks = false
+): HTMLElement {
+  let tail = '';
+  const selection = window.getSelection();
+  if (selection && selection.rangeCount > 0 && !line.classList.contains('scene-header-container')) {
+    const range = selection.getRangeAt(0);
+    if (line.contains(range.startContainer)) {
+      range.deleteContents();
+      const after = document.createRange();
+      after.setStart(range.startContainer, range.startOffset);
+      after.setEnd(line, line.childNodes.length);
+      tail = after.toString();
+      after.deleteContents();
+      if (!line.textContent) line.appendChild(document.createElement('br'));
+    }
+  }
+
+  const created = createLine(kind, styleLine, tail);
+  if (kind !== 'action') created.dataset.forced = 'true';
+  if (separateBlocks && lineSeparator(getElementKind(line), kind) === '\n\n') {
+    const spacer = createLine('action', styleLine, '');
+    line.after(spacer);
+    spacer.after(created);
+  } else {
+    line.after(created);
+  }
+  placeCaret(created, false);
+  return created;
+}
+
+/** الفاصل بين سطرين متتاليين في النص: أسطر الحوار متلاصقة، والبقية يفصلها سطر فارغ */
+export function lineSeparator(previous: LineElement | null, next: LineElement | null): string {
+  if (previous && next && DIALOGUE_GROUP.has(previous) && DIALOGUE_GROUP.has(next) && next !== 'character') {
+    return '\n';
+  }
+  return '\n\n';
+}
+
+/** نص سطر من صفحات المحرر كما يُحفظ */
+function paginatedLineText(element: HTMLElement, kind: LineElement): string {
+  const forced = serializeForcedLine(element);
+  if (forced !== null) return forced;
+  const text = (element.textContent ?? '').trim();
+  switch (kind) {
+    case 'scene-header': {
+      if (!element.querySelector('.scene-header-top-line')) return text;
+      const sceneNum = element.querySelector('.scene-header-1')?.textContent ?? '';
+      const timeLocation = element.querySelector('.scene-header-2')?.textContent ?? '';
+      const place = element.querySelector('.scene-header-3')?.textContent ?? '';
+      return `${sceneNum} ${timeLocation}\n${place}`.trim();
+    }
+    case 'character':
+      return text ? `${text.replace(/[:：]\s*$/, '')}:` : '';
+    default:
+      return text;
+  }
+}
+
+/** نص السيناريو من صفحات وضع الترقيم: الأسطر بترتيبها، وأسطر كتل الحوار من داخلها */
+export function extractPaginatedText(container: ParentNode): string {
+  const lines: Array<{ kind: LineElement; text: string }> = [];
+  const visit = (element: HTMLElement) => {
+    if (element.classList.contains('dialogue-block')) {
+      Array.from(element.children).forEach((child) => visit(child as HTMLElement));
+      return;
+    }
+    const kind = getElementKind(element);
+    if (kind) lines.push({ kind, text: paginatedLineText(element, kind) });
+  };
+  container.querySelectorAll('.page-content').forEach((page) => {
+    Array.from(page.children).forEach((child) => visit(child as HTMLElement));
+  });
+
+  let text = '';
+  lines.forEach((line, index) => {
+    if (index > 0) text += lineSeparator(lines[index - 1].kind, line.kind);
+    text += line.text;
+  });
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * هل أتى content من خارج المحرر (فتح، استيراد، استعادة نسخة) فيُعاد بناؤه؟
+ * lastEmitted آخر نص أبلغ عنه المحرر أو عرضه؛ النص الفارغ قبل أي نص يُبقي المحتوى الأولي
+ */
+export function isExternalContent(content: string, lastEmitted: string | null): boolean {
+  if (content === lastEmitted) return false;
+  return content !== '' || lastEmitted !== null;
+}
@@ -0,0 +1,80 @@
+// Unit Tests for Final Draft Converter - اختبارات محوّل Final Draft
+// التحقق من كتابة الفقرات وقراءتها والذهاب والإياب دون فقدان
+
+import { fdxToScreenplayText, screenplayToFdx } from './fdx-converter';
+import { parseScreenplayText } from './screenplay-document';
+import { classifyDocument } from './screenplay-line-classifier';
+
+const SCRIPT = `بسم الله الرحمن الرحيم
+
+مشهد 5 - نهار-داخلي – القاعة الكبرى
+المقاعد ممتلئة
+أحمد
+يقف وسط الجمهور
+قطع
+
+مشهد 6 - ليل-خارجي – الحديقة
+فاطمة: (بهمس) هل أنت هنا؟
+أنا خائفة & وحيدة.
+يدخل أحمد من البوابة.
+
+شمعون
+ܫܠܡܐ ܥܠܝܟܘܢ
+( السلام عليكم )
+
+قطع إلى:`;
+
+describe('FdxConverter', () => {
+
+  describe('screenplayToFdx', () => {
+
+    test('should write typed RTL paragraphs with scene numbers', () => {
+      const fdx = screenplayToFdx(parseScreenplayText(SCRIPT));
+
+      expect(fdx).toContain('<FinalDraft DocumentType="Script"');
+      expect(fdx).toContain('<Paragraph Type="Scene Heading" Alignment="Right" Number="6">');
+      expect(fdx).toContain('<Text RightToLeft="Yes">ليل-خارجي – الحديقة</Text>');
+      expect(fdx).toContain('<Paragraph Type="Character" Alignment="Center">\n      <Text RightToLeft="Yes">فاطمة</Text>');
+      expect(fdx).toContain('<Text RightToLeft="Yes">(بهمس)</Text>');
+      expect(fdx).toContain('<Text RightToLeft="Yes">أنا خائفة &amp; وحيدة.</Text>');
+      expect(fdx).toContain('<Paragraph Type="Transition" Alignment="Center">');
+    });
+  });
+
+  describe('fdxToScreenplayText', () => {
+
+    test('should read content paragraphs and ignore title page', () => {
+      const fdx = `<?xml version="1.0" encoding="UTF-8"?>
+<FinalDraft DocumentType="Script" Version="5">
+  <Content>
+    <Paragraph Type="Scene Heading" Number="3"><Text>INT. HOUSE - NIGHT</Text></Paragraph>
+    <Paragraph Type="Action"><Text>Ahmed </Text><Text Style="Bold">enters.</Text></Paragraph>
+    <Paragraph Type="Character"><Text>أحمد</Text></Paragraph>
+    <Paragraph Type="Dialogue"><Text>مرحبًا.</Text></Paragraph>
+    <Paragraph Type="Transition"><Text>قطع إلى:</Text></Paragraph>
+  </Content>
+  <TitlePage><Content><Paragraph Type="Text"><Text>العنوان</Text></Paragraph></Content></TitlePage>
+</FinalDraft>`;
+
+      expect(fdxToScreenplayText(fdx)).toBe(
+        'مشهد 3 - داخلي-ليل – HOUSE\n\nAhmed enters.\n\nأحمد:\nمرحبًا.\n\nقطع إلى:'
+      );
+    });
+
+    test('should reject malformed XML', () => {
+      expect(() => fdxToScreenplayText('<FinalDraft><Content>')).toThrow('ملف Final Draft غير صالح');
+    });
+  });
+
+  describe('round trip', () => {
+
+    test('should preserve classification through FDX', () => {
+      const original = classifyDocument(SCRIPT.split('\n'));
+      const restored = classifyDocument(
+        fdxToScreenplayText(screenplayToFdx(parseScreenplayText(SCRIPT))).split('\n')
+      );
+
+      expect(restored).toEqual(original);
+    });
+  });
+});
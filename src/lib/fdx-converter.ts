@@ -0,0 +1,162 @@
+// Final Draft Converter - محوّل صيغة Final Draft (.fdx)
+// كتابة فقرات FDX من شجرة الوثيقة مع خصائص اتجاه من اليمين لليسار، وقراءتها إلى نص يفهمه المصنّف
+
+import { toSceneHeaderLine } from './fountain-converter';
+import type { ScreenplayDocument } from './screenplay-document';
+import { escapeXml } from './xml';
+
+type FdxParagraphType =
+  | 'General'
+  | 'Scene Heading'
+  | 'Action'
+  | 'Character'
+  | 'Parenthetical'
+  | 'Dialogue'
+  | 'Transition';
+
+interface FdxParagraph {
+  type: FdxParagraphType;
+  text: string;
+  number?: string;
+}
+
+// محاذاة كل نوع فقرة في الصفحة العربية (تطابق formatStyles)
+const PARAGRAPH_ALIGNMENT: Record<FdxParagraphType, 'Left' | 'Center' | 'Right'> = {
+  General: 'Left',
+  'Scene Heading': 'Right',
+  Action: 'Right',
+  Character: 'Center',
+  Parenthetical: 'Center',
+  Dialogue: 'Center',
+  Transition: 'Center'
+};
+
+/** تحويل عناصر الوثيقة إلى فقرات FDX */
+function toParagraphs(doc: ScreenplayDocument): FdxParagraph[] {
+  const paragraphs: FdxParagraph[] = [];
+
+  for (const node of doc.elements) {
+    switch (node.type) {
+      case 'blank':
+        break;
+      case 'basmala':
+        paragraphs.push({ type: 'General', text: node.text });
+        break;
+      case 'scene-header':
+        paragraphs.push({
+          type: 'Scene Heading',
+          text: [node.timeLocation, node.place].filter(Boolean).join(' – ') || node.sceneNum,
+          number: node.number
+        });
+        break;
+      case 'dialogue-block':
+        paragraphs.push({ type: 'Character', text: node.character });
+        node.lines.forEach((line) => {
+          paragraphs.push({
+            type: line.type === 'parenthetical' ? 'Parenthetical' : 'Dialogue',
+            text: line.isTranslation ? `(${line.text})` : line.text
+          });
+        });
+        break;
+      case 'transition':
+        paragraphs.push({ type: 'Transition', text: node.text });
+        break;
+      case 'parenthetical':
+        paragraphs.push({ type: 'Parenthetical', text: node.text });
+        break;
+      case 'action':
+      default:
+        paragraphs.push({ type: 'Action', text: node.text });
+        break;
+    }
+  }
+
+  return paragraphs;
+}
+
+/** كتابة الوثيقة كملف Final Draft XML */
+export function screenplayToFdx(doc: ScreenplayDocument): string {
+  const body = toParagraphs(doc)
+    .map((p) => {
+      const number = p.number ? ` Number="${escapeXml(p.number)}"` : '';
+      return [
+        `    <Paragraph Type="${p.type}" Alignment="${PARAGRAPH_ALIGNMENT[p.type]}"${number}>`,
+        `      <Text RightToLeft="Yes">${escapeXml(p.text)}</Text>`,
+        '    </Paragraph>'
+      ].join('\n');
+    })
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    '  <Content>',
+    body,
+    '  </Content>',
+    '</FinalDraft>',
+    ''
+  ].join('\n');
+}
+
+/** قراءة فقرات المحتوى (دون صفحة العنوان والترويسات والتذييلات) */
+function readParagraphs(xml: string): FdxParagraph[] {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+  if (parsed.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('ملف Final Draft غير صالح');
+  }
+
+  const content = parsed.getElementsByTagName('Content')[0];
+  if (!content) return [];
+
+  return Array.from(content.children)
+    .filter((el) => el.tagName === 'Paragraph')
+    .map((el) => ({
+      type: (el.getAttribute('Type') || 'Action') as FdxParagraphType,
+      text: Array.from(el.getElementsByTagName('Text'))
+        .map((t) => t.textContent ?? '')
+        .join('')
+        .trim(),
+      number: el.getAttribute('Number') ?? undefined
+    }));
+}
+
+/** تحويل ملف FDX إلى نص سيناريو بالصيغة التي يفهمها المصنّف */
+export function fdxToScreenplayText(xml: string): string {
+  const out: string[] = [];
+  let lastSceneNumber = 0;
+
+  const ensureBlank = () => {
+    if (out.length > 0 && out[out.length - 1] !== '') out.push('');
+  };
+
+  for (const p of readParagraphs(xml)) {
+    if (!p.text) continue;
+
+    switch (p.type) {
+      case 'Scene Heading': {
+        const parsedNumber = p.number ? parseInt(p.number, 10) : NaN;
+        lastSceneNumber = Number.isFinite(parsedNumber) ? parsedNumber : lastSceneNumber + 1;
+        ensureBlank();
+        out.push(toSceneHeaderLine(p.text, p.number || String(lastSceneNumber)));
+        out.push('');
+        break;
+      }
+      case 'Character':
+        ensureBlank();
+        out.push(`${p.text.replace(/\s*:\s*$/, '')}:`);
+        break;
+      case 'Parenthetical':
+      case 'Dialogue':
+        out.push(p.text);
+        break;
+      default:
+        // حركة وانتقالات ونص عام: فقرة مستقلة يفصلها سطر فارغ
+        ensureBlank();
+        out.push(p.text);
+        out.push('');
+        break;
+    }
+  }
+
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -1,8 +1,18 @@
+import { docxToScreenplayText, screenplayToDocx } from './docx-converter';
+import { fdxToScreenplayText, screenplayToFdx } from './fdx-converter';
+import { fountainToScreenplayText, screenplayToFountain } from './fountain-converter';
+import { pdfToScreenplayText, screenplayToPdf, type PdfExportOptions } from './pdf-converter';
+import { parseScreenplayText } from './screenplay-document';
+
 export async function handleFileUpload(file: File): Promise<string> {
   const fileType = file.type;
   const fileName = file.name.toLowerCase();
   
-  if (fileType === 'text/plain' || fileName.endsWith('.txt')) {
+  if (fileName.endsWith('.fountain')) {
+    return handleFountainFile(file);
+  } else if (fileName.endsWith('.fdx')) {
+    return handleFdxFile(file);
+  } else if (fileType === 'text/plain' || fileName.endsWith('.txt')) {
     return handleTextFile(file);
   } else if (fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || fileName.endsWith('.docx')) {
     return handleDocxFile(file);
@@ -25,26 +35,23 @@ async function handleTextFile(file: File): Promise<string> {
   });
 }
 
+async function handleFountainFile(file: File): Promise<string> {
+  const text = await handleTextFile(file);
+  return fountainToScreenplayText(text);
+}
+
+async function handleFdxFile(file: File): Promise<string> {
+  const xml = await handleTextFile(file);
+  return fdxToScreenplayText(xml);
+}
+
 async function handleDocxFile(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = async (e) => {
+    reader.onload = (e) => {
       try {
         const arrayBuffer = e.target?.result as ArrayBuffer;
-        
-        // Check if docx library is available
-        if (typeof window !== 'undefined' && (window as any).docx) {
-          const { extractRawText } = (window as any).docx;
-          const text = await extractRawText({ buffer: arrayBuffer });
-          resolve(text);
-        } else {
-          // Fallback: try to extract basic text (this is a simplified approach)
-          const decoder = new TextDecoder('utf-8');
-          const text = decoder.decode(arrayBuffer);
-          // Extract readable text from the decoded content (basic approach)
-          const cleanText = text.replace(/[^\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF\u0020-\u007F\n\r]/g, '');
-          resolve(cleanText);
-        }
+        resolve(docxToScreenplayText(new Uint8Array(arrayBuffer)));
       } catch (error) {
         reject(new Error('فشل في قراءة ملف Word'));
       }
@@ -60,30 +67,7 @@ async function handlePdfFile(file: File): Promise<string> {
     reader.onload = async (e) => {
       try {
         const arrayBuffer = e.target?.result as ArrayBuffer;
-        
-        // Check if PDF.js is available
-        if (typeof window !== 'undefined' && (window as any).pdfjsLib) {
-          const pdfjsLib = (window as any).pdfjsLib;
-          
-          // Set worker source
-          if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
-            pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-          }
-          
-          const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-          let fullText = '';
-          
-          for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-            const page = await pdf.getPage(pageNum);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map((item: any) => item.str).join(' ');
-            fullText += pageText + '\n';
-          }
-          
-          resolve(fullText);
-        } else {
-          reject(new Error('مكتبة PDF.js غير متوفرة'));
-        }
+        resolve(await pdfToScreenplayText(arrayBuffer));
       } catch (error) {
         reject(new Error('فشل في قراءة ملف PDF'));
       }
@@ -93,8 +77,7 @@ async function handlePdfFile(file: File): Promise<string> {
   });
 }
 
-export function exportToText(content: string, filename: string = 'screenplay.txt') {
-  const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -105,17 +88,42 @@ export function exportToText(content: string, filename: string = 'screenplay.txt
   URL.revokeObjectURL(url);
 }
 
+export function exportToText(content: string, filename: string = 'screenplay.txt') {
+  const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+  downloadBlob(blob, filename);
+}
+
+export function exportToFountain(content: string, filename: string = 'screenplay.fountain') {
+  const fountain = screenplayToFountain(parseScreenplayText(content));
+  const blob = new Blob([fountain], { type: 'text/plain;charset=utf-8' });
+  downloadBlob(blob, filename);
+}
+
+export function exportToFdx(content: string, filename: string = 'screenplay.fdx') {
+  const fdx = screenplayToFdx(parseScreenplayText(content));
+  const blob = new Blob([fdx], { type: 'application/xml;charset=utf-8' });
+  downloadBlob(blob, filename);
+}
+
 export function exportToDocx(content: string, filename: string = 'screenplay.docx') {
-  // This would require a more complex implementation with a library like docx
-  // For now, we'll export as RTF which can be opened in Word
-  const rtfContent = `{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}} \\f0\\fs24 ${content.replace(/\n/g, '\\par ')}}`;
-  const blob = new Blob([rtfContent], { type: 'application/rtf' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename.replace('.docx', '.rtf');
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  const docx = screenplayToDocx(parseScreenplayText(content));
+  const blob = new Blob([docx], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+  downloadBlob(blob, filename);
+}
+
+// علامة BOM ليقرأ Excel النص العربي بترميز UTF-8
+export function exportToCsv(csv: string, filename: string = 'report.csv') {
+  const blob = new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, filename);
+}
+
+export function exportToJson(json: string, filename: string = 'report.json') {
+  const blob = new Blob([json], { type: 'application/json;charset=utf-8' });
+  downloadBlob(blob, filename);
+}
+
+export async function exportToPdf(content: string, filename: string = 'screenplay.pdf', options?: PdfExportOptions) {
+  const pdf = await screenplayToPdf(content, options);
+  const blob = new Blob([pdf], { type: 'application/pdf' });
+  downloadBlob(blob, filename);
 }
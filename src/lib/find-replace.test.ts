@@ -0,0 +1,72 @@
+import { compileSearch, findDomRanges, findMatches, normalizeForSearch, replaceMatches, type SearchOptions } from './find-replace';
+
+const SCRIPT = `مشهد ١ - ليل-داخلي – بيت أحمد
+
+يدخل أَحمد الغرفة.
+
+أحمد:
+أين إيمان؟
+
+إيمان:
+هنا يا احمد.
+
+مشهد 2 - نهار-خارجي – الشارع`;
+
+const search = (query: string, options: Partial<SearchOptions> = {}): SearchOptions => ({
+  query,
+  wholeWord: false,
+  normalize: true,
+  regex: false,
+  scope: {},
+  ...options
+});
+
+describe('find-replace', () => {
+  test('normalised matching ignores tashkeel, alef/hamza variants and eastern digits', () => {
+    expect(normalizeForSearch('أَحمد ١٢').text).toBe('احمد 12');
+    expect(findMatches(SCRIPT, search('احمد')).map((m) => m.line)).toEqual([0, 2, 4, 8]);
+    expect(findMatches(SCRIPT, search('مشهد 1')).map((m) => m.line)).toEqual([0]);
+    expect(findMatches(SCRIPT, search('احمد', { normalize: false })).map((m) => m.line)).toEqual([8]);
+
+    // مواضع المطابقة في السطر الأصلي تشمل التشكيل
+    const [withTashkeel] = findMatches(SCRIPT, search('احمد', { scope: { element: 'action' } }));
+    expect(SCRIPT.split('\n')[2].slice(withTashkeel.start, withTashkeel.end)).toBe('أَحمد');
+  });
+
+  test('whole word and regex options', () => {
+    expect(findMatches(SCRIPT, search('هن')).length).toBe(1);
+    expect(findMatches(SCRIPT, search('هن', { wholeWord: true }))).toEqual([]);
+    expect(findMatches(SCRIPT, search('(ليل|نهار)-(داخلي|خارجي)', { regex: true })).length).toBe(2);
+    expect(compileSearch(search('(', { regex: true }))).toBeNull();
+    expect(compileSearch(search(''))).toBeNull();
+  });
+
+  test('scope filters by element type and by character', () => {
+    expect(findMatches(SCRIPT, search('احمد', { scope: { element: 'scene-header' } })).map((m) => m.line)).toEqual([0]);
+    expect(findMatches(SCRIPT, search('ا', { scope: { element: 'dialogue', character: 'إيمان' } })).map((m) => m.line))
+      .toEqual([8, 8, 8]);
+    expect(findMatches(SCRIPT, search('احمد', { scope: { element: 'character' } })).map((m) => m.line)).toEqual([4]);
+  });
+
+  test('replaces matches, expanding regex groups', () => {
+    const names = findMatches(SCRIPT, search('احمد', { wholeWord: true }));
+    const replaced = replaceMatches(SCRIPT, names, 'سامي', false);
+    expect(replaced.split('\n')[2]).toBe('يدخل سامي الغرفة.');
+    expect(replaced.split('\n')[4]).toBe('سامي:');
+    expect(replaced.split('\n')[8]).toBe('هنا يا سامي.');
+
+    const headers = findMatches(SCRIPT, search('(ليل|نهار)-(داخلي|خارجي)', { regex: true, normalize: false }));
+    expect(replaceMatches(SCRIPT, headers, '$2-$1', true).split('\n')[0]).toBe('مشهد ١ - داخلي-ليل – بيت أحمد');
+  });
+
+  test('finds ranges in the rendered editor with the same scope', () => {
+    const root = document.createElement('div');
+    root.innerHTML = `<div class="page"><div class="page-content">
+      <div class="action">يدخل أحمد.</div>
+      <div class="dialogue-block"><div class="character">أحمد</div><div class="dialogue">أين احمد؟</div></div>
+    </div><div class="page-footer">1</div></div>`;
+
+    expect(findDomRanges(root, search('احمد')).map((range) => range.toString())).toEqual(['أحمد', 'أحمد', 'احمد']);
+    expect(findDomRanges(root, search('احمد', { scope: { element: 'dialogue', character: 'أحمد' } })).length).toBe(1);
+  });
+});
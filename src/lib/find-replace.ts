@@ -0,0 +1,237 @@
+// Find & Replace - البحث والاستبدال في السيناريو
+// المطابقة سطرًا بسطر على النص المصدر، مع تطبيع عربي اختياري (التشكيل، صور الألف والهمزة، الأرقام المشرقية)
+// وتقييد بنوع العنصر أو بحوار شخصية؛ والمطابقات نفسها تُظلَّل في صفحات المحرر المعروضة
+
+import { characterKey } from './character-autocomplete';
+import { getElementKind, getLineElement } from './editor-elements';
+import { parseScreenplayText, type LineElement } from './screenplay-document';
+import { easternToWesternDigits, stripTashkeel } from './screenplay-line-classifier';
+
+export interface SearchScope {
+  /** نوع العناصر التي يُبحث فيها؛ غيابه للبحث في النص كله */
+  element?: LineElement;
+  /** أسطر هذه الشخصية وحدها (اسمها وحوارها وإرشاداتها) */
+  character?: string;
+}
+
+export interface SearchOptions {
+  query: string;
+  wholeWord: boolean;
+  /** مطابقة دون تشكيل ولا تمييز بين صور الألف والهمزة، والأرقام المشرقية كالغربية */
+  normalize: boolean;
+  regex: boolean;
+  scope: SearchScope;
+}
+
+export interface SearchMatch {
+  /** سطر المصدر (فهرس صفري) */
+  line: number;
+  /** موضع المطابقة في السطر */
+  start: number;
+  end: number;
+  /** المطابقة ومجموعاتها كما وقعت في النص المبحوث، للاستبدال بـ $1 */
+  groups: string[];
+}
+
+const LETTER_FOLDS: Record<string, string> = {
+  'أ': 'ا',
+  'إ': 'ا',
+  'آ': 'ا',
+  'ٱ': 'ا',
+  'ى': 'ي',
+  'ئ': 'ي',
+  'ؤ': 'و',
+  'ة': 'ه'
+};
+const TATWEEL = 'ـ';
+const WORD_CHAR = String.raw`[\p{L}\p{M}\p{N}_]`;
+
+/** الحرف بعد التطبيع، أو سلسلة فارغة للتشكيل والتطويل */
+function foldChar(ch: string): string {
+  if (ch === TATWEEL || !stripTashkeel(ch)) return '';
+  return LETTER_FOLDS[ch] ?? easternToWesternDigits(ch);
+}
+
+export interface NormalizedText {
+  text: string;
+  /** موضع كل حرف في النص الأصلي، وطول الأصل في آخرها */
+  offsets: number[];
+}
+
+/** تطبيع للبحث مع حفظ مواضع الحروف في النص الأصلي */
+export function normalizeForSearch(text: string): NormalizedText {
+  let out = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const folded = foldChar(text[i]);
+    if (!folded) continue;
+    out += folded;
+    offsets.push(i);
+  }
+  offsets.push(text.length);
+  return { text: out, offsets };
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** نمط البحث، أو null لاستعلام فارغ أو تعبير نمطي غير صالح */
+export function compileSearch(options: SearchOptions): RegExp | null {
+  const query = options.normalize ? Array.from(options.query, foldChar).join('') : options.query;
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+  try {
+    return new RegExp(source, options.normalize ? 'giu' : 'gu');
+  } catch {
+    return null;
+  }
+}
+
+/** مطابقات النمط في نص سطر واحد بمواضعها في النص الأصلي */
+export function matchText(text: string, pattern: RegExp, normalize: boolean): Omit<SearchMatch, 'line'>[] {
+  const target = normalize ? normalizeForSearch(text) : null;
+  const haystack = target ? target.text : text;
+  const found: Omit<SearchMatch, 'line'>[] = [];
+
+  pattern.lastIndex = 0;
+  for (let m = pattern.exec(haystack); m; m = pattern.exec(haystack)) {
+    if (!m[0]) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const start = m.index;
+    const end = m.index + m[0].length;
+    found.push({
+      start: target ? target.offsets[start] : start,
+      end: target ? target.offsets[end] : end,
+      groups: Array.from(m, (group) => group ?? '')
+    });
+  }
+  return found;
+}
+
+interface LineScope {
+  element: LineElement;
+  character?: string;
+}
+
+/** نوع كل سطر مصدر، والشخصية لأسطر كتلة الحوار */
+function lineScopes(content: string): Array<LineScope | undefined> {
+  const scopes: Array<LineScope | undefined> = [];
+  const assign = (start: number, end: number, scope: LineScope) => {
+    for (let i = start; i <= end; i++) scopes[i] = scope;
+  };
+
+  parseScreenplayText(content).elements.forEach((node) => {
+    if (node.type === 'blank') return;
+    if (node.type === 'dialogue-block') {
+      assign(node.range.start, node.range.start, { element: 'character', character: node.character });
+      node.lines.forEach((line) =>
+        assign(line.range.start, line.range.end, { element: line.type, character: node.character })
+      );
+      return;
+    }
+    assign(node.range.start, node.range.end, { element: node.type });
+  });
+  return scopes;
+}
+
+function inScope(scope: SearchScope, line: LineScope | undefined): boolean {
+  if (!scope.element && !scope.character) return true;
+  if (!line) return false;
+  if (scope.element && line.element !== scope.element) return false;
+  if (scope.character) {
+    return line.character !== undefined && characterKey(line.character) === characterKey(scope.character);
+  }
+  return true;
+}
+
+/** المطابقات في النص كله بترتيبها */
+export function findMatches(content: string, options: SearchOptions): SearchMatch[] {
+  const pattern = compileSearch(options);
+  if (!pattern) return [];
+  const scopes = lineScopes(content);
+  return content.split('\n').flatMap((text, line) =>
+    inScope(options.scope, scopes[line])
+      ? matchText(text, pattern, options.normalize).map((match) => ({ line, ...match }))
+      : []
+  );
+}
+
+/** $& للمطابقة كلها، و$1..$99 لمجموعاتها، و$$ لعلامة الدولار */
+function expandReplacement(template: string, groups: string[]): string {
+  return template.replace(/\$(\$|&|\d{1,2})/g, (all, token: string) => {
+    if (token === '$') return '$';
+    if (token === '&') return groups[0];
+    return groups[Number(token)] ?? all;
+  });
+}
+
+/** استبدال المطابقات المعطاة؛ في وضع التعبير النمطي يقبل البديل $1 ونحوها */
+export function replaceMatches(content: string, matches: SearchMatch[], replacement: string, regex: boolean): string {
+  const lines = content.split('\n');
+  [...matches]
+    .sort((a, b) => b.line - a.line || b.start - a.start)
+    .forEach((match) => {
+      const text = regex ? expandReplacement(replacement, match.groups) : replacement;
+      const line = lines[match.line];
+      lines[match.line] = line.slice(0, match.start) + text + line.slice(match.end);
+    });
+  return lines.join('\n');
+}
+
+// ===== التظليل في المحرر =====
+
+/** اسم الشخصية لسطر معروض: السطر نفسه، أو أقرب اسم قبله في كتلة الحوار */
+function domCharacter(element: HTMLElement, kind: LineElement): string | undefined {
+  if (kind === 'character') return element.textContent ?? '';
+  if (kind !== 'dialogue' && kind !== 'parenthetical') return undefined;
+  for (let prev = element.previousElementSibling; prev; prev = prev.previousElementSibling) {
+    const prevKind = getElementKind(prev);
+    if (prevKind === 'character') return prev.textContent ?? '';
+    if (prevKind !== 'dialogue' && prevKind !== 'parenthetical') return undefined;
+  }
+  return undefined;
+}
+
+/** عقد النص في العنصر بترتيبها؛ نصّها المتصل هو نص السطر المعروض */
+export function textNodes(element: HTMLElement): Text[] {
+  const nodes: Text[] = [];
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) nodes.push(node as Text);
+  return nodes;
+}
+
+/** نطاق DOM لموضعين في النص المتصل لعقد نصية */
+export function toRange(nodes: Text[], start: number, end: number): Range {
+  const range = document.createRange();
+  let offset = 0;
+  for (const node of nodes) {
+    const length = node.data.length;
+    if (start >= offset && start < offset + length) range.setStart(node, start - offset);
+    if (end > offset && end <= offset + length) {
+      range.setEnd(node, end - offset);
+      break;
+    }
+    offset += length;
+  }
+  return range;
+}
+
+/** نطاقات المطابقات في المحرر المعروض بترتيب الصفحات، لتظليلها */
+export function findDomRanges(root: HTMLElement, options: SearchOptions): Range[] {
+  const pattern = compileSearch(options);
+  if (!pattern) return [];
+  const ranges: Range[] = [];
+
+  root.querySelectorAll<HTMLElement>('*').forEach((element) => {
+    const kind = getElementKind(element);
+    if (!kind || getLineElement(root, element) !== element) return;
+    if (!inScope(options.scope, { element: kind, character: domCharacter(element, kind) })) return;
+
+    const nodes = textNodes(element);
+    const text = nodes.map((node) => node.data).join('');
+    matchText(text, pattern, options.normalize).forEach((match) => ranges.push(toRange(nodes, match.start, match.end)));
+  });
+  return ranges;
+}
@@ -0,0 +1,134 @@
+// Unit Tests for Fountain Converter - اختبارات محوّل Fountain
+// التحقق من الاستيراد والتصدير والذهاب والإياب دون فقدان
+
+import { fountainToScreenplayText, screenplayToFountain } from './fountain-converter';
+import { parseScreenplayText } from './screenplay-document';
+import { classifyDocument } from './screenplay-line-classifier';
+
+const SCRIPT = `بسم الله الرحمن الرحيم
+
+مشهد 5 - نهار-داخلي – القاعة الكبرى
+المقاعد ممتلئة
+أحمد
+يقف وسط الجمهور
+قطع
+
+مشهد 6 - ليل-خارجي – الحديقة
+فاطمة: (بهمس) هل أنت هنا؟
+أنا خائفة.
+يدخل أحمد من البوابة.
+
+شمعون
+ܫܠܡܐ ܥܠܝܟܘܢ
+( السلام عليكم )
+
+قطع إلى:`;
+
+describe('FountainConverter', () => {
+
+  describe('screenplayToFountain', () => {
+
+    test('should map Arabic elements to forced Fountain constructs', () => {
+      const fountain = screenplayToFountain(parseScreenplayText(SCRIPT));
+
+      expect(fountain).toContain('/* بسم الله الرحمن الرحيم */');
+      expect(fountain).toContain('.نهار-داخلي – القاعة الكبرى – المقاعد ممتلئة #5#');
+      expect(fountain).toContain('\n\n@فاطمة\n(بهمس)\nهل أنت هنا؟\nأنا خائفة.\n\n');
+      expect(fountain).toContain('> قطع إلى:');
+    });
+
+    test('should force action lines that look like Fountain syntax', () => {
+      const fountain = screenplayToFountain(parseScreenplayText('...ثم صمت طويل.\nINT. لقطة قريبة'));
+      expect(fountain).toContain('!...ثم صمت طويل.');
+      expect(fountain).toContain('!INT. لقطة قريبة');
+    });
+
+    test('should write forced headings and continued dialogue without empty syntax', () => {
+      const fountain = screenplayToFountain(parseScreenplayText('.الحديقة\n\nأحمد:\nمرحبًا.\n\n~كيف حالك؟'));
+
+      expect(fountain).toContain('.الحديقة\n');
+      expect(fountain).not.toContain('##');
+      expect(fountain).toContain('@أحمد\nمرحبًا.\nكيف حالك؟');
+      expect(fountain).not.toMatch(/^@$/m);
+    });
+  });
+
+  describe('fountainToScreenplayText', () => {
+
+    test('should convert English headings, cues and transitions', () => {
+      const fountain = `Title: الرحلة
+Author: هند
+
+INT. HOUSE - NIGHT #3#
+
+Ahmed enters.
+
+AHMED (V.O.)
+(quietly)
+Hello.
+
+CUT TO:
+
+EXT. STREET - DAY`;
+
+      const text = fountainToScreenplayText(fountain);
+      const result = classifyDocument(text.split('\n'));
+
+      expect(result['scene-header-1']).toEqual(['مشهد 3', 'مشهد 4']);
+      expect(result['scene-header-2']).toEqual(['داخلي-ليل', 'خارجي-نهار']);
+      expect(result['scene-header-3']).toEqual(['HOUSE', 'STREET']);
+      expect(text).toContain('AHMED (V.O.):');
+      expect(text).toContain('CUT TO:');
+      expect(text).not.toContain('Title:');
+    });
+
+    test('should drop notes, sections and non-basmala boneyard', () => {
+      const fountain = `/* بسم الله الرحمن الرحيم */
+
+# الفصل الأول
+= ملخص
+
+.داخلي-نهار – المكتب #1#
+
+يجلس المدير [[ملاحظة للمخرج]] خلف مكتبه.
+/* مسودة
+قديمة */`;
+
+      const text = fountainToScreenplayText(fountain);
+
+      expect(text.split('\n')[0]).toBe('بسم الله الرحمن الرحيم');
+      expect(text).toContain('مشهد 1 - داخلي-نهار – المكتب');
+      expect(text).toContain('يجلس المدير  خلف مكتبه.');
+      expect(text).not.toContain('الفصل الأول');
+      expect(text).not.toContain('مسودة');
+    });
+  });
+
+  test('should round-trip classifyDocument output without loss', () => {
+    const original = classifyDocument(SCRIPT.split('\n'));
+    const fountain = screenplayToFountain(parseScreenplayText(SCRIPT));
+    const restored = classifyDocument(fountainToScreenplayText(fountain).split('\n'));
+
+    expect(restored).toEqual(original);
+  });
+
+  test('should round-trip forced elements as forced', () => {
+    const forced = `.مشهد 2 - ليل-خارجي – الحديقة
+
+!أحمد
+يقف وحيدًا.
+
+@سارة
+مرحبًا.
+
+>قطع`;
+    const fountain = screenplayToFountain(parseScreenplayText(forced));
+    const text = fountainToScreenplayText(fountain);
+
+    expect(text).toContain('!أحمد');
+    expect(text).toContain('@سارة');
+    expect(text).toContain('>قطع');
+    expect(text).toContain('.مشهد 2 - ليل-خارجي – الحديقة');
+    expect(classifyDocument(text.split('\n'))).toEqual(classifyDocument(forced.split('\n')));
+  });
+});
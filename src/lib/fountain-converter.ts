@@ -0,0 +1,245 @@
+// Fountain Converter - محوّل صيغة Fountain
+// قراءة وكتابة ملفات Fountain مع امتدادات عربية: أرقام المشاهد #N#، عناصر مفروضة (@ . > !)، وتعليقات boneyard للبسملة
+
+import { forceLine, isBasmala, parseScreenplay } from './screenplay-line-classifier';
+import type { ScreenplayDocument, SceneHeaderNode } from './screenplay-document';
+
+const BONEYARD_RE = /\/\*([\s\S]*?)\*\//g;
+const NOTE_RE = /\[\[[\s\S]*?\]\]/g;
+const TITLE_KEY_RE = /^(?:title|credit|author|authors|source|draft date|date|contact|copyright|notes|revision)\s*:/i;
+const SCENE_NUMBER_RE = /\s*#([\w.-]+)#\s*$/;
+const HEADING_RE = /^(?:INT\.?\/EXT|I\/E|INT|EXT|EST)[.\s]/i;
+const UPPERCASE_TRANSITION_RE = /^[A-Z\s]+TO:$/;
+const PAGE_BREAK_RE = /^={3,}$/;
+
+// مقابلات عربية لترويسات Fountain الإنجليزية
+const INOUT_WORDS: Array<[RegExp, string]> = [
+  [/^(?:INT\.?\/EXT|I\/E)\.?\s*/i, 'داخلي'],
+  [/^INT\.?\s*/i, 'داخلي'],
+  [/^(?:EXT|EST)\.?\s*/i, 'خارجي']
+];
+
+const TIME_WORDS: Record<string, string> = {
+  DAY: 'نهار',
+  NIGHT: 'ليل',
+  MORNING: 'صباح',
+  EVENING: 'مساء',
+  DAWN: 'فجر',
+  NOON: 'ظهر',
+  AFTERNOON: 'عصر',
+  DUSK: 'الغروب',
+  SUNSET: 'الغروب'
+};
+
+/** إزالة علامات التوكيد (*، **، _) ورموز الهروب */
+function stripEmphasis(line: string): string {
+  return line
+    .replace(/(\*{1,3}|_)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\\([*_])/g, '$1');
+}
+
+/** هل السطر اسم شخصية وفق Fountain؟ (مفروض بـ@، أو لاتيني بأحرف كبيرة، أو عربي منتهٍ بنقطتين) */
+function isFountainCharacter(line: string): boolean {
+  if (line.startsWith('@')) return true;
+  const name = line.replace(/\s*\^$/, '').replace(/\s*\([^)]*\)\s*$/, '');
+  if (/[A-Z]/.test(name) && !/[a-z]/.test(name) && !/[.!?]$/.test(name)) return true;
+  return /^[؀-ۿ][؀-ۿ\s]{0,40}:\s*$/.test(line);
+}
+
+/** تحويل نص ترويسة (Fountain أو FDX) إلى "مشهد N - داخلي-نهار – المكان" */
+export function toSceneHeaderLine(body: string, sceneNumber: string): string {
+  const text = body.trim();
+  if (/^(?:مشهد|م\.)\s*[0-9٠-٩]/.test(text)) return text;
+
+  for (const [pattern, inout] of INOUT_WORDS) {
+    if (!pattern.test(text)) continue;
+    const rest = text.replace(pattern, '');
+    const timeMatch = rest.match(/\s+-\s+([A-Z ]+)$/i);
+    const time = timeMatch ? TIME_WORDS[timeMatch[1].trim().toUpperCase()] : undefined;
+    const place = (timeMatch && time ? rest.slice(0, timeMatch.index) : rest).trim();
+    const tl = time ? `${inout}-${time}` : inout;
+    return place ? `مشهد ${sceneNumber} - ${tl} – ${place}` : `مشهد ${sceneNumber} - ${tl}`;
+  }
+
+  return `مشهد ${sceneNumber} - ${text}`;
+}
+
+/**
+ * تحويل نص Fountain إلى نص سيناريو بالصيغة التي يفهمها المصنّف:
+ * ترويسات "مشهد N"، أسماء بنقطتين، وانتقالات وبسملة في أسطر مستقلة.
+ * العناصر المفروضة في Fountain (@ . > !) تبقى مفروضة ببادئات المصنّف فلا يعيد تخمينها.
+ */
+export function fountainToScreenplayText(source: string): string {
+  let text = (source ?? '').replace(/\r\n?/g, '\n');
+
+  // boneyard: البسملة تُستعاد، وما عداها يُحذف
+  text = text.replace(BONEYARD_RE, (_match, inner: string) => (isBasmala(inner.trim()) ? inner.trim() : ''));
+  text = text.replace(NOTE_RE, '');
+
+  const lines = text.split('\n');
+  const out: string[] = [];
+  let i = 0;
+
+  // تخطّي صفحة العنوان
+  if (TITLE_KEY_RE.test(lines.find((line) => line.trim()) ?? '')) {
+    while (i < lines.length && lines[i].trim()) i++;
+  }
+
+  let inDialogue = false;
+  let lastSceneNumber = 0;
+
+  for (; i < lines.length; i++) {
+    const raw = lines[i].replace(/\s+$/, '');
+    const trimmed = raw.trim();
+    const prevBlank = out.length === 0 || out[out.length - 1] === '';
+    const nextBlank = !(lines[i + 1] ?? '').trim();
+
+    if (!trimmed) {
+      out.push('');
+      inDialogue = false;
+      continue;
+    }
+
+    if (inDialogue) {
+      out.push(stripEmphasis(trimmed));
+      continue;
+    }
+
+    if (PAGE_BREAK_RE.test(trimmed) || /^#/.test(trimmed) || /^=(?!=)/.test(trimmed)) {
+      continue;
+    }
+
+    if (trimmed.startsWith('!')) {
+      out.push(forceLine('action', stripEmphasis(trimmed.slice(1))));
+      continue;
+    }
+
+    if (trimmed.startsWith('>') && trimmed.endsWith('<')) {
+      out.push(stripEmphasis(trimmed.slice(1, -1).trim()));
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      out.push(forceLine('transition', trimmed.replace(/^>\s*/, '')));
+      continue;
+    }
+
+    if (prevBlank && nextBlank && UPPERCASE_TRANSITION_RE.test(trimmed)) {
+      out.push(trimmed);
+      continue;
+    }
+
+    if ((trimmed.startsWith('.') && !trimmed.startsWith('..')) || (prevBlank && HEADING_RE.test(trimmed))) {
+      const numberMatch = trimmed.match(SCENE_NUMBER_RE);
+      const body = trimmed.replace(SCENE_NUMBER_RE, '').replace(/^\./, '');
+      const parsedNumber = numberMatch ? parseInt(numberMatch[1], 10) : NaN;
+      lastSceneNumber = Number.isFinite(parsedNumber) ? parsedNumber : lastSceneNumber + 1;
+      const header = toSceneHeaderLine(body, numberMatch ? numberMatch[1] : String(lastSceneNumber));
+      out.push(trimmed.startsWith('.') ? forceLine('scene-header', header) : header);
+      continue;
+    }
+
+    if (prevBlank && (trimmed.startsWith('@') || (!nextBlank && isFountainCharacter(trimmed)))) {
+      const name = trimmed.replace(/^@/, '').replace(/\s*\^$/, '').replace(/\s*:\s*$/, '').trim();
+      out.push(trimmed.startsWith('@') ? forceLine('character', name) : `${name}:`);
+      inDialogue = true;
+      continue;
+    }
+
+    out.push(stripEmphasis(trimmed.replace(/^~\s*/, '')));
+  }
+
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * هل يحتاج سطر الحركة إلى فرض "!"؟ إن كان بصيغة Fountain لعنصر آخر،
+ * أو كان المصنّف نفسه سيقرؤه عنصرًا آخر حين يُستورد
+ */
+function needsForcedAction(text: string): boolean {
+  if (/^[.@>!~=#]/.test(text) || text.includes('/*')) return true;
+  if (HEADING_RE.test(text) || (/[A-Z]/.test(text) && !/[a-z]/.test(text))) return true;
+  return parseScreenplay([text]).classification[0]?.element !== 'action';
+}
+
+function formatHeading(node: SceneHeaderNode): string {
+  const body = [node.timeLocation, node.place].filter(Boolean).join(' – ') || node.sceneNum;
+  // ترويسة مفروضة دون رقم: لا "##" فارغة
+  return node.number ? `.${body} #${node.number}#` : `.${body}`;
+}
+
+/** كتابة الوثيقة بصيغة Fountain */
+export function screenplayToFountain(doc: ScreenplayDocument): string {
+  const out: string[] = [];
+  /** هل آخر سطر فارغ أُضيف تلقائيًا للفصل بين العناصر؟ */
+  let autoBlank = false;
+
+  const push = (line: string) => {
+    out.push(line);
+    autoBlank = false;
+  };
+
+  const ensureBlank = () => {
+    if (out.length > 0 && out[out.length - 1] !== '') {
+      out.push('');
+      autoBlank = true;
+    }
+  };
+
+  /** هل آخر عنصر غير فارغ كتلة حوار؟ كتلة بلا شخصية (حوار مفروض) تكملها */
+  let afterDialogue = false;
+
+  for (const node of doc.elements) {
+    const continuesDialogue = afterDialogue;
+    if (node.type !== 'blank') afterDialogue = node.type === 'dialogue-block';
+
+    switch (node.type) {
+      case 'blank':
+        if (autoBlank) {
+          autoBlank = false;
+        } else {
+          push('');
+        }
+        break;
+
+      case 'basmala':
+        push(`/* ${node.text} */`);
+        break;
+
+      case 'scene-header':
+        ensureBlank();
+        push(formatHeading(node));
+        ensureBlank();
+        break;
+
+      case 'dialogue-block':
+        if (node.character) {
+          ensureBlank();
+          push(`@${node.character}`);
+        } else if (continuesDialogue) {
+          // لا اسم في Fountain يُكتب لاستمرار الحوار: الأسطر تلتحق بالكتلة السابقة
+          while (out[out.length - 1] === '') out.pop();
+        }
+        node.lines.forEach((line) => push(line.isTranslation ? `(${line.text})` : line.text));
+        ensureBlank();
+        break;
+
+      case 'transition':
+        ensureBlank();
+        push(`> ${node.text}`);
+        ensureBlank();
+        break;
+
+      case 'action':
+        push(node.forced || needsForcedAction(node.text) ? `!${node.text}` : node.text);
+        break;
+
+      default:
+        push(node.text);
+        break;
+    }
+  }
+
+  while (out.length > 0 && out[out.length - 1] === '') out.pop();
+  return `${out.join('\n')}\n`;
+}
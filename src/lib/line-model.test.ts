@@ -0,0 +1,79 @@
+import {
+  MIN_TRAINING_EXAMPLES,
+  mergeExamples,
+  predictLine,
+  setLineModel,
+  trainLineModel
+} from './line-model';
+import { parseScreenplayText } from './screenplay-document';
+import { correctionExamples, isLikelyAction, lineFeatures } from './screenplay-line-classifier';
+
+// كاتب مصري يصحّح أسطر الحركة التي قرأتها القواعد الفصيحة حوارًا
+const CORRECTED = `منى:
+~إزيك يا حسن؟
+!بيبص لها من غير ما يرد
+
+حسن:
+~كويس الحمد لله.
+!بتقعد جنبه
+
+منى:
+~عامل إيه في الشغل؟
+!بيقوم يفتح الشباك
+
+حسن:
+~الدنيا ماشية.
+!بتضحك منى
+
+منى:
+~طب كويس.
+!بيلف وشه
+
+حسن:
+~يلا بينا.
+!بتلم الكبايات`;
+
+describe('line model', () => {
+  afterEach(() => setLineModel(null));
+
+  test('corrections become training examples with their context', () => {
+    const examples = correctionExamples(parseScreenplayText(CORRECTED));
+    expect(examples).toHaveLength(12);
+    expect(examples[1]).toEqual({
+      key: 'dialogue|بيبص لها من غير ما يرد',
+      features: ['len:8', 'colon:none', 'paren:none', 'verb:prefix', 'end:none', 'indent:none', 'prev:dialogue'],
+      element: 'action'
+    });
+    expect(mergeExamples(examples, examples.slice(0, 2))).toHaveLength(12);
+    expect(predictLine(trainLineModel(examples.slice(0, MIN_TRAINING_EXAMPLES - 1)), examples[1].features)).toBeNull();
+  });
+
+  test('the learned model overrides low-confidence rule decisions only', () => {
+    const script = 'منى:\nمش فاهمة حاجة.\nبتبص له باستغراب\n\nبيدخل';
+    const before = parseScreenplayText(script).classification;
+    expect(before.map((c) => [c.element, c.confidence, c.source])).toEqual([
+      ['character', 0.9, 'rules'],
+      ['dialogue', 0.7, 'rules'],
+      ['dialogue', 0.7, 'rules'],
+      [null, 1, 'rules'],
+      ['action', 0.4, 'rules']
+    ]);
+
+    setLineModel(trainLineModel(correctionExamples(parseScreenplayText(CORRECTED))));
+    const doc = parseScreenplayText(script);
+    expect(doc.classification[2]).toMatchObject({ element: 'action', source: 'learned' });
+    expect(doc.classification[2].confidence).toBeGreaterThan(0.7);
+    expect(doc.classification.slice(0, 2).map((c) => c.element)).toEqual(['character', 'dialogue']);
+    expect(doc.elements.map((node) => node.type)).toEqual(['dialogue-block', 'action', 'blank', 'action']);
+    expect(doc.elements[1]).not.toHaveProperty('forced');
+  });
+
+  test('likely action requires an action verb and features read indentation', () => {
+    expect(isLikelyAction('يدخل أحمد الغرفة')).toBe(true);
+    expect(isLikelyAction('الغرفة مظلمة تمامًا.')).toBe(false);
+    expect(isLikelyAction('قطع إلى:')).toBe(false);
+    expect(lineFeatures('        (بهمس)', 'character')).toEqual([
+      'len:1', 'colon:none', 'paren:wrap', 'verb:none', 'end:none', 'indent:deep', 'prev:character'
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+// Line Model - مصنّف احتمالي للأسطر يتعلّم من تصحيحات الكاتب
+// Naive Bayes على خصائص بسيطة للسطر (الطول، النقطتان، الأقواس، بادئة الفعل، الإزاحة، نوع السطر السابق)؛
+// يعمل كله في المتصفح، ويُستشار في الأسطر التي تحسمها القواعد بثقة منخفضة
+
+import type { LineElement } from './screenplay-document';
+
+/** قيم كل خاصية؛ السطر يحمل قيمة واحدة من كل خاصية بصيغة "الخاصية:القيمة" */
+export const LINE_FEATURES: Record<string, string[]> = {
+  len: ['1', '3', '8', 'long'],
+  colon: ['end', 'inside', 'none'],
+  paren: ['wrap', 'open', 'none'],
+  verb: ['rule', 'prefix', 'none'],
+  end: ['sentence', 'question', 'none'],
+  indent: ['none', 'some', 'deep'],
+  prev: ['start', 'blank', 'basmala', 'scene-header', 'action', 'character', 'parenthetical', 'dialogue', 'transition']
+};
+
+/** سطر صحّحه الكاتب: خصائصه والنوع الذي اختاره */
+export interface LineExample {
+  /** مفتاح يمنع تكرار السطر نفسه في سياقه */
+  key: string;
+  features: string[];
+  element: LineElement;
+}
+
+export interface LineModel {
+  examples: number;
+  classes: Partial<Record<LineElement, { count: number; features: Record<string, number> }>>;
+}
+
+export interface LinePrediction {
+  element: LineElement;
+  /** الاحتمال اللاحق للنوع المتوقَّع */
+  confidence: number;
+}
+
+/** أقل عدد من التصحيحات قبل أن يُستشار النموذج */
+export const MIN_TRAINING_EXAMPLES = 10;
+
+/** أقصى عدد من التصحيحات المحفوظة؛ الأقدم يسقط أولًا */
+export const MAX_TRAINING_EXAMPLES = 1000;
+
+export function trainLineModel(examples: LineExample[]): LineModel {
+  const model: LineModel = { examples: examples.length, classes: {} };
+  for (const { features, element } of examples) {
+    const entry = (model.classes[element] ??= { count: 0, features: {} });
+    entry.count++;
+    features.forEach((feature) => (entry.features[feature] = (entry.features[feature] ?? 0) + 1));
+  }
+  return model;
+}
+
+/** النوع الأرجح واحتماله، أو null قبل أن يكفي التدريب */
+export function predictLine(model: LineModel, features: string[]): LinePrediction | null {
+  if (model.examples < MIN_TRAINING_EXAMPLES) return null;
+  const classes = Object.entries(model.classes) as Array<[LineElement, { count: number; features: Record<string, number> }]>;
+
+  // لوغاريتم الاحتمال بتنعيم لابلاس على قيم كل خاصية
+  const scores = classes.map(([element, entry]) => {
+    let score = Math.log((entry.count + 1) / (model.examples + classes.length));
+    for (const feature of features) {
+      const values = LINE_FEATURES[feature.slice(0, feature.indexOf(':'))]?.length ?? 2;
+      score += Math.log(((entry.features[feature] ?? 0) + 1) / (entry.count + values));
+    }
+    return { element, score };
+  });
+  if (scores.length < 2) return null;
+
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const total = scores.reduce((sum, { score }) => sum + Math.exp(score - best.score), 0);
+  return { element: best.element, confidence: 1 / total };
+}
+
+/** ضم تصحيحات جديدة إلى المحفوظة: الأحدث يغلب على المفتاح نفسه */
+export function mergeExamples(stored: LineExample[], added: LineExample[]): LineExample[] {
+  const keys = new Set(added.map((example) => example.key));
+  return [...stored.filter((example) => !keys.has(example.key)), ...added].slice(-MAX_TRAINING_EXAMPLES);
+}
+
+// ===== النموذج النشط =====
+
+let active: LineModel | null = null;
+
+export function getLineModel(): LineModel | null {
+  return active;
+}
+
+/** تفعيل النموذج المتعلّم في هذه الصفحة (null يعيد التصنيف إلى القواعد وحدها) */
+export function setLineModel(model: LineModel | null): void {
+  active = model;
+}
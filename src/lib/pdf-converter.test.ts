@@ -0,0 +1,127 @@
+// Unit Tests for PDF Converter - اختبارات محوّل PDF
+// التحقق من رسم الصفحات المقاسة بخط مضمّن، وإعادة بناء العناصر من مواضع النصوص عند الاستيراد
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { reconstructScreenplay, renderPdf, type PdfPageLayout, type PdfTextItem, type PdfTextPage } from './pdf-converter';
+import { parseScreenplayText } from './screenplay-document';
+import { classifyDocument } from './screenplay-line-classifier';
+
+const fonts = {
+  normal: readFileSync(resolve(__dirname, '../../public/fonts/Amiri-Regular.ttf')).toString('base64'),
+  bold: readFileSync(resolve(__dirname, '../../public/fonts/Amiri-Bold.ttf')).toString('base64')
+};
+
+const PAGES: PdfPageLayout[] = [
+  {
+    lines: [
+      { text: 'مشهد 1', x: 487, y: 80, align: 'right', fontSize: 12, bold: true },
+      { text: 'ليل-داخلي', x: 72, y: 80, align: 'left', fontSize: 12, bold: true },
+      { text: 'أحمد', x: 270, y: 130, align: 'center', fontSize: 12, bold: true },
+      { text: '1', x: 297, y: 809, align: 'center', fontSize: 11, bold: false }
+    ],
+    sceneNumbers: [{ number: '1', y: 80 }]
+  },
+  {
+    lines: [{ text: 'قطع إلى:', x: 270, y: 90, align: 'center', fontSize: 12, bold: true }],
+    sceneNumbers: []
+  }
+];
+
+/** مقطع نص عربي بحجم 12pt */
+function item(text: string, x: number, y: number, width: number, bold = false): PdfTextItem {
+  return { text, x, y, width, fontSize: 12, bold, rtl: !/^[0-9]+$/.test(text) };
+}
+
+// صفحتان بتخطيط التصدير: ترويسة متكررة، أرقام مشاهد في الهامشين، ورقم صفحة في التذييل
+const IMPORTED_PAGES: PdfTextPage[] = [
+  {
+    width: 595.28,
+    height: 841.89,
+    items: [
+      item('مسودة أولى', 255, 40, 50),
+      item('بسم الله الرحمن الرحيم', 72, 90, 130, true),
+      item('مشهد 1', 440, 130, 47, true),
+      item('ليل-داخلي', 72, 130, 60, true),
+      item('1', 30, 130, 6, true),
+      item('1', 538, 130, 6, true),
+      item('غرفة المعيشة', 240, 148, 80, true),
+      item('يجلس أحمد وحيدًا في الظلام ويتأمل', 150, 180, 337),
+      item('النافذة.', 437, 198, 50),
+      item('أحمد', 265, 230, 30, true),
+      item('(بهدوء)', 255, 248, 50),
+      item('سأعود', 280, 266, 40),
+      item('قريبًا.', 240, 266, 35),
+      item('1', 295, 812, 6)
+    ]
+  },
+  {
+    width: 595.28,
+    height: 841.89,
+    items: [
+      item('مسودة أولى', 255, 40, 50),
+      item('قطع إلى:', 255, 100, 50, true),
+      item('2', 295, 812, 6)
+    ]
+  }
+];
+
+function pdfText(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+describe('PdfConverter', () => {
+
+  test('should emit one A4 page per measured page', () => {
+    const text = pdfText(renderPdf(PAGES, fonts));
+
+    expect(text.startsWith('%PDF-')).toBe(true);
+    expect(text).toContain('/Count 2');
+    expect(text).toMatch(/\/MediaBox \[0 0 595\.2\d* 841\.8\d*\]/);
+  });
+
+  test('should embed the Arabic font subsets', () => {
+    const text = pdfText(renderPdf(PAGES, fonts));
+
+    expect(text).toContain('/FontFile2');
+    expect(text).toMatch(/\/BaseFont \/Amiri/);
+    expect(text).toContain('/Lang (ar)');
+  });
+
+  describe('reconstructScreenplay', () => {
+
+    test('should rebuild elements from positions and drop running lines', () => {
+      expect(reconstructScreenplay(IMPORTED_PAGES)).toBe(
+        'بسم الله الرحمن الرحيم\n\nمشهد 1 - ليل-داخلي – غرفة المعيشة\n\n' +
+          'يجلس أحمد وحيدًا في الظلام ويتأمل النافذة.\n\nأحمد:\n(بهدوء)\nسأعود قريبًا.\n\nقطع إلى:'
+      );
+    });
+
+    test('should hand the classifier recognizable elements', () => {
+      const result = classifyDocument(reconstructScreenplay(IMPORTED_PAGES).split('\n'));
+
+      expect(result['scene-header-1']).toEqual(['مشهد 1']);
+      expect(result['scene-header-2']).toEqual(['ليل-داخلي']);
+      expect(result['scene-header-3']).toEqual(['غرفة المعيشة']);
+      expect(result.character).toEqual(['أحمد']);
+      expect(result.parenthetical).toEqual(['(بهدوء)']);
+      expect(result.transition).toEqual(['قطع إلى:']);
+    });
+
+    test('should keep a name-like place on the scene header', () => {
+      const pages: PdfTextPage[] = [{
+        width: 595.28,
+        height: 841.89,
+        items: [
+          item('مشهد 1', 440, 130, 47, true),
+          item('داخلي-نهار', 72, 130, 60, true),
+          item('بيت أحمد', 255, 148, 60, true),
+          item('يدخل أحمد مسرعًا ويغلق الباب خلفه بقوة.', 100, 180, 387)
+        ]
+      }];
+
+      const header = parseScreenplayText(reconstructScreenplay(pages)).scenes[0].header;
+      expect(header?.place).toBe('بيت أحمد');
+    });
+  });
+});
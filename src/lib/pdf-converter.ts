@@ -0,0 +1,533 @@
+// PDF Converter - محوّل PDF
+// تصدير صفحات مطابقة للعرض المرقّم: نفس محرك الترقيم ونفس CSS، ثم نقل مواضع الأسطر كما قاسها المتصفح إلى صفحات A4
+// بخط Amiri مضمّن، مع تشكيل الحروف العربية وترتيبها من اليمين لليسار.
+// والاستيراد يعيد بناء العناصر من مواضع النصوص في الصفحة (المسافة البادئة هي ما يميّز الحوار عن الحركة)
+
+import { jsPDF } from 'jspdf';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { AdvancedPaginationEngine } from './advanced-pagination-engine';
+import { layoutRevisedScreenplay, type RevisionSet } from './revisions';
+import { appendScreenplay } from './screenplay-parser';
+
+export type PdfAlign = 'left' | 'center' | 'right';
+
+/** سطر مرئي واحد بوحدة النقطة، مرسوم عند نقطة ارتكازه */
+export interface PdfTextLine {
+  text: string;
+  x: number;
+  /** منتصف السطر عموديًا */
+  y: number;
+  align: PdfAlign;
+  fontSize: number;
+  bold: boolean;
+}
+
+export interface PdfPageLayout {
+  lines: PdfTextLine[];
+  /** أرقام المشاهد التي تبدأ في الصفحة، لطباعتها في الهامشين */
+  sceneNumbers: Array<{ number: string; y: number }>;
+  /** لون ورق المراجعة (#rrggbb)؛ غيابه للأبيض */
+  background?: string;
+  /** مواضع الأسطر المعدّلة في المراجعة الجارية، لنجمة الهامش */
+  revisionMarks?: number[];
+}
+
+export interface PdfExportOptions {
+  /** الترقيم على صفحات النسخة المقفلة بألوان مراجعاتها */
+  revisions?: RevisionSet | null;
+  /** صفحات المراجعة الجارية وحدها، لتوزيعها على الطاقم */
+  revisedOnly?: boolean;
+}
+
+/** ملفات الخط بترميز base64 */
+export interface PdfFonts {
+  normal: string;
+  bold: string;
+}
+
+const A4_WIDTH_PT = 595.28;
+const FONT_FAMILY = 'Amiri';
+const FONT_URLS = { normal: '/fonts/Amiri-Regular.ttf', bold: '/fonts/Amiri-Bold.ttf' };
+// منتصف الهامش الأيسر (1") والأيمن (1.5")
+const SCENE_NUMBER_LEFT_X = 36;
+const SCENE_NUMBER_RIGHT_X = A4_WIDTH_PT - 54;
+// نجمة المراجعة في الهامش الأيسر، بين رقم المشهد والنص
+const REVISION_MARK_X = 60;
+
+// النص منطقي الترتيب وفقرات السيناريو من اليمين لليسار؛ الناتج ترتيب مرئي يُرسم من اليسار
+const BIDI_OPTIONS = {
+  isInputVisual: false,
+  isOutputVisual: true,
+  isInputRtl: true,
+  isOutputRtl: false,
+  isSymmetricSwapping: true
+};
+
+/** موضع الارتكاز من محاذاة CSS مع مراعاة الاتجاه (start في RTL = يمين) */
+function resolveAlign(textAlign: string, direction: string): PdfAlign {
+  const rtl = direction === 'rtl';
+  switch (textAlign) {
+    case 'center':
+      return 'center';
+    case 'left':
+      return 'left';
+    case 'right':
+      return 'right';
+    case 'end':
+      return rtl ? 'left' : 'right';
+    default:
+      return rtl ? 'right' : 'left';
+  }
+}
+
+function isBold(fontWeight: string): boolean {
+  return fontWeight === 'bold' || fontWeight === 'bolder' || parseInt(fontWeight, 10) >= 600;
+}
+
+/**
+ * قياس صفحة معروضة: تُجمع كلمات كل عقدة نصية في أسطر حسب موضعها الفعلي،
+ * فتطابق فواصل الأسطر والصفحات ما يراه الكاتب على الشاشة.
+ */
+export function measurePage(page: HTMLElement): PdfPageLayout {
+  const pageRect = page.getBoundingClientRect();
+  const scale = A4_WIDTH_PT / pageRect.width;
+  const lines: PdfTextLine[] = [];
+  const range = document.createRange();
+  const walker = document.createTreeWalker(page, NodeFilter.SHOW_TEXT);
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const textNode = node as Text;
+    const parent = textNode.parentElement;
+    if (!parent || !textNode.data.trim()) continue;
+
+    const styles = window.getComputedStyle(parent);
+    if (styles.display === 'none' || styles.visibility === 'hidden') continue;
+
+    const align = resolveAlign(styles.textAlign, styles.direction);
+    const fontSize = parseFloat(styles.fontSize) * scale;
+    const bold = isBold(styles.fontWeight);
+
+    let current: { words: string[]; top: number; bottom: number; left: number; right: number } | null = null;
+    const flush = () => {
+      if (!current) return;
+      const anchor = align === 'center' ? (current.left + current.right) / 2 : align === 'left' ? current.left : current.right;
+      lines.push({
+        text: current.words.join(' '),
+        x: (anchor - pageRect.left) * scale,
+        y: ((current.top + current.bottom) / 2 - pageRect.top) * scale,
+        align,
+        fontSize,
+        bold
+      });
+      current = null;
+    };
+
+    for (const match of Array.from(textNode.data.matchAll(/\S+/g))) {
+      range.setStart(textNode, match.index ?? 0);
+      range.setEnd(textNode, (match.index ?? 0) + match[0].length);
+      const rect = range.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) continue;
+
+      if (current && Math.abs(rect.top - current.top) < rect.height / 2) {
+        current.words.push(match[0]);
+        current.left = Math.min(current.left, rect.left);
+        current.right = Math.max(current.right, rect.right);
+        current.bottom = Math.max(current.bottom, rect.bottom);
+      } else {
+        flush();
+        current = { words: [match[0]], top: rect.top, bottom: rect.bottom, left: rect.left, right: rect.right };
+      }
+    }
+    flush();
+  }
+
+  const sceneNumbers = Array.from(page.querySelectorAll<HTMLElement>('.scene-header-1'))
+    .map((el) => {
+      const number = el.textContent?.match(/[0-9٠-٩]+[A-Za-z]*/)?.[0];
+      const rect = el.getBoundingClientRect();
+      return number ? { number, y: ((rect.top + rect.bottom) / 2 - pageRect.top) * scale } : null;
+    })
+    .filter((entry): entry is { number: string; y: number } => entry !== null);
+
+  const revisionMarks = Array.from(page.querySelectorAll<HTMLElement>('[data-revised="true"]')).map((el) => {
+    const rect = el.getBoundingClientRect();
+    return (rect.top + Math.min(rect.height, 24) / 2 - pageRect.top) * scale;
+  });
+
+  return {
+    lines,
+    sceneNumbers,
+    ...(page.dataset.revisionColor ? { background: page.dataset.revisionColor } : {}),
+    ...(revisionMarks.length > 0 ? { revisionMarks } : {})
+  };
+}
+
+/** رسم الصفحات المقاسة في مستند A4 */
+export function renderPdf(pages: PdfPageLayout[], fonts: PdfFonts): Uint8Array {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4', orientation: 'portrait' });
+  doc.addFileToVFS('Amiri-Regular.ttf', fonts.normal);
+  doc.addFont('Amiri-Regular.ttf', FONT_FAMILY, 'normal');
+  doc.addFileToVFS('Amiri-Bold.ttf', fonts.bold);
+  doc.addFont('Amiri-Bold.ttf', FONT_FAMILY, 'bold');
+  doc.setLanguage('ar');
+
+  pages.forEach((page, index) => {
+    if (index > 0) doc.addPage('a4', 'portrait');
+
+    if (page.background) {
+      doc.setFillColor(page.background);
+      doc.rect(0, 0, doc.internal.pageSize.getWidth(), doc.internal.pageSize.getHeight(), 'F');
+    }
+
+    for (const line of page.lines) {
+      doc.setFont(FONT_FAMILY, line.bold ? 'bold' : 'normal');
+      doc.setFontSize(line.fontSize);
+      doc.text(line.text, line.x, line.y, { align: line.align, baseline: 'middle', ...BIDI_OPTIONS });
+    }
+
+    doc.setFont(FONT_FAMILY, 'bold');
+    doc.setFontSize(12);
+    for (const scene of page.sceneNumbers) {
+      doc.text(scene.number, SCENE_NUMBER_LEFT_X, scene.y, { align: 'center', baseline: 'middle' });
+      doc.text(scene.number, SCENE_NUMBER_RIGHT_X, scene.y, { align: 'center', baseline: 'middle' });
+    }
+    for (const y of page.revisionMarks ?? []) {
+      doc.text('*', REVISION_MARK_X, y, { align: 'center', baseline: 'middle' });
+    }
+  });
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+let fontsPromise: Promise<PdfFonts> | null = null;
+
+/** تحميل ملفات الخط المرفقة مع التطبيق (مرة واحدة) */
+function loadFonts(): Promise<PdfFonts> {
+  if (!fontsPromise) {
+    const load = async (url: string) => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`تعذر تحميل الخط: ${url}`);
+      return toBase64(await response.arrayBuffer());
+    };
+    fontsPromise = Promise.all([load(FONT_URLS.normal), load(FONT_URLS.bold)])
+      .then(([normal, bold]) => ({ normal, bold }))
+      .catch((error) => {
+        fontsPromise = null;
+        throw error;
+      });
+  }
+  return fontsPromise;
+}
+
+/** انتظار خط العرض كي تطابق القياسات ما يظهر في المحرر */
+async function waitForScreenFonts(): Promise<void> {
+  const fontSet = (document as typeof document & { fonts?: FontFaceSet }).fonts;
+  if (!fontSet) return;
+  await Promise.all([fontSet.load(`12pt ${FONT_FAMILY}`), fontSet.load(`bold 12pt ${FONT_FAMILY}`)]).catch(() => {});
+  await fontSet.ready;
+}
+
+/**
+ * ترقيم النص خارج الشاشة بمحرك العرض المرقّم ثم تحويل صفحاته إلى PDF.
+ * في وضع المراجعات تُرقَّم الصفحات على النسخة المقفلة بألوانها
+ */
+export async function screenplayToPdf(content: string, options: PdfExportOptions = {}): Promise<Uint8Array> {
+  const host = document.createElement('div');
+  host.className = 'pages-host';
+  host.setAttribute('aria-hidden', 'true');
+  Object.assign(host.style, { position: 'fixed', top: '0', left: '-10000px', pointerEvents: 'none' });
+  document.body.appendChild(host);
+
+  try {
+    await waitForScreenFonts();
+    if (options.revisions) {
+      layoutRevisedScreenplay(host, content, options.revisions);
+    } else {
+      appendScreenplay(new AdvancedPaginationEngine(host), content);
+    }
+
+    const selector = options.revisions && options.revisedOnly ? '.page[data-revised-page="true"]' : '.page';
+    const pages = Array.from(host.querySelectorAll<HTMLElement>(selector)).map(measurePage);
+    if (pages.length === 0) throw new Error('لا صفحات معدّلة في المراجعة الجارية');
+    return renderPdf(pages, await loadFonts());
+  } finally {
+    host.remove();
+  }
+}
+
+// ===== الاستيراد =====
+
+/** مقطع نص من صفحة PDF بالنقاط، والأصل أعلى يسار الصفحة (y هو خط القاعدة) */
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  bold: boolean;
+  rtl: boolean;
+}
+
+export interface PdfTextPage {
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+type LineKind = 'scene' | 'center' | 'right' | 'left';
+
+interface PdfLine {
+  text: string;
+  y: number;
+  left: number;
+  right: number;
+  fontSize: number;
+  bold: boolean;
+}
+
+// هوامش A4 المعتمدة في المحرر بالنقاط: 1" أعلى/أسفل/يسار و1.5" يمين
+const IMPORT_MARGIN = { top: 72, bottom: 72, left: 72, right: 108 };
+const SCENE_PREFIX_RE = /^(?:مشهد|م\.)\s*[0-9٠-٩]/;
+const PAGE_NUMBER_RE = /^(?:(?:صفحة|ص\.?|page)\s*)?[0-9٠-٩]+(?:\s*(?:\/|من|of)\s*[0-9٠-٩]+)?\.?$/i;
+const MARGIN_NUMBER_RE = /^[0-9٠-٩]+[A-Za-z]*\.?$/;
+const SENTENCE_END_RE = /[.!?؟…]$/;
+// فاصل واسع داخل السطر (مثل "مشهد 1 ........ ليل-داخلي") يُعلَّم مؤقتًا
+const WIDE_GAP = '\t';
+// سطر 1.5 مع تباعد فقرات 1rem يتجاوز 1.8 من حجم الخط، والسطر الملتف لا يتجاوزه
+const PARAGRAPH_GAP_RATIO = 1.8;
+
+/** تجميع مقاطع الصفحة في أسطر حسب خط القاعدة، وترتيبها بصريًا حسب الاتجاه الغالب */
+function buildLines(page: PdfTextPage): PdfLine[] {
+  const sorted = page.items
+    // أرقام المشاهد في الهامشين الجانبيين
+    .filter((item) => {
+      const inSideMargin = item.x + item.width <= IMPORT_MARGIN.left * 0.95 || item.x >= page.width - IMPORT_MARGIN.right * 0.95;
+      return !(inSideMargin && MARGIN_NUMBER_RE.test(item.text.trim()));
+    })
+    .sort((a, b) => a.y - b.y);
+
+  const groups: PdfTextItem[][] = [];
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && Math.abs(group[0].y - item.y) <= Math.max(group[0].fontSize, item.fontSize) * 0.4) {
+      group.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map((group) => {
+    const rtl = group.filter((item) => item.rtl).length * 2 >= group.length;
+    const ordered = [...group].sort((a, b) => (rtl ? b.x - a.x : a.x - b.x));
+    const fontSize = Math.max(...group.map((item) => item.fontSize));
+
+    let text = '';
+    ordered.forEach((item, index) => {
+      if (index > 0) {
+        const previous = ordered[index - 1];
+        const gap = rtl ? previous.x - (item.x + item.width) : item.x - (previous.x + previous.width);
+        text += gap > fontSize * 2 ? WIDE_GAP : gap > fontSize * 0.1 ? ' ' : '';
+      }
+      text += item.text;
+    });
+
+    return {
+      text: text.replace(/[ \u00a0]+/g, ' ').trim(),
+      y: group[0].y,
+      left: Math.min(...group.map((item) => item.x)),
+      right: Math.max(...group.map((item) => item.x + item.width)),
+      fontSize,
+      bold: group.every((item) => item.bold)
+    };
+  });
+}
+
+function normalizeRepeatKey(text: string): string {
+  return text.replace(/[0-9٠-٩]+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/** حذف الترويسات والتذييلات: أرقام الصفحات، والنصوص المتكررة في الهامشين العلوي والسفلي */
+function dropRunningLines(pages: PdfTextPage[], lines: PdfLine[][]): PdfLine[][] {
+  const inRunningZone = (line: PdfLine, page: PdfTextPage) =>
+    line.y < IMPORT_MARGIN.top * 0.9 || line.y > page.height - IMPORT_MARGIN.bottom * 0.75;
+
+  const counts = new Map<string, number>();
+  lines.forEach((pageLines, index) => {
+    const keys = new Set(pageLines.filter((line) => inRunningZone(line, pages[index])).map((line) => normalizeRepeatKey(line.text)));
+    keys.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+  });
+
+  const minRepeats = Math.max(2, Math.ceil(pages.length / 2));
+  return lines.map((pageLines, index) =>
+    pageLines.filter((line) => {
+      if (!line.text) return false;
+      if (!inRunningZone(line, pages[index])) return true;
+      return !PAGE_NUMBER_RE.test(line.text) && (counts.get(normalizeRepeatKey(line.text)) ?? 0) < minRepeats;
+    })
+  );
+}
+
+/** نوع السطر من موضعه الأفقي نسبةً إلى مساحة النص */
+function lineKind(line: PdfLine, page: PdfTextPage): LineKind {
+  if (SCENE_PREFIX_RE.test(line.text)) return 'scene';
+
+  const areaLeft = IMPORT_MARGIN.left;
+  const areaRight = page.width - IMPORT_MARGIN.right;
+  const areaWidth = areaRight - areaLeft;
+  const center = (line.left + line.right) / 2;
+
+  if (Math.abs(center - (areaLeft + areaRight) / 2) <= Math.max(12, line.fontSize) && line.right - line.left < areaWidth * 0.8) {
+    return 'center';
+  }
+  if (line.right < areaRight - areaWidth * 0.25 && line.left <= areaLeft + line.fontSize) return 'left';
+  return 'right';
+}
+
+/** إعادة بناء نص السيناريو من مواضع الأسطر */
+export function reconstructScreenplay(pages: PdfTextPage[]): string {
+  const pageLines = dropRunningLines(pages, pages.map(buildLines));
+  const entries = pageLines.flatMap((lines, pageIndex) =>
+    lines.map((line, index) => ({
+      line,
+      kind: lineKind(line, pages[pageIndex]),
+      // فاصل أكبر من ارتفاع السطر وتباعده يبدأ فقرة جديدة؛ أول سطر في الصفحة يكمل ما قبله
+      gapBefore: index > 0 && line.y - lines[index - 1].y > line.fontSize * PARAGRAPH_GAP_RATIO
+    }))
+  );
+
+  const out: string[] = [];
+  let previousRole: 'scene' | 'place' | 'character' | 'parenthetical' | 'dialogue' | 'action' | null = null;
+  const ensureBlank = () => {
+    if (out.length > 0 && out[out.length - 1] !== '') out.push('');
+  };
+
+  entries.forEach(({ line, kind, gapBefore }, index) => {
+    const previous = entries[index - 1];
+    const next = entries[index + 1];
+    // تغيّر الموضع أو بدء نص عريض (اسم شخصية أو انتقال) يبدأ فقرة حتى دون فاصل، كما في أول الصفحة
+    const newParagraph =
+      !previous ||
+      gapBefore ||
+      (kind !== previous.kind && !(kind === 'center' && previous.kind === 'scene')) ||
+      (line.bold && !previous.line.bold);
+    const text = line.text.split(WIDE_GAP).join(kind === 'scene' ? ' - ' : ' ');
+    // السطر الملتف يكمل السابق ما لم ينتهِ السابق بعلامة نهاية جملة
+    const wraps = !newParagraph && out.length > 0 && !SENTENCE_END_RE.test(out[out.length - 1]);
+
+    if (kind === 'scene') {
+      ensureBlank();
+      out.push(text);
+      previousRole = 'scene';
+      return;
+    }
+
+    if (kind === 'center') {
+      if (previousRole === 'scene' && !gapBefore) {
+        // المكان يُضم إلى سطر الترويسة: سطر مستقل قد يشبه اسم شخصية ("بيت أحمد") فلا يُلحق بها
+        out[out.length - 1] += ` – ${text}`;
+        out.push('');
+        previousRole = 'place';
+        return;
+      }
+
+      const continuesParenthetical = previousRole === 'parenthetical' && !out[out.length - 1].includes(')');
+      if (wraps && (continuesParenthetical || (previousRole === 'dialogue' && !text.startsWith('(')))) {
+        out[out.length - 1] += ` ${text}`;
+        return;
+      }
+
+      const startsBlock =
+        newParagraph &&
+        next?.kind === 'center' &&
+        !next.gapBefore &&
+        !text.startsWith('(') &&
+        !SENTENCE_END_RE.test(text) &&
+        text.split(/\s+/).length <= 4;
+
+      if (startsBlock) {
+        ensureBlank();
+        out.push(`${text.replace(/\s*[:：]$/, '')}:`);
+        previousRole = 'character';
+      } else {
+        if (newParagraph) ensureBlank();
+        out.push(text);
+        previousRole = text.startsWith('(') ? 'parenthetical' : 'dialogue';
+      }
+      return;
+    }
+
+    if (wraps && previousRole === 'action') {
+      out[out.length - 1] += ` ${text}`;
+      return;
+    }
+    ensureBlank();
+    out.push(text);
+    previousRole = 'action';
+  });
+
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const BOLD_FONT_RE = /bold|black|heavy|demi|semibold/i;
+
+/** قراءة مقاطع النص ومواضعها بمكتبة pdf.js مع عامل محلي مضمّن في الحزمة (يعمل دون اتصال) */
+async function readPdfPages(data: ArrayBuffer): Promise<PdfTextPage[]> {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  }
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+  try {
+    const pages: PdfTextPage[] = [];
+    for (let pageNo = 1; pageNo <= pdf.numPages; pageNo++) {
+      const page = await pdf.getPage(pageNo);
+      const viewport = page.getViewport({ scale: 1 });
+      // تحميل الخطوط إلى commonObjs لمعرفة أسمائها الكاملة (Amiri-Bold مثلًا)
+      await page.getOperatorList();
+      const content = await page.getTextContent();
+
+      const fontIsBold = (fontName: string) => {
+        if (!page.commonObjs.has(fontName)) return false;
+        const font = page.commonObjs.get(fontName) as { name?: string } | null;
+        return BOLD_FONT_RE.test(font?.name ?? '');
+      };
+
+      const items: PdfTextItem[] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        const [a, b, c, d, x, y] = pdfjs.Util.transform(viewport.transform, item.transform) as number[];
+        items.push({
+          // NFKC يعيد أشكال العرض العربية (ﻣﺸﻬﺪ) والتركيبات (ﻻ) إلى حروفها الأساسية
+          text: item.str.normalize('NFKC'),
+          x,
+          y,
+          width: item.width,
+          fontSize: Math.hypot(c, d) || Math.hypot(a, b) || item.height,
+          bold: fontIsBold(item.fontName),
+          rtl: item.dir === 'rtl'
+        });
+      }
+
+      pages.push({ width: viewport.width, height: viewport.height, items });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/** تحويل ملف PDF إلى نص سيناريو بالصيغة التي يفهمها المصنّف */
+export async function pdfToScreenplayText(data: ArrayBuffer): Promise<string> {
+  return reconstructScreenplay(await readPdfPages(data));
+}
@@ -3,10 +3,25 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new Error(`${res.status}: ${extractMessage(text)}`);
   }
 }
 
+// الخادم يرد بالأخطاء على شكل { message }
+function extractMessage(text: string): string {
+  try {
+    const body = JSON.parse(text);
+    return typeof body?.message === "string" ? body.message : text;
+  } catch {
+    return text;
+  }
+}
+
+/** رسالة الخطأ دون رمز الحالة، للعرض على المستخدم */
+export function describeApiError(error: Error): string {
+  return error.message.replace(/^\d{3}:\s*/, "");
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,129 @@
+import { PaginationEngine } from './PaginationEngine';
+import {
+  layoutRevisedScreenplay,
+  planRevisedPages,
+  revisedPageLabels,
+  revisionColor,
+  startNextRevision,
+  type RevisionSet
+} from './revisions';
+
+const LOCKED = [
+  'مشهد 1 - ليل-داخلي – البيت',
+  '',
+  'يجلس أحمد طويلًا في الغرفة المظلمة.',
+  '',
+  'مشهد 2 - نهار-خارجي – الشارع',
+  '',
+  'يمشي أحمد.',
+  '',
+  'أحمد:',
+  'أين أنا؟'
+];
+
+const lockedSet = (pageStarts = [{ line: 0, word: 0 }, { line: 4, word: 0 }]): RevisionSet => ({
+  pageStarts,
+  revisions: [{ date: '2026-10-01', text: LOCKED.join('\n') }]
+});
+
+const edit = (lines: string[], index: number, ...replacement: string[]) => {
+  const next = [...lines];
+  next.splice(index, 1, ...replacement);
+  return next;
+};
+
+const summary = (set: RevisionSet, content: string) =>
+  planRevisedPages(set, content).map((page) => ({
+    label: page.label,
+    revision: page.revision,
+    changed: page.blocks.filter((block) => block.changed).map((block) => block.node.range.start)
+  }));
+
+describe('revisions', () => {
+  test('unchanged script keeps its locked white pages', () => {
+    expect(summary(lockedSet(), LOCKED.join('\n'))).toEqual([
+      { label: '1', revision: null, changed: [] },
+      { label: '2', revision: null, changed: [] }
+    ]);
+  });
+
+  test('changed and inserted lines mark their locked page only', () => {
+    const changed = edit(LOCKED, 6, 'يركض أحمد.');
+    expect(summary(lockedSet(), changed.join('\n'))).toEqual([
+      { label: '1', revision: null, changed: [] },
+      { label: '2', revision: 0, changed: [6] }
+    ]);
+
+    // السطر المُدرج في آخر الصفحة الأولى يبقى فيها، فلا تنزاح أرقام ما بعدها
+    const inserted = edit(LOCKED, 3, '', 'يطفئ النور.', '');
+    const pages = planRevisedPages(lockedSet(), inserted.join('\n'));
+    expect(pages.map((page) => page.label)).toEqual(['1', '2']);
+    expect(pages[0].blocks.some((block) => block.changed && block.node.type === 'action')).toBe(true);
+    expect(pages[1].blocks[0].node.type).toBe('scene-header');
+    expect(revisedPageLabels(lockedSet(), inserted.join('\n'))).toEqual(['1']);
+  });
+
+  test('deleted lines mark the line before them', () => {
+    const deleted = edit(LOCKED, 6);
+    expect(summary(lockedSet(), deleted.join('\n'))[1]).toEqual({ label: '2', revision: 0, changed: [4] });
+  });
+
+  test('a new revision keeps earlier page colours but clears their marks', () => {
+    const blue = edit(LOCKED, 6, 'يركض أحمد.');
+    const set = startNextRevision(lockedSet(), blue.join('\n'), '2026-10-10');
+    const pink = edit(blue, 2, 'ينام أحمد.');
+
+    expect(summary(set, pink.join('\n'))).toEqual([
+      { label: '1', revision: 1, changed: [2] },
+      { label: '2', revision: 0, changed: [] }
+    ]);
+    expect(revisionColor(0).id).toBe('blue');
+    expect(revisionColor(1).id).toBe('pink');
+    expect(revisionColor(null).id).toBe('white');
+  });
+
+  test('a paragraph split across locked pages keeps its split until it changes', () => {
+    const set = lockedSet([{ line: 0, word: 0 }, { line: 2, word: 3 }, { line: 4, word: 0 }]);
+    const [first, second] = planRevisedPages(set, LOCKED.join('\n'));
+    expect(first.blocks[first.blocks.length - 1].words).toEqual([0, 3]);
+    expect(second.blocks[0].words).toEqual([3, 6]);
+
+    const pages = planRevisedPages(set, edit(LOCKED, 2, 'يجلس أحمد.').join('\n'));
+    expect(pages[0].blocks.some((block) => block.node.type === 'action' && !block.words)).toBe(true);
+    expect(pages.map((page) => page.label)).toEqual(['1', '3']);
+  });
+
+  test('a locked page whose content was all deleted drops out without renumbering', () => {
+    const set = lockedSet([{ line: 0, word: 0 }, { line: 2, word: 0 }, { line: 4, word: 0 }]);
+    const pages = planRevisedPages(set, edit(LOCKED, 2).join('\n'));
+    expect(pages.map((page) => page.label)).toEqual(['1', '3']);
+  });
+
+  test('lays out locked pages with revision colour, date stamp and change marks', () => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    layoutRevisedScreenplay(host, edit(LOCKED, 6, 'يركض أحمد.').join('\n'), lockedSet());
+
+    const revised = host.querySelectorAll<HTMLElement>('.page[data-revised-page="true"]');
+    expect(revised.length).toBeGreaterThan(0);
+    revised.forEach((page) => {
+      expect(page.dataset.revisionColor).toBe(revisionColor(0).hex);
+      expect(page.querySelector('.page-revision-stamp')?.textContent).toBe('المراجعة الزرقاء · 2026-10-01');
+      expect(page.querySelector('.page-footer')?.textContent).toMatch(/^2[A-Z]?$/);
+    });
+    expect(host.querySelector('.page')?.getAttribute('data-page-label')).toBe('1');
+    expect(host.querySelector('[data-revised="true"]')?.textContent).toBe('يركض أحمد.');
+    host.remove();
+  });
+
+  test('pages overflowing a locked page take its number with a letter', () => {
+    const host = document.createElement('div');
+    const engine = new PaginationEngine(host);
+    engine.startLockedPage('23');
+    engine.appendBlock(() => document.createElement('div'));
+    // لا ارتفاع للصفحات هنا، فكل فقرة تبدأ صفحة فيض جديدة
+    engine.appendTextParagraph('سطر', 'action');
+    engine.appendTextParagraph('سطر آخر', 'action');
+    expect(engine.getPages().map(({ footer }) => footer.textContent)).toEqual(['23', '23A', '23B']);
+  });
+});
@@ -0,0 +1,298 @@
+// Revisions - مراجعات السيناريو بعد بدء التصوير
+// الصفحات تُقفل على ترقيم PaginationEngine؛ كل مراجعة تلوّن الصفحات التي غيّرتها وتعلّم أسطرها بنجمة في الهامش،
+// وما يفيض عن صفحة مقفلة يأخذ رقمها بلاحقة (23A) فلا تتغيّر أرقام الصفحات التي وُزّعت على الطاقم
+
+import { PaginationEngine } from './PaginationEngine';
+import { parseScreenplayText, type ScreenplayNode } from './screenplay-document';
+import { appendNode, type BlockSink } from './screenplay-parser';
+import { diffLines } from './text-diff';
+
+export interface RevisionColor {
+  id: string;
+  /** صفة المراجعة: "المراجعة الزرقاء" */
+  label: string;
+  hex: string;
+}
+
+/** ترتيب ألوان المراجعات المتعارف عليه في الإنتاج؛ الأبيض للنسخة المقفلة */
+export const REVISION_COLORS: RevisionColor[] = [
+  { id: 'white', label: 'البيضاء', hex: '#ffffff' },
+  { id: 'blue', label: 'الزرقاء', hex: '#dbe8fb' },
+  { id: 'pink', label: 'الوردية', hex: '#fbdde8' },
+  { id: 'yellow', label: 'الصفراء', hex: '#fdf6c3' },
+  { id: 'green', label: 'الخضراء', hex: '#dcf3dc' },
+  { id: 'goldenrod', label: 'الذهبية', hex: '#f5e0a3' },
+  { id: 'buff', label: 'البيج', hex: '#f3e6cf' },
+  { id: 'salmon', label: 'السلمونية', hex: '#fbd5c8' },
+  { id: 'cherry', label: 'الكرزية', hex: '#f4c2c9' }
+];
+
+/** بداية صفحة مقفلة: أول سطر فيها، وعدد كلمات سطره التي بقيت في الصفحة السابقة */
+export interface PageStart {
+  line: number;
+  word: number;
+}
+
+export interface Revision {
+  /** تاريخ بدء المراجعة (YYYY-MM-DD) */
+  date: string;
+  /** النص عند بدئها؛ نص المراجعة الأولى هو النسخة المقفلة */
+  text: string;
+}
+
+export interface RevisionSet {
+  /** بدايات صفحات النسخة المقفلة */
+  pageStarts: PageStart[];
+  /** المراجعات بالترتيب؛ الأخيرة هي الجارية */
+  revisions: Revision[];
+}
+
+/** لون المراجعة (الأولى زرقاء، ويعود الدور إليها بعد الكرزية)؛ null للأبيض */
+export function revisionColor(revision: number | null): RevisionColor {
+  if (revision === null) return REVISION_COLORS[0];
+  return REVISION_COLORS[(revision % (REVISION_COLORS.length - 1)) + 1];
+}
+
+export interface TrackedLine {
+  /** الصفحة المقفلة التي يبدأ فيها السطر */
+  page: number;
+  /** آخر مراجعة غيّرته؛ null إن بقي كما في النسخة المقفلة */
+  revision: number | null;
+  /** انقسام الفقرة على الصفحات المقفلة التالية، ما دام السطر لم يتغيّر */
+  splits: Array<{ page: number; word: number }>;
+}
+
+const isBlank = (text: string) => !text.trim();
+const wordsOf = (text: string) => text.split(/\s+/).filter(Boolean);
+const lastPage = (line: TrackedLine) => (line.splits.length > 0 ? line.splits[line.splits.length - 1].page : line.page);
+
+function lockedLines(lineCount: number, pageStarts: PageStart[]): TrackedLine[] {
+  const lines: TrackedLine[] = [];
+  let page = 0;
+  for (let i = 0; i < lineCount; i++) {
+    const splits: TrackedLine['splits'] = [];
+    pageStarts.forEach((start, index) => {
+      if (start.line !== i) return;
+      if (start.word > 0) splits.push({ page: index, word: start.word });
+      else page = index;
+    });
+    lines.push({ page, revision: null, splits });
+    if (splits.length > 0) page = splits[splits.length - 1].page;
+  }
+  return lines;
+}
+
+/**
+ * خطوة مراجعة واحدة: السطر المضاف يأخذ صفحة ما قبله ورقم المراجعة. المحذوف دون بديل
+ * يعلّم آخر سطر غير فارغ قبله (أو أول سطر بعده) فتبقى علامة الحذف في موضعه
+ */
+function applyRevision(previous: TrackedLine[], before: string, after: string, revision: number): TrackedLine[] {
+  const next: TrackedLine[] = [];
+  let oldIndex = 0;
+  let anchor = -1;
+  let deleted = false;
+  const mark = (index: number) => {
+    next[index] = { ...next[index], revision };
+  };
+
+  diffLines(before, after).forEach((entry) => {
+    if (entry.type === 'removed') {
+      oldIndex++;
+      if (!isBlank(entry.text)) deleted = true;
+      return;
+    }
+
+    if (entry.type === 'same') {
+      next.push(previous[oldIndex++]);
+    } else {
+      const page = next.length > 0 ? lastPage(next[next.length - 1]) : (previous[oldIndex]?.page ?? 0);
+      next.push({ page, revision: isBlank(entry.text) ? null : revision, splits: [] });
+    }
+    if (isBlank(entry.text)) return;
+
+    // السطر المضاف بعد المحذوف بديل عنه ويحمل العلامة بنفسه
+    if (deleted && entry.type === 'same') mark(anchor >= 0 ? anchor : next.length - 1);
+    deleted = false;
+    anchor = next.length - 1;
+  });
+  if (deleted && anchor >= 0) mark(anchor);
+  return next;
+}
+
+/** صفحة كل سطر من النص الحالي وآخر مراجعة غيّرته، عبر سلسلة المراجعات من النسخة المقفلة */
+export function trackRevisions(set: RevisionSet, content: string): TrackedLine[] {
+  const texts = [...set.revisions.map((revision) => revision.text), content];
+  let tracked = lockedLines(texts[0].split('\n').length, set.pageStarts);
+  for (let step = 0; step < set.revisions.length; step++) {
+    tracked = applyRevision(tracked, texts[step], texts[step + 1], step);
+  }
+  return tracked;
+}
+
+export interface RevisedBlock {
+  node: ScreenplayNode;
+  /** كلمات الفقرة الواقعة في هذه الصفحة إن انقسمت على صفحات مقفلة */
+  words?: [number, number];
+  /** غيّرته المراجعة الجارية: نجمة في الهامش */
+  changed: boolean;
+}
+
+export interface RevisedPage {
+  /** رقم الصفحة المقفلة */
+  label: string;
+  /** آخر مراجعة غيّرت الصفحة؛ null إن بقيت بيضاء */
+  revision: number | null;
+  blocks: RevisedBlock[];
+}
+
+/**
+ * توزيع النص الحالي على الصفحات المقفلة. الصفحة التي حُذف كل محتواها (إلا الأسطر الفارغة) تسقط،
+ * ويبقى ترقيم ما بعدها كما هو
+ */
+export function planRevisedPages(set: RevisionSet, content: string): RevisedPage[] {
+  const tracked = trackRevisions(set, content);
+  const current = set.revisions.length - 1;
+  const pages: RevisedPage[] = Array.from({ length: Math.max(set.pageStarts.length, 1) }, (_, index) => ({
+    label: String(index + 1),
+    revision: null,
+    blocks: []
+  }));
+
+  const place = (pageIndex: number, block: RevisedBlock, revision: number | null) => {
+    const page = pages[Math.min(pageIndex, pages.length - 1)];
+    page.blocks.push(block);
+    if (revision !== null) page.revision = Math.max(page.revision ?? -1, revision);
+  };
+
+  parseScreenplayText(content).elements.forEach((node) => {
+    const lines = tracked.slice(node.range.start, node.range.end + 1);
+    const revision =
+      node.type === 'blank'
+        ? null
+        : lines.reduce<number | null>(
+            (latest, line) => (line.revision === null ? latest : Math.max(latest ?? -1, line.revision)),
+            null
+          );
+    const changed = revision !== null && revision === current;
+    const splits = node.type === 'action' ? lines[0].splits : [];
+
+    if (splits.length === 0) {
+      place(lines[0].page, { node, changed }, revision);
+      return;
+    }
+    let from = 0;
+    let page = lines[0].page;
+    splits.forEach((split) => {
+      place(page, { node, words: [from, split.word], changed }, revision);
+      from = split.word;
+      page = split.page;
+    });
+    place(page, { node, words: [from, wordsOf(node.type === 'action' ? node.text : '').length], changed }, revision);
+  });
+
+  return pages.filter((page) => page.blocks.some((block) => block.node.type !== 'blank'));
+}
+
+/** سمات data-* على كل ما يُبنى لعقدة واحدة */
+function withDataset(engine: BlockSink, dataset: Record<string, string>): BlockSink {
+  return {
+    appendBlock: (build) =>
+      engine.appendBlock(() => {
+        const element = build();
+        Object.assign(element.dataset, dataset);
+        return element;
+      }),
+    appendTextParagraph: (text, className, extra = {}) =>
+      engine.appendTextParagraph(text, className, { ...extra, ...dataset })
+  };
+}
+
+function appendRevisedBlock(engine: BlockSink, { node, words }: RevisedBlock) {
+  if (words && node.type === 'action') {
+    appendNode(engine, { ...node, text: wordsOf(node.text).slice(words[0], words[1]).join(' ') });
+  } else {
+    appendNode(engine, node);
+  }
+}
+
+function stampPage(page: HTMLElement, revision: number, set: RevisionSet) {
+  const color = revisionColor(revision);
+  page.dataset.revision = String(revision);
+  page.dataset.revisionColor = color.hex;
+  page.style.backgroundColor = color.hex;
+  if (revision === set.revisions.length - 1) page.dataset.revisedPage = 'true';
+
+  const stamp = document.createElement('div');
+  stamp.className = 'page-revision-stamp';
+  stamp.contentEditable = 'false';
+  stamp.textContent = `المراجعة ${color.label} · ${set.revisions[revision].date}`;
+  page.prepend(stamp);
+}
+
+/** ترقيم النص على الصفحات المقفلة داخل host (يُفرَّغ أولًا) */
+export function layoutRevisedScreenplay(host: HTMLElement, content: string, set: RevisionSet) {
+  host.innerHTML = '';
+  const engine = new PaginationEngine(host);
+  const marked = withDataset(engine, { revised: 'true' });
+
+  planRevisedPages(set, content).forEach((page) => {
+    engine.startLockedPage(page.label);
+    const first = engine.getPages().length - 1;
+    page.blocks.forEach((block) => appendRevisedBlock(block.changed ? marked : engine, block));
+    if (page.revision !== null) {
+      engine.getPages().slice(first).forEach((refs) => stampPage(refs.page, page.revision!, set));
+    }
+  });
+}
+
+function readPageStarts(host: HTMLElement): PageStart[] {
+  const wordsSeen = new Map<number, number>();
+  const starts: PageStart[] = [];
+  host.querySelectorAll('.page').forEach((page) => {
+    let start: PageStart | null = null;
+    page.querySelectorAll<HTMLElement>('.page-content > [data-line]').forEach((element) => {
+      const line = Number(element.dataset.line);
+      const seen = wordsSeen.get(line) ?? 0;
+      start ??= { line, word: seen };
+      wordsSeen.set(line, seen + wordsOf(element.textContent ?? '').length);
+    });
+    if (start) starts.push(start);
+  });
+  return starts;
+}
+
+/** بدايات الصفحات كما يرقّمها PaginationEngine الآن */
+export function measurePageStarts(content: string): PageStart[] {
+  const host = document.createElement('div');
+  host.className = 'pages-host';
+  Object.assign(host.style, { position: 'absolute', visibility: 'hidden', pointerEvents: 'none', left: '-10000px', top: '0' });
+  document.body.appendChild(host);
+
+  try {
+    const engine = new PaginationEngine(host);
+    parseScreenplayText(content).elements.forEach((node) =>
+      appendNode(withDataset(engine, { line: String(node.range.start) }), node)
+    );
+    return readPageStarts(host);
+  } finally {
+    host.remove();
+  }
+}
+
+/** قفل الصفحات وبدء المراجعة الأولى (الزرقاء) */
+export function lockRevisions(content: string, date: string): RevisionSet {
+  return { pageStarts: measurePageStarts(content), revisions: [{ date, text: content }] };
+}
+
+/** إغلاق المراجعة الجارية وبدء التالية: علاماتها تختفي وتبقى ألوان صفحاتها */
+export function startNextRevision(set: RevisionSet, content: string, date: string): RevisionSet {
+  return { ...set, revisions: [...set.revisions, { date, text: content }] };
+}
+
+/** أرقام الصفحات المقفلة التي غيّرتها المراجعة الجارية */
+export function revisedPageLabels(set: RevisionSet, content: string): string[] {
+  const current = set.revisions.length - 1;
+  return planRevisedPages(set, content)
+    .filter((page) => page.revision === current)
+    .map((page) => page.label);
+}
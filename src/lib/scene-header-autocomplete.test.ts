@@ -0,0 +1,61 @@
+import {
+  collectPlaces,
+  isSceneHeaderDraft,
+  nextSceneNumber,
+  suggestSceneHeader
+} from './scene-header-autocomplete';
+
+const SCRIPT = `مشهد 1 - ليل-داخلي – شقة هند
+
+ترقد هند على السرير.
+
+مشهد 2 - نهار-خارجي – الشارع
+
+يسير أحمد.
+
+مشهد 3 - ليل-داخلي – شقة هند
+
+تستيقظ هند.`;
+
+describe('scene-header-autocomplete', () => {
+  test('next scene number follows the last numbered header before the caret', () => {
+    expect(nextSceneNumber([])).toBe(1);
+    expect(nextSceneNumber(['مشهد 1 - ليل-داخلي', 'م. ٤ - نهار-خارجي', 'الحديقة'])).toBe(5);
+  });
+
+  test('collectPlaces ranks earlier places by frequency', () => {
+    expect(collectPlaces(SCRIPT)).toEqual(['شقة هند', 'الشارع']);
+  });
+
+  test('auto-fills the scene number after مشهد', () => {
+    expect(suggestSceneHeader('', 4, [])).toEqual(['مشهد 4 - ']);
+    expect(suggestSceneHeader('مشه', 4, [])).toEqual(['مشهد 4 - ']);
+    expect(suggestSceneHeader('مشهد 4', 4, [])).toEqual(['مشهد 4 - ']);
+    expect(suggestSceneHeader('يدخل أحمد', 4, [])).toEqual([]);
+  });
+
+  test('suggests interior/exterior and time-of-day words in either order', () => {
+    expect(suggestSceneHeader('مشهد 4 - خا', 4, [])).toEqual(['مشهد 4 - خارجي-']);
+    expect(suggestSceneHeader('مشهد 4 - داخلي-ن', 4, [])).toEqual(['مشهد 4 - داخلي-نهار – ']);
+    expect(suggestSceneHeader('مشهد 4 - ليل-', 4, [])).toEqual([
+      'مشهد 4 - ليل-داخلي – ',
+      'مشهد 4 - ليل-خارجي – '
+    ]);
+  });
+
+  test('suggests places used in earlier scenes', () => {
+    const places = collectPlaces(SCRIPT);
+    expect(suggestSceneHeader('مشهد 4 - ليل-داخلي', 4, places)).toEqual([
+      'مشهد 4 - ليل-داخلي – شقة هند',
+      'مشهد 4 - ليل-داخلي – الشارع'
+    ]);
+    expect(suggestSceneHeader('مشهد 4 - ليل-داخلي – الش', 4, places)).toEqual(['مشهد 4 - ليل-داخلي – الشارع']);
+    expect(suggestSceneHeader('مشهد 4 - شق', 4, places)).toEqual(['مشهد 4 - شقة هند']);
+  });
+
+  test('isSceneHeaderDraft recognises a header being typed on an action line', () => {
+    expect(isSceneHeaderDraft('مشهد 5')).toBe(true);
+    expect(isSceneHeaderDraft('م. 5')).toBe(true);
+    expect(isSceneHeaderDraft('يدخل أحمد')).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+// Scene Header Autocomplete - إكمال ترويسة المشهد أثناء كتابتها
+// رقم المشهد التالي بعد "مشهد"، ثم داخلي/خارجي والوقت، ثم الأماكن المستعملة في مشاهد سابقة
+
+import { getSceneHeaders, parseScreenplayText } from './screenplay-document';
+import { INOUT_WORDS, TIME_WORDS, stripTashkeel } from './screenplay-line-classifier';
+
+const HEAD_RE = /^\s*(?:مشهد|م\.)\s*([0-9٠-٩]+)/;
+const HEAD_SEPARATOR_RE = /^\s*(?:[-–—:،]\s*)?/;
+const WORD_PART = [...INOUT_WORDS, ...TIME_WORDS].join('|');
+const TL_PLACE_RE = new RegExp(String.raw`^(${WORD_PART})\s*-\s*(${WORD_PART})\s*[-–—:،]\s*(.*)$`);
+const TL_PARTIAL_RE = new RegExp(String.raw`^(${WORD_PART})\s*-\s*(\S*)$`);
+
+/** سطر يُكتب ترويسةً وإن لم يُصنَّف بعد (في وضع الصفحات يبقى سردًا حتى التنسيق) */
+export function isSceneHeaderDraft(text: string): boolean {
+  return /^\s*(?:مشهد|م\.)/.test(text);
+}
+
+function toWesternDigits(digits: string): string {
+  return digits.replace(/[٠-٩]/g, (d) => String('٠١٢٣٤٥٦٧٨٩'.indexOf(d)));
+}
+
+/** رقم المشهد التالي لآخر ترويسة مرقّمة قبل المؤشر */
+export function nextSceneNumber(precedingHeaders: string[]): number {
+  for (let i = precedingHeaders.length - 1; i >= 0; i--) {
+    const m = precedingHeaders[i].match(HEAD_RE);
+    if (m) return Number(toWesternDigits(m[1])) + 1;
+  }
+  return 1;
+}
+
+/** أماكن المشاهد المكتوبة، الأكثر تكرارًا ثم الأحدث أولًا */
+export function collectPlaces(content: string): string[] {
+  const seen = new Map<string, { place: string; count: number; last: number }>();
+  getSceneHeaders(parseScreenplayText(content)).forEach((header, index) => {
+    const place = header.place.trim();
+    if (!place) return;
+    const key = stripTashkeel(place);
+    const entry = seen.get(key);
+    seen.set(key, { place, count: (entry?.count ?? 0) + 1, last: index });
+  });
+  return Array.from(seen.values())
+    .sort((a, b) => b.count - a.count || b.last - a.last)
+    .map((entry) => entry.place);
+}
+
+const startsWith = (word: string, partial: string) => stripTashkeel(word).startsWith(stripTashkeel(partial));
+
+function matchPlaces(places: string[], partial: string): string[] {
+  const key = stripTashkeel(partial.trim());
+  return places.filter((place) => stripTashkeel(place) !== key && startsWith(place, key));
+}
+
+/** الترويسة مكتملة حتى الجزء التالي؛ كل اقتراح سطر كامل يحل محل المكتوب */
+export function suggestSceneHeader(typed: string, nextNumber: number, places: string[], limit = 6): string[] {
+  const head = typed.match(HEAD_RE);
+  if (!head) {
+    const start = typed.trim();
+    return 'مشهد'.startsWith(start) || start === 'م.' ? [`مشهد ${nextNumber} - `] : [];
+  }
+
+  const core = head[0].trim();
+  const afterHead = typed.slice(head[0].length);
+  const rest = afterHead.replace(HEAD_SEPARATOR_RE, '');
+  // "مشهد 3" دون فاصل بعد: الفاصل أولًا
+  if (!rest && !/[-–—:،]/.test(afterHead)) return [`${core} - `];
+
+  let suggestions: string[];
+  const withPlace = rest.match(TL_PLACE_RE);
+  const partialTl = rest.match(TL_PARTIAL_RE);
+
+  if (withPlace) {
+    const tl = `${withPlace[1]}-${withPlace[2]}`;
+    suggestions = matchPlaces(places, withPlace[3]).map((place) => `${core} - ${tl} – ${place}`);
+  } else if (partialTl) {
+    const [, first, partial] = partialTl;
+    const complements = INOUT_WORDS.includes(first) ? TIME_WORDS : INOUT_WORDS;
+    if (complements.includes(partial)) {
+      suggestions = places.map((place) => `${core} - ${first}-${partial} – ${place}`);
+    } else {
+      suggestions = complements
+        .filter((word) => startsWith(word, partial))
+        .map((word) => `${core} - ${first}-${word} – `);
+    }
+  } else {
+    const words = /^\S*$/.test(rest)
+      ? [...INOUT_WORDS, ...TIME_WORDS].filter((word) => startsWith(word, rest)).map((word) => `${core} - ${word}-`)
+      : [];
+    // ترويسة بلا وقت/مكان: الباقي مكان تفصيلي
+    const bare = rest ? matchPlaces(places, rest).map((place) => `${core} - ${place}`) : [];
+    suggestions = [...words, ...bare];
+  }
+
+  return suggestions.slice(0, limit);
+}
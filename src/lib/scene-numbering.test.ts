@@ -0,0 +1,88 @@
+import { getSceneHeaders, parseScreenplayText } from './screenplay-document';
+import { renumberLocked, renumberScenes, sceneNumbers } from './scene-numbering';
+
+const headerLines = (text: string) =>
+  getSceneHeaders(parseScreenplayText(text)).map((header) => text.split('\n')[header.range.start]);
+
+const numbersOf = (text: string) => sceneNumbers(parseScreenplayText(text));
+
+describe('scene-numbering', () => {
+  test('suffixed scene numbers are parsed', () => {
+    const [header] = getSceneHeaders(parseScreenplayText('مشهد 12a - ليل-داخلي – المقهى'));
+    expect(header.number).toBe('12A');
+    expect(header.place).toBe('المقهى');
+  });
+
+  test('renumbers sequentially, numbering bare and forced headers and dropping OMITTED', () => {
+    const text = [
+      'مشهد 4 - ليل-داخلي – البيت',
+      '',
+      'يجلس أحمد.',
+      '',
+      'مشهد 7 - OMITTED',
+      '',
+      '.الشارع',
+      '',
+      'يمشي.',
+      '',
+      'مشهد 12A - نهار-خارجي – الحديقة'
+    ].join('\n');
+
+    const renumbered = renumberScenes(parseScreenplayText(text));
+    expect(headerLines(renumbered)).toEqual([
+      'مشهد 1 - ليل-داخلي – البيت',
+      '.مشهد 2 - الشارع',
+      'مشهد 3 - نهار-خارجي – الحديقة'
+    ]);
+    expect(renumbered).not.toContain('OMITTED');
+  });
+
+  test('locked numbers stay; inserted scenes take suffixes after their predecessor', () => {
+    const text = [
+      'مشهد 12 - ليل-داخلي – البيت',
+      '',
+      'مشهد 99 - ليل-خارجي – الشارع',
+      '',
+      '.السطح',
+      '',
+      'مشهد 13 - نهار-داخلي – المكتب'
+    ].join('\n');
+
+    const locked = renumberLocked(parseScreenplayText(text), ['12', '13']);
+    expect(numbersOf(locked)).toEqual(['12', '12A', '12B', '13']);
+    expect(renumberLocked(parseScreenplayText(locked), ['12', '13'])).toBe(locked);
+  });
+
+  test('scenes before the first locked scene are prefixed, duplicates get a suffix', () => {
+    const text = [
+      'مشهد 5 - ليل-داخلي – المدخل',
+      '',
+      'مشهد 1 - ليل-داخلي – البيت',
+      '',
+      'مشهد 1 - نهار-خارجي – الشارع'
+    ].join('\n');
+
+    expect(numbersOf(renumberLocked(parseScreenplayText(text), ['1']))).toEqual(['A1', '1', '1A']);
+  });
+
+  test('deleted locked scenes come back as OMITTED placeholders in place', () => {
+    const text = [
+      'مشهد 1 - ليل-داخلي – البيت',
+      '',
+      'يجلس أحمد.',
+      '',
+      'مشهد 3 - نهار-خارجي – الشارع',
+      '',
+      'يمشي.'
+    ].join('\n');
+
+    const locked = renumberLocked(parseScreenplayText(text), ['1', '2', '3', '4']);
+    expect(headerLines(locked)).toEqual([
+      'مشهد 1 - ليل-داخلي – البيت',
+      'مشهد 2 - OMITTED',
+      'مشهد 3 - نهار-خارجي – الشارع',
+      'مشهد 4 - OMITTED'
+    ]);
+    expect(locked.split('\n').slice(2, 6)).toEqual(['يجلس أحمد.', '', 'مشهد 2 - OMITTED', '']);
+  });
+});
@@ -0,0 +1,135 @@
+// Scene Numbering - ترقيم المشاهد تلقائيًا، ووضع الترقيم المقفل لنسخ الإنتاج
+// في الوضع المقفل لا يتغيّر رقم مشهد موجود: المُدرج يأخذ لاحقة (12A) والمحذوف يبقى مكانه ترويسة OMITTED
+
+import { getSceneHeaders, type ScreenplayDocument, type SceneHeaderNode } from './screenplay-document';
+import { parseForcedLine } from './screenplay-line-classifier';
+
+export const OMITTED_PLACE = 'OMITTED';
+
+const NUMBER_IN_LINE_RE = /^(\s*\.?\s*(?:مشهد|م\.)\s*)[A-Za-z]{0,2}[0-9٠-٩]+[A-Za-z]{0,2}/;
+const SUFFIXES = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export function isOmittedScene(header: SceneHeaderNode): boolean {
+  return header.place.trim().toUpperCase() === OMITTED_PLACE && !header.timeLocation;
+}
+
+/** سطر ترويسة المشهد برقم جديد، مع الإبقاء على بادئة الفرض وبقية السطر */
+function withSceneNumber(line: string, number: string): string {
+  if (NUMBER_IN_LINE_RE.test(line)) return line.replace(NUMBER_IN_LINE_RE, `$1${number}`);
+  // ترويسة بلا رقم (مكان فقط): يُضاف الرقم قبلها
+  const forced = parseForcedLine(line);
+  const body = forced ? forced.text : line.trim();
+  return `${forced ? '.' : ''}مشهد ${number} - ${body}`;
+}
+
+function rewriteNumbers(doc: ScreenplayDocument, numbers: Map<SceneHeaderNode, string>): string[] {
+  const lines = [...doc.lines];
+  numbers.forEach((number, header) => {
+    lines[header.range.start] = withSceneNumber(lines[header.range.start], number);
+  });
+  return lines;
+}
+
+/** ترقيم متسلسل من 1؛ ترويسات OMITTED تُحذف لأن لا أرقام مقفلة تحفظها */
+export function renumberScenes(doc: ScreenplayDocument): string {
+  const headers = getSceneHeaders(doc);
+  const omitted = new Set(headers.filter(isOmittedScene).map((header) => header.range.start));
+  const numbers = new Map<SceneHeaderNode, string>();
+  headers
+    .filter((header) => !omitted.has(header.range.start))
+    .forEach((header, index) => numbers.set(header, String(index + 1)));
+
+  const lines = rewriteNumbers(doc, numbers);
+  if (omitted.size === 0) return lines.join('\n');
+
+  // الترويسة المحذوفة تُزال مع الأسطر الفارغة التي تليها
+  const kept: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (omitted.has(i)) {
+      while (i + 1 < lines.length && !lines[i + 1].trim()) i++;
+      continue;
+    }
+    kept.push(lines[i]);
+  }
+  return kept.join('\n');
+}
+
+/**
+ * رقم المشهد المُدرج: لاحقة بعد سابقه (12 → 12A، و12A → 12B)،
+ * أو بادئة قبل أول مشهد مرقّم (A1 ثم B1)
+ */
+function insertedNumber(previous: string | null, following: string, used: Set<string>): string {
+  const prefixed = previous === null || /^[A-Z]/.test(previous);
+  const base = prefixed
+    ? (previous ?? following).replace(/^[A-Z]+/, '')
+    : previous.replace(/[A-Z]+$/, '');
+  const current = previous === null ? '' : prefixed ? previous.slice(0, 1) : previous.slice(base.length, base.length + 1);
+  const compose = (letter: string) => (prefixed ? `${letter}${base}` : `${base}${letter}`);
+
+  for (let i = current ? SUFFIXES.indexOf(current) + 1 : 0; i < SUFFIXES.length; i++) {
+    if (!used.has(compose(SUFFIXES[i]))) return compose(SUFFIXES[i]);
+  }
+  return compose(`${SUFFIXES[SUFFIXES.length - 1]}${SUFFIXES[0]}`);
+}
+
+/** أرقام المشاهد الحالية (تُحفظ عند القفل) */
+export function sceneNumbers(doc: ScreenplayDocument): string[] {
+  return getSceneHeaders(doc).map((header) => header.number).filter(Boolean);
+}
+
+/**
+ * ترقيم الوضع المقفل: الأرقام المقفلة ثابتة، والمشهد الجديد (بلا رقم أو برقم مكرر أو غريب)
+ * يأخذ لاحقة بعد سابقه، وما قبل أول مشهد يأخذ A1. الرقم المقفل المفقود يعود ترويسة OMITTED
+ * قبل أول مشهد يليه في الترتيب المقفل
+ */
+export function renumberLocked(doc: ScreenplayDocument, locked: string[]): string {
+  const lockedOrder = new Map(locked.map((number, index) => [number, index]));
+  const headers = getSceneHeaders(doc);
+  const used = new Set<string>();
+  // المُدرج لا يأخذ رقمًا مقفلًا وإن كان مشهده محذوفًا
+  const taken = new Set(locked);
+  const numbers = new Map<SceneHeaderNode, string>();
+
+  headers.forEach((header) => {
+    if (lockedOrder.has(header.number) && !used.has(header.number)) {
+      used.add(header.number);
+      numbers.set(header, header.number);
+    }
+  });
+
+  let previous: string | null = null;
+  headers.forEach((header, index) => {
+    let number = numbers.get(header);
+    if (number === undefined) {
+      const following = headers.slice(index + 1).map((next) => numbers.get(next)).find(Boolean) ?? locked[0] ?? '1';
+      number = insertedNumber(previous, following, taken);
+      taken.add(number);
+      numbers.set(header, number);
+    }
+    previous = number;
+  });
+
+  const lines = rewriteNumbers(doc, numbers);
+
+  // المفقود يُدرج قبل أول ترويسة يليها رقمها في الترتيب المقفل
+  const missing = locked.filter((number) => !used.has(number));
+  const inserts = new Map<number, string[]>();
+  missing.forEach((number) => {
+    const order = lockedOrder.get(number)!;
+    const before = headers.find((header) => (lockedOrder.get(numbers.get(header)!) ?? -1) > order);
+    const at = before ? before.range.start : lines.length;
+    inserts.set(at, [...(inserts.get(at) ?? []), `مشهد ${number} - ${OMITTED_PLACE}`]);
+  });
+
+  const out: string[] = [];
+  for (let i = 0; i <= lines.length; i++) {
+    const placeholders = inserts.get(i);
+    if (placeholders) {
+      if (i === lines.length && out.length > 0 && out[out.length - 1].trim()) out.push('');
+      placeholders.forEach((placeholder) => out.push(placeholder, ''));
+      if (i === lines.length) out.pop();
+    }
+    if (i < lines.length) out.push(lines[i]);
+  }
+  return out.join('\n');
+}
@@ -0,0 +1,66 @@
+import { parseScreenplayText } from './screenplay-document';
+import { buildSceneOutline, findSceneHeaderElement, formatEighths, moveScene } from './scene-outline';
+import { parseAndFormat } from './screenplay-parser';
+
+const SCRIPT = `بسم الله الرحمن الرحيم
+
+مشهد 1 - ليل-داخلي – شقة هند
+
+ترقد هند على السرير.
+
+مشهد 2 - نهار-خارجي – الشارع
+
+يسير أحمد.
+
+أحمد:
+أين أنا؟
+
+مشهد 3 - ليل-داخلي – المقهى
+يجلس أحمد وحيدًا.`;
+
+describe('scene-outline', () => {
+  test('lists scenes with number, time/location, place, page and length', () => {
+    const outline = buildSceneOutline(parseScreenplayText(SCRIPT));
+
+    expect(outline.map(({ header }) => [header.sceneNum, header.timeLocation, header.place])).toEqual([
+      ['مشهد 1', 'ليل-داخلي', 'شقة هند'],
+      ['مشهد 2', 'نهار-خارجي', 'الشارع'],
+      ['مشهد 3', 'ليل-داخلي', 'المقهى']
+    ]);
+    expect(outline.every((entry) => entry.page === 1 && entry.eighths === 1)).toBe(true);
+  });
+
+  test('page and eighths follow the word-based page estimate', () => {
+    const longAction = Array(300).fill('كلمة').join(' ');
+    const text = `مشهد 1 - ليل-داخلي – البيت\n\n${longAction}\n\nمشهد 2 - نهار-خارجي – الشارع\n\nيسير.`;
+    const [first, second] = buildSceneOutline(parseScreenplayText(text));
+
+    expect(first.eighths).toBe(10);
+    expect(second.page).toBe(2);
+    expect(formatEighths(first.eighths)).toBe('1 2/8');
+    expect(formatEighths(3)).toBe('3/8');
+    expect(formatEighths(16)).toBe('2');
+  });
+
+  test('moveScene reorders whole scene blocks and keeps the prologue first', () => {
+    const moved = moveScene(parseScreenplayText(SCRIPT), 2, 0);
+    const outline = buildSceneOutline(parseScreenplayText(moved));
+
+    expect(outline.map(({ header }) => header.place)).toEqual(['المقهى', 'شقة هند', 'الشارع']);
+    expect(moved.startsWith('بسم الله الرحمن الرحيم\n\nمشهد 3 - ليل-داخلي – المقهى\nيجلس أحمد وحيدًا.\n\nمشهد 1')).toBe(true);
+    expect(moved).toContain('أحمد:\nأين أنا؟');
+    expect(moved.endsWith('أين أنا؟')).toBe(true);
+  });
+
+  test('moving a scene back restores the original order', () => {
+    const moved = moveScene(parseScreenplayText(SCRIPT), 0, 1);
+    const restored = moveScene(parseScreenplayText(moved), 1, 0);
+    expect(restored).toBe(SCRIPT);
+  });
+
+  test('findSceneHeaderElement locates the rendered header', () => {
+    document.body.innerHTML = parseAndFormat(SCRIPT);
+    expect(findSceneHeaderElement(document.body, 1)?.textContent).toContain('الشارع');
+    expect(findSceneHeaderElement(document.body, 5)).toBeNull();
+  });
+});
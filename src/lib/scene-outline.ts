@@ -0,0 +1,83 @@
+// Scene Outline - مخطط المشاهد وإعادة ترتيبها
+// المخطط مبني على ترويسات الوثيقة الموحّدة؛ النقل يعيد ترتيب كتل أسطر المصدر فلا يمس محتوى المشاهد
+
+import { WORDS_PER_PAGE, type ScreenplayDocument, type SceneHeaderNode } from './screenplay-document';
+
+export interface SceneOutlineEntry {
+  /** ترتيب المشهد بين المشاهد ذات الترويسة */
+  index: number;
+  header: SceneHeaderNode;
+  /** الصفحة التقديرية التي يبدأ فيها المشهد */
+  page: number;
+  /** طول المشهد بأثمان الصفحة (أقلها ثمن واحد) */
+  eighths: number;
+}
+
+function countWords(lines: string[]): number {
+  return lines.join(' ').split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/** بدايات كتل المشاهد في أسطر المصدر؛ الكتلة تمتد حتى بداية التالية فتشمل الأسطر الفارغة بعدها */
+function sceneStarts(doc: ScreenplayDocument): number[] {
+  return doc.scenes.filter((scene) => scene.header).map((scene) => scene.range.start);
+}
+
+export function buildSceneOutline(doc: ScreenplayDocument): SceneOutlineEntry[] {
+  const starts = sceneStarts(doc);
+  const headers = doc.scenes.flatMap((scene) => (scene.header ? [scene.header] : []));
+
+  return headers.map((header, index) => {
+    const start = starts[index];
+    const end = index + 1 < starts.length ? starts[index + 1] : doc.lines.length;
+    const wordsBefore = countWords(doc.lines.slice(0, start));
+    const words = countWords(doc.lines.slice(start, end));
+    return {
+      index,
+      header,
+      page: Math.floor(wordsBefore / WORDS_PER_PAGE) + 1,
+      eighths: Math.max(1, Math.round((words * 8) / WORDS_PER_PAGE))
+    };
+  });
+}
+
+/** "1 3/8" بصيغة جداول الإنتاج */
+export function formatEighths(eighths: number): string {
+  const pages = Math.floor(eighths / 8);
+  const rest = eighths % 8;
+  if (!rest) return String(pages);
+  return pages ? `${pages} ${rest}/8` : `${rest}/8`;
+}
+
+function trimTrailingBlanks(lines: string[]): string[] {
+  let end = lines.length;
+  while (end > 0 && !lines[end - 1].trim()) end--;
+  return lines.slice(0, end);
+}
+
+/**
+ * نقل المشهد from ليصبح في الموضع to (فهرسان بين المشاهد ذات الترويسة).
+ * ما قبل أول ترويسة يبقى في مكانه، وبين كل كتلتين سطر فارغ واحد
+ */
+export function moveScene(doc: ScreenplayDocument, from: number, to: number): string {
+  const starts = sceneStarts(doc);
+  if (from === to || from < 0 || to < 0 || from >= starts.length || to >= starts.length) {
+    return doc.lines.join('\n');
+  }
+
+  const blocks = starts.map((start, index) =>
+    trimTrailingBlanks(doc.lines.slice(start, index + 1 < starts.length ? starts[index + 1] : doc.lines.length))
+  );
+  const [moved] = blocks.splice(from, 1);
+  blocks.splice(to, 0, moved);
+
+  const prologue = trimTrailingBlanks(doc.lines.slice(0, starts[0]));
+  return [prologue, ...blocks]
+    .filter((block) => block.length > 0)
+    .map((block) => block.join('\n'))
+    .join('\n\n');
+}
+
+/** عنصر ترويسة المشهد index في المحرر المعروض (أيًّا كان وضعه) */
+export function findSceneHeaderElement(root: HTMLElement, index: number): HTMLElement | null {
+  return root.querySelectorAll<HTMLElement>('[data-element="scene-header"]')[index] ?? null;
+}
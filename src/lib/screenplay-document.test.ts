@@ -0,0 +1,134 @@
+import {
+  getDocumentStats,
+  getSceneHeaders,
+  parseScreenplayText,
+  serializeScreenplay
+} from './screenplay-document';
+import { appendScreenplay, parseAndFormat, type BlockSink } from './screenplay-parser';
+
+const SAMPLE = `بسم الله الرحمن الرحيم
+
+مشهد 1 - داخلي-نهار – البيت الكبير
+الصالة الرئيسية
+
+يدخل أحمد من الباب الرئيسي.
+
+أحمد: (يتنهد) كان يوماً طويلاً.
+أخيراً وصلت.
+
+قطع إلى:
+
+مشهد 2 - ليل-خارجي – الحديقة
+فاطمة
+(بهمس)
+هل أنت هنا؟`;
+
+describe('screenplay-document', () => {
+  test('parses scenes with elements and source line ranges', () => {
+    const doc = parseScreenplayText(SAMPLE);
+
+    expect(doc.scenes).toHaveLength(3);
+    expect(doc.scenes[0].header).toBeNull();
+    expect(doc.scenes[1].header?.sceneNum).toBe('مشهد 1');
+    expect(doc.scenes[2].header?.number).toBe('2');
+
+    const header = getSceneHeaders(doc)[0];
+    expect(header.place).toBe('البيت الكبير – الصالة الرئيسية');
+    expect(header.range).toEqual({ start: 2, end: 3 });
+
+    const block = doc.elements.find((node) => node.type === 'dialogue-block');
+    expect(block).toMatchObject({
+      character: 'أحمد',
+      range: { start: 7, end: 8 },
+      lines: [
+        { type: 'parenthetical', text: '(يتنهد)' },
+        { type: 'dialogue', text: 'كان يوماً طويلاً.' },
+        { type: 'dialogue', text: 'أخيراً وصلت.' }
+      ]
+    });
+  });
+
+  test('recognises bare character cues only outside dialogue', () => {
+    const doc = parseScreenplayText(SAMPLE);
+    const last = doc.scenes[2].elements.filter((node) => node.type !== 'blank');
+
+    expect(last).toHaveLength(1);
+    expect(last[0]).toMatchObject({
+      type: 'dialogue-block',
+      character: 'فاطمة',
+      lines: [
+        { type: 'parenthetical', text: '(بهمس)' },
+        { type: 'dialogue', text: 'هل أنت هنا؟' }
+      ]
+    });
+  });
+
+  test('transitions with a trailing colon are not character cues', () => {
+    const doc = parseScreenplayText('قطع إلى:');
+    expect(doc.elements).toEqual([{ type: 'transition', text: 'قطع إلى:', range: { start: 0, end: 0 } }]);
+  });
+
+  test('serializes back to text that parses to the same structure', () => {
+    const doc = parseScreenplayText(SAMPLE);
+    const again = parseScreenplayText(serializeScreenplay(doc));
+
+    const shape = (d: typeof doc) =>
+      d.elements.map((node) => (node.type === 'dialogue-block' ? [node.type, node.character, node.lines.length] : node.type));
+    expect(shape(again)).toEqual(shape(doc));
+  });
+
+  test('stats count scene headers from the document model', () => {
+    const stats = getDocumentStats(parseScreenplayText(SAMPLE));
+    expect(stats.scenes).toBe(2);
+    expect(stats.pages).toBe(1);
+  });
+
+  test('simple and paginated renderers classify lines identically', () => {
+    const classes: string[] = [];
+    const sink: BlockSink = {
+      appendBlock: (build) => {
+        const node = build();
+        classes.push(node.className);
+        node.querySelectorAll('[class]').forEach((child) => classes.push(child.className));
+      },
+      appendTextParagraph: (_text, className) => classes.push(className)
+    };
+    appendScreenplay(sink, SAMPLE);
+
+    const html = parseAndFormat(SAMPLE);
+    expect(classes.filter((c) => c === 'character')).toHaveLength(2);
+    expect(classes.filter((c) => c === 'transition')).toHaveLength(1);
+    expect(html).toContain('>أحمد<');
+    expect(html).toContain('>فاطمة<');
+    expect(html).toContain('>قطع إلى:<');
+  });
+
+  test('forced markers override the heuristics and survive serialization', () => {
+    const doc = parseScreenplayText(['@قطع', '~إلى أين؟', '', '!أحمد', '', '>نهاية', '', '.الحديقة'].join('\n'));
+    const nodes = doc.elements.filter((node) => node.type !== 'blank');
+
+    expect(nodes[0]).toMatchObject({
+      type: 'dialogue-block',
+      character: 'قطع',
+      forced: true,
+      lines: [{ type: 'dialogue', text: 'إلى أين؟', forced: true }]
+    });
+    expect(nodes[1]).toMatchObject({ type: 'action', text: 'أحمد', forced: true });
+    expect(nodes[2]).toMatchObject({ type: 'transition', text: 'نهاية', forced: true });
+    expect(nodes[3]).toMatchObject({ type: 'scene-header', place: 'الحديقة', forced: true });
+
+    const html = parseAndFormat('!أحمد');
+    expect(html).toContain('data-element="action" data-forced="true"');
+    expect(html).not.toContain('!');
+  });
+
+  test('serialization keeps forced markers so a re-parse gives the same elements', () => {
+    const text = ['@قطع', '~إلى أين؟', '&(بهمس)', '', '!أحمد', '', '>نهاية', '', '.الحديقة', '', 'أحمد:', 'مرحبًا.'].join('\n');
+    const doc = parseScreenplayText(text);
+    const serialized = serializeScreenplay(doc);
+
+    expect(serialized).toContain('@قطع\n~إلى أين؟\n&(بهمس)');
+    expect(serialized).toContain('أحمد:\nمرحبًا.');
+    expect(parseScreenplayText(serialized).elements).toEqual(doc.elements);
+  });
+});
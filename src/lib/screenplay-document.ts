@@ -0,0 +1,187 @@
+// Screenplay Document Model - نموذج وثيقة السيناريو الموحّد
+// شجرة موحّدة (مشاهد → عناصر) ينتجها محلل واحد وتستهلكها طبقات العرض والترقيم والإحصاء والتصدير
+
+import { forceLine, parseScreenplay } from './screenplay-line-classifier';
+
+/** نطاق أسطر المصدر (فهرس صفري، شامل للطرفين) */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+interface NodeBase {
+  range: SourceRange;
+  /** نوع فرضه الكاتب صراحة (ببادئة في النص)، فلا تغيّره الاستدلالات */
+  forced?: boolean;
+  /** تخمين بثقة دون LOW_CONFIDENCE (screenplay-line-classifier.ts) */
+  uncertain?: boolean;
+}
+
+export interface BasmalaNode extends NodeBase {
+  type: 'basmala';
+  text: string;
+}
+
+export interface SceneHeaderNode extends NodeBase {
+  type: 'scene-header';
+  /** "مشهد N" بصيغة موحّدة */
+  sceneNum: string;
+  /** رقم المشهد كما كُتب بعد توحيد الأرقام (مثل "12") */
+  number: string;
+  /** "داخلي-نهار" أو "ليل-داخلي" بعد توحيد الشرطات */
+  timeLocation: string;
+  /** المكان التفصيلي كما كتبه المؤلف */
+  place: string;
+}
+
+export interface ActionNode extends NodeBase {
+  type: 'action';
+  text: string;
+}
+
+export interface TransitionNode extends NodeBase {
+  type: 'transition';
+  text: string;
+}
+
+/** إرشاد منفرد خارج كتلة حوار */
+export interface ParentheticalNode extends NodeBase {
+  type: 'parenthetical';
+  text: string;
+}
+
+export interface DialogueLine extends NodeBase {
+  type: 'parenthetical' | 'dialogue';
+  text: string;
+  /** سطر ترجمة عربي لحوار سرياني سابق */
+  isTranslation?: boolean;
+  /** لغة السطر إن لزم (ar | syc | ...) */
+  lang?: string;
+}
+
+export interface DialogueBlockNode extends NodeBase {
+  type: 'dialogue-block';
+  /** اسم الشخصية كما كُتب دون النقطتين */
+  character: string;
+  lines: DialogueLine[];
+}
+
+export interface BlankNode extends NodeBase {
+  type: 'blank';
+}
+
+/** نوع السطر كما يختاره الكاتب: عناصر الوثيقة مع تفكيك كتلة الحوار إلى شخصية وإرشاد وحوار */
+export type LineElement =
+  | 'basmala'
+  | 'scene-header'
+  | 'action'
+  | 'character'
+  | 'parenthetical'
+  | 'dialogue'
+  | 'transition';
+
+export type ScreenplayNode =
+  | BasmalaNode
+  | SceneHeaderNode
+  | ActionNode
+  | TransitionNode
+  | ParentheticalNode
+  | DialogueBlockNode
+  | BlankNode;
+
+export interface SceneNode {
+  /** null للمقدّمة الواقعة قبل أول ترويسة */
+  header: SceneHeaderNode | null;
+  /** عناصر المشهد بعد الترويسة */
+  elements: ScreenplayNode[];
+  range: SourceRange;
+}
+
+/** قرار المصنّف في سطر مصدر واحد */
+export interface LineClassification {
+  /** null للسطر الفارغ؛ سطر الشخصية يبقى شخصية وإن حمل حوارًا */
+  element: LineElement | null;
+  /** من 0 إلى 1؛ السطر المفروض 1 والحركة بالاستبعاد أدناها */
+  confidence: number;
+  /** بادئة الكاتب، أو استدلالات القواعد، أو النموذج المتعلّم من التصحيحات */
+  source: 'forced' | 'rules' | 'learned';
+}
+
+export interface ScreenplayDocument {
+  /** أسطر المصدر كما وردت */
+  lines: string[];
+  /** قرار كل سطر مصدر وثقته */
+  classification: LineClassification[];
+  /** العناصر بالترتيب */
+  elements: ScreenplayNode[];
+  /** العناصر مجمّعة حسب المشاهد */
+  scenes: SceneNode[];
+}
+
+export interface ScreenplayStats {
+  scenes: number;
+  words: number;
+  pages: number;
+}
+
+/** تقدير الصفحة المعتمد في الإحصاءات ومخطط المشاهد */
+export const WORDS_PER_PAGE = 250;
+
+/** تحويل النص إلى وثيقة (يقبل نهايات أسطر ويندوز) */
+export function parseScreenplayText(text: string): ScreenplayDocument {
+  return parseScreenplay((text ?? '').replace(/\r\n?/g, '\n').split('\n'));
+}
+
+/** ترويسات المشاهد بالترتيب */
+export function getSceneHeaders(doc: ScreenplayDocument): SceneHeaderNode[] {
+  return doc.elements.filter((node): node is SceneHeaderNode => node.type === 'scene-header');
+}
+
+/** نص ترويسة المشهد في سطر واحد بالصيغة القياسية */
+export function formatSceneHeaderLine(node: SceneHeaderNode): string {
+  const head = node.timeLocation ? `${node.sceneNum} - ${node.timeLocation}` : node.sceneNum;
+  // ترويسة مفروضة دون رقم مشهد: المكان وحده
+  if (!head) return node.place;
+  return node.place ? `${head} – ${node.place}` : head;
+}
+
+/** إعادة كتابة الوثيقة نصًا قياسيًا (يُستخدم للتصدير)؛ العنصر المفروض يحتفظ ببادئته */
+export function serializeScreenplay(doc: ScreenplayDocument): string {
+  const out: string[] = [];
+  const write = (type: LineElement, text: string, forced?: boolean) => out.push(forced ? forceLine(type, text) : text);
+
+  for (const node of doc.elements) {
+    switch (node.type) {
+      case 'blank':
+        out.push('');
+        break;
+      case 'scene-header':
+        write('scene-header', formatSceneHeaderLine(node), node.forced);
+        break;
+      case 'dialogue-block':
+        if (node.character) write('character', node.forced ? node.character : `${node.character}:`, node.forced);
+        node.lines.forEach((line) => {
+          write(line.type, line.isTranslation ? `(${line.text})` : line.text, line.forced);
+        });
+        break;
+      default:
+        write(node.type, node.text, node.forced);
+        break;
+    }
+  }
+
+  return out.join('\n');
+}
+
+/** إحصائيات موحّدة: عدد المشاهد والكلمات وتقدير الصفحات */
+export function getDocumentStats(doc: ScreenplayDocument): ScreenplayStats {
+  const scenes = getSceneHeaders(doc).length;
+  const words = doc.lines
+    .join(' ')
+    .trim()
+    .split(/\s+/)
+    .filter((word) => word.length > 0).length;
+  const pages = Math.max(1, Math.ceil(words / WORDS_PER_PAGE));
+
+  return { scenes, words, pages };
+}
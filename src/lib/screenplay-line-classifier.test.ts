@@ -41,6 +41,12 @@ describe('screenplay-line-classifier', () => {
     });
   });
 
+  test('extractSceneHeaderParts keeps a name-like place that precedes a blank line', () => {
+    const parts = extractSceneHeaderParts(['مشهد 1 - داخلي-نهار', 'بيت أحمد', '', 'يدخل أحمد.'], 0);
+    expect(parts?.place).toBe('بيت أحمد');
+    expect(parts?.consumedLines).toBe(2);
+  });
+
   test('character detection ignores transitions and scene headers', () => {
     expect(isCharacterLine('أحمد')).toBe(true);
     expect(isCharacterLine('مشهد 1 - داخلي')).toBe(false);
@@ -8,8 +8,23 @@
  * - transition
  * - action (بالاستبعاد)
  * - التمييز بين "الترجمة العربية لحوار سرياني" و Parenthetical
+ *
+ * هذا هو المحلل الوحيد للأسطر: parseScreenplay يبني شجرة الوثيقة
+ * (screenplay-document.ts) وتستهلكها طبقات العرض والترقيم والإحصاء والتصدير.
  */
 
+import type {
+  DialogueBlockNode,
+  DialogueLine,
+  LineClassification,
+  LineElement,
+  ScreenplayDocument,
+  ScreenplayNode,
+  SceneNode
+} from './screenplay-document';
+import { getActiveRules } from './classification-rules';
+import { getLineModel, predictLine, type LineExample } from './line-model';
+
 export type ElementType =
   | 'basmala'
   | 'scene-header-1'
@@ -50,7 +65,7 @@ const SYRIAC_RANGE_RE = /[\u0700-\u074F]/; // حروف سريانية
 const ARABIC_RANGE_RE = /[ء-ي]/; // حروف عربية تقريبية
 const LATIN_RANGE_RE = /[A-Za-z]/; // حروف لاتينية
 
-function easternToWesternDigits(s: string): string {
+export function easternToWesternDigits(s: string): string {
   let out = '';
   for (const ch of s) {
     const idx = EASTERN_DIGITS.indexOf(ch);
@@ -59,9 +74,9 @@ function easternToWesternDigits(s: string): string {
   return out;
 }
 
-function stripTashkeel(s: string): string {
-  // إزالة التشكيل والعلامات الحركية الشائعة
-  return s.replace(/[\u0610-\u061A\u064B-\u065F\u06D6-\u06ED]/g, '');
+export function stripTashkeel(s: string): string {
+  // إزالة التشكيل والعلامات الحركية الشائعة (بما فيها الألف الخنجرية)
+  return s.replace(/[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g, '');
 }
 
 /** توحيد الشرطات والفواصل إلى "-" عند الحاجة (يُستخدم لعناوين المشهد) */
@@ -94,14 +109,19 @@ function trimLooseParens(s: string): string {
 
 const BASMALA_RE = /^\s*بسم\s+الله\s+الرحمن\s+الرحيم\s*$/;
 
+// الرقم قد يحمل لاحقة أو بادئة المشاهد المُدرجة في النسخة المقفلة (12A، A1)
 const SCENE_PREFIX_RE = new RegExp(
-  String.raw`^\s*(?:مشهد|م\.)\s*([0-9]+)\s*(?:[-–—:،]\s*)?(.*)$`,
+  String.raw`^\s*(?:مشهد|م\.)\s*([A-Z]{0,2}[0-9]+[A-Z]{0,2})\s*(?:[-–—:،]\s*)?(.*)$`,
   'i'
 );
 
-// IN/OUT و TIME كما في المواصفات، مع قبول الاختصارات
-const INOUT_PART = String.raw`(?:داخلي|خارجي|د\.|خ\.)`;
-const TIME_PART = String.raw`(?:ليل|نهار|ل\.|ن\.|صباح|مساء|فجر|ظهر|عصر|مغرب|الغروب|الفجر)`;
+// مفردات IN/OUT و TIME كما في المواصفات (يقترحها المحرر أثناء كتابة الترويسة)
+export const INOUT_WORDS = ['داخلي', 'خارجي'];
+export const TIME_WORDS = ['ليل', 'نهار', 'صباح', 'مساء', 'فجر', 'ظهر', 'عصر', 'مغرب', 'الغروب', 'الفجر'];
+
+// مع قبول الاختصارات
+const INOUT_PART = String.raw`(?:${[...INOUT_WORDS, 'د\\.', 'خ\\.'].join('|')})`;
+const TIME_PART = String.raw`(?:${[...TIME_WORDS, 'ل\\.', 'ن\\.'].join('|')})`;
 
 // يدعم: (INOUT[-]?TIME | TIME[-]?INOUT)
 const TL_REGEX = new RegExp(
@@ -109,19 +129,57 @@ const TL_REGEX = new RegExp(
   'i'
 );
 
-// اسم شخصية عربي محتمل (يسمح بـ"صوت ")
-const CHARACTER_RE = new RegExp(
-  String.raw`^\s*(?:صوت\s+)?[${AR_AB_LETTER}][${AR_AB_LETTER}\s]{0,40}\s*:?\s*$`
+// الصيغ نفسها على السطر الأصلي (قبل التطبيع) لاستخراج المكان كما كُتب
+const RAW_SCENE_PREFIX_RE = /^\s*(?:مشهد|م\.)\s*[A-Z]{0,2}[0-9٠-٩]+[A-Z]{0,2}\s*(?:[-–—:،]\s*)?/i;
+const RAW_TL_REGEX = new RegExp(
+  String.raw`(?:${INOUT_PART}\s*[-–—:،]?\s*${TIME_PART}|${TIME_PART}\s*[-–—:،]?\s*${INOUT_PART})`,
+  'i'
 );
 
-// انتقالات عربية/إنجليزية شائعة
-const TRANSITION_RE = /^\s*(?:قطع|قطع\s+إلى|إلى|مزج|ذوبان|خارج\s+المشهد|CUT TO:|FADE IN:|FADE OUT:)\s*$/i;
+// أنماط الشخصية والانتقال وأفعال الحركة والكلمات الوظيفية من ملف القواعد النشط (classification-rules.ts)
 
 // سطر بين قوسين (إرشاد) — تطابق صارم
 const PARENTHETICAL_RE = /^\s*\(.*?\)\s*$/;
 
-// heuristics لمؤشرات أفعال حركة عربية شائعة (للمساعدة فقط)
-const ACTION_VERBS = /^(?:يدخل|يخرج|ينظر|يرفع|تبتسم|ترقد|تقف|يبتسم|يضع|يقول|تنظر|تربت|تقوم|يشق|تشق|تضرب|يسحب|يلتفت)\b/;
+// إرشاد في بداية حوار مكتوب على سطر الشخصية: "(بهمس) نص الحوار"
+const LEADING_PARENTHETICAL_RE = /^(\([^()]*\))\s*(.*)$/;
+
+// نهاية جملة سردية: لا تكون امتدادًا لمكان المشهد
+const SENTENCE_END_RE = /[.؟?!…]\s*$/;
+
+/**
+ * بادئات فرض النوع: سطر يبدأ بإحداها يأخذ نوعها مهما قالت الاستدلالات.
+ * الأربع الأولى من Fountain، والباقي امتداد لعناصر لا مقابل لها فيه.
+ */
+export const FORCED_MARKERS: Record<LineElement, string> = {
+  'scene-header': '.',
+  action: '!',
+  character: '@',
+  transition: '>',
+  dialogue: '~',
+  parenthetical: '&',
+  basmala: '^'
+};
+
+const FORCED_BY_MARKER = new Map(
+  (Object.entries(FORCED_MARKERS) as Array<[LineElement, string]>).map(([type, marker]) => [marker, type])
+);
+
+/** نوع السطر المفروض ونصه دون البادئة، أو null إن لم يكن مفروضًا */
+export function parseForcedLine(raw: string): { type: LineElement; text: string } | null {
+  const line = (raw ?? '').replace(/^[\s\u200f\u200e\ufeff]+/, '');
+  const type = FORCED_BY_MARKER.get(line[0]);
+  if (!type) return null;
+  // "..." بداية حوار متقطع لا ترويسة، و">نص<" توسيط في Fountain لا انتقال
+  if (type === 'scene-header' && line[1] === '.') return null;
+  if (type === 'transition' && line.trimEnd().endsWith('<')) return null;
+  return { type, text: line.slice(1).trim() };
+}
+
+/** سطر نصي يفرض النوع على محتواه */
+export function forceLine(type: LineElement, text: string): string {
+  return `${FORCED_MARKERS[type]}${text}`;
+}
 
 /** هل السطر فارغ (بعد التطبيع)؟ */
 function isBlank(line: string): boolean {
@@ -148,7 +206,7 @@ export function parseSceneHeaderFromLine(
   const m = line.match(SCENE_PREFIX_RE);
   if (!m) return null;
 
-  const sceneNumDigits = m[1];
+  const sceneNumDigits = m[1].toUpperCase();
   const rest = m[2] ?? '';
 
   let timeLocation = '';
@@ -164,6 +222,16 @@ export function parseSceneHeaderFromLine(
     placeInline = rest.trim();
   }
 
+  // فضّل المكان من السطر الأصلي (يحافظ على التشكيل والشرطات الطويلة)
+  const rawRest = (rawLine ?? '').replace(/\u200f|\u200e|\ufeff/g, '').replace(RAW_SCENE_PREFIX_RE, '');
+  if (rawRest !== rawLine) {
+    const rawTl = tl ? rawRest.match(RAW_TL_REGEX) : null;
+    if (!tl || rawTl) {
+      const rawPlace = rawTl ? rawRest.slice((rawTl.index ?? 0) + rawTl[0].length) : rawRest;
+      placeInline = rawPlace.replace(/^[\s\-–—:،]+/, '').replace(/\s+/g, ' ').trim();
+    }
+  }
+
   // بناء رقم المشهد الموحّد
   const sceneNum = `مشهد ${sceneNumDigits}`;
   return { sceneNum, timeLocation, placeInline };
@@ -172,15 +240,65 @@ export function parseSceneHeaderFromLine(
 /** هل هو انتقال؟ */
 export function isTransition(line: string): boolean {
   const s = normalizeLine(line);
-  return TRANSITION_RE.test(s);
+  return getActiveRules().transition.test(s);
+}
+
+/** هل يصلح النص اسمًا لشخصية؟ (بلا كلمات وظيفية ولا أفعال حركة) */
+function isPlausibleName(name: string): boolean {
+  const s = normalizeLine(name).replace(/^\s*صوت\s+/, '').trim();
+  if (!s) return false;
+  const rules = getActiveRules();
+  if (rules.actionVerb.test(s)) return false;
+  const words = s.split(/\s+/);
+  if (words.length > 4) return false;
+  return !words.some((word) => rules.stopWords.has(word));
+}
+
+/** اسم شخصية منفرد دون نقطتين: أقصر وأكثر تحفظًا (لا "ال" التعريف إلا بعد "عبد") */
+function isBareCharacterName(line: string): boolean {
+  const s = normalizeLine(line);
+  if (!getActiveRules().character.test(s)) return false;
+  if (!isPlausibleName(s)) return false;
+  const words = s.replace(/^\s*صوت\s+/, '').trim().split(/\s+/);
+  if (words.length > 3) return false;
+  return words.every((word, i) => !word.startsWith('ال') || words[i - 1] === 'عبد');
+}
+
+/**
+ * حلّل سطر شخصية: "الاسم:" أو "الاسم (امتداد): حوار" أو اسم منفرد.
+ * يعيد الاسم كما كُتب والنص اللاحق للنقطتين إن وُجد.
+ */
+export function parseCharacterCue(
+  rawLine: string
+): { name: string; extension: string; inline: string } | null {
+  const s = normalizeLine(rawLine);
+  if (!s.trim() || isSceneHeaderStart(s) || isTransition(s) || isBasmala(s)) return null;
+
+  const m = s.match(getActiveRules().characterCue);
+  if (m) {
+    if (!isPlausibleName(m[1])) return null;
+    // استخرج الأجزاء من السطر الأصلي للحفاظ على التشكيل
+    const raw = (rawLine ?? '').replace(/\u200f|\u200e|\ufeff/g, '');
+    const colon = raw.search(/[:：]/);
+    const head = raw.slice(0, colon).trim();
+    const inline = raw.slice(colon + 1).trim();
+    const ext = head.match(/\s*(\([^()]*\))\s*$/);
+    return {
+      name: ext ? head.slice(0, ext.index).trim() : head,
+      extension: ext ? ext[1] : '',
+      inline
+    };
+  }
+
+  if (isBareCharacterName(s)) {
+    return { name: (rawLine ?? '').trim(), extension: '', inline: '' };
+  }
+  return null;
 }
 
 /** هل هو اسم شخصية؟ (يسمح بدون نقطتين، وبـ"صوت ...") */
 export function isCharacterLine(line: string): boolean {
-  const s = normalizeLine(line);
-  if (isSceneHeaderStart(s)) return false;
-  if (isTransition(s)) return false;
-  return CHARACTER_RE.test(s);
+  return parseCharacterCue(line) !== null;
 }
 
 /** هل هو سطر إرشاد داخل الحوار؟ (مطابقة الأقواس فقط) */
@@ -203,7 +321,7 @@ function isLikelyParentheticalSemantics(raw: string): boolean {
   return true;
 }
 
-/** هل يُحتمل أن يكون Action؟ (بالاستبعاد + أفعال) */
+/** هل يُحتمل أن يكون Action؟ (يستبعد العناصر الأخرى، ثم يشترط فعل حركة في أوله) */
 export function isLikelyAction(line: string): boolean {
   const s = normalizeLine(line);
   if (!s) return false;
@@ -212,7 +330,7 @@ export function isLikelyAction(line: string): boolean {
   if (isTransition(s)) return false;
   if (isParenthetical(s)) return false; // قد يُعاد تصنيفه أدناه عند فحص الترجمة
   if (isCharacterLine(s)) return false;
-  return ACTION_VERBS.test(s) || true;
+  return getActiveRules().actionVerb.test(s.trim());
 }
 
 /**
@@ -236,33 +354,32 @@ export function extractSceneHeaderParts(
   let place = placeInline;
   let consumed = 1;
 
-  // اجمع امتدادات المكان من الأسطر التالية
+  // اجمع امتدادات المكان من الأسطر التالية حتى أول فراغ أو عنصر جديد
   let i = startIndex + 1;
   while (i < lines.length) {
     const nextRaw = lines[i] ?? '';
     const next = normalizeLine(nextRaw);
 
-    if (isBlank(next)) {
-      consumed++;
-      i++;
-      continue;
-    }
+    if (isBlank(next)) break;
 
-    // توقّف عند أول عنصر جديد واضح
+    // توقّف عند أول عنصر جديد واضح أو جملة سردية
     if (
       isSceneHeaderStart(next) ||
       isTransition(next) ||
-      isCharacterLine(next) ||
+      // اسم شخصية بلا نقطتين يبدأ حوارًا فقط قبل سطر غير فارغ، كما في الحلقة الرئيسية
+      (isCharacterLine(next) && (/[:：]/.test(next) || !isBlank(normalizeLine(lines[i + 1] ?? '')))) ||
       isParenthetical(next) || // لا نلحق قوسًا كمكان
-      isBasmala(next)
+      isBasmala(next) ||
+      getActiveRules().actionVerb.test(next.trim()) ||
+      SENTENCE_END_RE.test(next)
     ) {
       break;
     }
 
-    // خلاف ذلك اعتبره استمرارًا للمكان التفصيلي
-    const normalizedNext = normalizeSeparators(next).replace(/^\s*-\s*/, '').trim();
-    if (normalizedNext) {
-      place = place ? `${place} – ${normalizedNext}` : normalizedNext;
+    // خلاف ذلك اعتبره استمرارًا للمكان التفصيلي (كما كُتب)
+    const continuation = nextRaw.replace(/^[\s\-–—:،]+/, '').replace(/\s+/g, ' ').trim();
+    if (continuation) {
+      place = place ? `${place} – ${continuation}` : continuation;
     }
     consumed++;
     i++;
@@ -271,42 +388,213 @@ export function extractSceneHeaderParts(
   return { sceneNum, timeLocation, place: place.trim(), consumedLines: consumed };
 }
 
+/** تجميع العناصر المتتالية في مشاهد تبدأ كل منها بترويسة */
+function groupScenes(elements: ScreenplayNode[]): SceneNode[] {
+  const scenes: SceneNode[] = [];
+  let current: SceneNode | null = null;
+
+  for (const node of elements) {
+    if (node.type === 'scene-header') {
+      current = { header: node, elements: [], range: { ...node.range } };
+      scenes.push(current);
+      continue;
+    }
+
+    if (!current) {
+      current = { header: null, elements: [], range: { ...node.range } };
+      scenes.push(current);
+    }
+
+    current.elements.push(node);
+    current.range.end = node.range.end;
+  }
+
+  return scenes;
+}
+
+/** أسطر كتلة الحوار المكتوبة على سطر الشخصية نفسه */
+function splitInlineDialogue(inline: string, index: number): DialogueLine[] {
+  const range = { start: index, end: index };
+  const m = inline.match(LEADING_PARENTHETICAL_RE);
+  if (!m) {
+    return [{ type: 'dialogue', text: inline, range, lang: 'ar' }];
+  }
+  const out: DialogueLine[] = [{ type: 'parenthetical', text: m[1], range }];
+  if (m[2].trim()) {
+    out.push({ type: 'dialogue', text: m[2].trim(), range: { ...range }, lang: 'ar' });
+  }
+  return out;
+}
+
+/** ثقة القواعد في كل قرار؛ ما دون LEARNED_OVERRIDE_BELOW يُعرض على النموذج المتعلّم */
+const RULE_CONFIDENCE = {
+  certain: 1,
+  sceneHeader: 0.95,
+  sceneHeaderContinuation: 0.7,
+  transition: 0.9,
+  explicitCue: 0.9,
+  bareCue: 0.6,
+  blockParenthetical: 0.85,
+  translation: 0.7,
+  dialogue: 0.7,
+  parenthetical: 0.7,
+  actionVerb: 0.8,
+  actionProse: 0.65,
+  actionByExclusion: 0.4
+};
+
+/** ما دونها تخمين يُنبَّه إليه الكاتب في المحرر */
+export const LOW_CONFIDENCE = 0.65;
+
+const LEARNED_OVERRIDE_BELOW = 0.8;
+
+const VERB_PREFIX_RE = /^(?:بي|بت|بن|ي|ت|ن)[\u0600-\u06FF]{2,}(?=\s|$)/;
+
+/** خصائص السطر للنموذج المتعلّم (line-model.ts) */
+export function lineFeatures(raw: string, previous: LineElement | null | 'start'): string[] {
+  const s = normalizeLine(raw).trim();
+  const words = s ? s.split(/\s+/).length : 0;
+  const indent = (raw ?? '').match(/^[ \t\u00a0]*/)![0].replace(/\t/g, '    ').length;
+  const rules = getActiveRules();
+  return [
+    `len:${words <= 1 ? '1' : words <= 3 ? '3' : words <= 8 ? '8' : 'long'}`,
+    `colon:${/[:：]$/.test(s) ? 'end' : /[:：]/.test(s) ? 'inside' : 'none'}`,
+    `paren:${PARENTHETICAL_RE.test(s) ? 'wrap' : s.startsWith('(') ? 'open' : 'none'}`,
+    `verb:${rules.actionVerb.test(s) ? 'rule' : VERB_PREFIX_RE.test(s) ? 'prefix' : 'none'}`,
+    `end:${/[؟?]$/.test(s) ? 'question' : SENTENCE_END_RE.test(s) ? 'sentence' : 'none'}`,
+    `indent:${indent === 0 ? 'none' : indent < 8 ? 'some' : 'deep'}`,
+    `prev:${previous ?? 'blank'}`
+  ];
+}
+
+const previousElement = (classification: LineClassification[], idx: number) =>
+  idx === 0 ? 'start' : classification[idx - 1].element;
+
+/** تصحيحات الكاتب في الوثيقة (الأسطر المفروضة) أمثلةً لتدريب النموذج */
+export function correctionExamples(doc: ScreenplayDocument): LineExample[] {
+  return doc.classification.flatMap((entry, idx) => {
+    const forced = entry.source === 'forced' ? parseForcedLine(doc.lines[idx]) : null;
+    if (!forced || entry.element === null) return [];
+    const previous = previousElement(doc.classification, idx);
+    return [{
+      key: `${previous ?? 'blank'}|${normalizeLine(forced.text).trim()}`,
+      features: lineFeatures(forced.text, previous),
+      element: entry.element
+    }];
+  });
+}
+
 /**
- * صنّف وثيقة كاملة (مصفوفة أسطر) وأخرج الهيكل المطلوب.
- * الحوار يُجمع كسجلّات {character, text} مع دعم isTranslation للحالات المترجمة.
+ * حلّل وثيقة كاملة (مصفوفة أسطر) إلى شجرة عناصر موحّدة مع نطاقات الأسطر.
+ * ترتيب الأولوية: بسملة ← ترويسة مشهد ← انتقال ← شخصية ← (داخل الحوار) إرشاد/ترجمة/حوار ← إرشاد منفرد ← حركة.
  */
-export function classifyDocument(lines: string[]): ExtractResult {
-  const out: ExtractResult = {
-    'scene-header-1': [],
-    'scene-header-2': [],
-    'scene-header-3': [],
-    action: [],
-    character: [],
-    parenthetical: [],
-    dialogue: [],
-    transition: []
+export function parseScreenplay(lines: string[]): ScreenplayDocument {
+  const doc = parseLines(lines, new Map());
+  const model = getLineModel();
+  if (!model) return doc;
+
+  // النموذج يغلب القواعد حين تكون ثقته أعلى من ثقتها في السطر
+  const hints = new Map<number, { type: LineElement; confidence: number }>();
+  doc.classification.forEach((entry, idx) => {
+    if (entry.source !== 'rules' || entry.element === null || entry.confidence >= LEARNED_OVERRIDE_BELOW) return;
+    const prediction = predictLine(model, lineFeatures(lines[idx], previousElement(doc.classification, idx)));
+    if (prediction && prediction.element !== entry.element && prediction.confidence > entry.confidence) {
+      hints.set(idx, { type: prediction.element, confidence: prediction.confidence });
+    }
+  });
+  return hints.size > 0 ? parseLines(lines, hints) : doc;
+}
+
+/** التحليل بالقواعد؛ hints أنواع يقترحها النموذج تُعامل كالمفروضة دون أن تُعلَّم forced */
+function parseLines(lines: string[], hints: Map<number, { type: LineElement; confidence: number }>): ScreenplayDocument {
+  const elements: ScreenplayNode[] = [];
+  const classification: LineClassification[] = lines.map(() => ({ element: null, confidence: 1, source: 'rules' }));
+  const classify = (idx: number, element: LineElement, confidence: number, source: LineClassification['source'] = 'rules') => {
+    classification[idx] = { element, confidence, source };
   };
 
-  let currentCharacter: string | null = null;
+  let block: DialogueBlockNode | null = null;
   /** آخر سياق حوار: 'syriac' عند وجود حروف سريانية، 'translation' عند إضافة ترجمة عربية، null خلاف ذلك */
   let lastDialogueContext: 'syriac' | 'translation' | null = null;
 
+  const closeBlock = () => {
+    block = null;
+    lastDialogueContext = null;
+  };
+
+  const nextIsBlank = (idx: number) => isBlank(normalizeLine(lines[idx + 1] ?? ''));
+
   for (let idx = 0; idx < lines.length; idx++) {
     const raw = lines[idx] ?? '';
     const line = normalizeLine(raw);
+    const range = { start: idx, end: idx };
 
     if (isBlank(line)) {
       // إنهاء حوار جارٍ عند فراغ
-      currentCharacter = null;
-      lastDialogueContext = null;
+      closeBlock();
+      elements.push({ type: 'blank', range });
+      continue;
+    }
+
+    // 0) نوع فرضه الكاتب، أو اقترحه النموذج المتعلّم
+    const marked = parseForcedLine(raw);
+    const hint = marked ? undefined : hints.get(idx);
+    const forced = marked ?? (hint ? { type: hint.type, text: raw.trim() } : null);
+    if (forced) {
+      const { type, text } = forced;
+      const flag = marked ? { forced: true as const } : {};
+      classify(idx, type, hint ? hint.confidence : RULE_CONFIDENCE.certain, marked ? 'forced' : 'learned');
+      if (type === 'dialogue' || type === 'parenthetical') {
+        // حوار مفروض دون شخصية قبله يفتح كتلة بلا اسم (استمرار لحوار سابق)
+        if (!block) {
+          const opened: DialogueBlockNode = { type: 'dialogue-block', character: '', lines: [], range };
+          elements.push(opened);
+          block = opened;
+        }
+        const current: DialogueBlockNode = block;
+        current.lines.push(
+          type === 'dialogue'
+            ? { type, text, range, lang: SYRIAC_RANGE_RE.test(text) ? 'syc' : 'ar', ...flag }
+            : { type, text, range, ...flag }
+        );
+        current.range.end = idx;
+        continue;
+      }
+
+      closeBlock();
+      if (type === 'character') {
+        const cue = parseCharacterCue(text);
+        const opened: DialogueBlockNode = {
+          type: 'dialogue-block',
+          character: cue ? (cue.extension ? `${cue.name} ${cue.extension}` : cue.name) : text.replace(/[:：]\s*$/, ''),
+          lines: cue?.inline ? splitInlineDialogue(cue.inline, idx) : [],
+          range,
+          ...flag
+        };
+        elements.push(opened);
+        block = opened;
+      } else if (type === 'scene-header') {
+        const parts = extractSceneHeaderParts([text], 0);
+        elements.push({
+          type: 'scene-header',
+          sceneNum: parts?.sceneNum ?? '',
+          number: parts ? parts.sceneNum.replace(/^مشهد\s*/, '') : '',
+          timeLocation: parts?.timeLocation ?? '',
+          place: parts ? parts.place : text,
+          range,
+          ...flag
+        });
+      } else {
+        elements.push({ type, text, range, ...flag });
+      }
       continue;
     }
 
     // 1) Basmala
     if (isBasmala(line)) {
-      out.basmala = raw.trim();
-      currentCharacter = null;
-      lastDialogueContext = null;
+      closeBlock();
+      classify(idx, 'basmala', RULE_CONFIDENCE.certain);
+      elements.push({ type: 'basmala', text: raw.trim(), range });
       continue;
     }
 
@@ -315,76 +603,173 @@ export function classifyDocument(lines: string[]): ExtractResult {
       const parts = extractSceneHeaderParts(lines, idx);
       if (parts) {
         const { sceneNum, timeLocation, place, consumedLines } = parts;
-        out['scene-header-1'].push(sceneNum);
-        if (timeLocation) out['scene-header-2'].push(timeLocation);
-        if (place) out['scene-header-3'].push(place);
+        closeBlock();
+        for (let line = idx; line < idx + consumedLines; line++) {
+          classify(line, 'scene-header', line === idx ? RULE_CONFIDENCE.sceneHeader : RULE_CONFIDENCE.sceneHeaderContinuation);
+        }
+        elements.push({
+          type: 'scene-header',
+          sceneNum,
+          number: sceneNum.replace(/^مشهد\s*/, ''),
+          timeLocation,
+          place,
+          range: { start: idx, end: idx + consumedLines - 1 }
+        });
         idx += consumedLines - 1;
-        currentCharacter = null;
-        lastDialogueContext = null;
         continue;
       }
     }
 
     // 3) Transition
     if (isTransition(line)) {
-      out.transition.push(raw.trim());
-      currentCharacter = null;
-      lastDialogueContext = null;
+      closeBlock();
+      classify(idx, 'transition', RULE_CONFIDENCE.transition);
+      elements.push({ type: 'transition', text: raw.trim(), range });
       continue;
     }
 
-    // 4) Character
-    if (isCharacterLine(line)) {
-      const name = raw.replace(/:\s*$/, '').trim();
-      out.character.push(name);
-      currentCharacter = name;
-      lastDialogueContext = null;
+    // 4) Character: بنقطتين دائمًا، ومنفردًا فقط خارج الحوار وقبل سطر غير فارغ
+    const cue = parseCharacterCue(raw);
+    const isExplicitCue = cue !== null && /[:：]/.test(line);
+    if (cue && (isExplicitCue || (!block && !nextIsBlank(idx)))) {
+      closeBlock();
+      classify(idx, 'character', isExplicitCue ? RULE_CONFIDENCE.explicitCue : RULE_CONFIDENCE.bareCue);
+      const opened: DialogueBlockNode = {
+        type: 'dialogue-block',
+        character: cue.extension ? `${cue.name} ${cue.extension}` : cue.name,
+        lines: cue.inline ? splitInlineDialogue(cue.inline, idx) : [],
+        range
+      };
+      elements.push(opened);
+      block = opened;
       continue;
     }
 
-    // 5) سطر بين قوسين: ترجمة أم Parenthetical؟
-    if (isParenthetical(line) || /^[\s]*\(|\)[\s]*$/.test(line)) {
-      // أولوية: ترجمة عربية إذا جاء بعد حوار سرياني لنفس المتحدث
-      const looksArabic = ARABIC_RANGE_RE.test(line) && !SYRIAC_RANGE_RE.test(line);
-      if (currentCharacter && (lastDialogueContext === 'syriac' || lastDialogueContext === 'translation') && looksArabic) {
-        // ترجمة لحوار سرياني
-        out.dialogue.push({
-          character: currentCharacter,
-          text: trimLooseParens(raw),
-          isTranslation: true,
-          lang: 'ar'
-        });
-        lastDialogueContext = 'translation';
-        continue;
+    if (block !== null) {
+      const current: DialogueBlockNode = block;
+      const push = (entry: DialogueLine) => {
+        current.lines.push(entry);
+        current.range.end = idx;
+      };
+
+      // 5) سطر بين قوسين: ترجمة أم Parenthetical؟
+      if (isParenthetical(line) || /^[\s]*\(|\)[\s]*$/.test(line)) {
+        // أولوية: ترجمة عربية إذا جاء بعد حوار سرياني لنفس المتحدث
+        const looksArabic = ARABIC_RANGE_RE.test(line) && !SYRIAC_RANGE_RE.test(line);
+        if ((lastDialogueContext === 'syriac' || lastDialogueContext === 'translation') && looksArabic) {
+          classify(idx, 'dialogue', RULE_CONFIDENCE.translation);
+          push({ type: 'dialogue', text: trimLooseParens(raw), range, isTranslation: true, lang: 'ar' });
+          lastDialogueContext = 'translation';
+          continue;
+        }
+
+        // خلاف ذلك: اعتبره Parenthetical فقط إذا كان قصيرًا ودون جمل ثقيلة
+        if (isLikelyParentheticalSemantics(raw)) {
+          classify(idx, 'parenthetical', RULE_CONFIDENCE.blockParenthetical);
+          push({ type: 'parenthetical', text: raw.trim(), range });
+          continue;
+        }
+        // وإلا: لا نصنّفه Parenthetical بالقوة — سنسقط للحوار أدناه
       }
 
-      // خلاف ذلك: اعتبره Parenthetical فقط إذا كان قصيرًا ودون جمل ثقيلة
-      if (isLikelyParentheticalSemantics(raw)) {
-        out.parenthetical.push(raw.trim());
-        // لا يُنهي الحوار، يمكن أن يتبعه حوار لنفس المتحدث
+      // 6) سطر يبدأ بفعل حركة يُنهي الحوار
+      if (!getActiveRules().actionVerb.test(line.trim())) {
+        const hasSyriac = SYRIAC_RANGE_RE.test(line);
+        classify(idx, 'dialogue', RULE_CONFIDENCE.dialogue);
+        push({ type: 'dialogue', text: raw.trim(), range, lang: hasSyriac ? 'syc' : 'ar' });
+        lastDialogueContext = hasSyriac ? 'syriac' : null;
         continue;
       }
-      // وإلا: لا نصنّفه Parenthetical بالقوة — سنسقط للحوارات/الأكشن أدناه
+      closeBlock();
     }
 
-    // 6) Dialogue: إذا هناك متحدث نشط
-    if (currentCharacter) {
-      const hasSyriac = SYRIAC_RANGE_RE.test(line);
-      out.dialogue.push({
-        character: currentCharacter,
-        text: raw.trim(),
-        ...(hasSyriac ? { lang: 'syc' } : { lang: 'ar' })
-      });
-      lastDialogueContext = hasSyriac ? 'syriac' : null;
+    // 7) إرشاد منفرد خارج الحوار
+    if (isParenthetical(line) && isLikelyParentheticalSemantics(raw)) {
+      classify(idx, 'parenthetical', RULE_CONFIDENCE.parenthetical);
+      elements.push({ type: 'parenthetical', text: raw.trim(), range });
       continue;
     }
 
-    // 7) Action (بالاستبعاد)
-    if (!isBlank(line)) {
-      out.action.push(raw.trim());
-      currentCharacter = null;
-      lastDialogueContext = null;
-      continue;
+    // 8) Action: بفعل حركة، أو جملة سردية، وإلا بالاستبعاد
+    classify(
+      idx,
+      'action',
+      isLikelyAction(raw)
+        ? RULE_CONFIDENCE.actionVerb
+        : SENTENCE_END_RE.test(line) || line.trim().split(/\s+/).length > 6
+          ? RULE_CONFIDENCE.actionProse
+          : RULE_CONFIDENCE.actionByExclusion
+    );
+    elements.push({ type: 'action', text: raw.trim(), range });
+  }
+
+  // وسم التخمينات على العقد لتُعرض في المحرر
+  const uncertain = (range: { start: number }) => classification[range.start].confidence < LOW_CONFIDENCE;
+  for (const node of elements) {
+    if (node.type === 'blank') continue;
+    if (uncertain(node.range) && (node.type !== 'dialogue-block' || node.character)) node.uncertain = true;
+    if (node.type === 'dialogue-block') {
+      node.lines.forEach((entry) => {
+        if (entry.range.start !== node.range.start && uncertain(entry.range)) entry.uncertain = true;
+      });
+    }
+  }
+
+  return { lines, classification, elements, scenes: groupScenes(elements) };
+}
+
+/**
+ * صنّف وثيقة كاملة (مصفوفة أسطر) وأخرج الهيكل المطلوب.
+ * الحوار يُجمع كسجلّات {character, text} مع دعم isTranslation للحالات المترجمة.
+ */
+export function classifyDocument(lines: string[]): ExtractResult {
+  const out: ExtractResult = {
+    'scene-header-1': [],
+    'scene-header-2': [],
+    'scene-header-3': [],
+    action: [],
+    character: [],
+    parenthetical: [],
+    dialogue: [],
+    transition: []
+  };
+
+  for (const node of parseScreenplay(lines).elements) {
+    switch (node.type) {
+      case 'basmala':
+        out.basmala = node.text;
+        break;
+      case 'scene-header':
+        out['scene-header-1'].push(node.sceneNum);
+        if (node.timeLocation) out['scene-header-2'].push(node.timeLocation);
+        if (node.place) out['scene-header-3'].push(node.place);
+        break;
+      case 'transition':
+        out.transition.push(node.text);
+        break;
+      case 'parenthetical':
+        out.parenthetical.push(node.text);
+        break;
+      case 'action':
+        out.action.push(node.text);
+        break;
+      case 'dialogue-block':
+        out.character.push(node.character);
+        for (const line of node.lines) {
+          if (line.type === 'parenthetical') {
+            out.parenthetical.push(line.text);
+            continue;
+          }
+          out.dialogue.push({
+            character: node.character,
+            text: line.text,
+            ...(line.isTranslation ? { isTranslation: true } : {}),
+            ...(line.lang ? { lang: line.lang } : {})
+          });
+        }
+        break;
+      default:
+        break;
     }
   }
 
@@ -7,9 +7,15 @@ function escapeHtml(text: string): string {
 
 // Import advanced dialogue detector
 import { formatStyles } from './dialogue-detector';
-import { SceneHeaderExtractor } from './scene-header-extractor';
-import { analyzeContent, type ScreenplayElement } from './pagination-engine';
 import { PaginationEngine } from './PaginationEngine';
+import {
+  getDocumentStats,
+  parseScreenplayText,
+  type DialogueBlockNode,
+  type LineElement,
+  type ScreenplayNode,
+  type SceneHeaderNode
+} from './screenplay-document';
 import type { CSSProperties } from 'react';
 
 // Helper function to convert style object to string
@@ -23,135 +29,77 @@ function styleObjectToString(style: CSSProperties | null | undefined): string {
     }).join('; ');
 }
 
-// Helper function to detect parenthetical (stage directions) - محسن للنصوص الإرشادية
-function isParenthetical(line: string): boolean {
-  return line.match(/^\(.*\)$/) !== null;
-}
+type NodeFlags = Pick<ScreenplayNode, 'forced' | 'uncertain'>;
 
-// Normalization function - تهيئة أولية وفق القواعد المحددة (محفوظة للمستقبل)
-// function normalizeLine(line: string): string {
-//   return line
-//     .trim() // إزالة المسافات الزائدة في الأطراف
-//     .replace(/\s*[–—:،]\s*/g, '-') // توحيد الشرطة
-//     .replace(/\s+/g, ' '); // توحيد المسافات المتعددة
-// }
-
-// Enhanced Basmala detection - كشف البسملة بدقة
-function isBasmala(line: string): boolean {
-  return /^\s*بسم\s+الله\s+الرحمن\s+الرحيم\s*$/.test(line);
+// نوع كل سطر معروض في data-element، وdata-forced إن فرضه الكاتب؛ منهما يقرأ المحرر العنصر الحالي.
+// data-uncertain للتخمين منخفض الثقة، يُسطَّر ليراجعه الكاتب
+function elementAttributes(kind: LineElement, flags: NodeFlags = {}): string {
+  return `data-element="${kind}"${flags.forced ? ' data-forced="true"' : ''}${flags.uncertain ? ' data-uncertain="true"' : ''}`;
 }
 
-// Enhanced Transition detection - كشف الانتقالات بدقة
-function isTransition(line: string): boolean {
-  return /^\s*(?:قطع|إلى|ذوبان|مزج|قطع إلى|خارج المشهد)\s*$/.test(line);
+/** وسم عنصر DOM بنوعه (نظير elementAttributes لمحركات الترقيم) */
+function markElement(element: HTMLElement, kind: LineElement, flags: NodeFlags = {}): HTMLElement {
+  element.dataset.element = kind;
+  if (flags.forced) element.dataset.forced = 'true';
+  if (flags.uncertain) element.dataset.uncertain = 'true';
+  return element;
 }
 
-// Enhanced Character detection - كشف اسم الشخصية بدقة أكبر
-function isCharacterName(line: string): boolean {
-  const characterPattern = /^\s*[\u0600-\u06FF][\u0600-\u06FF\s]{0,40}\s*:\s*$/;
-  return characterPattern.test(line);
-}
+// Render a single document node as inline-styled HTML - عرض عنصر واحد من شجرة الوثيقة
+function formatNode(node: ScreenplayNode): string {
+  switch (node.type) {
+    case 'blank':
+      return `<div style="${styleObjectToString(formatStyles.action)}" ${elementAttributes('action')}><br></div>`;
 
-// Enhanced Arabic screenplay parser with improved pattern recognition
-export function parseAndFormat(text: string): string {
-  if (!text) return '';
-
-  const lines = text.split('\n');
-  let formattedHTML = '';
-
-  const actionStyle = styleObjectToString(formatStyles.action);
-  const basmalaStyle = styleObjectToString(formatStyles.basmala);
-  const transitionStyle = styleObjectToString(formatStyles.transition);
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-
-    // Handle empty lines
-    if (!line) {
-      formattedHTML += `<div style="${actionStyle}"><br></div>`;
-      continue;
-    }
-
-    // تطبيق ترتيب الأولوية وفق القواعد المحددة:
-    // 1. Basmala detection - البسملة (بدقة عالية)
-    if (isBasmala(line)) {
-      formattedHTML += `<div style="${basmalaStyle}">${escapeHtml(line)}</div>`;
-    }
+    case 'basmala':
+      return `<div style="${styleObjectToString(formatStyles.basmala)}" ${elementAttributes('basmala', node)}>${escapeHtml(node.text)}</div>`;
 
-    // 2. Scene header detection - رأس المشهد (أولوية ثانية)
-    else if (line.match(/^(مشهد|م\.)\s*(\d+)/i)) {
-      const sceneHeaderParts = SceneHeaderExtractor.extractSceneHeaderParts(lines, i);
-      if (sceneHeaderParts) {
-        const sceneHeaderTopLineStyle = styleObjectToString(formatStyles['scene-header-top-line']);
-        const sceneHeader3Style = styleObjectToString(formatStyles['scene-header-3']);
+    case 'scene-header': {
+      const sceneHeaderTopLineStyle = styleObjectToString(formatStyles['scene-header-top-line']);
+      const sceneHeader3Style = styleObjectToString(formatStyles['scene-header-3']);
 
-        formattedHTML += `
-          <div class="scene-header-container">
+      return `
+          <div class="scene-header-container" ${elementAttributes('scene-header', node)}>
             <div style="${sceneHeaderTopLineStyle}">
-              <span class="scene-header-1">${escapeHtml(sceneHeaderParts.sceneNum)}</span>
-              <span class="scene-header-2">${escapeHtml(sceneHeaderParts.timeLocation)}</span>
+              <span class="scene-header-1">${escapeHtml(node.sceneNum)}</span>
+              <span class="scene-header-2">${escapeHtml(node.timeLocation)}</span>
             </div>
-            ${sceneHeaderParts.place ? `<div style="${sceneHeader3Style}">${escapeHtml(sceneHeaderParts.place)}</div>` : ''}
+            ${node.place ? `<div style="${sceneHeader3Style}">${escapeHtml(node.place)}</div>` : ''}
           </div>`;
-
-        // Skip the consumed lines
-        i += sceneHeaderParts.consumedLines - 1;
-      }
     }
 
-    // 3. Transition detection - مؤشرات الانتقال (أولوية ثالثة)
-    else if (isTransition(line)) {
-      formattedHTML += `<div style="${transitionStyle}">${escapeHtml(line)}</div>`;
-    }
+    case 'transition':
+      return `<div style="${styleObjectToString(formatStyles.transition)}" ${elementAttributes('transition', node)}>${escapeHtml(node.text)}</div>`;
 
-    // 4. Character name detection - اسم الشخصية (أولوية رابعة)
-    else if (isCharacterName(line)) {
+    case 'parenthetical':
+      return `<div style="${styleObjectToString(formatStyles.parenthetical)}" ${elementAttributes('parenthetical', node)}>${escapeHtml(node.text)}</div>`;
+
+    case 'dialogue-block': {
       const characterStyle = styleObjectToString(formatStyles.character);
       const parentheticalStyle = styleObjectToString(formatStyles.parenthetical);
       const dialogueStyle = styleObjectToString(formatStyles.dialogue);
 
-      // Extract character name (remove colon)
-      const characterName = line.replace(/:\s*$/, '').trim();
-      formattedHTML += `<div style="${characterStyle}">${escapeHtml(characterName)}</div>`;
-
-      // Look for dialogue and parentheticals on following lines
-      i++; // Move to next line
-      while (i < lines.length && lines[i].trim()) {
-        const nextLine = lines[i].trim();
-
-        // Check if next line is a new structural element
-        if (isBasmala(nextLine) ||
-            nextLine.match(/^(مشهد|م\.)\s*(\d+)/i) ||
-            isTransition(nextLine) ||
-            isCharacterName(nextLine)) {
-          i--; // Step back so main loop processes this line
-          break;
-        }
-
-        // Process parenthetical or dialogue
-        if (isParenthetical(nextLine)) {
-          formattedHTML += `<div style="${parentheticalStyle}">${escapeHtml(nextLine)}</div>`;
-        } else {
-          formattedHTML += `<div style="${dialogueStyle}">${escapeHtml(nextLine)}</div>`;
-        }
-        i++;
+      let html = node.character
+        ? `<div style="${characterStyle}" ${elementAttributes('character', node)}>${escapeHtml(node.character)}</div>`
+        : '';
+      for (const line of node.lines) {
+        const style = line.type === 'parenthetical' ? parentheticalStyle : dialogueStyle;
+        html += `<div style="${style}" ${elementAttributes(line.type, line)}>${escapeHtml(line.text)}</div>`;
       }
-      i--; // Adjust for main loop increment
-    }
-
-    // 5. Parenthetical detection (standalone) - الإرشادات المنفردة (أولوية خامسة)
-    else if (isParenthetical(line)) {
-      const parentheticalStyle = styleObjectToString(formatStyles.parenthetical);
-      formattedHTML += `<div style="${parentheticalStyle}">${escapeHtml(line)}</div>`;
+      return html;
     }
 
-    // 6. Default to action - الافتراضي هو السرد الحركي (آخر خيار)
-    else {
-      formattedHTML += `<div style="${actionStyle}">${escapeHtml(line)}</div>`;
-    }
+    case 'action':
+    default:
+      return `<div style="${styleObjectToString(formatStyles.action)}" ${elementAttributes('action', node)}>${escapeHtml(node.text)}</div>`;
   }
-  
-  return formattedHTML;
+}
+
+// Arabic screenplay formatter - يعرض شجرة الوثيقة الموحّدة كـ HTML
+export function parseAndFormat(text: string): string {
+  if (!text) return '';
+
+  return parseScreenplayText(text).elements.map(formatNode).join('');
 }
 
 export function extractPlainText(html: string): string {
@@ -161,11 +109,7 @@ export function extractPlainText(html: string): string {
 }
 
 export function countElements(text: string) {
-  const scenes = (text.match(/(مشهد|م\.)\s*\d+/gi) || []).length;
-  const words = text.trim().split(/\s+/).filter(word => word.length > 0).length;
-  const pages = Math.max(1, Math.ceil(words / 250));
-  
-  return { scenes, words, pages };
+  return getDocumentStats(parseScreenplayText(text));
 }
 
 // Advanced pagination system for screenplay
@@ -201,119 +145,118 @@ export function paginateContent(content: string, wordsPerPage: number = 250): Pa
   return pages;
 }
 
-function buildSceneHeaderElement(lines: string[]): HTMLElement {
-  const container = document.createElement('div');
+// Minimal surface shared by PaginationEngine and AdvancedPaginationEngine
+export interface BlockSink {
+  appendBlock(build: () => HTMLElement): void;
+  /** dataset: سمات data-* تُنسخ إلى كل جزء من الفقرة */
+  appendTextParagraph(rawText: string, className: string, dataset?: Record<string, string>): void;
+}
+
+function buildSceneHeaderElement(node: SceneHeaderNode): HTMLElement {
+  const container = markElement(document.createElement('div'), 'scene-header', node);
   container.className = 'scene-header-container';
 
   const topLine = document.createElement('div');
   topLine.className = 'scene-header-top-line';
 
-  const firstLine = lines[0] ?? '';
-  const secondLine = lines[1] ?? '';
-  const match = firstLine.match(/^(مشهد|م\.)\s*(\d+)\s*[-–—]?\s*(.*)$/i);
-
   const sceneNumEl = document.createElement('span');
   sceneNumEl.className = 'scene-header-1';
-  sceneNumEl.textContent = match ? `${match[1]} ${match[2]}` : firstLine;
+  sceneNumEl.textContent = node.sceneNum;
 
   const timeLocationEl = document.createElement('span');
   timeLocationEl.className = 'scene-header-2';
-  timeLocationEl.textContent = match ? match[3].trim() : '';
+  timeLocationEl.textContent = node.timeLocation;
 
   topLine.appendChild(sceneNumEl);
   topLine.appendChild(timeLocationEl);
   container.appendChild(topLine);
 
-  const placeText = secondLine || '';
-  if (placeText) {
+  if (node.place) {
     const placeEl = document.createElement('div');
     placeEl.className = 'scene-header-3';
-    placeEl.textContent = placeText;
+    placeEl.textContent = node.place;
     container.appendChild(placeEl);
   }
 
   return container;
 }
 
-function buildDialogueElement(lines: string[]): HTMLElement {
+function buildDialogueElement(node: DialogueBlockNode): HTMLElement {
   const wrapper = document.createElement('div');
   wrapper.className = 'dialogue-block';
 
-  if (lines.length === 0) {
-    return wrapper;
+  if (node.character) {
+    const characterEl = markElement(document.createElement('div'), 'character', node);
+    characterEl.className = 'character';
+    characterEl.textContent = node.character;
+    wrapper.appendChild(characterEl);
   }
 
-  const [rawName, ...rest] = lines;
-  const characterEl = document.createElement('div');
-  characterEl.className = 'character';
-  characterEl.textContent = rawName.replace(/:\s*$/, '').trim();
-  wrapper.appendChild(characterEl);
-
-  rest.forEach((line) => {
-    const target = document.createElement('div');
-    if (isParenthetical(line)) {
-      target.className = 'parenthetical';
-    } else {
-      target.className = 'dialogue';
-    }
-    target.textContent = line;
+  node.lines.forEach((line) => {
+    const target = markElement(document.createElement('div'), line.type, line);
+    target.className = line.type === 'parenthetical' ? 'parenthetical' : 'dialogue';
+    target.textContent = line.text;
     wrapper.appendChild(target);
   });
 
   return wrapper;
 }
 
-function appendElement(engine: PaginationEngine, element: ScreenplayElement) {
-  switch (element.type) {
+function buildTextElement(className: LineElement, text: string, flags: NodeFlags): HTMLElement {
+  const node = markElement(document.createElement('div'), className, flags);
+  node.className = className;
+  node.textContent = text;
+  return node;
+}
+
+// Append one document node to a pagination engine - إدراج عنصر في محرك الترقيم
+export function appendNode(engine: BlockSink, node: ScreenplayNode) {
+  switch (node.type) {
     case 'basmala':
-      engine.appendBlock(() => {
-        const node = document.createElement('div');
-        node.className = 'basmala';
-        node.textContent = element.content;
-        return node;
-      });
+      engine.appendBlock(() => buildTextElement('basmala', node.text, node));
       break;
 
     case 'scene-header':
-      engine.appendBlock(() => buildSceneHeaderElement(element.lines));
+      engine.appendBlock(() => buildSceneHeaderElement(node));
       break;
 
     case 'transition':
-      engine.appendBlock(() => {
-        const node = document.createElement('div');
-        node.className = 'transition';
-        node.textContent = element.content;
-        return node;
-      });
+      engine.appendBlock(() => buildTextElement('transition', node.text, node));
+      break;
+
+    case 'dialogue-block':
+      engine.appendBlock(() => buildDialogueElement(node));
+      break;
+
+    case 'parenthetical':
+      engine.appendBlock(() => buildTextElement('parenthetical', node.text, node));
       break;
 
-    case 'dialogue':
-      engine.appendBlock(() => buildDialogueElement(element.lines));
+    case 'blank':
+      engine.appendBlock(() => {
+        const placeholder = document.createElement('div');
+        placeholder.className = 'action';
+        placeholder.innerHTML = '<br />';
+        return placeholder;
+      });
       break;
 
     case 'action':
     default:
-      if (!element.content) {
-        engine.appendBlock(() => {
-          const placeholder = document.createElement('div');
-          placeholder.className = 'action';
-          placeholder.innerHTML = '<br />';
-          return placeholder;
-        });
-      } else if (isParenthetical(element.content)) {
-        engine.appendBlock(() => {
-          const node = document.createElement('div');
-          node.className = 'parenthetical';
-          node.textContent = element.content;
-          return node;
-        });
-      } else {
-        engine.appendTextParagraph(element.content, 'action');
-      }
+      engine.appendTextParagraph(node.text, 'action', {
+        element: 'action',
+        ...(node.forced ? { forced: 'true' } : {}),
+        ...(node.uncertain ? { uncertain: 'true' } : {})
+      });
       break;
   }
 }
 
+// Lay out a whole script through the shared document model
+export function appendScreenplay(engine: BlockSink, content: string) {
+  parseScreenplayText(content).elements.forEach((node) => appendNode(engine, node));
+}
+
 // Create page-based HTML structure using advanced engine
 export function createPagedHTML(content: string): string {
   if (typeof document === 'undefined') {
@@ -332,8 +275,7 @@ export function createPagedHTML(content: string): string {
 
   try {
     const engine = new PaginationEngine(host);
-    const elements = analyzeContent(content);
-    elements.forEach((element) => appendElement(engine, element));
+    appendScreenplay(engine, content);
     return `<div class="pages-host">${host.innerHTML}</div>`;
   } finally {
     document.body.removeChild(host);
@@ -0,0 +1,65 @@
+import { buildReport, reportTableRows, toCsv } from './screenplay-reports';
+
+const SCRIPT = `مشهد 1 - ليل-داخلي – بيت أحمد
+
+يدخل أحمد الغرفة.
+
+أحمد:
+أين إيمان؟
+لم تعد بعد.
+
+إيمان:
+هنا.
+
+مشهد 2 - نهار-خارجي – الشارع
+
+صوت أحمد (خارج الكادر):
+انتظروني قليلًا يا أصدقاء، سأعود حالًا.
+
+مشهد 3 - نهار-داخلي – الشرفة
+
+إيمان:
+(بهمس)
+تعال.`;
+
+describe('screenplay-reports', () => {
+  test('per-character counts, scenes and first page, with voice cues merged', () => {
+    const { characters } = buildReport(SCRIPT);
+    expect(characters.map((c) => c.name)).toEqual(['أحمد', 'إيمان']);
+
+    const [ahmad, iman] = characters;
+    expect(ahmad).toEqual({ name: 'أحمد', speeches: 2, lines: 3, words: 11, scenes: ['1', '2'], firstPage: 1 });
+    // الإرشاد لا يُحسب سطر حوار
+    expect(iman).toMatchObject({ speeches: 2, lines: 2, words: 2, scenes: ['1', '3'] });
+  });
+
+  test('interior/exterior and day/night ratios from the scene headers', () => {
+    const report = buildReport(SCRIPT);
+    expect(report.interiorExterior).toEqual({ interior: 2, exterior: 1, unknown: 0 });
+    expect(report.dayNight).toEqual({ day: 2, night: 1, unknown: 0 });
+  });
+
+  test('longest speeches and per-scene length', () => {
+    const report = buildReport(SCRIPT);
+    expect(report.longestSpeeches[0]).toEqual({
+      character: 'أحمد',
+      scene: '2',
+      words: 6,
+      text: 'انتظروني قليلًا يا أصدقاء، سأعود حالًا.'
+    });
+    expect(report.scenes.map((s) => [s.number, s.place, s.characters])).toEqual([
+      ['1', 'بيت أحمد', 2],
+      ['2', 'الشارع', 1],
+      ['3', 'الشرفة', 1]
+    ]);
+    expect(report.scenes[0].words).toBe(18);
+  });
+
+  test('CSV export has a header row and quotes only when needed', () => {
+    const csv = toCsv(reportTableRows(buildReport(SCRIPT), 'speeches'));
+    const [head, first] = csv.split('\r\n');
+    expect(head).toBe('الشخصية,المشهد,الكلمات,النص');
+    expect(first).toBe('أحمد,2,6,انتظروني قليلًا يا أصدقاء، سأعود حالًا.');
+    expect(toCsv([['a"b', 'c\nd', 'e,f']])).toBe('"a""b","c\nd","e,f"');
+  });
+});
@@ -0,0 +1,197 @@
+// Screenplay Reports - تقارير السيناريو للإنتاج
+// قائمة الطاقم بأسطر كل شخصية وكلماتها ومشاهدها وأول ظهور لها، ونسب الداخلي/الخارجي والنهار/الليل
+// من ترويسات المشاهد (scene-header-2)، وأطول الخطب، وطول كل مشهد؛ وكل جدول يُصدَّر CSV
+
+import { characterKey } from './character-autocomplete';
+import { parseScreenplayText, WORDS_PER_PAGE, type DialogueBlockNode } from './screenplay-document';
+import { buildSceneOutline } from './scene-outline';
+import { stripTashkeel } from './screenplay-line-classifier';
+
+export interface CharacterReport {
+  /** الاسم بآخر صيغة كُتب بها دون "صوت" */
+  name: string;
+  /** عدد مرات الكلام (مداخل الشخصية) */
+  speeches: number;
+  /** أسطر الحوار */
+  lines: number;
+  /** كلمات الحوار */
+  words: number;
+  /** أرقام المشاهد التي تتكلم فيها بترتيبها */
+  scenes: string[];
+  /** الصفحة التقديرية لأول ظهور */
+  firstPage: number;
+}
+
+export interface SceneReport {
+  number: string;
+  timeLocation: string;
+  place: string;
+  page: number;
+  /** الطول بأثمان الصفحة */
+  eighths: number;
+  words: number;
+  /** عدد الشخصيات المتكلمة */
+  characters: number;
+}
+
+export interface SpeechReport {
+  character: string;
+  /** رقم المشهد؛ فارغ لما قبل أول مشهد */
+  scene: string;
+  words: number;
+  text: string;
+}
+
+export interface ScreenplayReport {
+  characters: CharacterReport[];
+  scenes: SceneReport[];
+  longestSpeeches: SpeechReport[];
+  interiorExterior: { interior: number; exterior: number; unknown: number };
+  dayNight: { day: number; night: number; unknown: number };
+}
+
+const LONGEST_SPEECHES = 10;
+
+const INTERIOR_RE = /داخلي|(?:^|[\s-])د\./;
+const EXTERIOR_RE = /خارجي|(?:^|[\s-])خ\./;
+const NIGHT_RE = /ليل|مساء|مغرب|الغروب|(?:^|[\s-])ل\./;
+const DAY_RE = /نهار|صباح|ظهر|عصر|فجر|(?:^|[\s-])ن\./;
+
+const countWords = (text: string) => text.split(/\s+/).filter((word) => word.length > 0).length;
+
+function speechText(block: DialogueBlockNode): string {
+  return block.lines
+    .filter((line) => line.type === 'dialogue')
+    .map((line) => line.text)
+    .join(' ');
+}
+
+/** داخلي أم خارجي من زمان ومكان الترويسة (scene-header-2) */
+export function classifyInOut(timeLocation: string): keyof ScreenplayReport['interiorExterior'] {
+  const text = stripTashkeel(timeLocation);
+  if (INTERIOR_RE.test(text)) return 'interior';
+  return EXTERIOR_RE.test(text) ? 'exterior' : 'unknown';
+}
+
+/** نهار أم ليل من زمان ومكان الترويسة */
+export function classifyTime(timeLocation: string): keyof ScreenplayReport['dayNight'] {
+  const text = stripTashkeel(timeLocation);
+  if (NIGHT_RE.test(text)) return 'night';
+  return DAY_RE.test(text) ? 'day' : 'unknown';
+}
+
+export function buildReport(content: string): ScreenplayReport {
+  const doc = parseScreenplayText(content);
+  const outline = buildSceneOutline(doc);
+  const sceneStarts = doc.scenes.filter((scene) => scene.header).map((scene) => scene.range.start);
+
+  // كلمات ما قبل كل سطر، لتقدير صفحته كما في مخطط المشاهد
+  const wordsBefore: number[] = [];
+  doc.lines.reduce((total, line, index) => {
+    wordsBefore[index] = total;
+    return total + countWords(line);
+  }, 0);
+  const pageOf = (line: number) => Math.floor(wordsBefore[line] / WORDS_PER_PAGE) + 1;
+  const sceneOf = (line: number) => {
+    let index = -1;
+    while (index + 1 < sceneStarts.length && sceneStarts[index + 1] <= line) index++;
+    return index;
+  };
+  const sceneLabel = (index: number) => (index < 0 ? '' : outline[index].header.number || String(index + 1));
+
+  const characters = new Map<string, CharacterReport>();
+  const sceneCast = outline.map(() => new Set<string>());
+  const sceneWords = outline.map(() => 0);
+  const speeches: SpeechReport[] = [];
+
+  doc.elements.forEach((node) => {
+    const scene = sceneOf(node.range.start);
+    if (scene >= 0) {
+      for (let line = node.range.start; line <= node.range.end; line++) sceneWords[scene] += countWords(doc.lines[line]);
+    }
+    if (node.type !== 'dialogue-block') return;
+    const key = characterKey(node.character);
+    if (!key) return;
+
+    const name = stripTashkeel(node.character).replace(/^\s*صوت\s+/, '').replace(/\s*\([^()]*\)\s*$/, '').trim();
+    const text = speechText(node);
+    const words = countWords(text);
+    const report = characters.get(key) ?? {
+      name,
+      speeches: 0,
+      lines: 0,
+      words: 0,
+      scenes: [],
+      firstPage: pageOf(node.range.start)
+    };
+    report.name = name;
+    report.speeches++;
+    report.lines += node.lines.filter((line) => line.type === 'dialogue').length;
+    report.words += words;
+    const label = sceneLabel(scene);
+    if (scene >= 0 && !report.scenes.includes(label)) report.scenes.push(label);
+    characters.set(key, report);
+
+    if (scene >= 0) sceneCast[scene].add(key);
+    if (words > 0) speeches.push({ character: name, scene: label, words, text });
+  });
+
+  const interiorExterior = { interior: 0, exterior: 0, unknown: 0 };
+  const dayNight = { day: 0, night: 0, unknown: 0 };
+  outline.forEach(({ header }) => {
+    interiorExterior[classifyInOut(header.timeLocation)]++;
+    dayNight[classifyTime(header.timeLocation)]++;
+  });
+
+  return {
+    characters: Array.from(characters.values()).sort((a, b) => b.words - a.words || b.speeches - a.speeches),
+    scenes: outline.map(({ header, page, eighths }, index) => ({
+      number: sceneLabel(index),
+      timeLocation: header.timeLocation,
+      place: header.place,
+      page,
+      eighths,
+      words: sceneWords[index],
+      characters: sceneCast[index].size
+    })),
+    // الترتيب المستقر يُبقي الأسبق في النص أولًا عند التساوي
+    longestSpeeches: speeches.sort((a, b) => b.words - a.words).slice(0, LONGEST_SPEECHES),
+    interiorExterior,
+    dayNight
+  };
+}
+
+// ===== التصدير =====
+
+export type ReportTable = 'characters' | 'scenes' | 'speeches';
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** صفوف CSV؛ الأسطر بـ CRLF كما يتوقعها Excel */
+export function toCsv(rows: Array<Array<string | number>>): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n');
+}
+
+/** جدول واحد من التقرير بعناوين أعمدته */
+export function reportTableRows(report: ScreenplayReport, table: ReportTable): Array<Array<string | number>> {
+  switch (table) {
+    case 'characters':
+      return [
+        ['الشخصية', 'مرات الكلام', 'أسطر الحوار', 'كلمات الحوار', 'عدد المشاهد', 'المشاهد', 'أول صفحة'],
+        ...report.characters.map((c) => [c.name, c.speeches, c.lines, c.words, c.scenes.length, c.scenes.join(' '), c.firstPage])
+      ];
+    case 'scenes':
+      return [
+        ['المشهد', 'الزمان والمكان', 'المكان', 'الصفحة', 'الطول (أثمان)', 'الكلمات', 'الشخصيات'],
+        ...report.scenes.map((s) => [s.number, s.timeLocation, s.place, s.page, s.eighths, s.words, s.characters])
+      ];
+    case 'speeches':
+      return [
+        ['الشخصية', 'المشهد', 'الكلمات', 'النص'],
+        ...report.longestSpeeches.map((s) => [s.character, s.scene, s.words, s.text])
+      ];
+  }
+}
@@ -0,0 +1,187 @@
+// Unit Tests for Screenplay Storage - اختبارات طبقة التخزين
+// التحقق من الواجهة الخلفية في الذاكرة، مسودة الاستعادة، والحفظ التلقائي المؤجّل
+
+import {
+  MemoryStorageBackend,
+  clearRecoveryDraft,
+  createAutosaver,
+  createScreenplayRecord,
+  findNewerDraft,
+  getLastOpenedId,
+  readBreakdown,
+  readLineCorrections,
+  readRecoveryDraft,
+  setLastOpenedId,
+  setStorageBackend,
+  setStorageUser,
+  writeBreakdown,
+  writeLineCorrections,
+  writeRecoveryDraft
+} from './screenplay-storage';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ScreenplayStorage', () => {
+
+  describe('MemoryStorageBackend', () => {
+
+    it('should list screenplays without content, most recently updated first', async () => {
+      const backend = new MemoryStorageBackend();
+      const older = { ...createScreenplayRecord('الأول', 'نص'), updatedAt: 1 };
+      const newer = { ...createScreenplayRecord('الثاني', 'نص آخر'), updatedAt: 2 };
+      await backend.putScreenplay(older);
+      await backend.putScreenplay(newer);
+
+      const list = await backend.listScreenplays();
+      expect(list.map((item) => item.title)).toEqual(['الثاني', 'الأول']);
+      expect(list[0]).not.toHaveProperty('content');
+      expect((await backend.getScreenplay(older.id))?.content).toBe('نص');
+    });
+
+    it('should delete a screenplay together with its snapshots', async () => {
+      const backend = new MemoryStorageBackend();
+      const kept = createScreenplayRecord('باقٍ', '');
+      const removed = createScreenplayRecord('محذوف', '');
+      await backend.putScreenplay(kept);
+      await backend.putScreenplay(removed);
+      await backend.putSnapshot({ id: 's1', screenplayId: removed.id, name: 'مسودة أولى', content: 'أ', createdAt: 1 });
+      await backend.putSnapshot({ id: 's2', screenplayId: kept.id, name: 'مسودة', content: 'ب', createdAt: 2 });
+
+      await backend.deleteScreenplay(removed.id);
+
+      expect(await backend.getScreenplay(removed.id)).toBeNull();
+      expect(await backend.listSnapshots(removed.id)).toEqual([]);
+      expect((await backend.listSnapshots(kept.id)).map((s) => s.id)).toEqual(['s2']);
+    });
+
+    it('should delete the data attached to a screenplay with it', async () => {
+      const backend = new MemoryStorageBackend();
+      const kept = createScreenplayRecord('باقٍ', '');
+      const removed = createScreenplayRecord('محذوف', '');
+      await backend.putScreenplay(kept);
+      await backend.putScreenplay(removed);
+      await backend.putScreenplayData(removed.id, 'scene-lock', ['1', '2']);
+      await backend.putScreenplayData(kept.id, 'scene-lock', ['1']);
+      await backend.putUserData('line-corrections', []);
+
+      await backend.deleteScreenplay(removed.id);
+
+      expect(await backend.getScreenplayData(removed.id, 'scene-lock')).toBeNull();
+      expect(await backend.getScreenplayData(kept.id, 'scene-lock')).toEqual(['1']);
+      expect(await backend.getUserData('line-corrections')).toEqual([]);
+    });
+  });
+
+  describe('screenplay data', () => {
+
+    let backend: MemoryStorageBackend;
+
+    beforeEach(() => {
+      backend = new MemoryStorageBackend();
+      setStorageBackend(backend);
+    });
+
+    it('should keep breakdown tags in the storage backend and drop an empty set', async () => {
+      const set = { text: 'نص', tags: [{ id: 't1', category: 'props' as const, line: 0, start: 0, end: 2, text: 'نص' }] };
+      await writeBreakdown('s1', set);
+      expect(await backend.getScreenplayData('s1', 'breakdown')).toEqual(set);
+      expect(await readBreakdown('s1')).toEqual(set);
+
+      await writeBreakdown('s1', { text: 'نص', tags: [] });
+      expect(await readBreakdown('s1')).toBeNull();
+    });
+
+    it('should ignore a stored value of the wrong shape', async () => {
+      await backend.putScreenplayData('s1', 'breakdown', { text: 'نص' } as never);
+      expect(await readBreakdown('s1')).toBeNull();
+    });
+
+    it('should keep line corrections for the user across screenplays', async () => {
+      const examples = [{ key: 'k', features: ['colon'], element: 'action' as const }];
+      await writeLineCorrections(examples);
+      expect(await backend.getUserData('line-corrections')).toEqual(examples);
+      expect(await readLineCorrections()).toEqual(examples);
+
+      await writeLineCorrections([]);
+      expect(await backend.getUserData('line-corrections')).toBeNull();
+      expect(await readLineCorrections()).toEqual([]);
+    });
+  });
+
+  describe('recovery draft', () => {
+
+    afterEach(() => clearRecoveryDraft());
+
+    it('should offer a draft only when it is newer than the stored record', () => {
+      const record = { ...createScreenplayRecord('سيناريو', 'محفوظ'), updatedAt: 100 };
+
+      writeRecoveryDraft({ screenplayId: record.id, content: 'غير محفوظ', savedAt: 200 });
+      expect(findNewerDraft(record)?.content).toBe('غير محفوظ');
+
+      writeRecoveryDraft({ screenplayId: record.id, content: 'قديم', savedAt: 50 });
+      expect(findNewerDraft(record)).toBeNull();
+
+      writeRecoveryDraft({ screenplayId: 'آخر', content: 'غير محفوظ', savedAt: 200 });
+      expect(findNewerDraft(record)).toBeNull();
+    });
+
+    it('should only clear the draft of the given screenplay', () => {
+      writeRecoveryDraft({ screenplayId: 'a', content: 'نص', savedAt: 1 });
+      clearRecoveryDraft('b');
+      expect(readRecoveryDraft()?.screenplayId).toBe('a');
+      clearRecoveryDraft('a');
+      expect(readRecoveryDraft()).toBeNull();
+    });
+
+    it('should keep the draft and last opened screenplay apart for each user', () => {
+      setStorageUser('u1');
+      writeRecoveryDraft({ screenplayId: 'a', content: 'نص', savedAt: 1 });
+      setLastOpenedId('a');
+
+      setStorageUser('u2');
+      expect(readRecoveryDraft()).toBeNull();
+      expect(getLastOpenedId()).toBeNull();
+
+      setStorageUser('u1');
+      expect(readRecoveryDraft()?.screenplayId).toBe('a');
+      expect(getLastOpenedId()).toBe('a');
+      clearRecoveryDraft();
+      setStorageUser(null);
+      localStorage.clear();
+    });
+  });
+
+  describe('createAutosaver', () => {
+
+    it('should save only the latest content after typing pauses', async () => {
+      const saved: string[] = [];
+      const autosaver = createAutosaver(async (content) => {
+        saved.push(content);
+      }, 10);
+
+      autosaver.schedule('م');
+      autosaver.schedule('مش');
+      autosaver.schedule('مشهد');
+      expect(saved).toEqual([]);
+
+      await wait(30);
+      expect(saved).toEqual(['مشهد']);
+    });
+
+    it('should flush pending content immediately and drop it on cancel', async () => {
+      const saved: string[] = [];
+      const autosaver = createAutosaver(async (content) => {
+        saved.push(content);
+      }, 1000);
+
+      autosaver.schedule('أول');
+      await autosaver.flush();
+      expect(saved).toEqual(['أول']);
+
+      autosaver.schedule('ثانٍ');
+      autosaver.cancel();
+      await autosaver.flush();
+      expect(saved).toEqual(['أول']);
+    });
+  });
+});
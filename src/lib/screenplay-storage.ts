@@ -0,0 +1,543 @@
+// Screenplay Storage - طبقة تخزين السيناريوهات
+// واجهة تخزين قابلة للاستبدال (IndexedDB افتراضيًا)، مسودة استعادة متزامنة بعد الأعطال، وحفظ تلقائي مؤجّل
+
+import type { ScreenplayDataKey, UserDataKey } from '@shared/schema';
+import type { BreakdownSet } from './breakdown';
+import type { RuleSet } from './classification-rules';
+import type { LineExample } from './line-model';
+import type { RevisionSet } from './revisions';
+import type { ShootingSchedule } from './stripboard';
+
+export interface ScreenplayRecord {
+  id: string;
+  title: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ScreenplaySummary = Omit<ScreenplayRecord, 'content'>;
+
+/** نسخة مسمّاة يحفظها الكاتب يدويًا */
+export interface SnapshotRecord {
+  id: string;
+  screenplayId: string;
+  name: string;
+  content: string;
+  createdAt: number;
+}
+
+/** معرّف ملف مدمج، أو ملف كتبه المستخدم بكامله */
+export type RuleSetChoice = string | RuleSet;
+
+/** بيانات مرافقة للسيناريو: تنتقل معه إلى أي متصفح ويراها المشاركون، وتُحذف معه */
+export interface ScreenplayData {
+  /** أرقام المشاهد المقفلة (وضع الإنتاج) */
+  'scene-lock': string[];
+  /** الصفحات المقفلة ومراجعاتها */
+  revisions: RevisionSet;
+  /** وسوم التفريغ الإنتاجي مع النص الذي ثُبّتت عليه مواضعها */
+  breakdown: BreakdownSet;
+  /** ملف قواعد التصنيف */
+  rules: RuleSetChoice;
+  /** جدول التصوير */
+  schedule: ShootingSchedule;
+}
+
+/** بيانات المستخدم خارج أي سيناريو */
+export interface UserData {
+  /** أمثلة النموذج المتعلّم من تصحيحات التصنيف */
+  'line-corrections': LineExample[];
+}
+
+/** واجهة الواجهة الخلفية للتخزين؛ أي تنفيذ يلتزم بها يمكن تركيبه عبر setStorageBackend */
+export interface StorageBackend {
+  listScreenplays(): Promise<ScreenplaySummary[]>;
+  getScreenplay(id: string): Promise<ScreenplayRecord | null>;
+  putScreenplay(record: ScreenplayRecord): Promise<void>;
+  /** يحذف السيناريو ونسخه وبياناته المرافقة */
+  deleteScreenplay(id: string): Promise<void>;
+  listSnapshots(screenplayId: string): Promise<SnapshotRecord[]>;
+  putSnapshot(snapshot: SnapshotRecord): Promise<void>;
+  deleteSnapshot(screenplayId: string, id: string): Promise<void>;
+  /** القيمة المحفوظة كما هي دون تحقق، أو null */
+  getScreenplayData(screenplayId: string, key: ScreenplayDataKey): Promise<unknown>;
+  /** null يحذف القيمة */
+  putScreenplayData<K extends ScreenplayDataKey>(screenplayId: string, key: K, value: ScreenplayData[K] | null): Promise<void>;
+  getUserData(key: UserDataKey): Promise<unknown>;
+  putUserData<K extends UserDataKey>(key: K, value: UserData[K] | null): Promise<void>;
+}
+
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createScreenplayRecord(title: string, content: string): ScreenplayRecord {
+  const now = Date.now();
+  return { id: createId(), title, content, createdAt: now, updatedAt: now };
+}
+
+export function toSummary({ content: _content, ...summary }: ScreenplayRecord): ScreenplaySummary {
+  return summary;
+}
+
+const byUpdatedDesc = (a: ScreenplaySummary, b: ScreenplaySummary) => b.updatedAt - a.updatedAt;
+const byCreatedDesc = (a: SnapshotRecord, b: SnapshotRecord) => b.createdAt - a.createdAt;
+/** نسخة مستقلة كما لو مرّت بالتخزين */
+const cloneValue = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/** تخزين في الذاكرة (للاختبارات وللمتصفحات دون IndexedDB) */
+export class MemoryStorageBackend implements StorageBackend {
+  private readonly screenplays = new Map<string, ScreenplayRecord>();
+  private readonly snapshots = new Map<string, SnapshotRecord>();
+  private readonly data = new Map<string, Map<ScreenplayDataKey, unknown>>();
+  private readonly userData = new Map<UserDataKey, unknown>();
+
+  async listScreenplays(): Promise<ScreenplaySummary[]> {
+    return Array.from(this.screenplays.values()).map(toSummary).sort(byUpdatedDesc);
+  }
+
+  async getScreenplay(id: string): Promise<ScreenplayRecord | null> {
+    const record = this.screenplays.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async putScreenplay(record: ScreenplayRecord): Promise<void> {
+    this.screenplays.set(record.id, { ...record });
+  }
+
+  async deleteScreenplay(id: string): Promise<void> {
+    this.screenplays.delete(id);
+    Array.from(this.snapshots.values())
+      .filter((snapshot) => snapshot.screenplayId === id)
+      .forEach((snapshot) => this.snapshots.delete(snapshot.id));
+    this.data.delete(id);
+  }
+
+  async listSnapshots(screenplayId: string): Promise<SnapshotRecord[]> {
+    return Array.from(this.snapshots.values())
+      .filter((snapshot) => snapshot.screenplayId === screenplayId)
+      .map((snapshot) => ({ ...snapshot }))
+      .sort(byCreatedDesc);
+  }
+
+  async putSnapshot(snapshot: SnapshotRecord): Promise<void> {
+    this.snapshots.set(snapshot.id, { ...snapshot });
+  }
+
+  async deleteSnapshot(_screenplayId: string, id: string): Promise<void> {
+    this.snapshots.delete(id);
+  }
+
+  async getScreenplayData(screenplayId: string, key: ScreenplayDataKey): Promise<unknown> {
+    const value = this.data.get(screenplayId)?.get(key);
+    return value === undefined ? null : cloneValue(value);
+  }
+
+  async putScreenplayData<K extends ScreenplayDataKey>(screenplayId: string, key: K, value: ScreenplayData[K] | null): Promise<void> {
+    const entries = this.data.get(screenplayId) ?? new Map<ScreenplayDataKey, unknown>();
+    if (value === null) {
+      entries.delete(key);
+    } else {
+      entries.set(key, cloneValue(value));
+    }
+    this.data.set(screenplayId, entries);
+  }
+
+  async getUserData(key: UserDataKey): Promise<unknown> {
+    const value = this.userData.get(key);
+    return value === undefined ? null : cloneValue(value);
+  }
+
+  async putUserData<K extends UserDataKey>(key: K, value: UserData[K] | null): Promise<void> {
+    if (value === null) {
+      this.userData.delete(key);
+    } else {
+      this.userData.set(key, cloneValue(value));
+    }
+  }
+}
+
+const DB_NAME = 'ara-scriptease';
+const DB_VERSION = 3;
+const SCREENPLAYS_STORE = 'screenplays';
+const SNAPSHOTS_STORE = 'snapshots';
+const DATA_STORE = 'screenplay-data';
+const USER_DATA_STORE = 'user-data';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('فشل طلب IndexedDB'));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('فشلت معاملة IndexedDB'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('أُلغيت معاملة IndexedDB'));
+  });
+}
+
+/** التخزين الافتراضي في المتصفح */
+export class IndexedDbStorageBackend implements StorageBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = this.factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SCREENPLAYS_STORE)) {
+          db.createObjectStore(SCREENPLAYS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('screenplayId', 'screenplayId');
+        }
+        if (!db.objectStoreNames.contains(DATA_STORE)) {
+          db.createObjectStore(DATA_STORE, { keyPath: ['screenplayId', 'key'] }).createIndex('screenplayId', 'screenplayId');
+        }
+        if (!db.objectStoreNames.contains(USER_DATA_STORE)) {
+          db.createObjectStore(USER_DATA_STORE, { keyPath: 'key' });
+        }
+      };
+      this.dbPromise = requestToPromise(request).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async listScreenplays(): Promise<ScreenplaySummary[]> {
+    const db = await this.db();
+    const records = await requestToPromise(
+      db.transaction(SCREENPLAYS_STORE).objectStore(SCREENPLAYS_STORE).getAll() as IDBRequest<ScreenplayRecord[]>
+    );
+    return records.map(toSummary).sort(byUpdatedDesc);
+  }
+
+  async getScreenplay(id: string): Promise<ScreenplayRecord | null> {
+    const db = await this.db();
+    const record = await requestToPromise(
+      db.transaction(SCREENPLAYS_STORE).objectStore(SCREENPLAYS_STORE).get(id) as IDBRequest<ScreenplayRecord | undefined>
+    );
+    return record ?? null;
+  }
+
+  async putScreenplay(record: ScreenplayRecord): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction(SCREENPLAYS_STORE, 'readwrite');
+    transaction.objectStore(SCREENPLAYS_STORE).put(record);
+    await transactionDone(transaction);
+  }
+
+  async deleteScreenplay(id: string): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction([SCREENPLAYS_STORE, SNAPSHOTS_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SCREENPLAYS_STORE).delete(id);
+    for (const name of [SNAPSHOTS_STORE, DATA_STORE]) {
+      const store = transaction.objectStore(name);
+      const keys = await requestToPromise(store.index('screenplayId').getAllKeys(id));
+      keys.forEach((key) => store.delete(key));
+    }
+    await transactionDone(transaction);
+  }
+
+  async listSnapshots(screenplayId: string): Promise<SnapshotRecord[]> {
+    const db = await this.db();
+    const records = await requestToPromise(
+      db
+        .transaction(SNAPSHOTS_STORE)
+        .objectStore(SNAPSHOTS_STORE)
+        .index('screenplayId')
+        .getAll(screenplayId) as IDBRequest<SnapshotRecord[]>
+    );
+    return records.sort(byCreatedDesc);
+  }
+
+  async putSnapshot(snapshot: SnapshotRecord): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).put(snapshot);
+    await transactionDone(transaction);
+  }
+
+  async deleteSnapshot(_screenplayId: string, id: string): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async getScreenplayData(screenplayId: string, key: ScreenplayDataKey): Promise<unknown> {
+    const db = await this.db();
+    const entry = await requestToPromise(
+      db.transaction(DATA_STORE).objectStore(DATA_STORE).get([screenplayId, key]) as IDBRequest<{ value: unknown } | undefined>
+    );
+    return entry?.value ?? null;
+  }
+
+  async putScreenplayData<K extends ScreenplayDataKey>(screenplayId: string, key: K, value: ScreenplayData[K] | null): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction(DATA_STORE, 'readwrite');
+    const store = transaction.objectStore(DATA_STORE);
+    if (value === null) {
+      store.delete([screenplayId, key]);
+    } else {
+      store.put({ screenplayId, key, value });
+    }
+    await transactionDone(transaction);
+  }
+
+  async getUserData(key: UserDataKey): Promise<unknown> {
+    const db = await this.db();
+    const entry = await requestToPromise(
+      db.transaction(USER_DATA_STORE).objectStore(USER_DATA_STORE).get(key) as IDBRequest<{ value: unknown } | undefined>
+    );
+    return entry?.value ?? null;
+  }
+
+  async putUserData<K extends UserDataKey>(key: K, value: UserData[K] | null): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction(USER_DATA_STORE, 'readwrite');
+    const store = transaction.objectStore(USER_DATA_STORE);
+    if (value === null) {
+      store.delete(key);
+    } else {
+      store.put({ key, value });
+    }
+    await transactionDone(transaction);
+  }
+}
+
+let activeBackend: StorageBackend | null = null;
+
+/** الواجهة الخلفية الحالية (IndexedDB إن توفّر، وإلا الذاكرة) */
+export function getStorageBackend(): StorageBackend {
+  if (!activeBackend) {
+    activeBackend = typeof indexedDB !== 'undefined' ? new IndexedDbStorageBackend() : new MemoryStorageBackend();
+  }
+  return activeBackend;
+}
+
+/** تركيب واجهة خلفية أخرى (خادم، اختبارات...) */
+export function setStorageBackend(backend: StorageBackend): void {
+  activeBackend = backend;
+}
+
+// ===== الاستعادة بعد الأعطال =====
+// تُكتب المسودة متزامنةً في localStorage مع كل تعديل، فلا يضيع ما كُتب بين آخر حفظ تلقائي وانهيار الصفحة
+
+const RECOVERY_KEY = 'recovery';
+const LAST_OPENED_KEY = 'last-opened';
+
+let storageUser: string | null = null;
+
+/** مفاتيح الاستعادة وآخر سيناريو لكل مستخدم على الجهاز نفسه؛ null للعمل المحلي دون حساب */
+export function setStorageUser(userId: string | null): void {
+  storageUser = userId;
+}
+
+const userKey = (key: string) => (storageUser ? `ara-scriptease:${storageUser}:${key}` : `ara-scriptease:${key}`);
+
+export interface RecoveryDraft {
+  screenplayId: string;
+  content: string;
+  savedAt: number;
+}
+
+function safeLocalStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeRecoveryDraft(draft: RecoveryDraft): void {
+  try {
+    safeLocalStorage()?.setItem(userKey(RECOVERY_KEY), JSON.stringify(draft));
+  } catch {
+    /* تجاوز الحصة: الحفظ التلقائي يبقى خط الدفاع الثاني */
+  }
+}
+
+export function readRecoveryDraft(): RecoveryDraft | null {
+  const raw = safeLocalStorage()?.getItem(userKey(RECOVERY_KEY));
+  if (!raw) return null;
+  try {
+    const draft = JSON.parse(raw) as RecoveryDraft;
+    return typeof draft.screenplayId === 'string' && typeof draft.content === 'string' ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearRecoveryDraft(screenplayId?: string): void {
+  const storage = safeLocalStorage();
+  if (!storage) return;
+  if (screenplayId && readRecoveryDraft()?.screenplayId !== screenplayId) return;
+  storage.removeItem(userKey(RECOVERY_KEY));
+}
+
+/** مسودة أحدث من المحفوظ لهذا السيناريو، إن وُجدت */
+export function findNewerDraft(record: ScreenplayRecord): RecoveryDraft | null {
+  const draft = readRecoveryDraft();
+  if (!draft || draft.screenplayId !== record.id) return null;
+  return draft.savedAt > record.updatedAt && draft.content !== record.content ? draft : null;
+}
+
+export function getLastOpenedId(): string | null {
+  return safeLocalStorage()?.getItem(userKey(LAST_OPENED_KEY)) ?? null;
+}
+
+export function setLastOpenedId(id: string): void {
+  safeLocalStorage()?.setItem(userKey(LAST_OPENED_KEY), id);
+}
+
+// ===== البيانات المرافقة =====
+// تمر عبر الواجهة الخلفية كالسيناريو نفسه، فتصل إلى الخادم حين يكون متاحًا
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/** شكل كل مفتاح؛ القيمة التالفة تُعامل كأنها غير محفوظة */
+const SCREENPLAY_DATA_GUARDS: { [K in ScreenplayDataKey]: Guard<ScreenplayData[K]> } = {
+  'scene-lock': isStringArray,
+  revisions: (set): set is RevisionSet =>
+    isRecord(set) && Array.isArray(set.pageStarts) && Array.isArray(set.revisions) && set.revisions.length > 0,
+  breakdown: (set): set is BreakdownSet => isRecord(set) && typeof set.text === 'string' && Array.isArray(set.tags),
+  rules: (choice): choice is RuleSetChoice =>
+    typeof choice === 'string' || (isRecord(choice) && typeof choice.id === 'string'),
+  schedule: (schedule): schedule is ShootingSchedule =>
+    isRecord(schedule) &&
+    typeof schedule.text === 'string' &&
+    Array.isArray(schedule.days) &&
+    schedule.days.every(
+      (day: unknown) =>
+        isRecord(day) && Array.isArray(day.scenes) && day.scenes.every((line: unknown) => typeof line === 'number')
+    )
+};
+
+async function readScreenplayData<K extends ScreenplayDataKey>(screenplayId: string, key: K): Promise<ScreenplayData[K] | null> {
+  const value = await getStorageBackend().getScreenplayData(screenplayId, key);
+  const valid: Guard<ScreenplayData[K]> = SCREENPLAY_DATA_GUARDS[key];
+  return valid(value) ? value : null;
+}
+
+/** null يحذف القيمة */
+function writeScreenplayData<K extends ScreenplayDataKey>(screenplayId: string, key: K, value: ScreenplayData[K] | null): Promise<void> {
+  return getStorageBackend().putScreenplayData(screenplayId, key, value);
+}
+
+// غياب الأرقام المقفلة يعني ترقيمًا حرًا
+export function readSceneLock(screenplayId: string): Promise<string[] | null> {
+  return readScreenplayData(screenplayId, 'scene-lock');
+}
+
+export function writeSceneLock(screenplayId: string, numbers: string[] | null): Promise<void> {
+  return writeScreenplayData(screenplayId, 'scene-lock', numbers);
+}
+
+// غياب المراجعات يعني أن التصوير لم يبدأ
+export function readRevisions(screenplayId: string): Promise<RevisionSet | null> {
+  return readScreenplayData(screenplayId, 'revisions');
+}
+
+export function writeRevisions(screenplayId: string, set: RevisionSet | null): Promise<void> {
+  return writeScreenplayData(screenplayId, 'revisions', set);
+}
+
+export function readBreakdown(screenplayId: string): Promise<BreakdownSet | null> {
+  return readScreenplayData(screenplayId, 'breakdown');
+}
+
+export function writeBreakdown(screenplayId: string, set: BreakdownSet | null): Promise<void> {
+  return writeScreenplayData(screenplayId, 'breakdown', set && set.tags.length > 0 ? set : null);
+}
+
+export function readRuleSetChoice(screenplayId: string): Promise<RuleSetChoice | null> {
+  return readScreenplayData(screenplayId, 'rules');
+}
+
+/** null يعيد المشروع إلى الملف الافتراضي */
+export function writeRuleSetChoice(screenplayId: string, choice: RuleSetChoice | null): Promise<void> {
+  return writeScreenplayData(screenplayId, 'rules', choice);
+}
+
+// جدول التصوير: أيامه ومشاهد كل يوم بأسطر ترويساتها في النص المحفوظ معه
+export function readSchedule(screenplayId: string): Promise<ShootingSchedule | null> {
+  return readScreenplayData(screenplayId, 'schedule');
+}
+
+export function writeSchedule(screenplayId: string, schedule: ShootingSchedule | null): Promise<void> {
+  return writeScreenplayData(screenplayId, 'schedule', schedule && schedule.days.length > 0 ? schedule : null);
+}
+
+const isLineExamples = (value: unknown): value is LineExample[] => Array.isArray(value);
+
+// تصحيحات التصنيف للمستخدم في كل سيناريوهاته؛ التدريب والتصنيف بها يبقيان في المتصفح
+export async function readLineCorrections(): Promise<LineExample[]> {
+  const examples = await getStorageBackend().getUserData('line-corrections');
+  return isLineExamples(examples) ? examples : [];
+}
+
+export function writeLineCorrections(examples: LineExample[]): Promise<void> {
+  return getStorageBackend().putUserData('line-corrections', examples.length > 0 ? examples : null);
+}
+
+// ===== الحفظ التلقائي =====
+
+export interface Autosaver {
+  /** جدولة حفظ بعد توقف الكتابة */
+  schedule(content: string): void;
+  /** حفظ المعلّق فورًا */
+  flush(): Promise<void>;
+  cancel(): void;
+}
+
+export function createAutosaver(save: (content: string) => Promise<void>, delay = 1500): Autosaver {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: string | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const run = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending === null) return inFlight;
+    const content = pending;
+    pending = null;
+    // الحفظات متسلسلة كي لا يسبق حفظ قديم حفظًا أحدث
+    inFlight = inFlight.catch(() => {}).then(() => save(content));
+    return inFlight;
+  };
+
+  return {
+    schedule(content: string) {
+      pending = content;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        run().catch(() => {});
+      }, delay);
+    },
+    flush: run,
+    cancel() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending = null;
+    }
+  };
+}
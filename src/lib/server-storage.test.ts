@@ -0,0 +1,104 @@
+// Unit Tests for Server Storage - اختبارات التخزين عبر الـ API
+// التحقق من تحويل ردود الخادم إلى سجلات التخزين ومن طلبات الكتابة المرسلة
+
+import { queryClient } from './queryClient';
+import { ServerStorageBackend } from './server-storage';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+const SCREENPLAY = {
+  id: '11111111-1111-4111-8111-111111111111',
+  projectId: null,
+  title: 'الرحلة',
+  content: 'مشهد 1 - ليل-داخلي – البيت',
+  createdAt: '2025-01-01T10:00:00.000Z',
+  updatedAt: '2025-01-02T10:00:00.000Z'
+};
+
+describe('ServerStorageBackend', () => {
+  const originalFetch = globalThis.fetch;
+  let requests: RecordedRequest[];
+
+  const respond = (routes: Record<string, { status?: number; body?: unknown }>) => {
+    globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const method = init?.method ?? 'GET';
+      const url = String(input);
+      requests.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : undefined });
+      const route = routes[`${method} ${url}`] ?? { status: 404, body: { message: 'غير موجود' } };
+      return new Response(route.body === undefined ? null : JSON.stringify(route.body), { status: route.status ?? 200 });
+    }) as typeof fetch;
+  };
+
+  beforeEach(() => {
+    requests = [];
+    queryClient.clear();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should convert ISO timestamps to epoch milliseconds', async () => {
+    respond({ [`GET /api/screenplays/${SCREENPLAY.id}`]: { body: SCREENPLAY } });
+
+    const record = await new ServerStorageBackend().getScreenplay(SCREENPLAY.id);
+    expect(record).toEqual({
+      id: SCREENPLAY.id,
+      title: 'الرحلة',
+      content: SCREENPLAY.content,
+      createdAt: Date.parse(SCREENPLAY.createdAt),
+      updatedAt: Date.parse(SCREENPLAY.updatedAt)
+    });
+  });
+
+  it('should return null for a missing screenplay', async () => {
+    respond({});
+    expect(await new ServerStorageBackend().getScreenplay('missing')).toBeNull();
+  });
+
+  it('should upsert screenplays with PUT and refresh the cached list', async () => {
+    respond({
+      [`PUT /api/screenplays/${SCREENPLAY.id}`]: { body: SCREENPLAY },
+      'GET /api/screenplays': { body: [{ ...SCREENPLAY, content: undefined }] }
+    });
+    const backend = new ServerStorageBackend();
+    await backend.listScreenplays();
+
+    await backend.putScreenplay({
+      id: SCREENPLAY.id,
+      title: 'الرحلة',
+      content: SCREENPLAY.content,
+      createdAt: 0,
+      updatedAt: 0
+    });
+    await backend.listScreenplays();
+
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'GET /api/screenplays',
+      `PUT /api/screenplays/${SCREENPLAY.id}`,
+      'GET /api/screenplays'
+    ]);
+    expect(requests[1].body).toEqual({ title: 'الرحلة', content: SCREENPLAY.content });
+  });
+
+  it('should keep screenplay data on the server and delete it when cleared', async () => {
+    const url = `/api/screenplays/${SCREENPLAY.id}/data/scene-lock`;
+    respond({
+      [`GET ${url}`]: { body: ['1', '2'] },
+      [`PUT ${url}`]: { status: 204 },
+      [`DELETE ${url}`]: { status: 204 }
+    });
+    const backend = new ServerStorageBackend();
+
+    expect(await backend.getScreenplayData(SCREENPLAY.id, 'scene-lock')).toEqual(['1', '2']);
+    await backend.putScreenplayData(SCREENPLAY.id, 'scene-lock', ['1']);
+    await backend.putScreenplayData(SCREENPLAY.id, 'scene-lock', null);
+
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([`GET ${url}`, `PUT ${url}`, `DELETE ${url}`]);
+    expect(requests[1].body).toEqual({ value: ['1'] });
+  });
+});
@@ -0,0 +1,153 @@
+// Server Storage - واجهة تخزين خلفية عبر الـ API
+// تمر القراءة عبر ذاكرة React Query المؤقتة، والكتابة عبر apiRequest مع تحديث الذاكرة بعدها
+
+import type {
+  Revision,
+  Screenplay,
+  ScreenplayDataKey,
+  ScreenplaySummary as ApiScreenplaySummary,
+  UserDataKey
+} from '@shared/schema';
+import { apiRequest, queryClient } from './queryClient';
+import {
+  setStorageBackend,
+  type ScreenplayData,
+  type ScreenplayRecord,
+  type ScreenplaySummary,
+  type SnapshotRecord,
+  type StorageBackend,
+  type UserData
+} from './screenplay-storage';
+
+/** ما يصل عبر JSON: التواريخ نصوص ISO */
+type Serialized<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] };
+
+const SCREENPLAYS_KEY = ['/api/screenplays'];
+const screenplayKey = (id: string) => [...SCREENPLAYS_KEY, id];
+const revisionsKey = (id: string) => [...SCREENPLAYS_KEY, id, 'revisions'];
+
+function toSummary(item: Serialized<ApiScreenplaySummary>): ScreenplaySummary {
+  return {
+    id: item.id,
+    title: item.title,
+    createdAt: Date.parse(item.createdAt),
+    updatedAt: Date.parse(item.updatedAt)
+  };
+}
+
+function toRecord(item: Serialized<Screenplay>): ScreenplayRecord {
+  return { ...toSummary(item), content: item.content };
+}
+
+function toSnapshot(item: Serialized<Revision>): SnapshotRecord {
+  return {
+    id: item.id,
+    screenplayId: item.screenplayId,
+    name: item.name,
+    content: item.content,
+    createdAt: Date.parse(item.createdAt)
+  };
+}
+
+/** throwIfResNotOk يبدأ رسالة الخطأ برمز الحالة */
+const isNotFound = (error: unknown) => error instanceof Error && error.message.startsWith('404:');
+
+/** قراءة قيمة أو حذفها أو استبدالها؛ الخادم يرد بـ null لما لم يُحفظ */
+async function getData(url: string): Promise<unknown> {
+  return (await apiRequest('GET', url)).json();
+}
+
+async function putData(url: string, value: unknown): Promise<void> {
+  if (value === null) {
+    await apiRequest('DELETE', url);
+  } else {
+    await apiRequest('PUT', url, { value });
+  }
+}
+
+const screenplayDataUrl = (screenplayId: string, key: ScreenplayDataKey) => `/api/screenplays/${screenplayId}/data/${key}`;
+const userDataUrl = (key: UserDataKey) => `/api/user/data/${key}`;
+
+export class ServerStorageBackend implements StorageBackend {
+  async listScreenplays(): Promise<ScreenplaySummary[]> {
+    const items = await queryClient.fetchQuery<Serialized<ApiScreenplaySummary>[]>({ queryKey: SCREENPLAYS_KEY });
+    return items.map(toSummary);
+  }
+
+  async getScreenplay(id: string): Promise<ScreenplayRecord | null> {
+    try {
+      return toRecord(await queryClient.fetchQuery<Serialized<Screenplay>>({ queryKey: screenplayKey(id) }));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async putScreenplay(record: ScreenplayRecord): Promise<void> {
+    const res = await apiRequest('PUT', `/api/screenplays/${record.id}`, {
+      title: record.title,
+      content: record.content
+    });
+    queryClient.setQueryData(screenplayKey(record.id), await res.json());
+    await queryClient.invalidateQueries({ queryKey: SCREENPLAYS_KEY, exact: true });
+  }
+
+  async deleteScreenplay(id: string): Promise<void> {
+    await apiRequest('DELETE', `/api/screenplays/${id}`);
+    queryClient.removeQueries({ queryKey: screenplayKey(id) });
+    await queryClient.invalidateQueries({ queryKey: SCREENPLAYS_KEY, exact: true });
+  }
+
+  async listSnapshots(screenplayId: string): Promise<SnapshotRecord[]> {
+    const items = await queryClient.fetchQuery<Serialized<Revision>[]>({ queryKey: revisionsKey(screenplayId) });
+    return items.map(toSnapshot);
+  }
+
+  async putSnapshot(snapshot: SnapshotRecord): Promise<void> {
+    await apiRequest('POST', `/api/screenplays/${snapshot.screenplayId}/revisions`, {
+      id: snapshot.id,
+      name: snapshot.name,
+      content: snapshot.content
+    });
+    await queryClient.invalidateQueries({ queryKey: revisionsKey(snapshot.screenplayId) });
+  }
+
+  async deleteSnapshot(screenplayId: string, id: string): Promise<void> {
+    await apiRequest('DELETE', `/api/screenplays/${screenplayId}/revisions/${id}`);
+    await queryClient.invalidateQueries({ queryKey: revisionsKey(screenplayId) });
+  }
+
+  getScreenplayData(screenplayId: string, key: ScreenplayDataKey): Promise<unknown> {
+    return getData(screenplayDataUrl(screenplayId, key));
+  }
+
+  putScreenplayData<K extends ScreenplayDataKey>(screenplayId: string, key: K, value: ScreenplayData[K] | null): Promise<void> {
+    return putData(screenplayDataUrl(screenplayId, key), value);
+  }
+
+  getUserData(key: UserDataKey): Promise<unknown> {
+    return getData(userDataUrl(key));
+  }
+
+  putUserData<K extends UserDataKey>(key: K, value: UserData[K] | null): Promise<void> {
+    return putData(userDataUrl(key), value);
+  }
+}
+
+let connection: Promise<boolean> | null = null;
+
+/**
+ * استعمال الخادم للتخزين إن كان متاحًا؛ وإلا يبقى IndexedDB (مثل تشغيل Vite وحده دون الخادم)
+ */
+export function connectServerStorage(): Promise<boolean> {
+  if (!connection) {
+    connection = queryClient
+      .fetchQuery({ queryKey: SCREENPLAYS_KEY })
+      .then(() => {
+        setStorageBackend(new ServerStorageBackend());
+        return true;
+      })
+      .catch(() => false);
+  }
+  return connection;
+}
@@ -0,0 +1,122 @@
+import {
+  addShootingDay,
+  buildStrips,
+  dayOutOfDays,
+  dayOutOfDaysCsv,
+  moveStrip,
+  planSchedule,
+  rebaseSchedule,
+  removeShootingDay,
+  stripColor,
+  type ShootingSchedule
+} from './stripboard';
+
+const SCRIPT = `مشهد 1 - ليل-داخلي – بيت أحمد
+
+أحمد:
+أين إيمان؟
+
+مشهد 2 - نهار-خارجي – الشارع
+
+إيمان:
+هنا.
+
+مشهد 3 - نهار-داخلي – المقهى
+
+أحمد:
+أخيرًا.
+
+مشهد 4 - ليل-خارجي – السطح
+
+سامي:
+انظروا.`;
+
+describe('stripboard', () => {
+  test('one strip per scene coloured by interior/exterior and day/night', () => {
+    const strips = buildStrips(SCRIPT);
+    expect(strips.map((s) => [s.number, s.line, s.inOut, s.dayNight, s.cast])).toEqual([
+      ['1', 0, 'interior', 'night', ['أحمد']],
+      ['2', 5, 'exterior', 'day', ['إيمان']],
+      ['3', 10, 'interior', 'day', ['أحمد']],
+      ['4', 15, 'exterior', 'night', ['سامي']]
+    ]);
+    expect(strips.map(stripColor)).toEqual(['#bfdbfe', '#fef08a', '#ffffff', '#bbf7d0']);
+  });
+
+  test('dragging strips into days with page and cast totals', () => {
+    let schedule: ShootingSchedule = addShootingDay(addShootingDay({ text: SCRIPT, days: [] }, 'd1'), 'd2');
+    schedule = moveStrip(schedule, 10, 'd1');
+    schedule = moveStrip(schedule, 0, 'd1', 0);
+    schedule = moveStrip(schedule, 5, 'd2');
+    const plan = planSchedule(buildStrips(SCRIPT), schedule);
+
+    expect(plan.days.map((d) => d.strips.map((s) => s.number))).toEqual([['1', '3'], ['2']]);
+    expect(plan.days.map((d) => [d.eighths, d.cast])).toEqual([[2, ['أحمد']], [1, ['إيمان']]]);
+    expect(plan.unscheduled.map((s) => s.number)).toEqual(['4']);
+
+    // إعادة الترتيب داخل اليوم، ثم الإرجاع إلى غير المجدول
+    expect(moveStrip(schedule, 10, 'd1', 0).days[0].scenes).toEqual([10, 0]);
+    expect(moveStrip(schedule, 0, 'd1', 2).days[0].scenes).toEqual([10, 0]);
+    expect(moveStrip(schedule, 10, null).days[0].scenes).toEqual([0]);
+    expect(planSchedule(buildStrips(SCRIPT), removeShootingDay(schedule, 'd1')).unscheduled.map((s) => s.number)).toEqual([
+      '1',
+      '3',
+      '4'
+    ]);
+  });
+
+  test('scenes sharing a number stay separate strips', () => {
+    const script = SCRIPT.replace('مشهد 3', 'مشهد 2');
+    const strips = buildStrips(script);
+    const schedule = moveStrip({ text: script, days: [{ id: 'd1', scenes: [] }] }, 10, 'd1');
+    const plan = planSchedule(strips, schedule);
+
+    expect(plan.days[0].strips.map((s) => [s.number, s.place])).toEqual([['2', 'المقهى']]);
+    expect(plan.unscheduled.map((s) => [s.number, s.line])).toEqual([['1', 0], ['2', 5], ['4', 15]]);
+  });
+
+  test('scheduled scenes follow their headers through edits, renumbering and moves', () => {
+    const schedule: ShootingSchedule = { text: SCRIPT, days: [{ id: 'd1', scenes: [10, 15] }, { id: 'd2', scenes: [5] }] };
+    const placesOn = (text: string, day: number) =>
+      planSchedule(buildStrips(text), rebaseSchedule(schedule, text)).days[day].strips.map((s) => s.place);
+
+    // سطر جديد قبل المشاهد، وإعادة ترقيم الترويسة
+    const edited = `تمهيد.\n\n${SCRIPT.replace('مشهد 3', 'مشهد 3أ')}`;
+    expect(placesOn(edited, 0)).toEqual(['المقهى', 'السطح']);
+    expect(placesOn(edited, 1)).toEqual(['الشارع']);
+
+    // نقل مشهد السطح إلى البداية
+    const blocks = SCRIPT.split('\n\nمشهد ');
+    const moved = [`مشهد ${blocks[3]}`, blocks[0], ...blocks.slice(1, 3).map((block) => `مشهد ${block}`)].join('\n\n');
+    expect(placesOn(moved, 0)).toEqual(['المقهى', 'السطح']);
+
+    // حذف المشهد يسقطه من يومه
+    const deleted = blocks.slice(0, 2).join('\n\nمشهد ') + '\n\nمشهد ' + blocks[3];
+    expect(placesOn(deleted, 0)).toEqual(['السطح']);
+  });
+
+  test('day out of days marks start, work, hold and finish', () => {
+    const schedule: ShootingSchedule = {
+      text: SCRIPT,
+      days: [
+        { id: 'a', date: '2026-11-01', scenes: [0] },
+        { id: 'b', scenes: [5] },
+        { id: 'c', scenes: [10, 15] }
+      ]
+    };
+    const plan = planSchedule(buildStrips(SCRIPT), schedule);
+    const dood = dayOutOfDays(plan);
+
+    expect(dood.cast).toEqual(['أحمد', 'إيمان', 'سامي']);
+    expect(dood.codes).toEqual([
+      ['SW', 'H', 'WF'],
+      ['', 'SWF', ''],
+      ['', '', 'SWF']
+    ]);
+    expect(dood.workDays).toEqual([2, 1, 1]);
+    expect(dayOutOfDaysCsv(plan).split('\r\n').slice(0, 2)).toEqual([
+      'الممثل,2026-11-01,اليوم 2,اليوم 3,أيام العمل',
+      'أحمد,SW,H,WF,2'
+    ]);
+  });
+});
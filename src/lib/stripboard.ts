@@ -0,0 +1,207 @@
+// Stripboard - لوحة شرائط جدول التصوير
+// شريط لكل مشهد من ترويسات السيناريو ملوّن بالداخلي/الخارجي والنهار/الليل، يُسحب إلى أيام التصوير؛
+// لكل يوم مجموع صفحاته وممثلوه، ومن الجدول تقرير Day Out of Days لأيام عمل كل ممثل.
+// المشهد يُعرف بسطر ترويسته في المصدر لا برقمه (قد يتكرر أو يتغيّر)، والأسطر تنتقل مع النص عبر التعديلات
+
+import { buildBreakdownSheet, type BreakdownTag, type SceneBreakdown } from './breakdown';
+import { getSceneHeaders, parseScreenplayText } from './screenplay-document';
+import { classifyInOut, classifyTime, toCsv } from './screenplay-reports';
+import { diffLines } from './text-diff';
+
+export interface Strip extends SceneBreakdown {
+  /** سطر ترويسة المشهد (فهرس صفري)؛ هوية الشريط في الجدول */
+  line: number;
+  inOut: ReturnType<typeof classifyInOut>;
+  dayNight: ReturnType<typeof classifyTime>;
+}
+
+export interface ShootingDay {
+  id: string;
+  /** تاريخ التصوير إن حُدّد (YYYY-MM-DD) */
+  date?: string;
+  /** أسطر ترويسات المشاهد بترتيب تصويرها */
+  scenes: number[];
+}
+
+export interface ShootingSchedule {
+  /** النص الذي ثُبّتت عليه أسطر المشاهد */
+  text: string;
+  days: ShootingDay[];
+}
+
+/** ألوان الشرائط المتعارف عليها: داخلي نهار أبيض، خارجي نهار أصفر، داخلي ليل أزرق، خارجي ليل أخضر */
+export const STRIP_COLORS: Record<string, string> = {
+  'interior-day': '#ffffff',
+  'exterior-day': '#fef08a',
+  'interior-night': '#bfdbfe',
+  'exterior-night': '#bbf7d0'
+};
+const UNKNOWN_STRIP_COLOR = '#e5e7eb';
+
+export function stripColor(strip: Strip): string {
+  return STRIP_COLORS[`${strip.inOut}-${strip.dayNight}`] ?? UNKNOWN_STRIP_COLOR;
+}
+
+/** شرائط المشاهد بترتيب السيناريو؛ الممثلون من الحوار ووسوم التفريغ */
+export function buildStrips(content: string, tags: BreakdownTag[] = []): Strip[] {
+  const headers = getSceneHeaders(parseScreenplayText(content));
+  return buildBreakdownSheet(content, tags).map((scene, index) => ({
+    ...scene,
+    line: headers[index].range.start,
+    inOut: classifyInOut(scene.timeLocation),
+    dayNight: classifyTime(scene.timeLocation)
+  }));
+}
+
+export interface ScheduledDay {
+  day: ShootingDay;
+  strips: Strip[];
+  /** مجموع الطول بأثمان الصفحة */
+  eighths: number;
+  cast: string[];
+}
+
+export interface SchedulePlan {
+  days: ScheduledDay[];
+  /** مشاهد لم تُجدول بعد، بترتيب السيناريو */
+  unscheduled: Strip[];
+}
+
+/**
+ * أسطر المشاهد المجدولة في النص الجديد: السطر الباقي ينتقل برقمه الجديد، والترويسة المعدّلة (رقم أو
+ * مكان جديد) تأخذ السطر الذي حلّ محلها، والمنقولة تُعرف بسطرها كما هو بين الأسطر المضافة؛ ما اختفى يسقط
+ */
+export function rebaseSchedule(schedule: ShootingSchedule, content: string): ShootingSchedule {
+  if (schedule.text === content) return schedule;
+  const oldLines = schedule.text.split('\n');
+  const newLines = content.split('\n');
+  const moved = new Map<number, number>();
+  const unplaced: number[] = [];
+  const allAdded: number[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    removed.forEach((line, rank) => (rank < added.length ? moved.set(line, added[rank]) : unplaced.push(line)));
+    removed = [];
+    added = [];
+  };
+
+  diffLines(schedule.text, content).forEach((entry) => {
+    if (entry.type === 'removed') {
+      removed.push(oldIndex++);
+    } else if (entry.type === 'added') {
+      allAdded.push(newIndex);
+      added.push(newIndex++);
+    } else {
+      flush();
+      moved.set(oldIndex++, newIndex++);
+    }
+  });
+  flush();
+
+  const taken = new Set(moved.values());
+  unplaced.forEach((line) => {
+    const target = allAdded.find((candidate) => !taken.has(candidate) && newLines[candidate] === oldLines[line]);
+    if (target === undefined) return;
+    moved.set(line, target);
+    taken.add(target);
+  });
+
+  return {
+    text: content,
+    days: schedule.days.map((day) => ({
+      ...day,
+      scenes: day.scenes.flatMap((line) => (moved.has(line) ? [moved.get(line)!] : []))
+    }))
+  };
+}
+
+/** الجدول على مشاهد النص الحالي (بعد rebaseSchedule)؛ المشهد الذي حُذف من النص يسقط من يومه */
+export function planSchedule(strips: Strip[], schedule: ShootingSchedule): SchedulePlan {
+  const byLine = new Map(strips.map((strip) => [strip.line, strip]));
+  const scheduled = new Set<number>();
+
+  const days = schedule.days.map((day) => {
+    const dayStrips = day.scenes.flatMap((line) => {
+      const strip = byLine.get(line);
+      if (!strip || scheduled.has(line)) return [];
+      scheduled.add(line);
+      return [strip];
+    });
+    const cast: string[] = [];
+    dayStrips.forEach((strip) => strip.cast.forEach((name) => !cast.includes(name) && cast.push(name)));
+    return { day, strips: dayStrips, eighths: dayStrips.reduce((sum, strip) => sum + strip.eighths, 0), cast };
+  });
+
+  return { days, unscheduled: strips.filter((strip) => !scheduled.has(strip.line)) };
+}
+
+/** نقل مشهد بسطر ترويسته إلى يوم (أو إلى غير المجدول بـ null) قبل الموضع index */
+export function moveStrip(schedule: ShootingSchedule, line: number, dayId: string | null, index = Infinity): ShootingSchedule {
+  return {
+    ...schedule,
+    days: schedule.days.map((day) => {
+      const scenes = day.scenes.filter((scene) => scene !== line);
+      if (day.id === dayId) {
+        // الموضع محسوب على اليوم قبل إخراج المشهد منه
+        const from = day.scenes.indexOf(line);
+        const at = Math.min(from >= 0 && from < index ? index - 1 : index, scenes.length);
+        scenes.splice(at, 0, line);
+      }
+      return { ...day, scenes };
+    })
+  };
+}
+
+export function addShootingDay(schedule: ShootingSchedule, id: string): ShootingSchedule {
+  return { ...schedule, days: [...schedule.days, { id, scenes: [] }] };
+}
+
+/** حذف يوم تعود مشاهده إلى غير المجدول */
+export function removeShootingDay(schedule: ShootingSchedule, id: string): ShootingSchedule {
+  return { ...schedule, days: schedule.days.filter((day) => day.id !== id) };
+}
+
+// ===== Day Out of Days =====
+
+/** SW بداية العمل، W عمل، WF آخر يوم، SWF يوم وحيد، H انتظار بين يومي عمل */
+export type DoodCode = 'SW' | 'W' | 'WF' | 'SWF' | 'H' | '';
+
+export interface DayOutOfDays {
+  cast: string[];
+  /** رمز كل ممثل في كل يوم تصوير */
+  codes: DoodCode[][];
+  /** أيام العمل لكل ممثل */
+  workDays: number[];
+}
+
+export function dayOutOfDays(plan: SchedulePlan): DayOutOfDays {
+  const cast: string[] = [];
+  plan.days.forEach((day) => day.cast.forEach((name) => !cast.includes(name) && cast.push(name)));
+
+  const codes = cast.map((name) => {
+    const working = plan.days.map((day) => day.cast.includes(name));
+    const first = working.indexOf(true);
+    const last = working.lastIndexOf(true);
+    return working.map((works, index): DoodCode => {
+      if (index < first || index > last) return '';
+      if (!works) return 'H';
+      if (first === last) return 'SWF';
+      if (index === first) return 'SW';
+      return index === last ? 'WF' : 'W';
+    });
+  });
+
+  return { cast, codes, workDays: codes.map((row) => row.filter((code) => code && code !== 'H').length) };
+}
+
+export function dayOutOfDaysCsv(plan: SchedulePlan): string {
+  const dood = dayOutOfDays(plan);
+  const dayLabels = plan.days.map(({ day }, index) => day.date || `اليوم ${index + 1}`);
+  return toCsv([
+    ['الممثل', ...dayLabels, 'أيام العمل'],
+    ...dood.cast.map((name, row) => [name, ...dood.codes[row], dood.workDays[row]])
+  ]);
+}
@@ -0,0 +1,33 @@
+// Unit Tests for Text Diff - اختبارات مقارنة النصوص
+
+import { diffLines, summarizeDiff } from './text-diff';
+
+describe('TextDiff', () => {
+
+  it('should report no changes for identical texts', () => {
+    const diff = diffLines('سطر أول\nسطر ثانٍ', 'سطر أول\nسطر ثانٍ');
+    expect(diff.every((line) => line.type === 'same')).toBe(true);
+    expect(summarizeDiff(diff)).toEqual({ added: 0, removed: 0 });
+  });
+
+  it('should mark replaced, added and removed lines in order', () => {
+    const before = 'مشهد 1 - ليل-داخلي\nأحمد:\nمرحبا\nقطع';
+    const after = 'مشهد 1 - ليل-داخلي\nأحمد:\nأهلًا\nيبتسم\nقطع';
+
+    expect(diffLines(before, after)).toEqual([
+      { type: 'same', text: 'مشهد 1 - ليل-داخلي' },
+      { type: 'same', text: 'أحمد:' },
+      { type: 'removed', text: 'مرحبا' },
+      { type: 'added', text: 'أهلًا' },
+      { type: 'added', text: 'يبتسم' },
+      { type: 'same', text: 'قطع' }
+    ]);
+  });
+
+  it('should keep common lines between scattered edits', () => {
+    const diff = diffLines('أ\nب\nج\nد', 'ب\nج\nد\nهـ');
+    expect(diff.map((line) => `${line.type}:${line.text}`)).toEqual([
+      'removed:أ', 'same:ب', 'same:ج', 'same:د', 'added:هـ'
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+// Text Diff - مقارنة النصوص سطرًا بسطر
+// تُستخدم لعرض الفروق بين نسخ السيناريو المحفوظة والنص الحالي
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+}
+
+/** فروق الأسطر بأطول تسلسل مشترك، بعد استبعاد البداية والنهاية المشتركتين */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  // lengths[i][j] = طول أطول تسلسل مشترك لـ midA[i..] و midB[j..]
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        midA[i] === midB[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      result.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      result.push({ type: 'removed', text: midA[i++] });
+    } else {
+      result.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) result.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) result.push({ type: 'added', text: midB[j++] });
+
+  return result.concat(a.slice(endA).map((text) => ({ type: 'same' as const, text })));
+}
+
+export function summarizeDiff(diff: DiffLine[]): DiffSummary {
+  return {
+    added: diff.filter((line) => line.type === 'added').length,
+    removed: diff.filter((line) => line.type === 'removed').length
+  };
+}
@@ -0,0 +1,11 @@
+// XML Helpers - أدوات XML المشتركة بين محوّلات التصدير
+
+/** تهريب المحارف الخاصة في النصوص والسمات */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
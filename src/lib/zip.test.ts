@@ -0,0 +1,37 @@
+// Unit Tests for Zip Archive - اختبارات أرشيف Zip
+// التحقق من CRC-32 وكتابة المدخلات وقراءتها وفك ضغط deflate
+
+import { deflateRawSync } from 'zlib';
+import { crc32, createZip, inflateRaw, readZipEntry } from './zip';
+
+describe('Zip', () => {
+
+  test('should compute standard CRC-32 values', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  test('should read back stored entries by name', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'مرحبا' },
+      { name: 'dir/b.bin', data: new Uint8Array([0, 255, 7]) }
+    ]);
+
+    expect(new TextDecoder().decode(readZipEntry(zip, 'a.txt')!)).toBe('مرحبا');
+    expect(Array.from(readZipEntry(zip, 'dir/b.bin')!)).toEqual([0, 255, 7]);
+    expect(readZipEntry(zip, 'missing.txt')).toBeNull();
+  });
+
+  test('should inflate fixed and dynamic Huffman blocks', () => {
+    const short = new TextEncoder().encode('مشهد 1');
+    const long = new TextEncoder().encode('أحمد: سأعود قريبًا.\n'.repeat(500) + 'قطع إلى:');
+
+    expect(Array.from(inflateRaw(new Uint8Array(deflateRawSync(short))))).toEqual(Array.from(short));
+    expect(Array.from(inflateRaw(new Uint8Array(deflateRawSync(long, { level: 9 }))))).toEqual(Array.from(long));
+    expect(Array.from(inflateRaw(new Uint8Array(deflateRawSync(long, { level: 0 }))))).toEqual(Array.from(long));
+  });
+
+  test('should reject truncated data', () => {
+    const deflated = new Uint8Array(deflateRawSync(new TextEncoder().encode('نص طويل '.repeat(50))));
+    expect(() => inflateRaw(deflated.subarray(0, 5))).toThrow();
+  });
+});
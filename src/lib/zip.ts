@@ -0,0 +1,324 @@
+// Zip Archive - أرشيف Zip مبسّط
+// كتابة حزم Zip بمدخلات مخزّنة دون ضغط، وقراءة المدخلات المخزّنة والمضغوطة بـ deflate (لحزم OOXML مثل docx)
+
+export interface ZipEntry {
+  /** المسار داخل الحزمة (مثل word/document.xml) */
+  name: string;
+  data: Uint8Array | string;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** حساب CRC-32 كما يتطلبه تنسيق Zip */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 1980-01-01 00:00 بصيغة DOS (أقدم تاريخ يقبله Zip)
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/** إنشاء حزمة Zip من المدخلات بترتيبها */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // الإصدار المطلوب
+    local.setUint16(6, 0x0800, true); // أسماء UTF-8
+    local.setUint16(8, 0, true); // تخزين دون ضغط
+    local.setUint16(10, DOS_TIME, true);
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, DOS_TIME, true);
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+// ===== القراءة: الدليل المركزي وفك ضغط deflate (RFC 1951) =====
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577
+];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+const MAX_BITS = 15;
+
+/** جدول هوفمان قانوني: عدد الرموز لكل طول، والرموز مرتّبة حسب الطول */
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let len = 1; len < MAX_BITS; len++) offsets[len + 1] = offsets[len] + counts[len];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+class InflateState {
+  private pos = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+  output: Uint8Array;
+  length = 0;
+
+  constructor(private input: Uint8Array, sizeHint: number) {
+    this.output = new Uint8Array(Math.max(sizeHint, 1024));
+  }
+
+  bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.pos >= this.input.length) throw new Error('بيانات مضغوطة غير مكتملة');
+      this.bitBuffer |= this.input[this.pos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  decode(huffman: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len <= MAX_BITS; len++) {
+      code |= this.bits(1);
+      const count = huffman.counts[len];
+      if (code - count < first) return huffman.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('رمز هوفمان غير صالح');
+  }
+
+  push(byte: number): void {
+    if (this.length === this.output.length) {
+      const grown = new Uint8Array(this.output.length * 2);
+      grown.set(this.output);
+      this.output = grown;
+    }
+    this.output[this.length++] = byte;
+  }
+
+  /** كتلة مخزّنة: تبدأ عند حد البايت بطول ومكمّله */
+  stored(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.pos + 4 > this.input.length) throw new Error('بيانات مضغوطة غير مكتملة');
+    const len = this.input[this.pos] | (this.input[this.pos + 1] << 8);
+    this.pos += 4;
+    if (this.pos + len > this.input.length) throw new Error('بيانات مضغوطة غير مكتملة');
+    for (let i = 0; i < len; i++) this.push(this.input[this.pos++]);
+  }
+
+  codes(literals: Huffman, distances: Huffman): void {
+    for (;;) {
+      const symbol = this.decode(literals);
+      if (symbol < 256) {
+        this.push(symbol);
+        continue;
+      }
+      if (symbol === 256) return;
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) throw new Error('طول غير صالح في البيانات المضغوطة');
+      const length = LENGTH_BASE[lengthIndex] + this.bits(LENGTH_EXTRA[lengthIndex]);
+      const distIndex = this.decode(distances);
+      if (distIndex >= DIST_BASE.length) throw new Error('مسافة غير صالحة في البيانات المضغوطة');
+      const distance = DIST_BASE[distIndex] + this.bits(DIST_EXTRA[distIndex]);
+      if (distance > this.length) throw new Error('مسافة غير صالحة في البيانات المضغوطة');
+
+      for (let i = 0; i < length; i++) this.push(this.output[this.length - distance]);
+    }
+  }
+
+  dynamic(): void {
+    const literalCount = this.bits(5) + 257;
+    const distanceCount = this.bits(5) + 1;
+    const codeCount = this.bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+    const lengthCodes = buildHuffman(codeLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < lengths.length; ) {
+      const symbol = this.decode(lengthCodes);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('تكرار دون طول سابق');
+        value = lengths[i - 1];
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+      if (i + repeat > lengths.length) throw new Error('أطوال رموز زائدة');
+      while (repeat--) lengths[i++] = value;
+    }
+
+    this.codes(buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount)));
+  }
+}
+
+/** فك ضغط بيانات deflate خام */
+export function inflateRaw(data: Uint8Array, sizeHint = data.length * 4): Uint8Array {
+  const state = new InflateState(data, sizeHint);
+  let last = 0;
+
+  while (!last) {
+    last = state.bits(1);
+    const type = state.bits(2);
+    if (type === 0) state.stored();
+    else if (type === 1) state.codes(FIXED_LITERALS, FIXED_DISTANCES);
+    else if (type === 2) state.dynamic();
+    else throw new Error('نوع كتلة غير صالح في البيانات المضغوطة');
+  }
+
+  return state.output.slice(0, state.length);
+}
+
+interface CentralEntry {
+  /** 0 تخزين، 8 deflate */
+  method: number;
+  compressedSize: number;
+  size: number;
+  /** موضع الترويسة المحلية */
+  offset: number;
+}
+
+/** أسماء المدخلات ومواقعها من الدليل المركزي */
+function readCentralDirectory(bytes: Uint8Array): Map<string, CentralEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('ليس ملف Zip صالحًا');
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, CentralEntry>();
+  const total = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < total; i++) {
+    if (view.getUint32(position, true) !== 0x02014b50) throw new Error('دليل Zip تالف');
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      offset: view.getUint32(position + 42, true)
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/** قراءة مدخل واحد من حزمة Zip (null إن لم يوجد) */
+export function readZipEntry(bytes: Uint8Array, name: string): Uint8Array | null {
+  const entry = readCentralDirectory(bytes).get(name);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(entry.offset, true) !== 0x04034b50) throw new Error('ترويسة مدخل Zip تالفة');
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return data.slice();
+  if (entry.method === 8) return inflateRaw(data, entry.size);
+  throw new Error(`طريقة ضغط غير مدعومة: ${entry.method}`);
+}
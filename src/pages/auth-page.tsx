@@ -0,0 +1,125 @@
+import { Redirect } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "أدخل اسم المستخدم"),
+  password: z.string().min(1, "أدخل كلمة المرور"),
+});
+
+interface CredentialsFormProps {
+  schema: typeof loginSchema | typeof insertUserSchema;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (values: InsertUser) => void;
+  testId: string;
+}
+
+function CredentialsForm({ schema, submitLabel, isPending, onSubmit, testId }: CredentialsFormProps) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid={testId}>
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>اسم المستخدم</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" dir="auto" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>كلمة المرور</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" dir="ltr" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending && <Loader2 className="w-4 h-4 ml-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen main-container flex items-center justify-center p-4" dir="rtl">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-primary" data-testid="title-auth">
+            محرر السيناريو العربي
+          </CardTitle>
+          <CardDescription>
+            سجّل الدخول للوصول إلى سيناريوهاتك، أو أنشئ حسابًا لغرفة الكتابة
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login" dir="rtl">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">تسجيل الدخول</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">حساب جديد</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                schema={loginSchema}
+                submitLabel="دخول"
+                isPending={loginMutation.isPending}
+                onSubmit={(values) => loginMutation.mutate(values)}
+                testId="form-login"
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                schema={insertUserSchema}
+                submitLabel="إنشاء الحساب"
+                isPending={registerMutation.isPending}
+                onSubmit={(values) => registerMutation.mutate(values)}
+                testId="form-register"
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,44 +1,143 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Save, Download, Layers } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Save, Download, Layers, LogOut, BarChart3, Tags, CalendarDays } from "lucide-react";
 import UnifiedEditor from "@/components/screenplay/unified-editor";
 import PaginatedUnifiedEditor from "@/components/screenplay/paginated-unified-editor";
 import Sidebar from "@/components/screenplay/sidebar";
 import StatusBar from "@/components/screenplay/status-bar";
+import FindReplaceBar from "@/components/screenplay/find-replace-bar";
+import ReportsDialog from "@/components/screenplay/reports-dialog";
+import BreakdownBar from "@/components/screenplay/breakdown-bar";
+import StripboardDialog from "@/components/screenplay/stripboard-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useScreenplayStorage, type SaveState } from "@/hooks/use-screenplay-storage";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollaboration } from "@/hooks/use-collaboration";
+import { useRevisions } from "@/hooks/use-revisions";
+import { useBreakdown } from "@/hooks/use-breakdown";
+import { useRuleSet } from "@/hooks/use-rule-set";
+import { useLineModel } from "@/hooks/use-line-model";
+import { countElements } from "@/lib/screenplay-parser";
+import { parseScreenplayText, serializeScreenplay } from "@/lib/screenplay-document";
+import { findSceneHeaderElement } from "@/lib/scene-outline";
+import { exportToDocx, exportToFdx, exportToFountain, exportToPdf, exportToText } from "@/lib/file-handlers";
+
+function describeLastSaved(saveState: SaveState, lastSavedAt: number | null): string {
+  if (saveState === 'saving') return "جارٍ الحفظ...";
+  if (saveState === 'error') return "فشل الحفظ";
+  if (lastSavedAt === null) return "لم يُحفظ بعد";
+  const time = new Date(lastSavedAt).toLocaleTimeString('ar-SA', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+  return saveState === 'pending' ? `${time} (تعديلات غير محفوظة)` : time;
+}
 
 export default function ScreenplayEditor() {
   const [content, setContent] = useState("");
   const [viewMode, setViewMode] = useState<'simple' | 'paginated'>('paginated');
+  const [reportsOpen, setReportsOpen] = useState(false);
+  const [breakdownMode, setBreakdownMode] = useState(false);
+  const [stripboardOpen, setStripboardOpen] = useState(false);
   const [stats, setStats] = useState({
     scenes: 0,
     words: 0,
-    pages: 1,
-    lastSaved: "منذ دقيقتين"
+    pages: 1
   });
+  // يضم المحرر المعروض أيًّا كان وضعه، للانتقال إلى المشاهد
+  const editorAreaRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
 
-  const handleSave = () => {
-    // TODO: Implement save functionality
-    toast({
-      title: "تم الحفظ",
-      description: "تم حفظ السيناريو بنجاح",
-    });
+  const collaboration = useCollaboration({
+    onRemoteContent: (remote) => {
+      updateStats(remote);
+      storage.recordChange(remote);
+    }
+  });
+
+  const storage = useScreenplayStorage({
+    userId: user?.id ?? null,
+    onLoad: (loaded, { recovered, screenplayId, savedContent }) => {
+      updateStats(loaded);
+      collaboration.attach(screenplayId, loaded, savedContent);
+      if (recovered) {
+        toast({
+          title: "تمت استعادة التعديلات",
+          description: "استُرجعت تعديلات لم تُحفظ قبل إغلاق الصفحة",
+        });
+      }
+    }
+  });
+
+  const revisions = useRevisions(storage.current?.id ?? null);
+  const breakdown = useBreakdown(storage.current?.id ?? null, content);
+  const rules = useRuleSet(storage.current?.id ?? null);
+  const learning = useLineModel(storage.ready, content);
+
+  // ملف القواعد الجديد يغيّر التصنيف: إعادة العدّ، والمحرر يُبنى من جديد بمفتاح الإصدار
+  useEffect(() => {
+    updateStats(content);
+  }, [rules.version]);
+
+  const handleSave = async () => {
+    try {
+      await storage.saveNow(content);
+      toast({
+        title: "تم الحفظ",
+        description: "تم حفظ السيناريو بنجاح",
+      });
+    } catch (error) {
+      toast({
+        title: "فشل الحفظ",
+        description: error instanceof Error ? error.message : "تعذر الوصول إلى التخزين",
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleExport = () => {
-    // TODO: Implement export functionality
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'screenplay.txt';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
+  const handleLogout = async () => {
+    // الحفظ قبل إنهاء الجلسة، فبعدها يرفض الخادم الكتابة
+    try {
+      await storage.saveNow(content);
+    } catch {
+      // المسودة المحلية تبقى للاستعادة عند الدخول التالي
+    }
+    logoutMutation.mutate();
+  };
+
+  const handleExport = async (format: 'txt' | 'fountain' | 'fdx' | 'docx' | 'pdf' | 'revised-pdf') => {
+    if (format === 'pdf' || format === 'revised-pdf') {
+      try {
+        await exportToPdf(content, format === 'pdf' ? 'screenplay.pdf' : 'revised-pages.pdf', {
+          revisions: revisions.revisions,
+          revisedOnly: format === 'revised-pdf',
+        });
+      } catch (error) {
+        toast({
+          title: "فشل التصدير",
+          description: error instanceof Error ? error.message : "تعذر إنشاء ملف PDF",
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (format === 'docx') {
+      exportToDocx(content);
+    } else if (format === 'fountain') {
+      exportToFountain(content);
+    } else if (format === 'fdx') {
+      exportToFdx(content);
+    } else {
+      exportToText(serializeScreenplay(parseScreenplayText(content)));
+    }
+
     toast({
       title: "تم التصدير",
       description: "تم تصدير السيناريو بنجاح",
@@ -60,26 +159,34 @@ export default function ScreenplayEditor() {
   const updateStats = (newContent: string) => {
     setContent(newContent);
 
-    // Count scenes (rough estimation based on scene headers)
-    const sceneMatches = newContent.match(/مشهد|م\./g);
-    const scenes = sceneMatches ? sceneMatches.length : 0;
-
-    // Count words
-    const words = newContent.trim().split(/\s+/).filter(word => word.length > 0).length;
-
-    // Estimate pages (250 words per page for simple mode)
-    const pages = Math.max(1, Math.ceil(words / 250));
-
-    setStats(prev => ({
-      ...prev,
-      scenes,
-      words,
-      pages,
-      lastSaved: new Date().toLocaleTimeString('ar-SA', {
-        hour: '2-digit',
-        minute: '2-digit'
-      })
-    }));
+    // Scenes, words and page estimate from the shared document model
+    const { scenes, words, pages } = countElements(newContent);
+
+    setStats({ scenes, words, pages });
+  };
+
+  const handleContentChange = (newContent: string) => {
+    updateStats(newContent);
+    storage.recordChange(newContent);
+    collaboration.update(newContent);
+  };
+
+  const handleSceneSelect = (index: number) => {
+    const header = editorAreaRef.current ? findSceneHeaderElement(editorAreaRef.current, index) : null;
+    if (!header) return;
+    header.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+    const range = document.createRange();
+    range.selectNodeContents(header);
+    range.collapse(true);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  };
+
+  const displayStats = {
+    ...stats,
+    lastSaved: describeLastSaved(storage.saveState, storage.lastSavedAt)
   };
 
   return (
@@ -113,14 +220,80 @@ export default function ScreenplayEditor() {
                 حفظ
               </Button>
               <Button
-                variant="secondary"
+                onClick={() => setBreakdownMode(!breakdownMode)}
+                variant={breakdownMode ? 'default' : 'outline'}
                 size="sm"
-                onClick={handleExport}
-                data-testid="button-export"
+                disabled={!storage.current}
+                data-testid="button-breakdown-mode"
               >
-                <Download className="w-3 h-3 ml-1" />
-                تصدير
+                <Tags className="w-3 h-3 ml-1" />
+                تفريغ
               </Button>
+              <Button
+                onClick={() => setStripboardOpen(true)}
+                variant="outline"
+                size="sm"
+                disabled={!storage.current}
+                data-testid="button-stripboard"
+              >
+                <CalendarDays className="w-3 h-3 ml-1" />
+                جدول التصوير
+              </Button>
+              <Button onClick={() => setReportsOpen(true)} variant="outline" size="sm" data-testid="button-reports">
+                <BarChart3 className="w-3 h-3 ml-1" />
+                تقارير
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    data-testid="button-export"
+                  >
+                    <Download className="w-3 h-3 ml-1" />
+                    تصدير
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExport('txt')} data-testid="menu-export-txt">
+                    نص عادي (.txt)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('pdf')} data-testid="menu-export-pdf">
+                    PDF للطباعة (.pdf)
+                  </DropdownMenuItem>
+                  {revisions.revisions && (
+                    <DropdownMenuItem onClick={() => handleExport('revised-pdf')} data-testid="menu-export-revised-pdf">
+                      الصفحات المعدّلة فقط (.pdf)
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => handleExport('docx')} data-testid="menu-export-docx">
+                    مستند Word (.docx)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('fountain')} data-testid="menu-export-fountain">
+                    Fountain (.fountain)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('fdx')} data-testid="menu-export-fdx">
+                    Final Draft (.fdx)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {user && (
+                <>
+                  <span className="text-sm text-muted-foreground" data-testid="text-username">
+                    {user.username}
+                  </span>
+                  <Button
+                    onClick={handleLogout}
+                    variant="ghost"
+                    size="sm"
+                    disabled={logoutMutation.isPending}
+                    data-testid="button-logout"
+                  >
+                    <LogOut className="w-3 h-3 ml-1" />
+                    خروج
+                  </Button>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -132,26 +305,43 @@ export default function ScreenplayEditor() {
           {/* Compact Sidebar */}
           <div className="lg:col-span-1">
             <Card className="p-4">
-              <Sidebar stats={stats} onContentUpdate={updateStats} />
+              <Sidebar
+                stats={displayStats}
+                onContentUpdate={handleContentChange}
+                storage={storage}
+                content={content}
+                collaboration={collaboration}
+                revisions={revisions}
+                rules={rules}
+                learning={learning}
+                onSceneSelect={handleSceneSelect}
+              />
             </Card>
           </div>
 
           {/* Dynamic Editor - Switches between modes */}
-          <div className="lg:col-span-4 flex justify-center">
+          <div ref={editorAreaRef} className="lg:col-span-4 flex justify-center">
             {viewMode === 'paginated' ? (
               <div className="w-full max-w-5xl">
                 <Card className="overflow-hidden">
                   <PaginatedUnifiedEditor
+                    key={rules.version}
                     content={content}
-                    onContentChange={updateStats}
+                    onContentChange={handleContentChange}
+                    revisions={revisions.revisions}
+                    remoteCursors={collaboration.peers}
+                    onCursorChange={collaboration.updateCursor}
                   />
                 </Card>
               </div>
             ) : (
               <div className="screenplay-container">
                 <UnifiedEditor
+                  key={rules.version}
                   content={content}
-                  onContentChange={updateStats}
+                  onContentChange={handleContentChange}
+                  remoteCursors={collaboration.peers}
+                  onCursorChange={collaboration.updateCursor}
                 />
               </div>
             )}
@@ -159,9 +349,27 @@ export default function ScreenplayEditor() {
         </div>
       </div>
 
+      <FindReplaceBar content={content} onContentChange={handleContentChange} editorRoot={editorAreaRef} />
+      <ReportsDialog open={reportsOpen} onOpenChange={setReportsOpen} content={content} />
+      <StripboardDialog
+        open={stripboardOpen}
+        onOpenChange={setStripboardOpen}
+        screenplayId={storage.current?.id ?? null}
+        content={content}
+        tags={breakdown.tags}
+      />
+      {breakdownMode && storage.current && (
+        <BreakdownBar
+          breakdown={breakdown}
+          content={content}
+          editorRoot={editorAreaRef}
+          onClose={() => setBreakdownMode(false)}
+        />
+      )}
+
       {/* Compact Status Bar */}
       <div className="fixed bottom-0 left-0 right-0">
-        <StatusBar stats={stats} />
+        <StatusBar stats={displayStats} connection={collaboration.status} peers={collaboration.peers} />
       </div>
     </div>
   );
@@ -0,0 +1,56 @@
+// Collaboration Protocol - رسائل التحرير المشترك عبر WebSocket
+// العميل يتصل بـ COLLAB_PATH?screenplay=<id> ثم يرسل join برقم آخر مراجعة يعرفها وحقبة الغرفة التي عرفها فيها
+
+import type { TextOp } from './ot';
+
+export const COLLAB_PATH = '/ws/collab';
+
+/** موضع مؤشر داخل المحرر: رقم الكتلة (العنصر) والإزاحة داخل نصها */
+export interface CursorPosition {
+  block: number;
+  offset: number;
+}
+
+export interface Peer {
+  clientId: string;
+  userId: string;
+  username: string;
+  color: string;
+  cursor: CursorPosition | null;
+}
+
+/** عملية مع معرّف فريد يولّده مرسلها، كي يتعرّف عليها بعد إعادة الاتصال */
+export interface OpEnvelope {
+  id: string;
+  op: TextOp;
+}
+
+export type ClientMessage =
+  /**
+   * epoch: حقبة الغرفة التي يعود إليها revision؛ الغرفة تُنشأ من جديد بعد خروج آخر عميل فتبدأ أرقامها من الصفر.
+   * pending: معرّف عملية أُرسلت ولم يصل تأكيدها
+   */
+  | { type: 'join'; revision: number | null; epoch: string | null; pending: string | null }
+  | { type: 'op'; revision: number; id: string; op: TextOp }
+  | { type: 'cursor'; cursor: CursorPosition | null };
+
+export type ServerMessage =
+  /**
+   * ops: العمليات منذ مراجعة العميل؛ doc: النص كاملًا إن لم تكن مراجعته معروفة في هذه الحقبة،
+   * ومعه pendingApplied إن كانت عملية العميل المعلّقة قد طُبّقت فصارت جزءًا منه
+   */
+  | {
+      type: 'joined';
+      clientId: string;
+      epoch: string;
+      revision: number;
+      ops?: OpEnvelope[];
+      doc?: string;
+      pendingApplied?: boolean;
+      peers: Peer[];
+    }
+  | { type: 'ack'; revision: number; id: string }
+  | { type: 'op'; revision: number; id: string; op: TextOp }
+  | { type: 'presence'; peers: Peer[] }
+  | { type: 'cursor'; clientId: string; cursor: CursorPosition | null }
+  | { type: 'error'; message: string };
@@ -0,0 +1,79 @@
+// Unit Tests for Operational Transformation - اختبارات تحويل العمليات
+// التحقق من التطبيق والدمج والتحويل وتقارب النص بين كاتبين متزامنين
+
+import { applyOp, composeOps, diffToOp, isNoop, transformIndex, transformOps, type TextOp } from './ot';
+
+/** مولّد أرقام شبه عشوائية ثابت البذرة كي تتكرر الحالات */
+function seeded(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+}
+
+function randomEdit(doc: string, random: () => number): string {
+  const words = ['مشهد', 'أحمد:', '\n', ' ', 'قطع', 'ليل'];
+  const start = Math.floor(random() * (doc.length + 1));
+  const end = Math.min(doc.length, start + Math.floor(random() * 4));
+  const insert = random() < 0.7 ? words[Math.floor(random() * words.length)] : '';
+  return doc.slice(0, start) + insert + doc.slice(end);
+}
+
+describe('OT', () => {
+
+  it('should apply retain, insert and delete components', () => {
+    expect(applyOp('مشهد ليل', [5, 'خارجي-', 3])).toBe('مشهد خارجي-ليل');
+    expect(applyOp('أحمد: مرحبا', [4, -1, ' قال'])).toBe('أحمد قال مرحبا');
+    expect(() => applyOp('قصير', [10])).toThrow();
+  });
+
+  it('should build the minimal op between two texts', () => {
+    expect(diffToOp('أحمد يجلس', 'أحمد يقف')).toEqual([6, 'قف', -3]);
+    expect(isNoop(diffToOp('نفس النص', 'نفس النص'))).toBe(true);
+    expect(applyOp('', diffToOp('', 'بسم الله'))).toBe('بسم الله');
+  });
+
+  it('should compose consecutive ops into one', () => {
+    const doc = 'مشهد 1';
+    const a = diffToOp(doc, 'مشهد 12');
+    const b = diffToOp('مشهد 12', 'مشهد 2');
+    expect(applyOp(doc, composeOps(a, b))).toBe('مشهد 2');
+  });
+
+  it('should order concurrent inserts at the same position by priority', () => {
+    const [aPrime, bPrime] = transformOps([3, 'أ'], [3, 'ب']);
+    expect(applyOp(applyOp('abc', [3, 'أ']), bPrime)).toBe('abcأب');
+    expect(applyOp(applyOp('abc', [3, 'ب']), aPrime)).toBe('abcأب');
+  });
+
+  it('should converge for random concurrent edits', () => {
+    const random = seeded(7);
+    for (let i = 0; i < 300; i++) {
+      const doc = randomEdit(randomEdit('مشهد 1 - ليل-داخلي\nأحمد:\nمرحبا', random), random);
+      const a = diffToOp(doc, randomEdit(doc, random));
+      const b = diffToOp(doc, randomEdit(doc, random));
+      const [aPrime, bPrime] = transformOps(a, b);
+      expect(applyOp(applyOp(doc, a), bPrime)).toBe(applyOp(applyOp(doc, b), aPrime));
+    }
+  });
+
+  it('should keep composed buffers consistent with transforms', () => {
+    const random = seeded(42);
+    for (let i = 0; i < 100; i++) {
+      const doc = 'فاطمة:\n(بهمس)\nهل أنت هنا؟';
+      const step1 = randomEdit(doc, random);
+      const step2 = randomEdit(step1, random);
+      const local: TextOp = composeOps(diffToOp(doc, step1), diffToOp(step1, step2));
+      const remote = diffToOp(doc, randomEdit(doc, random));
+      const [localPrime, remotePrime] = transformOps(local, remote);
+      expect(applyOp(step2, remotePrime)).toBe(applyOp(applyOp(doc, remote), localPrime));
+    }
+  });
+
+  it('should move cursors past inserted and deleted text', () => {
+    expect(transformIndex(5, [2, 'abc'])).toBe(8);
+    expect(transformIndex(1, [2, 'abc'])).toBe(1);
+    expect(transformIndex(5, [2, -2])).toBe(3);
+    expect(transformIndex(3, [2, -4])).toBe(2);
+  });
+});
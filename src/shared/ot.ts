@@ -0,0 +1,244 @@
+// Operational Transformation - تحويل العمليات على النص
+// عملية النص مصفوفة مكوّنات: عدد موجب = إبقاء، عدد سالب = حذف، نص = إدراج (على نمط ot.js)
+// يستعملها الخادم والعميل معًا كي يتقارب النص بين الكتّاب المتزامنين
+
+export type TextOp = Array<number | string>;
+
+const isRetain = (c: number | string): c is number => typeof c === 'number' && c > 0;
+const isDelete = (c: number | string): c is number => typeof c === 'number' && c < 0;
+const isInsert = (c: number | string): c is string => typeof c === 'string';
+
+/** يبني عملية مطبّعة: يدمج المكوّنات المتجاورة من النوع نفسه ويقدّم الإدراج على الحذف */
+class OpBuilder {
+  readonly ops: TextOp = [];
+
+  retain(n: number): this {
+    if (n <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (last !== undefined && isRetain(last)) {
+      this.ops[this.ops.length - 1] = last + n;
+    } else {
+      this.ops.push(n);
+    }
+    return this;
+  }
+
+  insert(text: string): this {
+    if (!text) return this;
+    const ops = this.ops;
+    const last = ops[ops.length - 1];
+    if (last !== undefined && isInsert(last)) {
+      ops[ops.length - 1] = last + text;
+    } else if (last !== undefined && isDelete(last)) {
+      // الإدراج قبل الحذف في الموضع نفسه يُبقي التمثيل وحيدًا
+      const beforeLast = ops[ops.length - 2];
+      if (beforeLast !== undefined && isInsert(beforeLast)) {
+        ops[ops.length - 2] = beforeLast + text;
+      } else {
+        ops.splice(ops.length - 1, 0, text);
+      }
+    } else {
+      ops.push(text);
+    }
+    return this;
+  }
+
+  delete(n: number): this {
+    if (n <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (last !== undefined && isDelete(last)) {
+      this.ops[this.ops.length - 1] = last - n;
+    } else {
+      this.ops.push(-n);
+    }
+    return this;
+  }
+
+  build(): TextOp {
+    const last = this.ops[this.ops.length - 1];
+    if (last !== undefined && isRetain(last)) this.ops.pop();
+    return this.ops;
+  }
+}
+
+/** طول النص الذي تنطبق عليه العملية (الإبقاء الأخير مضمَّن ضمنيًا حتى نهاية النص) */
+function consumedLength(op: TextOp): number {
+  return op.reduce<number>((sum, c) => (isInsert(c) ? sum : sum + Math.abs(c)), 0);
+}
+
+export function isNoop(op: TextOp): boolean {
+  return op.every((c) => isRetain(c));
+}
+
+export function applyOp(doc: string, op: TextOp): string {
+  if (consumedLength(op) > doc.length) {
+    throw new Error('العملية أطول من النص');
+  }
+  let result = '';
+  let index = 0;
+  for (const c of op) {
+    if (isInsert(c)) {
+      result += c;
+    } else if (isRetain(c)) {
+      result += doc.slice(index, index + c);
+      index += c;
+    } else {
+      index -= c;
+    }
+  }
+  return result + doc.slice(index);
+}
+
+/** مكوّنات العملية مع إبقاء ضمني لا نهائي في آخرها */
+class OpIterator {
+  private index = 0;
+  private offset = 0;
+
+  constructor(private readonly op: TextOp) {}
+
+  /** النوع والطول المتبقي للمكوّن الحالي */
+  peek(): { kind: 'retain' | 'delete' | 'insert'; length: number } {
+    const c = this.op[this.index];
+    if (c === undefined) return { kind: 'retain', length: Infinity };
+    if (isInsert(c)) return { kind: 'insert', length: c.length - this.offset };
+    return { kind: isRetain(c) ? 'retain' : 'delete', length: Math.abs(c) - this.offset };
+  }
+
+  hasExplicit(): boolean {
+    return this.index < this.op.length;
+  }
+
+  /** يستهلك n من المكوّن الحالي ويعيد النص المدرج إن كان إدراجًا */
+  take(n: number): string {
+    const c = this.op[this.index];
+    if (c === undefined) return '';
+    const text = isInsert(c) ? c.slice(this.offset, this.offset + n) : '';
+    const length = isInsert(c) ? c.length : Math.abs(c);
+    this.offset += n;
+    if (this.offset >= length) {
+      this.index++;
+      this.offset = 0;
+    }
+    return text;
+  }
+}
+
+/** دمج عمليتين متتاليتين (a ثم b) في عملية واحدة */
+export function composeOps(a: TextOp, b: TextOp): TextOp {
+  const result = new OpBuilder();
+  const ia = new OpIterator(a);
+  const ib = new OpIterator(b);
+
+  while (ia.hasExplicit() || ib.hasExplicit()) {
+    const pa = ia.peek();
+    const pb = ib.peek();
+
+    if (pa.kind === 'delete') {
+      result.delete(pa.length);
+      ia.take(pa.length);
+      continue;
+    }
+    if (pb.kind === 'insert') {
+      result.insert(ib.take(pb.length));
+      continue;
+    }
+
+    const n = Math.min(pa.length, pb.length);
+    if (pa.kind === 'retain') {
+      if (pb.kind === 'retain') result.retain(n);
+      else result.delete(n);
+    } else if (pb.kind === 'retain') {
+      result.insert(ia.take(n));
+      ib.take(n);
+      continue;
+    }
+    // إدراج في a يحذفه b: يُلغى كلاهما
+    ia.take(n);
+    ib.take(n);
+  }
+
+  return result.build();
+}
+
+/**
+ * تحويل عمليتين متزامنتين على النص نفسه: تُعاد [a', b'] بحيث
+ * apply(apply(doc, a), b') === apply(apply(doc, b), a').
+ * عند إدراجين في الموضع نفسه يتقدّم إدراج a.
+ */
+export function transformOps(a: TextOp, b: TextOp): [TextOp, TextOp] {
+  const aPrime = new OpBuilder();
+  const bPrime = new OpBuilder();
+  const ia = new OpIterator(a);
+  const ib = new OpIterator(b);
+
+  while (ia.hasExplicit() || ib.hasExplicit()) {
+    const pa = ia.peek();
+    const pb = ib.peek();
+
+    if (pa.kind === 'insert') {
+      const text = ia.take(pa.length);
+      aPrime.insert(text);
+      bPrime.retain(text.length);
+      continue;
+    }
+    if (pb.kind === 'insert') {
+      const text = ib.take(pb.length);
+      aPrime.retain(text.length);
+      bPrime.insert(text);
+      continue;
+    }
+
+    const n = Math.min(pa.length, pb.length);
+    if (pa.kind === 'retain' && pb.kind === 'retain') {
+      aPrime.retain(n);
+      bPrime.retain(n);
+    } else if (pa.kind === 'delete' && pb.kind === 'retain') {
+      aPrime.delete(n);
+    } else if (pa.kind === 'retain' && pb.kind === 'delete') {
+      bPrime.delete(n);
+    }
+    // حذف في الطرفين: النص محذوف أصلًا
+    ia.take(n);
+    ib.take(n);
+  }
+
+  return [aPrime.build(), bPrime.build()];
+}
+
+/** عملية تحوّل oldText إلى newText (منطقة تغيير واحدة بين البداية والنهاية المشتركتين) */
+export function diffToOp(oldText: string, newText: string): TextOp {
+  let start = 0;
+  const maxStart = Math.min(oldText.length, newText.length);
+  while (start < maxStart && oldText[start] === newText[start]) start++;
+
+  let oldEnd = oldText.length;
+  let newEnd = newText.length;
+  while (oldEnd > start && newEnd > start && oldText[oldEnd - 1] === newText[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  return new OpBuilder()
+    .retain(start)
+    .insert(newText.slice(start, newEnd))
+    .delete(oldEnd - start)
+    .build();
+}
+
+/** موضع مؤشر بعد تطبيق العملية */
+export function transformIndex(index: number, op: TextOp): number {
+  let position = 0;
+  let result = index;
+  for (const c of op) {
+    if (position > index) break;
+    if (isInsert(c)) {
+      result += c.length;
+    } else if (isRetain(c)) {
+      position += c;
+    } else {
+      result -= Math.min(-c, index - position);
+      position -= c;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,153 @@
+// Shared Schema - مخطط قاعدة البيانات المشترك بين الخادم والواجهة
+// جداول Drizzle للمستخدمين والمشاريع والسيناريوهات ونسخها وبياناتها المرافقة، مع مخططات zod للتحقق من المدخلات
+
+import { sql } from "drizzle-orm";
+import { jsonb, pgTable, primaryKey, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+export const projects = pgTable("projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const screenplays = pgTable("screenplays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  content: text("content").notNull().default(""),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+/** كتّاب مشاركون في سيناريو يملكه غيرهم (غرفة الكتابة) */
+export const screenplayCollaborators = pgTable(
+  "screenplay_collaborators",
+  {
+    screenplayId: varchar("screenplay_id")
+      .notNull()
+      .references(() => screenplays.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    addedAt: timestamp("added_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.screenplayId, table.userId] })],
+);
+
+/** نسخ مسمّاة من نص السيناريو */
+export const revisions = pgTable("revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  screenplayId: varchar("screenplay_id")
+    .notNull()
+    .references(() => screenplays.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/** بيانات الإنتاج المرافقة للسيناريو (ترقيم مقفل وغيره): قيمة JSON لكل مفتاح، تُحذف معه */
+export const screenplayData = pgTable(
+  "screenplay_data",
+  {
+    screenplayId: varchar("screenplay_id")
+      .notNull()
+      .references(() => screenplays.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    value: jsonb("value").notNull(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.screenplayId, table.key] })],
+);
+
+/** بيانات المستخدم خارج أي سيناريو (تصحيحات التصنيف) */
+export const userData = pgTable(
+  "user_data",
+  {
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    value: jsonb("value").notNull(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.key] })],
+);
+
+export const SCREENPLAY_DATA_KEYS = ["scene-lock", "revisions", "breakdown", "rules", "schedule"] as const;
+export const USER_DATA_KEYS = ["line-corrections"] as const;
+
+export const screenplayDataKeySchema = z.enum(SCREENPLAY_DATA_KEYS);
+export const userDataKeySchema = z.enum(USER_DATA_KEYS);
+
+// الحذف بطلب DELETE، فلا تُقبل null قيمةً
+export const putDataSchema = z.object({
+  value: z.unknown().refine((value) => value !== undefined && value !== null, "القيمة مطلوبة"),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3, "اسم المستخدم قصير جدًا").max(32, "اسم المستخدم طويل جدًا"),
+  password: (schema) => schema.min(8, "كلمة المرور يجب ألا تقل عن 8 أحرف"),
+}).pick({
+  username: true,
+  password: true,
+});
+
+export const insertProjectSchema = createInsertSchema(projects).pick({
+  ownerId: true,
+  name: true,
+});
+
+// المعرّف اختياري: يولّده الخادم، أو يرسله العميل حين يُنشأ السيناريو محليًا أولًا
+// المالك لا يُقبل من الطلب؛ يحدده الخادم من الجلسة
+export const insertScreenplaySchema = createInsertSchema(screenplays, {
+  id: (schema) => schema.uuid(),
+  title: (schema) => schema.trim().min(1, "العنوان مطلوب"),
+}).pick({
+  id: true,
+  projectId: true,
+  title: true,
+  content: true,
+});
+
+export const updateScreenplaySchema = insertScreenplaySchema.omit({ id: true }).partial();
+
+export const insertRevisionSchema = createInsertSchema(revisions, {
+  id: (schema) => schema.uuid(),
+  name: (schema) => schema.trim().min(1, "اسم النسخة مطلوب"),
+}).pick({
+  id: true,
+  name: true,
+  content: true,
+});
+
+export const addCollaboratorSchema = z.object({
+  username: z.string().trim().min(1, "أدخل اسم المستخدم"),
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+/** المستخدم كما يُرسل إلى الواجهة، دون كلمة المرور */
+export type PublicUser = Omit<User, "password">;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+export type InsertScreenplay = z.infer<typeof insertScreenplaySchema>;
+export type UpdateScreenplay = z.infer<typeof updateScreenplaySchema>;
+export type Screenplay = typeof screenplays.$inferSelect;
+export type ScreenplaySummary = Omit<Screenplay, "content">;
+export type Collaborator = typeof screenplayCollaborators.$inferSelect;
+export type InsertRevision = z.infer<typeof insertRevisionSchema>;
+export type Revision = typeof revisions.$inferSelect;
+export type ScreenplayDataKey = z.infer<typeof screenplayDataKeySchema>;
+export type UserDataKey = z.infer<typeof userDataKeySchema>;
@@ -19,6 +19,12 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(process.cwd(), "src"),
+      "@shared": path.resolve(process.cwd(), "src/shared"),
     },
   },
+  build: {
+    // dist/index.js هو الخادم؛ الواجهة تُبنى إلى dist/public التي يقدّمها
+    outDir: path.resolve(process.cwd(), "dist/public"),
+    emptyOutDir: true,
+  },
 })
\ No newline at end of file